@@ -1,9 +1,52 @@
 import express from "express";
 import multer from "multer";
-import { PDFDocument } from "pdf-lib";
+import { PDFDocument, degrees } from "pdf-lib";
+// pdf-lib fork with encryption support, used by the security routes
+import {
+  PDFDocument as SecurePDFDocument,
+  EncryptedPDFError as SecureEncryptedPDFError,
+  PDFName,
+} from "@cantoo/pdf-lib";
 import cors from "cors";
+import JSZip from "jszip";
 import path from "path";
 import { fileURLToPath } from "url";
+import crypto from "crypto";
+import { parsePageRanges, PageRangeError } from "./utils/pageRanges.js";
+import { pruneUnreachableObjects } from "./utils/pdfObjects.js";
+import { compressPdf, COMPRESSION_PRESETS, EncryptedInputError } from "./utils/pdfCompress.js";
+import { setOutline, validateOutline, OutlineError } from "./utils/pdfOutline.js";
+import {
+  ImageOptionError,
+  OUTPUT_FORMATS,
+  loadImage,
+  orientedSize,
+  parseOutputFormat,
+  parseResizeOptions,
+  parseCropOptions,
+  parseEncodeOptions,
+  encodeImage,
+} from "./utils/imageProcessing.js";
+import { validateAdjustments, applyAdjustments } from "./utils/imageAdjust.js";
+import { parseWatermarkOptions, watermarkImage, watermarkPdf, WatermarkError } from "./utils/watermark.js";
+import { parseCollageOptions, renderCollage } from "./utils/collage.js";
+import { parseBackgroundOptions, removeBackground } from "./utils/backgroundRemoval.js";
+import { describeImage, stripMetadata } from "./utils/metadata.js";
+import {
+  parseRasterizeOptions,
+  assertRasterizerAvailable,
+  rasterizePage,
+  RasterizerUnavailableError,
+} from "./utils/pdfRasterize.js";
+import {
+  MAX_BATCH_FILES,
+  BatchQueueFullError,
+  validateBatchSteps,
+  createBatch,
+  getBatch,
+  cancelBatch,
+  batchStatus,
+} from "./utils/batchQueue.js";
 
 const app = express();
 const upload = multer(); // in-memory upload
@@ -21,46 +64,761 @@ app.use(
       "https://sharp-tools.netlify.app", // Netlify
     ],
     methods: ["GET", "POST"],
+    // Size reports of /compress and the image routes, readable by the browser
+    exposedHeaders: [
+      "X-Original-Size",
+      "X-Compressed-Size",
+      "X-Images-Recompressed",
+      "X-Image-Width",
+      "X-Image-Height",
+    ],
   })
 );
 app.use(express.json());
 
+// Copy the given 1-based pages of `srcDoc` into a new PDF and return its bytes
+const extractPages = async (srcDoc, pageNumbers) => {
+  const newPdf = await PDFDocument.create();
+  const copiedPages = await newPdf.copyPages(
+    srcDoc,
+    pageNumbers.map((p) => p - 1)
+  );
+  copiedPages.forEach((page) => newPdf.addPage(page));
+  return newPdf.save();
+};
+
+// "report (final).pdf" -> "report_final"
+const baseFileName = (originalName) =>
+  path
+    .basename(originalName || "document", path.extname(originalName || ""))
+    .replace(/[^\w.-]+/g, "_")
+    .replace(/^_+|_+$/g, "") || "document";
+
+// Send an encoded image (see encodeImage) with its size in the X-Image-* headers
+const sendImage = (res, { data, info }, format, name) => {
+  const { extension, mimeType } = OUTPUT_FORMATS[format];
+  res.setHeader("Content-Type", mimeType);
+  res.setHeader("Content-Disposition", `attachment; filename=${name}.${extension}`);
+  res.setHeader("X-Image-Width", info.width);
+  res.setHeader("X-Image-Height", info.pageHeight ?? info.height);
+  res.send(data);
+};
+
+const SPLIT_MODES = ["extract", "burst", "every", "groups"];
+
 // ✅ API: PDF Split
+// mode=extract (default): one PDF with the selected `pages`
+// mode=burst:  one PDF per page (optionally only the selected `pages`)
+// mode=every:  chunks of `size` pages
+// mode=groups: one PDF per ";"-separated group in `pages`, e.g. "1-3;4-9;10-"
+// Every mode except extract responds with a ZIP.
 app.post("/split", upload.single("file"), async (req, res) => {
   try {
     if (!req.file) return res.status(400).send("No PDF uploaded");
 
-    const { pages } = req.body;
-    if (!pages) return res.status(400).send("No pages specified");
-
-    const selectedPages = pages
-      .split(",")
-      .map((p) => parseInt(p.trim(), 10))
-      .filter((p) => !isNaN(p));
+    const { pages, mode = "extract", size } = req.body;
+    if (!SPLIT_MODES.includes(mode)) {
+      return res.status(400).send(`Unknown split mode "${mode}"`);
+    }
+    if ((mode === "extract" || mode === "groups") && !pages) {
+      return res.status(400).send("No pages specified");
+    }
 
     // Load uploaded PDF
     const pdfDoc = await PDFDocument.load(req.file.buffer);
+    const pageCount = pdfDoc.getPageCount();
 
-    // Create new PDF with selected pages
-    const newPdf = await PDFDocument.create();
-    for (const pageNum of selectedPages) {
-      if (pageNum >= 1 && pageNum <= pdfDoc.getPageCount()) {
-        const [copiedPage] = await newPdf.copyPages(pdfDoc, [pageNum - 1]);
-        newPdf.addPage(copiedPage);
+    if (mode === "extract") {
+      const pdfBytes = await extractPages(pdfDoc, parsePageRanges(pages, pageCount));
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", "attachment; filename=split.pdf");
+      return res.send(Buffer.from(pdfBytes));
+    }
+
+    // Work out the page list of every output file
+    let parts;
+    if (mode === "burst") {
+      // One file per page, so a page selected twice would give two entries with the same name
+      const selected = pages
+        ? [...new Set(parsePageRanges(pages, pageCount))]
+        : pdfDoc.getPageIndices().map((i) => i + 1);
+      parts = selected.map((p) => [p]);
+    } else if (mode === "every") {
+      const chunkSize = parseInt(size, 10);
+      if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+        return res.status(400).send("Chunk size must be a positive whole number");
+      }
+      parts = [];
+      for (let start = 1; start <= pageCount; start += chunkSize) {
+        const end = Math.min(start + chunkSize - 1, pageCount);
+        parts.push(Array.from({ length: end - start + 1 }, (_, i) => start + i));
       }
+    } else {
+      const groups = pages.split(";").map((g) => g.trim()).filter(Boolean);
+      if (groups.length === 0) return res.status(400).send("No page groups specified");
+      parts = groups.map((group, i) => {
+        try {
+          return parsePageRanges(group, pageCount);
+        } catch (err) {
+          if (err instanceof PageRangeError) err.message = `Group ${i + 1}: ${err.message}`;
+          throw err;
+        }
+      });
+    }
+
+    const baseName = baseFileName(req.file.originalname);
+    const pad = (n, max) => String(n).padStart(String(max).length, "0");
+    const zip = new JSZip();
+
+    for (const [i, partPages] of parts.entries()) {
+      const fileName =
+        mode === "burst"
+          ? `${baseName}_page_${pad(partPages[0], pageCount)}.pdf`
+          : `${baseName}_part_${pad(i + 1, parts.length)}.pdf`;
+      zip.file(fileName, await extractPages(pdfDoc, partPages));
     }
 
-    const pdfBytes = await newPdf.save();
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", `attachment; filename=${baseName}_split.zip`);
+    zip
+      .generateNodeStream({ type: "nodebuffer", streamFiles: true, compression: "DEFLATE" })
+      .pipe(res);
+  } catch (err) {
+    if (err instanceof PageRangeError) return res.status(400).send(err.message);
+    console.error("❌ Error splitting PDF:", err);
+    res.status(500).send("Error processing PDF");
+  }
+});
+
+// ✅ API: PDF Merge
+// Files are merged in upload order. An optional `pages[<index>]` field
+// restricts which pages are taken from the file at that index (e.g. "1-3,7").
+// With bookmarks=true every file gets a bookmark at its first merged page.
+app.post("/merge", upload.array("files"), async (req, res) => {
+  try {
+    if (!req.files || req.files.length < 2) {
+      return res.status(400).send("Upload at least 2 PDFs to merge");
+    }
+
+    const ranges = Array.isArray(req.body.pages) ? req.body.pages : [];
+    const mergedPdf = await PDFDocument.create();
+    const fileBookmarks = [];
+
+    for (const [index, file] of req.files.entries()) {
+      // pdf-lib's ES5 build loses the EncryptedPDFError prototype, so check the flag instead
+      const pdfDoc = await PDFDocument.load(file.buffer, { ignoreEncryption: true });
+      if (pdfDoc.isEncrypted) {
+        return res.status(400).send(`${file.originalname}: this PDF is password protected. Unlock it before merging`);
+      }
+
+      let pageIndices = pdfDoc.getPageIndices();
+      const range = ranges[index];
+      if (typeof range === "string" && range.trim()) {
+        try {
+          pageIndices = parsePageRanges(range, pdfDoc.getPageCount()).map((p) => p - 1);
+        } catch (err) {
+          if (err instanceof PageRangeError) {
+            return res.status(400).send(`${file.originalname}: ${err.message}`);
+          }
+          throw err;
+        }
+      }
+
+      fileBookmarks.push({
+        title: path.basename(file.originalname, path.extname(file.originalname)),
+        page: mergedPdf.getPageCount() + 1,
+        children: [],
+      });
+      const copiedPages = await mergedPdf.copyPages(pdfDoc, pageIndices);
+      copiedPages.forEach((page) => mergedPdf.addPage(page));
+    }
+
+    if (req.body.bookmarks === "true") setOutline(mergedPdf, fileBookmarks);
+    const pdfBytes = await mergedPdf.save();
 
     res.setHeader("Content-Type", "application/pdf");
-    res.setHeader("Content-Disposition", "attachment; filename=split.pdf");
+    res.setHeader("Content-Disposition", "attachment; filename=merged.pdf");
     res.send(Buffer.from(pdfBytes));
   } catch (err) {
-    console.error("❌ Error splitting PDF:", err);
+    console.error("❌ Error merging PDFs:", err);
+    res.status(500).send("Error processing PDF");
+  }
+});
+
+// ✅ API: PDF Rotate
+// `rotations` is a JSON array of clockwise degrees (multiples of 90), one per
+// page, added to each page's existing rotation. Only the page /Rotate entry
+// changes, so the content stays vector.
+app.post("/rotate", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).send("No PDF uploaded");
+
+    let rotations;
+    try {
+      rotations = JSON.parse(req.body.rotations || "[]");
+    } catch {
+      return res.status(400).send("Rotations must be a JSON array");
+    }
+    if (
+      !Array.isArray(rotations) ||
+      rotations.some((r) => !Number.isInteger(r) || r % 90 !== 0)
+    ) {
+      return res.status(400).send("Rotations must be multiples of 90 degrees");
+    }
+
+    const pdfDoc = await PDFDocument.load(req.file.buffer);
+    const pdfPages = pdfDoc.getPages();
+    if (rotations.length > pdfPages.length) {
+      return res
+        .status(400)
+        .send(`Got ${rotations.length} rotations for a ${pdfPages.length}-page document`);
+    }
+
+    pdfPages.forEach((page, i) => {
+      const delta = rotations[i] || 0;
+      if (delta === 0) return;
+      const angle = (((page.getRotation().angle + delta) % 360) + 360) % 360;
+      page.setRotation(degrees(angle));
+    });
+
+    const pdfBytes = await pdfDoc.save();
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", "attachment; filename=rotated.pdf");
+    res.send(Buffer.from(pdfBytes));
+  } catch (err) {
+    console.error("❌ Error rotating PDF:", err);
+    res.status(500).send("Error processing PDF");
+  }
+});
+
+const ENCRYPTION_ALGORITHMS = ["AES-128", "AES-256"];
+const PDF_PERMISSIONS = ["printing", "copying", "modifying", "annotating"];
+
+// ✅ API: PDF Protect
+// Fields: userPassword (required to open), ownerPassword (full access; a random
+// one is generated when omitted so the permissions cannot be bypassed),
+// algorithm (AES-128 | AES-256) and one "true"/"false" field per permission.
+app.post("/protect", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).send("No PDF uploaded");
+
+    const { userPassword, ownerPassword, algorithm = "AES-256" } = req.body;
+    if (!userPassword) return res.status(400).send("A password is required");
+    if (!ENCRYPTION_ALGORITHMS.includes(algorithm)) {
+      return res.status(400).send(`Unsupported encryption algorithm "${algorithm}"`);
+    }
+
+    const permissions = Object.fromEntries(
+      PDF_PERMISSIONS.map((name) => [name, req.body[name] === "true"])
+    );
+    if (permissions.printing) permissions.printing = "highResolution";
+
+    let pdfDoc;
+    try {
+      pdfDoc = await SecurePDFDocument.load(req.file.buffer);
+    } catch (err) {
+      if (err instanceof SecureEncryptedPDFError) {
+        return res.status(400).send("This PDF is already encrypted. Unlock it first.");
+      }
+      throw err;
+    }
+
+    pdfDoc.encrypt({
+      userPassword,
+      ownerPassword: ownerPassword || crypto.randomBytes(24).toString("base64"),
+      algorithm,
+      permissions,
+    });
+
+    const pdfBytes = await pdfDoc.save();
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", "attachment; filename=protected.pdf");
+    res.send(Buffer.from(pdfBytes));
+  } catch (err) {
+    console.error("❌ Error protecting PDF:", err);
+    res.status(500).send("Error processing PDF");
+  }
+});
+
+// Security handlers @cantoo/pdf-lib can decrypt (standard handler, V 1/2/4/5)
+const SUPPORTED_ENCRYPTION_VERSIONS = [1, 2, 4, 5];
+
+// ✅ API: PDF Unlock
+// Responds 400 when the PDF is not encrypted, 401 for a wrong or missing
+// password and 422 when the encryption scheme is not supported.
+app.post("/unlock", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).send("No PDF uploaded");
+
+    const { password = "" } = req.body;
+
+    // Inspect the encryption dictionary without decrypting
+    const probe = await SecurePDFDocument.load(req.file.buffer, {
+      ignoreEncryption: true,
+      updateMetadata: false,
+    });
+    if (!probe.isEncrypted) {
+      return res.status(400).send("This PDF is not encrypted");
+    }
+
+    const encryptDict = probe.context.lookup(probe.context.trailerInfo.Encrypt);
+    const filter = encryptDict?.get(PDFName.of("Filter"))?.asString?.();
+    const version = encryptDict?.get(PDFName.of("V"))?.asNumber?.();
+    if (filter !== "/Standard" || !SUPPORTED_ENCRYPTION_VERSIONS.includes(version)) {
+      return res
+        .status(422)
+        .send(`Unsupported encryption (${filter || "unknown"} handler, version ${version ?? "unknown"})`);
+    }
+
+    let pdfDoc;
+    try {
+      pdfDoc = await SecurePDFDocument.load(req.file.buffer, { password, updateMetadata: false });
+    } catch (err) {
+      if (err.message === "Password incorrect" || err.message === "NEEDS PASSWORD") {
+        return res.status(401).send(password ? "Incorrect password" : "This PDF requires a password");
+      }
+      return res.status(422).send(`Unsupported encryption: ${err.message}`);
+    }
+
+    // Drop the old encryption dictionary and trailer objects left behind
+    pruneUnreachableObjects(pdfDoc.context);
+    const pdfBytes = await pdfDoc.save();
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", "attachment; filename=unlocked.pdf");
+    res.send(Buffer.from(pdfBytes));
+  } catch (err) {
+    console.error("❌ Error unlocking PDF:", err);
+    res.status(500).send("Error processing PDF");
+  }
+});
+
+// ✅ API: PDF Compress
+// preset: screen (72 dpi) | ebook (150 dpi, default) | print (300 dpi)
+// Sizes are reported in the X-Original-Size / X-Compressed-Size headers
+app.post("/compress", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).send("No PDF uploaded");
+
+    const { preset = "ebook" } = req.body;
+    if (!COMPRESSION_PRESETS[preset]) {
+      return res
+        .status(400)
+        .send(`Unknown preset "${preset}" (expected ${Object.keys(COMPRESSION_PRESETS).join(", ")})`);
+    }
+
+    let result;
+    try {
+      result = await compressPdf(req.file.buffer, preset);
+    } catch (err) {
+      if (err instanceof EncryptedInputError) {
+        return res.status(400).send("This PDF is password protected. Unlock it before compressing");
+      }
+      throw err;
+    }
+
+    // Never hand back a bigger file than we were given
+    const pdfBytes =
+      result.bytes.length < req.file.size ? Buffer.from(result.bytes) : req.file.buffer;
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", "attachment; filename=compressed.pdf");
+    res.setHeader("X-Original-Size", req.file.size);
+    res.setHeader("X-Compressed-Size", pdfBytes.length);
+    res.setHeader("X-Images-Recompressed", result.imagesRecompressed);
+    res.send(pdfBytes);
+  } catch (err) {
+    console.error("❌ Error compressing PDF:", err);
+    res.status(500).send("Error processing PDF");
+  }
+});
+
+// ✅ API: PDF Bookmarks
+// `outline` is a JSON array of { title, page, children } that replaces the
+// document outline. An empty array removes all bookmarks.
+app.post("/bookmarks", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).send("No PDF uploaded");
+
+    let outline;
+    try {
+      outline = JSON.parse(req.body.outline || "[]");
+    } catch {
+      return res.status(400).send("Bookmarks must be a JSON array");
+    }
+
+    const pdfDoc = await PDFDocument.load(req.file.buffer);
+    setOutline(pdfDoc, validateOutline(outline, pdfDoc.getPageCount()));
+    const pdfBytes = await pdfDoc.save();
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", "attachment; filename=bookmarked.pdf");
+    res.send(Buffer.from(pdfBytes));
+  } catch (err) {
+    if (err instanceof OutlineError) return res.status(400).send(err.message);
+    console.error("❌ Error writing bookmarks:", err);
+    res.status(500).send("Error processing PDF");
+  }
+});
+
+// ✅ API: PDF Watermark
+// `text` or a `logo` image file, drawn on the pages in `pages` (default: all)
+// position: top-left ... bottom-right (9 anchors) | tiled | diagonal
+// opacity: 1-100, rotation: counter-clockwise degrees, fontSize / margin in points,
+// logoWidth: percent of the page width; see utils/watermark.js
+app.post("/watermark", upload.fields([{ name: "file", maxCount: 1 }, { name: "logo", maxCount: 1 }]), async (req, res) => {
+  try {
+    const file = req.files?.file?.[0];
+    if (!file) return res.status(400).send("No PDF uploaded");
+
+    const options = parseWatermarkOptions(req.body, req.files.logo?.[0]?.buffer);
+    // pdf-lib's ES5 build loses the EncryptedPDFError prototype, so check the flag instead
+    const pdfDoc = await PDFDocument.load(file.buffer, { ignoreEncryption: true });
+    if (pdfDoc.isEncrypted) {
+      return res.status(400).send("This PDF is password protected. Unlock it before adding a watermark");
+    }
+
+    const pages = req.body.pages?.trim()
+      ? [...new Set(parsePageRanges(req.body.pages, pdfDoc.getPageCount()))].map((p) => p - 1)
+      : pdfDoc.getPageIndices();
+    await watermarkPdf(pdfDoc, pages, options);
+    const pdfBytes = await pdfDoc.save();
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", "attachment; filename=watermarked.pdf");
+    res.send(Buffer.from(pdfBytes));
+  } catch (err) {
+    if (err instanceof WatermarkError || err instanceof PageRangeError) {
+      return res.status(400).send(err.message);
+    }
+    console.error("❌ Error watermarking PDF:", err);
+    res.status(500).send("Error processing PDF");
+  }
+});
+
+// ✅ API: PDF to Images
+// Renders `pages` (default: all) at `dpi` (72-600, default 150) as `format`
+// (png | jpeg | webp, `quality` 1-100 for the lossy ones) and responds with a
+// ZIP; the server-side alternative to the browser renderer of PDF to Images
+app.post("/pdf-to-images", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).send("No PDF uploaded");
+
+    const options = parseRasterizeOptions(req.body);
+    // pdf-lib's ES5 build loses the EncryptedPDFError prototype, so check the flag instead
+    const pdfDoc = await PDFDocument.load(req.file.buffer, { ignoreEncryption: true });
+    if (pdfDoc.isEncrypted) {
+      return res.status(400).send("This PDF is password protected. Unlock it before converting");
+    }
+
+    const pageCount = pdfDoc.getPageCount();
+    const pages = req.body.pages?.trim()
+      ? [...new Set(parsePageRanges(req.body.pages, pageCount))]
+      : pdfDoc.getPageIndices().map((i) => i + 1);
+    // Only once the request itself is known to be valid
+    await assertRasterizerAvailable();
+
+    const baseName = baseFileName(req.file.originalname);
+    const { extension } = OUTPUT_FORMATS[options.format];
+    const zip = new JSZip();
+
+    // One page at a time keeps memory bounded by the largest page
+    for (const pageNumber of pages) {
+      // Stop rendering for a client that has gone away
+      if (res.destroyed) return;
+      const { data } = await rasterizePage(req.file.buffer, pdfDoc, pageNumber, options);
+      zip.file(`${baseName}_page_${pageNumber}.${extension}`, data);
+    }
+
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", `attachment; filename=${baseName}_images.zip`);
+    // The images are compressed already; deflating them again only costs time
+    zip
+      .generateNodeStream({ type: "nodebuffer", streamFiles: true, compression: "STORE" })
+      .pipe(res);
+  } catch (err) {
+    if (err instanceof ImageOptionError || err instanceof PageRangeError) {
+      return res.status(400).send(err.message);
+    }
+    if (err instanceof RasterizerUnavailableError) return res.status(503).send(err.message);
+    console.error("❌ Error converting PDF to images:", err);
     res.status(500).send("Error processing PDF");
   }
 });
 
+// ✅ API: Image Resize
+// unit=px: `width` and/or `height`; unit=percent: `percent` of the original size
+// fit: inside (default) | contain | cover | fill | outside; keepAspect=false stretches
+// The output keeps the input format unless `format` is given
+app.post("/image/resize", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).send("No image uploaded");
+
+    const { image, metadata, format } = await loadImage(req.file.buffer, req.body.format);
+    const resized = image.resize(parseResizeOptions(req.body, metadata, format));
+    const output = await encodeImage(resized, format, parseEncodeOptions(req.body));
+
+    sendImage(res, output, format, "resized");
+  } catch (err) {
+    if (err instanceof ImageOptionError) return res.status(400).send(err.message);
+    console.error("❌ Error resizing image:", err);
+    res.status(500).send("Error processing image");
+  }
+});
+
+// ✅ API: Image Crop
+// `left`, `top`, `width`, `height` in pixels of the full-resolution original
+// `outputWidth` / `outputHeight` optionally scale the result to an exact size
+app.post("/image/crop", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).send("No image uploaded");
+
+    const { image, metadata, format } = await loadImage(req.file.buffer, req.body.format);
+    const { region, output } = parseCropOptions(req.body, metadata);
+    // extract() before resize() crops the original, then scales the cropped area
+    const cropped = output ? image.extract(region).resize(output) : image.extract(region);
+
+    sendImage(res, await encodeImage(cropped, format, parseEncodeOptions(req.body)), format, "cropped");
+  } catch (err) {
+    if (err instanceof ImageOptionError) return res.status(400).send(err.message);
+    console.error("❌ Error cropping image:", err);
+    res.status(500).send("Error processing image");
+  }
+});
+
+// ✅ API: Image Compress
+// quality: 1-100 (default 75), effort: 1-10, format: defaults to the input format
+// Sizes are reported in the X-Original-Size / X-Compressed-Size headers
+app.post("/image/compress", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).send("No image uploaded");
+
+    const { image, metadata, format } = await loadImage(req.file.buffer, req.body.format);
+    const options = parseEncodeOptions(req.body);
+    let output = await encodeImage(image, format, { ...options, quality: options.quality ?? 75 });
+
+    // Never hand back a bigger file than we were given
+    if (output.data.length >= req.file.size && metadata.format === format) {
+      const { width, height } = output.info;
+      output = { data: req.file.buffer, info: { width, height } };
+    }
+
+    res.setHeader("X-Original-Size", req.file.size);
+    res.setHeader("X-Compressed-Size", output.data.length);
+    sendImage(res, output, format, "compressed");
+  } catch (err) {
+    if (err instanceof ImageOptionError) return res.status(400).send(err.message);
+    console.error("❌ Error compressing image:", err);
+    res.status(500).send("Error processing image");
+  }
+});
+
+// ✅ API: Image Convert
+// format: jpeg | png | webp | avif | gif | tiff; `quality` is optional
+// Transparent areas are filled with `background` (default white) for JPEG
+app.post("/image/convert", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).send("No image uploaded");
+    if (!req.body.format) return res.status(400).send("Choose a format to convert to");
+
+    const { image, format } = await loadImage(req.file.buffer, req.body.format);
+    const output = await encodeImage(image, format, parseEncodeOptions(req.body));
+
+    sendImage(res, output, format, "converted");
+  } catch (err) {
+    if (err instanceof ImageOptionError) return res.status(400).send(err.message);
+    console.error("❌ Error converting image:", err);
+    res.status(500).send("Error processing image");
+  }
+});
+
+// ✅ API: Image Adjust
+// adjustments: JSON list of { type, value } applied in order, e.g.
+// [{"type":"brightness","value":20},{"type":"sepia","value":60}]
+// Types and ranges are listed in utils/imageAdjust.js; animations keep the first frame
+app.post("/image/adjust", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).send("No image uploaded");
+
+    let adjustments;
+    try {
+      adjustments = JSON.parse(req.body.adjustments ?? "[]");
+    } catch {
+      return res.status(400).send("Adjustments must be valid JSON");
+    }
+    adjustments = validateAdjustments(adjustments);
+
+    const { image, format } = await loadImage(req.file.buffer, req.body.format, { keepFrames: false });
+    const adjusted = await applyAdjustments(image, adjustments);
+
+    sendImage(res, await encodeImage(adjusted, format, parseEncodeOptions(req.body)), format, "adjusted");
+  } catch (err) {
+    if (err instanceof ImageOptionError) return res.status(400).send(err.message);
+    console.error("❌ Error adjusting image:", err);
+    res.status(500).send("Error processing image");
+  }
+});
+
+// ✅ API: Image Watermark
+// Same watermark fields as /watermark, with fontSize and margin in pixels.
+// The output keeps the input format unless `format` is given; animations keep the first frame
+app.post("/image/watermark", upload.fields([{ name: "file", maxCount: 1 }, { name: "logo", maxCount: 1 }]), async (req, res) => {
+  try {
+    const file = req.files?.file?.[0];
+    if (!file) return res.status(400).send("No image uploaded");
+
+    const options = parseWatermarkOptions(req.body, req.files.logo?.[0]?.buffer);
+    const { image, metadata, format } = await loadImage(file.buffer, req.body.format, { keepFrames: false });
+    const watermarked = await watermarkImage(image, orientedSize(metadata), options);
+
+    sendImage(res, await encodeImage(watermarked, format, parseEncodeOptions(req.body)), format, "watermarked");
+  } catch (err) {
+    if (err instanceof ImageOptionError || err instanceof WatermarkError) {
+      return res.status(400).send(err.message);
+    }
+    console.error("❌ Error watermarking image:", err);
+    res.status(500).send("Error processing image");
+  }
+});
+
+// ✅ API: Image Collage
+// `files` are the images; template: 2x2 | 3x3 | 1+2 | masonry (with `columns`)
+// `cells` is a JSON list of the image index shown in each cell (null = empty);
+// width/height, spacing, border and background describe the canvas, format defaults to jpeg
+app.post("/image/collage", upload.array("files"), async (req, res) => {
+  try {
+    if (!req.files || req.files.length === 0) return res.status(400).send("No images uploaded");
+
+    const options = parseCollageOptions(req.body, req.files.length);
+    const format = parseOutputFormat(req.body.format, "jpeg");
+    const collage = await renderCollage(
+      req.files.map((file) => file.buffer),
+      options
+    );
+
+    sendImage(res, await encodeImage(collage, format, parseEncodeOptions(req.body)), format, "collage");
+  } catch (err) {
+    if (err instanceof ImageOptionError) return res.status(400).send(err.message);
+    console.error("❌ Error creating collage:", err);
+    res.status(500).send("Error processing image");
+  }
+});
+
+// ✅ API: Remove Background
+// mode=flood (default) clears the backdrop connected to the image edges, mode=color
+// every pixel close to the key `color` (detected from the edges when empty).
+// tolerance/softness (0-100) set how close a color must be; shrink/feather (px) refine the edge.
+// `mask` is an optional brush PNG: opaque white keeps, opaque black erases.
+// The result is transparent unless `background` is given; format defaults to png
+app.post("/image/remove-background", upload.fields([{ name: "file", maxCount: 1 }, { name: "mask", maxCount: 1 }]), async (req, res) => {
+  try {
+    const file = req.files?.file?.[0];
+    if (!file) return res.status(400).send("No image uploaded");
+
+    const options = parseBackgroundOptions(req.body);
+    const encodeOptions = parseEncodeOptions(req.body);
+    const { image, format } = await loadImage(file.buffer, req.body.format || "png", { keepFrames: false });
+    let cutout = await removeBackground(image, options, req.files.mask?.[0]?.buffer);
+    if (encodeOptions.background) cutout = cutout.flatten({ background: encodeOptions.background });
+
+    sendImage(res, await encodeImage(cutout, format, encodeOptions), format, "no-background");
+  } catch (err) {
+    if (err instanceof ImageOptionError) return res.status(400).send(err.message);
+    console.error("❌ Error removing background:", err);
+    res.status(500).send("Error processing image");
+  }
+});
+
+// ✅ API: Image Metadata
+// Responds with JSON: size, color space, ICC profile name, EXIF/GPS tags, IPTC and XMP
+app.post("/image/metadata", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).send("No image uploaded");
+    res.json(await describeImage(req.file.buffer));
+  } catch (err) {
+    if (err instanceof ImageOptionError) return res.status(400).send(err.message);
+    console.error("❌ Error reading metadata:", err);
+    res.status(500).send("Error processing image");
+  }
+});
+
+// ✅ API: Strip Metadata
+// mode=all (default) removes EXIF, GPS, IPTC, XMP and comments; mode=gps only the location.
+// The ICC profile and the orientation are kept so the image still looks the same
+app.post("/image/strip-metadata", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).send("No image uploaded");
+    const mode = req.body.mode || "all";
+    if (mode !== "all" && mode !== "gps") return res.status(400).send(`Unknown mode "${mode}" (expected all, gps)`);
+
+    const { format, ...output } = await stripMetadata(req.file.buffer, mode === "gps");
+    sendImage(res, output, format, mode === "gps" ? "no-location" : "no-metadata");
+  } catch (err) {
+    if (err instanceof ImageOptionError) return res.status(400).send(err.message);
+    console.error("❌ Error stripping metadata:", err);
+    res.status(500).send("Error processing image");
+  }
+});
+
+// ✅ API: Image Batch
+// `files` are the images; steps: JSON operation chain, e.g.
+// [{"type":"resize","unit":"percent","percent":50},{"type":"convert","format":"webp"},{"type":"compress","quality":70}]
+// Step fields match the single-image routes (see utils/batchQueue.js). Responds
+// 202 with the batch status; poll GET /image/batch/:id until `finished`.
+app.post("/image/batch", upload.array("files"), async (req, res) => {
+  try {
+    if (!req.files || req.files.length === 0) return res.status(400).send("No images uploaded");
+    if (req.files.length > MAX_BATCH_FILES) {
+      return res.status(400).send(`A batch can hold at most ${MAX_BATCH_FILES} images`);
+    }
+
+    let steps;
+    try {
+      steps = JSON.parse(req.body.steps ?? "[]");
+    } catch {
+      return res.status(400).send("Steps must be valid JSON");
+    }
+
+    const batch = createBatch(req.files, validateBatchSteps(steps));
+    res.status(202).json(batchStatus(batch));
+  } catch (err) {
+    if (err instanceof ImageOptionError) return res.status(400).send(err.message);
+    if (err instanceof BatchQueueFullError) return res.status(503).send(err.message);
+    console.error("❌ Error starting batch:", err);
+    res.status(500).send("Error processing images");
+  }
+});
+
+// Per-file progress: status is queued | processing | done | failed | cancelled
+app.get("/image/batch/:id", (req, res) => {
+  const batch = getBatch(req.params.id);
+  if (!batch) return res.status(404).send("This batch has expired or doesn't exist");
+  res.json(batchStatus(batch));
+});
+
+// Skip the files that haven't started yet; finished ones can still be downloaded
+app.post("/image/batch/:id/cancel", (req, res) => {
+  const batch = getBatch(req.params.id);
+  if (!batch) return res.status(404).send("This batch has expired or doesn't exist");
+  cancelBatch(batch);
+  res.json(batchStatus(batch));
+});
+
+// The processed image at `index` of the batch (see outputName in the status)
+app.get("/image/batch/:id/files/:index", (req, res) => {
+  const batch = getBatch(req.params.id);
+  if (!batch) return res.status(404).send("This batch has expired or doesn't exist");
+  const file = batch.files[Number(req.params.index)];
+  if (!file) return res.status(404).send("No such file in this batch");
+  if (file.status !== "done") return res.status(409).send(`${file.name} is not processed (${file.status})`);
+
+  const { output, width, height, format } = file;
+  sendImage(res, { data: output, info: { width, height } }, format, baseFileName(file.name));
+});
+
 // ✅ Serve React build (production only)
 const buildPath = path.join(__dirname, "../dist"); // adjust if build is elsewhere
 app.use(express.static(buildPath));
@@ -0,0 +1,186 @@
+import sharp from "sharp";
+import { ImageOptionError, parseInteger } from "./imageProcessing.js";
+
+// Background removal for /image/remove-background, tuned for product shots
+// on a plain backdrop. Every pixel gets a matte value from its distance to
+// the key color: transparent within `tolerance`, opaque beyond `tolerance +
+// softness`, a ramp in between. mode=flood only clears pixels connected to
+// the image edges, mode=color clears them anywhere. The edge is then moved
+// inwards by `shrink` px, blurred by `feather` px and cleaned of the key
+// color's tint. src/utils/backgroundRemoval.ts mirrors this for the preview.
+
+export const BACKGROUND_MODES = ["flood", "color"];
+
+/**
+ * Options from the form fields: mode, color (key color; detected from the
+ * image edges when empty), tolerance and softness (0-100), shrink (0-10 px)
+ * and feather (0-20 px).
+ */
+export const parseBackgroundOptions = (body) => {
+  const mode = body.mode || "flood";
+  if (!BACKGROUND_MODES.includes(mode)) {
+    throw new ImageOptionError(`Unknown mode "${mode}" (expected ${BACKGROUND_MODES.join(", ")})`);
+  }
+  const color = body.color || null;
+  if (color && !/^#[0-9a-f]{6}$/i.test(color)) {
+    throw new ImageOptionError("Colors must be hex values like #ffffff");
+  }
+
+  return {
+    mode,
+    color,
+    tolerance: parseInteger(body.tolerance, "Tolerance", 0, 100) ?? 15,
+    softness: parseInteger(body.softness, "Softness", 0, 100) ?? 10,
+    shrink: parseInteger(body.shrink, "Shrink", 0, 10) ?? 0,
+    feather: parseInteger(body.feather, "Feather", 0, 20) ?? 1,
+  };
+};
+
+const hexToRgb = (hex) => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+/** Most common color along the image edges, averaged within its 5-bit bin */
+export const detectKeyColor = (data, width, height) => {
+  const counts = new Uint32Array(32768);
+  const sums = new Float64Array(32768 * 3);
+  const add = (x, y) => {
+    const i = (y * width + x) * 4;
+    const bin = ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+    counts[bin]++;
+    sums[bin * 3] += data[i];
+    sums[bin * 3 + 1] += data[i + 1];
+    sums[bin * 3 + 2] += data[i + 2];
+  };
+  for (let x = 0; x < width; x++) {
+    add(x, 0);
+    add(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    add(0, y);
+    add(width - 1, y);
+  }
+
+  let best = 0;
+  for (let bin = 1; bin < counts.length; bin++) if (counts[bin] > counts[best]) best = bin;
+  return [0, 1, 2].map((c) => Math.round(sums[best * 3 + c] / counts[best]));
+};
+
+// 0 where a pixel matches the key color, 255 where it is clearly different
+const colorMatte = (data, width, height, key, { tolerance, softness }) => {
+  const matte = new Uint8Array(width * height);
+  // Distances are percent of the largest possible RGB distance
+  const scale = 100 / (255 * Math.sqrt(3));
+  for (let p = 0; p < matte.length; p++) {
+    const i = p * 4;
+    const distance =
+      Math.sqrt((data[i] - key[0]) ** 2 + (data[i + 1] - key[1]) ** 2 + (data[i + 2] - key[2]) ** 2) * scale;
+    if (distance <= tolerance) matte[p] = 0;
+    else if (distance >= tolerance + softness) matte[p] = 255;
+    else matte[p] = Math.round(((distance - tolerance) / softness) * 255);
+  }
+  return matte;
+};
+
+// Keep only the see-through pixels connected to the image edges
+const floodFromEdges = (matte, width, height) => {
+  const reached = new Uint8Array(matte.length);
+  const queue = new Int32Array(matte.length);
+  let head = 0;
+  let tail = 0;
+  const visit = (p) => {
+    if (!reached[p] && matte[p] < 255) {
+      reached[p] = 1;
+      queue[tail++] = p;
+    }
+  };
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+  while (head < tail) {
+    const p = queue[head++];
+    const x = p % width;
+    if (x > 0) visit(p - 1);
+    if (x < width - 1) visit(p + 1);
+    if (p >= width) visit(p - width);
+    if (p < matte.length - width) visit(p + width);
+  }
+  for (let p = 0; p < matte.length; p++) if (!reached[p]) matte[p] = 255;
+};
+
+// Minimum over a (2r+1)² square, one direction at a time
+const shrinkMatte = (matte, width, height, radius) => {
+  const pass = (source, horizontal) => {
+    const target = new Uint8Array(source.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let min = 255;
+        for (let k = -radius; k <= radius && min > 0; k++) {
+          const sx = horizontal ? Math.min(width - 1, Math.max(0, x + k)) : x;
+          const sy = horizontal ? y : Math.min(height - 1, Math.max(0, y + k));
+          min = Math.min(min, source[sy * width + sx]);
+        }
+        target[y * width + x] = min;
+      }
+    }
+    return target;
+  };
+  return pass(pass(matte, true), false);
+};
+
+/**
+ * Make the background of a sharp `image` transparent. `mask` is an optional
+ * brush PNG of any size, stretched over the image: where it is opaque, white
+ * keeps the pixel and black erases it.
+ */
+export const removeBackground = async (image, options, mask) => {
+  const { data, info } = await image.toColourspace("srgb").ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+  const key = options.color ? hexToRgb(options.color) : detectKeyColor(data, width, height);
+
+  let matte = colorMatte(data, width, height, key, options);
+  if (options.mode === "flood") floodFromEdges(matte, width, height);
+  if (options.shrink > 0) matte = shrinkMatte(matte, width, height, options.shrink);
+  if (options.feather > 0) {
+    // sharp hands a one-channel image back as RGB unless told otherwise
+    matte = await sharp(matte, { raw: { width, height, channels: 1 } })
+      .blur(options.feather)
+      .extractChannel(0)
+      .raw()
+      .toBuffer();
+  }
+
+  if (mask) {
+    let brush;
+    try {
+      brush = await sharp(mask).toColourspace("srgb").ensureAlpha().resize(width, height, { fit: "fill" }).raw().toBuffer();
+    } catch {
+      throw new ImageOptionError("The brush mask is not a valid image");
+    }
+    for (let p = 0; p < matte.length; p++) {
+      const coverage = brush[p * 4 + 3] / 255;
+      matte[p] = Math.round(matte[p] + (brush[p * 4] - matte[p]) * coverage);
+    }
+  }
+
+  for (let p = 0; p < matte.length; p++) {
+    const i = p * 4;
+    const alpha = matte[p];
+    // Semi-transparent edge pixels still carry some of the key color; take it out
+    if (alpha > 0 && alpha < 255) {
+      const a = alpha / 255;
+      for (let c = 0; c < 3; c++) {
+        data[i + c] = Math.min(255, Math.max(0, Math.round((data[i + c] - (1 - a) * key[c]) / a)));
+      }
+    }
+    data[i + 3] = Math.min(data[i + 3], alpha);
+  }
+
+  return sharp(data, { raw: { width, height, channels: 4 } });
+};
@@ -0,0 +1,235 @@
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import {
+  ImageOptionError,
+  OUTPUT_FORMATS,
+  loadImage,
+  parseEncodeOptions,
+  parseOutputFormat,
+  parseResizeOptions,
+  encodeImage,
+} from "./imageProcessing.js";
+import { validateAdjustments, applyAdjustments } from "./imageAdjust.js";
+
+// Batch processing for /image/batch. A batch is one operation chain applied
+// to many uploaded images; files go through a single queue one at a time,
+// so a large batch can't starve the other routes. Batches live in memory
+// until they expire; the client polls their status by id and fetches each
+// finished image separately.
+
+export const BATCH_STEP_TYPES = ["resize", "adjust", "convert", "compress"];
+export const MAX_BATCH_FILES = 100;
+// Finished batches are kept this long for the download
+const BATCH_TTL_MS = 30 * 60 * 1000;
+// Batches still being processed, across all clients
+const MAX_ACTIVE_BATCHES = 4;
+// Uploads and results held in memory by all batches together. Finished
+// batches give way to new ones, oldest first, before new ones are refused.
+const MAX_HELD_BYTES = 512 * 1024 * 1024;
+
+/** The server already holds as many batches as it can take */
+export class BatchQueueFullError extends Error {}
+
+const batches = new Map();
+const queue = [];
+let processing = false;
+
+/**
+ * Check the `steps` chain sent by the client: [{ type, ...fields }, ...].
+ * Each step takes the form fields of its own route (see server.js) and may
+ * appear once; resize and adjust run in the given order, convert and
+ * compress only decide how the result is encoded.
+ */
+export const validateBatchSteps = (steps) => {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new ImageOptionError("Choose at least one operation");
+  }
+  const seen = new Set();
+  return steps.map((step) => {
+    if (!step || !BATCH_STEP_TYPES.includes(step.type)) {
+      throw new ImageOptionError(`Unknown operation "${step?.type}" (expected ${BATCH_STEP_TYPES.join(", ")})`);
+    }
+    if (seen.has(step.type)) throw new ImageOptionError(`Each operation can only be used once (${step.type})`);
+    seen.add(step.type);
+
+    switch (step.type) {
+      case "resize":
+        // Catch bad fields now rather than once per file
+        parseResizeOptions(step, { width: 1, height: 1 }, "png");
+        return step;
+      case "adjust":
+        return { type: "adjust", adjustments: validateAdjustments(step.adjustments) };
+      case "convert":
+        if (!step.format) throw new ImageOptionError("Choose a format to convert to");
+        return { type: "convert", format: parseOutputFormat(step.format), background: step.background };
+      case "compress":
+        return {
+          type: "compress",
+          format: step.format ? parseOutputFormat(step.format) : undefined,
+          ...parseEncodeOptions(step),
+        };
+    }
+  });
+};
+
+// "holiday.JPEG" -> "holiday.webp", numbered when the name is already taken
+const outputName = (originalName, extension, taken) => {
+  const base = path.basename(originalName || "image", path.extname(originalName || "")) || "image";
+  let name = `${base}.${extension}`;
+  for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${base}-${n}.${extension}`;
+  taken.add(name.toLowerCase());
+  return name;
+};
+
+// Run the operation chain on one uploaded image
+const processFile = async (buffer, steps) => {
+  const convert = steps.find((step) => step.type === "convert");
+  const compress = steps.find((step) => step.type === "compress");
+  const adjusts = steps.some((step) => step.type === "adjust");
+
+  const { image, metadata, format } = await loadImage(buffer, convert?.format ?? compress?.format, {
+    keepFrames: !adjusts,
+  });
+  let output = image;
+  for (const step of steps) {
+    if (step.type === "resize") output = output.resize(parseResizeOptions(step, metadata, format));
+    if (step.type === "adjust") output = await applyAdjustments(output, step.adjustments);
+  }
+
+  const encoded = await encodeImage(output, format, {
+    quality: compress ? compress.quality ?? 75 : undefined,
+    effort: compress?.effort,
+    background: convert?.background,
+  });
+
+  // Like /image/compress: never hand back a bigger file than we were given
+  const untouched = !steps.some((step) => step.type === "resize" || step.type === "adjust");
+  if (compress && untouched && metadata.format === format && encoded.data.length >= buffer.length) {
+    return { data: buffer, info: encoded.info, format };
+  }
+  return { ...encoded, format };
+};
+
+const runQueue = async () => {
+  if (processing) return;
+  processing = true;
+  while (queue.length > 0) {
+    const { batch, file } = queue.shift();
+    if (file.status !== "queued") continue;
+
+    file.status = "processing";
+    try {
+      const { data, info, format } = await processFile(file.input, batch.steps);
+      file.output = data;
+      file.format = format;
+      file.outputName = outputName(file.name, OUTPUT_FORMATS[format].extension, batch.takenNames);
+      file.outputSize = data.length;
+      file.width = info.width;
+      file.height = info.pageHeight ?? info.height;
+      file.status = "done";
+    } catch (err) {
+      if (!(err instanceof ImageOptionError)) console.error(`❌ Error processing batch file ${file.name}:`, err);
+      file.status = "failed";
+      file.error = err instanceof ImageOptionError ? err.message : "Error processing image";
+    }
+    file.input = null;
+    finishIfDone(batch);
+  }
+  processing = false;
+};
+
+// Memory a batch still holds; results of running batches are counted at the
+// size of their upload until they are done
+const heldBytes = (batch) =>
+  batch.files.reduce((total, file) => total + (file.input?.length ?? 0) + (file.output?.length ?? 0), 0);
+
+// Make room for `bytes` more by expiring finished batches early; false if
+// even that isn't enough
+const makeRoom = (bytes) => {
+  const all = [...batches.values()];
+  let held = all.reduce((total, batch) => total + heldBytes(batch), 0);
+  const finished = all.filter((batch) => batch.finishedAt).sort((a, b) => a.finishedAt - b.finishedAt);
+  while (held + bytes > MAX_HELD_BYTES && finished.length > 0) {
+    const batch = finished.shift();
+    held -= heldBytes(batch);
+    batches.delete(batch.id);
+  }
+  return held + bytes <= MAX_HELD_BYTES;
+};
+
+const finishIfDone = (batch) => {
+  if (batch.finishedAt || batch.files.some((file) => file.status === "queued" || file.status === "processing")) {
+    return;
+  }
+  batch.finishedAt = Date.now();
+  setTimeout(() => batches.delete(batch.id), BATCH_TTL_MS).unref();
+};
+
+/**
+ * Queue multer `files` for the validated `steps`; returns the new batch.
+ * Throws BatchQueueFullError when too many batches are running or their
+ * images would take more memory than allowed.
+ */
+export const createBatch = (files, steps) => {
+  const active = [...batches.values()].filter((batch) => !batch.finishedAt).length;
+  if (active >= MAX_ACTIVE_BATCHES) {
+    throw new BatchQueueFullError("The server is busy with other batches. Please try again in a few minutes");
+  }
+  if (!makeRoom(files.reduce((total, file) => total + file.size, 0))) {
+    throw new BatchQueueFullError("The server doesn't have room for this batch right now. Try fewer or smaller images");
+  }
+
+  const batch = {
+    id: uuidv4(),
+    steps,
+    createdAt: Date.now(),
+    finishedAt: null,
+    takenNames: new Set(),
+    files: files.map((file) => ({
+      name: file.originalname,
+      size: file.size,
+      input: file.buffer,
+      status: "queued",
+      error: null,
+      output: null,
+      format: null,
+      outputName: null,
+      outputSize: null,
+      width: null,
+      height: null,
+    })),
+  };
+  batches.set(batch.id, batch);
+  batch.files.forEach((file) => queue.push({ batch, file }));
+  runQueue();
+  return batch;
+};
+
+export const getBatch = (id) => batches.get(id) ?? null;
+
+/** Skip the files of `batch` that haven't started yet */
+export const cancelBatch = (batch) => {
+  for (const file of batch.files) {
+    if (file.status === "queued") {
+      file.status = "cancelled";
+      file.input = null;
+    }
+  }
+  finishIfDone(batch);
+};
+
+/** What the client polls: per-file progress without the image data */
+export const batchStatus = (batch) => ({
+  id: batch.id,
+  finished: batch.finishedAt !== null,
+  files: batch.files.map(({ name, size, status, error, outputName, outputSize, width, height }) => ({
+    name,
+    size,
+    status,
+    error,
+    outputName,
+    outputSize,
+    width,
+    height,
+  })),
+});
@@ -0,0 +1,175 @@
+import sharp from "sharp";
+import { ImageOptionError, parseInteger, orientedSize } from "./imageProcessing.js";
+
+// Collage layout and rendering for /image/collage, mirrored for the preview
+// by src/utils/collageLayout.ts. `spacing` is the gap between cells and
+// `border` the frame around them, both filled with the background color.
+
+// Grid templates: cells span columns/rows of an evenly divided grid
+const evenGrid = (columns, rows) => ({
+  columns,
+  rows,
+  cells: Array.from({ length: columns * rows }, (_, i) => ({
+    column: i % columns,
+    row: Math.floor(i / columns),
+    columnSpan: 1,
+    rowSpan: 1,
+  })),
+});
+
+export const COLLAGE_TEMPLATES = {
+  "2x2": evenGrid(2, 2),
+  "3x3": evenGrid(3, 3),
+  "1+2": {
+    columns: 2,
+    rows: 2,
+    cells: [
+      { column: 0, row: 0, columnSpan: 1, rowSpan: 2 },
+      { column: 1, row: 0, columnSpan: 1, rowSpan: 1 },
+      { column: 1, row: 1, columnSpan: 1, rowSpan: 1 },
+    ],
+  },
+  // One cell per image, stacked into the shortest column
+  masonry: null,
+};
+
+const MAX_COLLAGE_SIZE = 8000;
+const MAX_COLLAGE_IMAGES = 30;
+
+// Split `length` into `count` tracks separated by `gap`, rounding the edges
+const tracks = (start, length, count, gap, weights = Array(count).fill(1)) => {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const available = length - gap * (count - 1);
+  const edges = [];
+  let position = start;
+  for (const weight of weights) {
+    const size = (available * weight) / total;
+    edges.push([Math.round(position), Math.round(position + size)]);
+    position += size + gap;
+  }
+  return edges;
+};
+
+/**
+ * Pixel rectangles of the collage cells for a `width` × `height` canvas.
+ * Masonry needs the width/height ratio of every image (`aspects`), in order.
+ */
+export const collageCells = (template, { width, height, spacing, border, columns }, aspects = []) => {
+  const inner = { left: border, top: border, width: width - 2 * border, height: height - 2 * border };
+
+  if (template === "masonry") {
+    const count = Math.max(1, Math.min(columns, aspects.length));
+    const columnEdges = tracks(inner.left, inner.width, count, spacing);
+    // Each image goes into the column that is currently the shortest
+    const stacks = Array.from({ length: count }, () => ({ images: [], height: 0 }));
+    aspects.forEach((aspect, index) => {
+      const shortest = stacks.reduce((best, stack) => (stack.height < best.height ? stack : best));
+      shortest.images.push(index);
+      shortest.height += 1 / aspect;
+    });
+
+    // Columns are then stretched to the full height; cells crop to fit
+    const cells = [];
+    stacks.forEach((stack, column) => {
+      const rowEdges = tracks(inner.top, inner.height, stack.images.length, spacing, stack.images.map((i) => 1 / aspects[i]));
+      stack.images.forEach((index, row) => {
+        const [left, right] = columnEdges[column];
+        const [top, bottom] = rowEdges[row];
+        cells[index] = { left, top, width: right - left, height: bottom - top };
+      });
+    });
+    return cells;
+  }
+
+  const { columns: gridColumns, rows, cells } = COLLAGE_TEMPLATES[template];
+  const columnEdges = tracks(inner.left, inner.width, gridColumns, spacing);
+  const rowEdges = tracks(inner.top, inner.height, rows, spacing);
+  return cells.map(({ column, row, columnSpan, rowSpan }) => {
+    const left = columnEdges[column][0];
+    const right = columnEdges[column + columnSpan - 1][1];
+    const top = rowEdges[row][0];
+    const bottom = rowEdges[row + rowSpan - 1][1];
+    return { left, top, width: right - left, height: bottom - top };
+  });
+};
+
+/**
+ * Collage options from the form fields: template, width, height, spacing,
+ * border, background, columns (masonry) and `cells`, a JSON list giving the
+ * index of the uploaded image shown in each cell (null leaves it empty).
+ */
+export const parseCollageOptions = (body, imageCount) => {
+  const template = body.template || "2x2";
+  if (!(template in COLLAGE_TEMPLATES)) {
+    throw new ImageOptionError(
+      `Unknown template "${template}" (expected ${Object.keys(COLLAGE_TEMPLATES).join(", ")})`
+    );
+  }
+  if (imageCount > MAX_COLLAGE_IMAGES) {
+    throw new ImageOptionError(`A collage can hold at most ${MAX_COLLAGE_IMAGES} images`);
+  }
+
+  const width = parseInteger(body.width, "Width", 16, MAX_COLLAGE_SIZE) ?? 2048;
+  const height = parseInteger(body.height, "Height", 16, MAX_COLLAGE_SIZE) ?? 2048;
+  const border = parseInteger(body.border, "Border", 0, Math.floor(Math.min(width, height) / 4)) ?? 0;
+  const spacing = parseInteger(body.spacing, "Spacing", 0, Math.floor(Math.min(width, height) / 4)) ?? 0;
+  const columns = parseInteger(body.columns, "Columns", 1, 10) ?? 3;
+  const background = body.background || "#ffffff";
+  if (!/^#[0-9a-f]{6}$/i.test(background)) {
+    throw new ImageOptionError("Colors must be hex values like #ffffff");
+  }
+
+  const cellCount = template === "masonry" ? imageCount : COLLAGE_TEMPLATES[template].cells.length;
+  let cells;
+  try {
+    cells = body.cells ? JSON.parse(body.cells) : Array.from({ length: cellCount }, (_, i) => (i < imageCount ? i : null));
+  } catch {
+    throw new ImageOptionError("Cells must be a JSON array");
+  }
+  if (
+    !Array.isArray(cells) ||
+    cells.length !== cellCount ||
+    cells.some((c) => c !== null && !(Number.isInteger(c) && c >= 0 && c < imageCount))
+  ) {
+    throw new ImageOptionError(`Cells must list ${cellCount} image numbers (0-${imageCount - 1}) or null`);
+  }
+  if (template === "masonry" && (cells.includes(null) || new Set(cells).size !== cells.length)) {
+    throw new ImageOptionError("A masonry collage shows every image once");
+  }
+
+  return { template, width, height, spacing, border, columns, background, cells };
+};
+
+/** Render the collage of `buffers` as a sharp instance */
+export const renderCollage = async (buffers, options) => {
+  const sizes = await Promise.all(
+    buffers.map(async (buffer, index) => {
+      try {
+        return orientedSize(await sharp(buffer).metadata());
+      } catch {
+        throw new ImageOptionError(`Image ${index + 1} is not a supported or valid image file`);
+      }
+    })
+  );
+
+  const aspects = options.template === "masonry" ? options.cells.map((i) => sizes[i].width / sizes[i].height) : [];
+  const rects = collageCells(options.template, options, aspects);
+
+  // One image at a time keeps memory bounded with many large photos
+  const layers = [];
+  for (const [cell, rect] of rects.entries()) {
+    const index = options.cells[cell];
+    if (index === null || rect.width <= 0 || rect.height <= 0) continue;
+    const input = await sharp(buffers[index]).rotate().resize(rect.width, rect.height, { fit: "cover" }).toBuffer();
+    layers.push({ input, left: rect.left, top: rect.top });
+  }
+
+  // Flattened to raw pixels so the caller can still resize or encode it
+  const { data, info } = await sharp({
+    create: { width: options.width, height: options.height, channels: 3, background: options.background },
+  })
+    .composite(layers)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
+};
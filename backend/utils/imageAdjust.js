@@ -0,0 +1,146 @@
+import sharp from "sharp";
+import { ImageOptionError } from "./imageProcessing.js";
+
+// Adjustment stack of the image editor, mirrored for the live preview by
+// src/utils/imageAdjust.ts. Every operation is its own pass over 8-bit RGB(A)
+// pixels, in list order, so the result matches what the browser showed.
+
+// Allowed value range of each operation
+export const ADJUSTMENT_RANGES = {
+  brightness: [-100, 100],
+  contrast: [-100, 100],
+  gamma: [0.35, 3],
+  hue: [-180, 180],
+  saturation: [-100, 100],
+  temperature: [-100, 100],
+  tint: [-100, 100],
+  sepia: [0, 100],
+  grayscale: [0, 100],
+  blur: [0.3, 20],
+  sharpen: [0, 100],
+};
+const MAX_ADJUSTMENTS = 32;
+
+/** Check the `adjustments` list sent by the client: [{ type, value }, ...] */
+export const validateAdjustments = (adjustments) => {
+  if (!Array.isArray(adjustments)) throw new ImageOptionError("Adjustments must be a JSON array");
+  if (adjustments.length > MAX_ADJUSTMENTS) {
+    throw new ImageOptionError(`At most ${MAX_ADJUSTMENTS} adjustments can be applied at once`);
+  }
+
+  return adjustments.map((adjustment) => {
+    const range = ADJUSTMENT_RANGES[adjustment?.type];
+    if (!range) throw new ImageOptionError(`Unknown adjustment "${adjustment?.type}"`);
+    const { type, value } = adjustment;
+    if (typeof value !== "number" || !(value >= range[0] && value <= range[1])) {
+      throw new ImageOptionError(`${type} must be between ${range[0]} and ${range[1]}`);
+    }
+    return { type, value };
+  });
+};
+
+// 3×3 color matrices of the Filter Effects spec, as used by CSS filters
+const saturateMatrix = (s) => [
+  [0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s],
+  [0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s],
+  [0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s],
+];
+
+const hueRotateMatrix = (degrees) => {
+  const cos = Math.cos((degrees * Math.PI) / 180);
+  const sin = Math.sin((degrees * Math.PI) / 180);
+  return [
+    [0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928],
+    [0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.14, 0.072 - cos * 0.072 - sin * 0.283],
+    [0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072],
+  ];
+};
+
+const grayscaleMatrix = (amount) => {
+  const a = 1 - amount;
+  return [
+    [0.2126 + 0.7874 * a, 0.7152 - 0.7152 * a, 0.0722 - 0.0722 * a],
+    [0.2126 - 0.2126 * a, 0.7152 + 0.2848 * a, 0.0722 - 0.0722 * a],
+    [0.2126 - 0.2126 * a, 0.7152 - 0.7152 * a, 0.0722 + 0.9278 * a],
+  ];
+};
+
+const sepiaMatrix = (amount) => {
+  const a = 1 - amount;
+  return [
+    [0.393 + 0.607 * a, 0.769 - 0.769 * a, 0.189 - 0.189 * a],
+    [0.349 - 0.349 * a, 0.686 + 0.314 * a, 0.168 - 0.168 * a],
+    [0.272 - 0.272 * a, 0.534 - 0.534 * a, 0.131 + 0.869 * a],
+  ];
+};
+
+// Sharp pipeline for a single operation
+const applyOperation = (image, { type, value }) => {
+  switch (type) {
+    case "brightness":
+      return image.linear(1, value * 2.55);
+    case "contrast": {
+      const factor = 1 + value / 100;
+      return image.linear(factor, 128 * (1 - factor));
+    }
+    case "gamma":
+      // sharp only takes exponents from 1 to 3, so brighten and darken separately
+      return value >= 1 ? image.gamma(1, value) : image.gamma(1 / value, 1);
+    case "hue":
+      return image.recomb(hueRotateMatrix(value));
+    case "saturation":
+      return image.recomb(saturateMatrix(1 + value / 100));
+    case "temperature":
+      return image.linear([1 + value / 250, 1, 1 - value / 250], [0, 0, 0]);
+    case "tint":
+      return image.linear([1, 1 - value / 250, 1], [0, 0, 0]);
+    case "sepia":
+      return image.recomb(sepiaMatrix(value / 100));
+    case "grayscale":
+      return image.recomb(grayscaleMatrix(value / 100));
+    case "blur":
+      return image.blur(value);
+    case "sharpen": {
+      const k = value / 100;
+      return image.convolve({ width: 3, height: 3, kernel: [0, -k, 0, -k, 1 + 4 * k, -k, 0, -k, 0] });
+    }
+  }
+};
+
+/**
+ * Run `adjustments` (see validateAdjustments) on `image` one after another
+ * and return a sharp instance of the result, ready to be encoded.
+ */
+export const applyAdjustments = async (image, adjustments) => {
+  let { data, info } = await image.toColourspace("srgb").raw().toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+  const raw = { width, height, channels };
+
+  for (const adjustment of adjustments) {
+    const spatial = adjustment.type === "blur" || adjustment.type === "sharpen";
+    if (spatial && channels === 4) {
+      // Blur and sharpen would also filter transparency, so they only see the color
+      // channels. sharp filters before removeAlpha() in a pipeline, hence the manual split.
+      const color = Buffer.alloc(width * height * 3);
+      for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+        color[j] = data[i];
+        color[j + 1] = data[i + 1];
+        color[j + 2] = data[i + 2];
+      }
+      const rgb = await applyOperation(sharp(color, { raw: { width, height, channels: 3 } }), adjustment)
+        .raw()
+        .toBuffer();
+      const next = Buffer.from(data);
+      for (let i = 0, j = 0; i < next.length; i += 4, j += 3) {
+        next[i] = rgb[j];
+        next[i + 1] = rgb[j + 1];
+        next[i + 2] = rgb[j + 2];
+      }
+      data = next;
+    } else {
+      data = await applyOperation(sharp(data, { raw }), adjustment).raw().toBuffer();
+    }
+  }
+
+  return sharp(data, { raw });
+};
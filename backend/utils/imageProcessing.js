@@ -0,0 +1,199 @@
+import sharp from "sharp";
+
+// Shared option parsing and encoding for the /image/* routes.
+// `quality` is 1-100 and `effort` a 1-10 CPU budget that is mapped to the
+// scale of each encoder (mozjpeg on/off, WebP 0-6, AVIF 0-9, PNG/GIF 1-10).
+
+export class ImageOptionError extends Error {}
+
+export const OUTPUT_FORMATS = {
+  jpeg: { extension: "jpg", mimeType: "image/jpeg", alpha: false, animated: false },
+  png: { extension: "png", mimeType: "image/png", alpha: true, animated: false },
+  webp: { extension: "webp", mimeType: "image/webp", alpha: true, animated: true },
+  avif: { extension: "avif", mimeType: "image/avif", alpha: true, animated: false },
+  gif: { extension: "gif", mimeType: "image/gif", alpha: true, animated: true },
+  tiff: { extension: "tif", mimeType: "image/tiff", alpha: true, animated: false },
+};
+
+const FORMAT_ALIASES = { jpg: "jpeg", tif: "tiff" };
+export const RESIZE_FITS = ["inside", "contain", "cover", "fill", "outside"];
+const MAX_DIMENSION = 16384;
+const DEFAULT_EFFORT = 6;
+
+// Optional integer form field within [min, max]
+export const parseInteger = (value, name, min, max) => {
+  if (value === undefined || value === "") return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new ImageOptionError(`${name} must be a whole number between ${min} and ${max}`);
+  }
+  return number;
+};
+
+const parseColor = (value, fallback) => {
+  if (value === undefined || value === "") return fallback;
+  if (!/^#[0-9a-f]{6}$/i.test(value)) throw new ImageOptionError("Colors must be hex values like #ffffff");
+  return value;
+};
+
+export const parseOutputFormat = (value, fallback) => {
+  if (value === undefined || value === "") return fallback;
+  const format = FORMAT_ALIASES[value.toLowerCase()] ?? value.toLowerCase();
+  if (!OUTPUT_FORMATS[format]) {
+    throw new ImageOptionError(`Unknown format "${value}" (expected ${Object.keys(OUTPUT_FORMATS).join(", ")})`);
+  }
+  return format;
+};
+
+// Output format matching the input; SVG and other read-only formats become PNG
+const sameFormatAs = (metadata) => {
+  if (metadata.format === "heif" && metadata.compression === "av1") return "avif";
+  return OUTPUT_FORMATS[metadata.format] ? metadata.format : "png";
+};
+
+// Width and height as displayed, i.e. after applying the EXIF orientation
+export const orientedSize = ({ width, height, orientation }) =>
+  orientation >= 5 ? { width: height, height: width } : { width, height };
+
+/**
+ * Open an uploaded image for `requestedFormat` (defaults to the input format).
+ * Animated GIF/WebP input keeps all frames when the output can hold them,
+ * unless `keepFrames` is false.
+ */
+export const loadImage = async (buffer, requestedFormat, { keepFrames = true } = {}) => {
+  let metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    throw new ImageOptionError("Unsupported or corrupt image file");
+  }
+
+  const format = parseOutputFormat(requestedFormat, sameFormatAs(metadata));
+  const animated = keepFrames && OUTPUT_FORMATS[format].animated && (metadata.pages ?? 1) > 1;
+  const image = sharp(buffer, { animated }).rotate();
+  return { image, metadata, format };
+};
+
+/**
+ * Resize options from the form fields:
+ * unit=px uses `width` and/or `height`, unit=percent scales by `percent`.
+ * keepAspect=false stretches to the exact size, ignoring `fit`.
+ */
+export const parseResizeOptions = (body, metadata, format) => {
+  const original = orientedSize(metadata);
+  const unit = body.unit || "px";
+  let width;
+  let height;
+
+  if (unit === "percent") {
+    const percent = parseInteger(body.percent, "Percent", 1, 1000);
+    if (percent === undefined) throw new ImageOptionError("Enter a percentage to resize by");
+    width = Math.max(1, Math.round((original.width * percent) / 100));
+    height = Math.max(1, Math.round((original.height * percent) / 100));
+  } else if (unit === "px") {
+    width = parseInteger(body.width, "Width", 1, MAX_DIMENSION);
+    height = parseInteger(body.height, "Height", 1, MAX_DIMENSION);
+    if (width === undefined && height === undefined) {
+      throw new ImageOptionError("Enter a width, a height or both");
+    }
+  } else {
+    throw new ImageOptionError(`Unknown unit "${unit}" (expected px, percent)`);
+  }
+  if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
+    throw new ImageOptionError(`The resized image can be at most ${MAX_DIMENSION} pixels wide and tall`);
+  }
+
+  const keepAspect = body.keepAspect !== "false";
+  const fit = keepAspect ? body.fit || "inside" : "fill";
+  if (!RESIZE_FITS.includes(fit)) {
+    throw new ImageOptionError(`Unknown fit "${fit}" (expected ${RESIZE_FITS.join(", ")})`);
+  }
+
+  return {
+    // Stretching along one axis keeps the other one as it was
+    width: width ?? (fit === "fill" ? original.width : undefined),
+    height: height ?? (fit === "fill" ? original.height : undefined),
+    fit,
+    background: parseColor(body.background, OUTPUT_FORMATS[format].alpha ? "#00000000" : "#ffffff"),
+    withoutEnlargement: body.withoutEnlargement === "true",
+  };
+};
+
+/**
+ * Crop area from the `left`, `top`, `width` and `height` fields, in pixels of
+ * the image as displayed (EXIF orientation applied). `outputWidth` and
+ * `outputHeight` optionally scale the cropped area to an exact size.
+ */
+export const parseCropOptions = (body, metadata) => {
+  const original = orientedSize(metadata);
+  const region = {
+    left: parseInteger(body.left, "Left", 0, original.width - 1) ?? 0,
+    top: parseInteger(body.top, "Top", 0, original.height - 1) ?? 0,
+    width: parseInteger(body.width, "Width", 1, original.width),
+    height: parseInteger(body.height, "Height", 1, original.height),
+  };
+  if (region.width === undefined || region.height === undefined) {
+    throw new ImageOptionError("Enter the width and height of the crop area");
+  }
+  if (region.left + region.width > original.width || region.top + region.height > original.height) {
+    throw new ImageOptionError(
+      `The crop area must lie inside the ${original.width} × ${original.height} image`
+    );
+  }
+
+  const outputWidth = parseInteger(body.outputWidth, "Output width", 1, MAX_DIMENSION);
+  const outputHeight = parseInteger(body.outputHeight, "Output height", 1, MAX_DIMENSION);
+  const output =
+    outputWidth !== undefined || outputHeight !== undefined
+      ? { width: outputWidth, height: outputHeight, fit: "fill" }
+      : null;
+  return { region, output };
+};
+
+/**
+ * Encode `image` as `format`. Without a `quality` PNG, TIFF and GIF stay
+ * lossless; with one PNG and GIF are quantized to a smaller palette.
+ * Formats without transparency are flattened onto `background`.
+ */
+export const encodeImage = async (image, format, { quality, effort = DEFAULT_EFFORT, background } = {}) => {
+  if (!OUTPUT_FORMATS[format].alpha) {
+    image = image.flatten({ background: parseColor(background, "#ffffff") });
+  }
+
+  switch (format) {
+    case "jpeg":
+      image = image.jpeg({ quality: quality ?? 85, mozjpeg: effort >= 4 });
+      break;
+    case "png":
+      image = image.png(
+        quality === undefined
+          ? { compressionLevel: 9, effort }
+          : { compressionLevel: 9, effort, palette: true, quality }
+      );
+      break;
+    case "webp":
+      image = image.webp({ quality: quality ?? 85, effort: Math.round(((effort - 1) * 6) / 9) });
+      break;
+    case "avif":
+      image = image.avif({ quality: quality ?? 60, effort: effort - 1 });
+      break;
+    case "gif":
+      image = image.gif({
+        effort,
+        colours: quality === undefined ? 256 : Math.max(2, Math.round(quality * 2.56)),
+      });
+      break;
+    case "tiff":
+      image = image.tiff({ compression: "lzw", predictor: "horizontal" });
+      break;
+  }
+
+  return image.toBuffer({ resolveWithObject: true });
+};
+
+/** quality and effort form fields of the encoding routes */
+export const parseEncodeOptions = (body) => ({
+  quality: parseInteger(body.quality, "Quality", 1, 100),
+  effort: parseInteger(body.effort, "Effort", 1, 10),
+  background: parseColor(body.background, undefined),
+});
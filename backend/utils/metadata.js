@@ -0,0 +1,547 @@
+import sharp from "sharp";
+import { crc32 } from "zlib";
+import { ImageOptionError, orientedSize, loadImage, encodeImage } from "./imageProcessing.js";
+
+// Metadata inspection and removal for /image/metadata and /image/strip-metadata.
+// EXIF is read straight from its TIFF structure (sharp only hands back the
+// raw block). Stripping edits JPEG segments, PNG chunks and WebP chunks in
+// place so the pixels are not re-encoded; other formats go through sharp.
+
+const EXIF_HEADER = Buffer.from("Exif\0\0", "latin1");
+
+const TAG_NAMES = {
+  Image: {
+    0x010e: "Image Description",
+    0x010f: "Make",
+    0x0110: "Model",
+    0x0112: "Orientation",
+    0x011a: "X Resolution",
+    0x011b: "Y Resolution",
+    0x0128: "Resolution Unit",
+    0x0131: "Software",
+    0x0132: "Date Time",
+    0x013b: "Artist",
+    0x0213: "YCbCr Positioning",
+    0x8298: "Copyright",
+  },
+  Exif: {
+    0x829a: "Exposure Time",
+    0x829d: "F Number",
+    0x8822: "Exposure Program",
+    0x8827: "ISO",
+    0x9000: "Exif Version",
+    0x9003: "Date Time Original",
+    0x9004: "Date Time Digitized",
+    0x9010: "Offset Time",
+    0x9011: "Offset Time Original",
+    0x9101: "Components Configuration",
+    0x9201: "Shutter Speed Value",
+    0x9202: "Aperture Value",
+    0x9204: "Exposure Bias",
+    0x9205: "Max Aperture Value",
+    0x9207: "Metering Mode",
+    0x9209: "Flash",
+    0x920a: "Focal Length",
+    0x927c: "Maker Note",
+    0x9286: "User Comment",
+    0xa000: "Flashpix Version",
+    0xa001: "Color Space",
+    0xa002: "Pixel X Dimension",
+    0xa003: "Pixel Y Dimension",
+    0xa402: "Exposure Mode",
+    0xa403: "White Balance",
+    0xa405: "Focal Length In 35mm Film",
+    0xa406: "Scene Capture Type",
+    0xa420: "Image Unique ID",
+    0xa430: "Camera Owner Name",
+    0xa431: "Body Serial Number",
+    0xa432: "Lens Specification",
+    0xa433: "Lens Make",
+    0xa434: "Lens Model",
+    0xa435: "Lens Serial Number",
+  },
+  GPS: {
+    0x00: "GPS Version ID",
+    0x01: "GPS Latitude Ref",
+    0x02: "GPS Latitude",
+    0x03: "GPS Longitude Ref",
+    0x04: "GPS Longitude",
+    0x05: "GPS Altitude Ref",
+    0x06: "GPS Altitude",
+    0x07: "GPS Time Stamp",
+    0x0c: "GPS Speed Ref",
+    0x0d: "GPS Speed",
+    0x10: "GPS Img Direction Ref",
+    0x11: "GPS Img Direction",
+    0x12: "GPS Map Datum",
+    0x1d: "GPS Date Stamp",
+  },
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+const ORIENTATION_TAG = 0x0112;
+
+// Bytes per value of each TIFF field type
+const TYPE_SIZES = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+// TIFF data of an EXIF block, which may or may not start with "Exif\0\0"
+const tiffOf = (exif) => (exif.subarray(0, 6).equals(EXIF_HEADER) ? exif.subarray(6) : exif);
+
+const tiffReader = (tiff) => {
+  const order = tiff.toString("latin1", 0, 2);
+  if (order !== "II" && order !== "MM") throw new RangeError("Not a TIFF structure");
+  const little = order === "II";
+  return {
+    u16: (offset) => (little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset)),
+    u32: (offset) => (little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset)),
+    i32: (offset) => (little ? tiff.readInt32LE(offset) : tiff.readInt32BE(offset)),
+  };
+};
+
+// GPS tags 0-6 hold at most 4 values (the version id); more is a damaged or crafted entry
+const MAX_GPS_VALUES = 4;
+
+/**
+ * Entries of the IFD at `offset`; `valueOffset` is where the value bytes are.
+ * `inBounds` is false when the values would run past the end of the block,
+ * e.g. a crafted count of 0xFFFFFFFF; such entries must not be read.
+ */
+const readIfd = (tiff, read, offset) => {
+  const count = read.u16(offset);
+  const entries = [];
+  for (let n = 0; n < count; n++) {
+    const entry = offset + 2 + n * 12;
+    const type = read.u16(entry + 2);
+    const valueCount = read.u32(entry + 4);
+    const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+    const valueOffset = size <= 4 ? entry + 8 : read.u32(entry + 8);
+    entries.push({
+      entry,
+      tag: read.u16(entry),
+      type,
+      count: valueCount,
+      size,
+      valueOffset,
+      inBounds: valueOffset + size <= tiff.length,
+    });
+  }
+  return entries;
+};
+
+// Numbers (or text) stored in an IFD entry
+const readValues = (tiff, read, { type, count, valueOffset }) => {
+  if (type === 2) return tiff.toString("latin1", valueOffset, valueOffset + count).replace(/\0+$/, "").trim();
+  const values = [];
+  for (let n = 0; n < count; n++) {
+    const at = valueOffset + n * (TYPE_SIZES[type] ?? 1);
+    switch (type) {
+      case 3:
+        values.push(read.u16(at));
+        break;
+      case 4:
+        values.push(read.u32(at));
+        break;
+      case 5:
+        values.push([read.u32(at), read.u32(at + 4)]);
+        break;
+      case 9:
+        values.push(read.i32(at));
+        break;
+      case 10:
+        values.push([read.i32(at), read.i32(at + 4)]);
+        break;
+      default:
+        values.push(tiff[at]);
+    }
+  }
+  return values;
+};
+
+const rationalText = ([numerator, denominator]) =>
+  denominator === 0 ? String(numerator) : String(Math.round((numerator / denominator) * 10000) / 10000);
+
+// Human-readable value of a tag, kept short for the table
+const formatValue = (tiff, read, entry) => {
+  if (entry.tag === 0x927c) return `(${entry.count} bytes)`;
+  if (entry.type === 7) {
+    const bytes = tiff.subarray(entry.valueOffset, entry.valueOffset + entry.count);
+    // Exif Version and similar are ASCII digits; User Comment has an 8-byte charset prefix
+    if (entry.tag === 0x9286) return bytes.subarray(8).toString("latin1").replace(/\0+$/, "").trim();
+    return /^[\x20-\x7e]*$/.test(bytes.toString("latin1")) ? bytes.toString("latin1") : `(${entry.count} bytes)`;
+  }
+  if (entry.count > 64 && entry.type !== 2) return `(${entry.count} values)`;
+
+  const values = readValues(tiff, read, entry);
+  if (typeof values === "string") return values;
+  if (entry.tag === 0x829a) {
+    const [numerator, denominator] = values[0];
+    return numerator === 1 ? `1/${denominator} s` : `${rationalText(values[0])} s`;
+  }
+  return values.map((value) => (Array.isArray(value) ? rationalText(value) : String(value))).join(", ");
+};
+
+// Decimal degrees from GPS degrees/minutes/seconds rationals and a N/S/E/W reference
+const gpsDegrees = (values, ref) => {
+  const [degrees, minutes, seconds] = values.map(([n, d]) => (d ? n / d : 0));
+  const decimal = degrees + (minutes ?? 0) / 60 + (seconds ?? 0) / 3600;
+  return ref === "S" || ref === "W" ? -decimal : decimal;
+};
+
+/**
+ * Tags of an EXIF block as { group, tag, name, value } rows, plus the GPS
+ * position in decimal degrees when present. Damaged blocks yield the tags
+ * read before the damage.
+ */
+export const readExif = (exif) => {
+  const tags = [];
+  let gps = null;
+  try {
+    const tiff = tiffOf(exif);
+    const read = tiffReader(tiff);
+    const groups = [["Image", read.u32(4)]];
+    const gpsValues = {};
+
+    while (groups.length > 0) {
+      const [group, offset] = groups.shift();
+      for (const entry of readIfd(tiff, read, offset)) {
+        if (!entry.inBounds) continue;
+        if (group === "Image" && entry.tag === EXIF_IFD_POINTER) groups.push(["Exif", read.u32(entry.valueOffset)]);
+        else if (group === "Image" && entry.tag === GPS_IFD_POINTER) groups.push(["GPS", read.u32(entry.valueOffset)]);
+        else {
+          const name = TAG_NAMES[group][entry.tag] ?? `Tag 0x${entry.tag.toString(16).padStart(4, "0")}`;
+          tags.push({ group, tag: entry.tag, name, value: formatValue(tiff, read, entry) });
+          if (group === "GPS" && entry.tag <= 0x06) {
+            gpsValues[entry.tag] = readValues(tiff, read, { ...entry, count: Math.min(entry.count, MAX_GPS_VALUES) });
+          }
+        }
+      }
+    }
+
+    if (gpsValues[2]?.length && gpsValues[4]?.length) {
+      const altitude = gpsValues[6]?.[0];
+      gps = {
+        latitude: gpsDegrees(gpsValues[2], gpsValues[1]),
+        longitude: gpsDegrees(gpsValues[4], gpsValues[3]),
+        altitude: altitude && altitude[1] ? ((gpsValues[5]?.[0] === 1 ? -1 : 1) * altitude[0]) / altitude[1] : null,
+      };
+    }
+  } catch (err) {
+    if (!(err instanceof RangeError)) throw err;
+  }
+  return { tags, gps };
+};
+
+/** Description of an ICC profile ("Display P3", "sRGB IEC61966-2.1", ...) */
+export const iccProfileName = (icc) => {
+  try {
+    const tagCount = icc.readUInt32BE(128);
+    for (let n = 0; n < tagCount; n++) {
+      const entry = 132 + n * 12;
+      if (icc.toString("latin1", entry, entry + 4) !== "desc") continue;
+      const offset = icc.readUInt32BE(entry + 4);
+      const type = icc.toString("latin1", offset, offset + 4);
+      if (type === "desc") {
+        // ICC v2: ASCII text with its length
+        const length = icc.readUInt32BE(offset + 8);
+        return icc.toString("latin1", offset + 12, offset + 12 + length).replace(/\0+$/, "");
+      }
+      if (type === "mluc") {
+        // ICC v4: first of the localized UTF-16BE records
+        const recordLength = icc.readUInt32BE(offset + 20);
+        const recordOffset = icc.readUInt32BE(offset + 24);
+        const text = icc.subarray(offset + recordOffset, offset + recordOffset + recordLength);
+        return Buffer.from(text).swap16().toString("utf16le").replace(/\0+$/, "");
+      }
+    }
+  } catch (err) {
+    if (!(err instanceof RangeError)) throw err;
+  }
+  return null;
+};
+
+const IPTC_NAMES = {
+  5: "Object Name",
+  25: "Keywords",
+  40: "Special Instructions",
+  55: "Date Created",
+  80: "By-line",
+  85: "By-line Title",
+  90: "City",
+  95: "Province/State",
+  101: "Country",
+  105: "Headline",
+  110: "Credit",
+  115: "Source",
+  116: "Copyright Notice",
+  120: "Caption/Abstract",
+  122: "Writer/Editor",
+};
+
+/** IPTC-IIM application records (2:xx) as { name, value } rows; repeated keywords are joined */
+export const readIptc = (iptc) => {
+  const rows = [];
+  let i = iptc.indexOf(Buffer.from([0x1c, 0x02]));
+  while (i >= 0 && i + 5 <= iptc.length && iptc[i] === 0x1c) {
+    const record = iptc[i + 1];
+    const dataset = iptc[i + 2];
+    const length = iptc.readUInt16BE(i + 3);
+    const value = iptc.toString("utf8", i + 5, Math.min(iptc.length, i + 5 + length)).trim();
+    if (record === 2 && dataset !== 0 && value) {
+      const name = IPTC_NAMES[dataset] ?? `Dataset 2:${dataset}`;
+      const existing = rows.find((row) => row.name === name);
+      if (existing) existing.value += `, ${value}`;
+      else rows.push({ name, value });
+    }
+    i += 5 + length;
+  }
+  return rows;
+};
+
+/** Everything the viewer shows about an uploaded image */
+export const describeImage = async (buffer) => {
+  let metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    throw new ImageOptionError("Unsupported or corrupt image file");
+  }
+
+  const { tags, gps } = metadata.exif ? readExif(metadata.exif) : { tags: [], gps: null };
+  return {
+    format: metadata.format,
+    ...orientedSize(metadata),
+    storedWidth: metadata.width,
+    storedHeight: metadata.height,
+    orientation: metadata.orientation ?? 1,
+    space: metadata.space,
+    channels: metadata.channels,
+    depth: metadata.depth,
+    hasAlpha: metadata.hasAlpha,
+    density: metadata.density ?? null,
+    chromaSubsampling: metadata.chromaSubsampling ?? null,
+    isProgressive: metadata.isProgressive ?? false,
+    pages: metadata.pages ?? 1,
+    iccProfile: metadata.icc ? iccProfileName(metadata.icc) ?? "Embedded (unnamed)" : null,
+    fileSize: buffer.length,
+    exif: tags,
+    gps,
+    iptc: metadata.iptc ? readIptc(metadata.iptc) : [],
+    xmp: metadata.xmp ? metadata.xmp.toString("utf8").replace(/\0+$/, "") : null,
+  };
+};
+
+// --- Stripping ---
+
+// EXIF block holding only the orientation, so stripped photos stay upright
+const orientationOnlyExif = (orientation) => {
+  const tiff = Buffer.alloc(26);
+  tiff.write("II*\0", 0, "latin1");
+  tiff.writeUInt32LE(8, 4);
+  tiff.writeUInt16LE(1, 8);
+  tiff.writeUInt16LE(ORIENTATION_TAG, 10);
+  tiff.writeUInt16LE(3, 12);
+  tiff.writeUInt32LE(1, 14);
+  tiff.writeUInt16LE(orientation, 18);
+  tiff.writeUInt32LE(0, 22);
+  return tiff;
+};
+
+const exifOrientation = (exif) => {
+  try {
+    const tiff = tiffOf(exif);
+    const read = tiffReader(tiff);
+    const entry = readIfd(tiff, read, read.u32(4)).find((e) => e.tag === ORIENTATION_TAG);
+    return entry ? read.u16(entry.valueOffset) : 1;
+  } catch (err) {
+    if (!(err instanceof RangeError)) throw err;
+    return 1;
+  }
+};
+
+/**
+ * Copy of an EXIF block without its GPS data: the GPS IFD and its values
+ * are zeroed and the pointer to it is removed, keeping the block's size.
+ */
+const withoutGps = (exif) => {
+  const copy = Buffer.from(exif);
+  try {
+    const tiff = tiffOf(copy);
+    const read = tiffReader(tiff);
+    const ifd0 = read.u32(4);
+    const entries = readIfd(tiff, read, ifd0);
+    const index = entries.findIndex((e) => e.tag === GPS_IFD_POINTER);
+    if (index === -1) return copy;
+
+    const gpsOffset = read.u32(entries[index].valueOffset);
+    const gpsEntries = readIfd(tiff, read, gpsOffset);
+    for (const entry of gpsEntries) {
+      if (entry.size > 4 && entry.inBounds) tiff.fill(0, entry.valueOffset, entry.valueOffset + entry.size);
+    }
+    tiff.fill(0, gpsOffset, gpsOffset + 2 + gpsEntries.length * 12 + 4);
+
+    // Shift the later entries and the next-IFD offset over the pointer
+    const end = ifd0 + 2 + entries.length * 12 + 4;
+    tiff.copy(tiff, entries[index].entry, entries[index].entry + 12, end);
+    tiff.fill(0, end - 12, end);
+    if (tiff.toString("latin1", 0, 2) === "II") tiff.writeUInt16LE(entries.length - 1, ifd0);
+    else tiff.writeUInt16BE(entries.length - 1, ifd0);
+  } catch (err) {
+    if (!(err instanceof RangeError)) throw err;
+    throw new ImageOptionError("The EXIF data of this image is damaged; strip all metadata instead");
+  }
+  return copy;
+};
+
+const mentionsGps = (xmp) => /GPS(Latitude|Longitude|Altitude)/.test(xmp.toString("latin1"));
+
+// JPEG: drop APP1 (EXIF/XMP), APP13 (IPTC), COM and vendor segments; keep
+// JFIF, the ICC profile and Adobe's color transform marker
+const stripJpeg = (buffer, gpsOnly) => {
+  const parts = [buffer.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    // Start of scan: the rest is image data
+    if (marker === 0xda) break;
+    const end = offset + 2 + buffer.readUInt16BE(offset + 2);
+    const segment = buffer.subarray(offset, end);
+    const payload = segment.subarray(4);
+    offset = end;
+
+    const isExif = marker === 0xe1 && payload.subarray(0, 6).equals(EXIF_HEADER);
+    const isXmp = marker === 0xe1 && !isExif;
+    if (gpsOnly) {
+      if (isExif) parts.push(segment.subarray(0, 4), withoutGps(payload));
+      else if (!(isXmp && mentionsGps(payload))) parts.push(segment);
+      continue;
+    }
+
+    if (isExif) {
+      const orientation = exifOrientation(payload);
+      if (orientation !== 1) {
+        const exif = Buffer.concat([EXIF_HEADER, orientationOnlyExif(orientation)]);
+        const header = Buffer.from([0xff, 0xe1, 0, 0]);
+        header.writeUInt16BE(exif.length + 2, 2);
+        parts.push(header, exif);
+      }
+      continue;
+    }
+    const isIcc = marker === 0xe2 && payload.toString("latin1", 0, 12) === "ICC_PROFILE\0";
+    const keep = !(marker >= 0xe1 && marker <= 0xef) || marker === 0xee || isIcc;
+    if (keep && marker !== 0xfe) parts.push(segment);
+  }
+  parts.push(buffer.subarray(offset));
+  return Buffer.concat(parts);
+};
+
+const pngChunk = (type, data) => {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, "latin1");
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+};
+
+// PNG: drop eXIf and the text and time chunks; iCCP stays
+const stripPng = (buffer, gpsOnly) => {
+  const parts = [buffer.subarray(0, 8)];
+  let offset = 8;
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset, offset + 12 + length);
+    const data = chunk.subarray(8, 8 + length);
+    offset += 12 + length;
+
+    if (type === "eXIf") {
+      if (gpsOnly) parts.push(pngChunk(type, withoutGps(data)));
+      else if (exifOrientation(data) !== 1) parts.push(pngChunk(type, orientationOnlyExif(exifOrientation(data))));
+    } else if (["tEXt", "zTXt", "iTXt", "tIME"].includes(type)) {
+      const isXmp = type === "iTXt" && data.toString("latin1", 0, 17) === "XML:com.adobe.xmp";
+      if (gpsOnly && !(isXmp && mentionsGps(data))) parts.push(chunk);
+    } else {
+      parts.push(chunk);
+    }
+  }
+  return Buffer.concat(parts);
+};
+
+// WebP: drop the EXIF and XMP chunks and clear their VP8X flags; ICCP stays
+const stripWebp = (buffer, gpsOnly) => {
+  const chunks = [];
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const type = buffer.toString("latin1", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    // Chunks are padded to an even size
+    const data = buffer.subarray(offset + 8, offset + 8 + size);
+    offset += 8 + size + (size % 2);
+    chunks.push({ type, data });
+  }
+
+  const kept = [];
+  for (const { type, data } of chunks) {
+    if (type === "EXIF") {
+      if (gpsOnly) kept.push({ type, data: withoutGps(data) });
+      else if (exifOrientation(data) !== 1) kept.push({ type, data: orientationOnlyExif(exifOrientation(data)) });
+    } else if (type === "XMP ") {
+      if (gpsOnly && !mentionsGps(data)) kept.push({ type, data });
+    } else {
+      kept.push({ type, data });
+    }
+  }
+
+  const vp8x = kept.find((chunk) => chunk.type === "VP8X");
+  if (vp8x) {
+    vp8x.data = Buffer.from(vp8x.data);
+    vp8x.data[0] &= ~0x0c;
+    if (kept.some((chunk) => chunk.type === "EXIF")) vp8x.data[0] |= 0x08;
+    if (kept.some((chunk) => chunk.type === "XMP ")) vp8x.data[0] |= 0x04;
+  }
+
+  const body = Buffer.concat(
+    kept.flatMap(({ type, data }) => {
+      const header = Buffer.alloc(8);
+      header.write(type, 0, "latin1");
+      header.writeUInt32LE(data.length, 4);
+      return data.length % 2 ? [header, data, Buffer.alloc(1)] : [header, data];
+    })
+  );
+  const riff = Buffer.alloc(12);
+  riff.write("RIFF", 0, "latin1");
+  riff.writeUInt32LE(body.length + 4, 4);
+  riff.write("WEBP", 8, "latin1");
+  return Buffer.concat([riff, body]);
+};
+
+/**
+ * Remove the metadata of an image, or only its GPS location (`gpsOnly`).
+ * JPEG, PNG and WebP are edited without re-encoding; other formats are
+ * re-encoded by sharp, keeping only the ICC profile.
+ */
+export const stripMetadata = async (buffer, gpsOnly) => {
+  let metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    throw new ImageOptionError("Unsupported or corrupt image file");
+  }
+
+  const size = orientedSize(metadata);
+  switch (metadata.format) {
+    case "jpeg":
+      return { data: stripJpeg(buffer, gpsOnly), info: size, format: "jpeg" };
+    case "png":
+      return { data: stripPng(buffer, gpsOnly), info: size, format: "png" };
+    case "webp":
+      return { data: stripWebp(buffer, gpsOnly), info: size, format: "webp" };
+  }
+  if (gpsOnly) {
+    throw new ImageOptionError("Removing only the location works for JPEG, PNG and WebP; strip all metadata instead");
+  }
+
+  const { image, format } = await loadImage(buffer);
+  return { ...(await encodeImage(image.keepIccProfile(), format)), format };
+};
@@ -0,0 +1,113 @@
+// Page range parsing shared by the PDF routes.
+//
+// Grammar (1-based, comma separated, whitespace ignored):
+//   7        single page
+//   3-5      closed range          10-1   reverse range
+//   5-       open end (5..last)    -4     open start (1..4)
+//   last     last page             last-2 two pages before the last
+//   odd      odd pages             even   even pages
+//   !7       exclusion, also !3-5, !last, !odd ...
+// A selection made only of exclusions starts from all pages.
+
+export class PageRangeError extends Error {
+  constructor(message, { invalid = [], outOfBounds = [] } = {}) {
+    super(message);
+    this.name = "PageRangeError";
+    this.invalid = invalid;
+    this.outOfBounds = outOfBounds;
+  }
+}
+
+const ENDPOINT = "(\\d+|last(?:-\\d+)?)";
+const RANGE_REGEX = new RegExp(`^${ENDPOINT}?(?:(-)${ENDPOINT}?)?$`);
+
+const resolveEndpoint = (value, pageCount) => {
+  if (value.startsWith("last")) {
+    const offset = value.length > 4 ? parseInt(value.slice(5), 10) : 0;
+    return pageCount - offset;
+  }
+  return parseInt(value, 10);
+};
+
+// Expand a single token (without "!") into page numbers.
+// Returns null for malformed tokens and false for out-of-bounds ones.
+const expandToken = (token, pageCount) => {
+  if (token === "odd" || token === "even") {
+    const pages = [];
+    for (let p = token === "odd" ? 1 : 2; p <= pageCount; p += 2) pages.push(p);
+    return pages;
+  }
+
+  const match = token.match(RANGE_REGEX);
+  if (!match || (!match[1] && !match[3])) return null;
+
+  const [, startRaw, dash, endRaw] = match;
+  const start = startRaw ? resolveEndpoint(startRaw, pageCount) : 1;
+  const end = dash ? (endRaw ? resolveEndpoint(endRaw, pageCount) : pageCount) : start;
+
+  if (start < 1 || end < 1 || start > pageCount || end > pageCount) return false;
+
+  const pages = [];
+  const step = start <= end ? 1 : -1;
+  for (let p = start; p !== end + step; p += step) pages.push(p);
+  return pages;
+};
+
+/**
+ * Parse a page range string into an ordered list of 1-based page numbers.
+ * Pages keep the order they are listed in; duplicates are kept so callers
+ * can repeat a page on purpose. Throws a PageRangeError listing every
+ * malformed or out-of-bounds token instead of silently dropping them.
+ */
+export function parsePageRanges(input, pageCount) {
+  const tokens = String(input ?? "")
+    .split(",")
+    .map((t) => t.replace(/\s+/g, "").toLowerCase())
+    .filter(Boolean);
+
+  if (tokens.length === 0) throw new PageRangeError("No pages specified");
+
+  const invalid = [];
+  const outOfBounds = [];
+  const included = [];
+  const excluded = new Set();
+  let hasInclusions = false;
+
+  for (const token of tokens) {
+    const isExclusion = token.startsWith("!");
+    const body = isExclusion ? token.slice(1) : token;
+    const pages = expandToken(body, pageCount);
+
+    if (pages === null) {
+      invalid.push(token);
+    } else if (pages === false) {
+      outOfBounds.push(token);
+    } else if (isExclusion) {
+      pages.forEach((p) => excluded.add(p));
+    } else {
+      hasInclusions = true;
+      included.push(...pages);
+    }
+  }
+
+  if (invalid.length || outOfBounds.length) {
+    const problems = [];
+    if (invalid.length) problems.push(`invalid: ${invalid.join(", ")}`);
+    if (outOfBounds.length) {
+      problems.push(`out of bounds (document has ${pageCount} pages): ${outOfBounds.join(", ")}`);
+    }
+    throw new PageRangeError(`Invalid page selection — ${problems.join("; ")}`, {
+      invalid,
+      outOfBounds,
+    });
+  }
+
+  const base = hasInclusions
+    ? included
+    : Array.from({ length: pageCount }, (_, i) => i + 1);
+  const pages = base.filter((p) => !excluded.has(p));
+
+  if (pages.length === 0) throw new PageRangeError("Page selection is empty");
+
+  return pages;
+}
@@ -0,0 +1,311 @@
+import zlib from "zlib";
+import sharp from "sharp";
+import {
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFArray,
+  PDFDict,
+  PDFRef,
+  PDFRawStream,
+  decodePDFRawStream,
+} from "pdf-lib";
+import { pruneUnreachableObjects } from "./pdfObjects.js";
+
+/** The input PDF is encrypted and has to be unlocked first */
+export class EncryptedInputError extends Error {}
+
+// Image quality presets, named after their Ghostscript counterparts
+export const COMPRESSION_PRESETS = {
+  screen: { dpi: 72, quality: 50 },
+  ebook: { dpi: 150, quality: 70 },
+  print: { dpi: 300, quality: 85 },
+};
+
+// Only downsample images whose resolution exceeds the target by this factor
+const DOWNSAMPLE_THRESHOLD = 1.5;
+// Uncompressed streams smaller than this are not worth deflating
+const MIN_DEFLATE_SIZE = 64;
+
+const IDENTITY = [1, 0, 0, 1, 0, 0];
+
+// Matrix product m × n for PDF's [a b c d e f] affine matrices
+const multiply = (m, n) => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5],
+];
+
+// Strings, dict delimiters, arrays, names, numbers, operators and comments
+const CONTENT_TOKEN =
+  /\((?:\\.|[^\\()])*\)|<<|>>|<[0-9A-Fa-f\s]*>|\[|\]|\/[^\s/[\]()<>{}%]*|[-+]?(?:\d+\.?\d*|\.\d+)|[A-Za-z'"*]+|%[^\r\n]*/g;
+
+const lookupName = (dict, key) => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFName ? value.decodeText() : undefined;
+};
+
+const lookupNumber = (dict, key) => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+};
+
+const decodeContents = (stream) => {
+  try {
+    return Buffer.from(decodePDFRawStream(stream).decode()).toString("latin1");
+  } catch {
+    return "";
+  }
+};
+
+/**
+ * Scan the page content streams and record the largest size (in points) each
+ * image XObject is drawn at. Form XObjects are followed with their own
+ * resources and matrix.
+ */
+const collectImagePlacements = (pdfDoc) => {
+  const placements = new Map();
+
+  const record = (ref, ctm) => {
+    const width = Math.hypot(ctm[0], ctm[1]);
+    const height = Math.hypot(ctm[2], ctm[3]);
+    const key = ref.toString();
+    const previous = placements.get(key);
+    placements.set(key, {
+      width: Math.max(width, previous?.width ?? 0),
+      height: Math.max(height, previous?.height ?? 0),
+    });
+  };
+
+  const scan = (contents, resources, baseCtm, depth) => {
+    const xObjects = resources?.lookup(PDFName.of("XObject"));
+    if (!(xObjects instanceof PDFDict) || depth > 8) return;
+
+    const stack = [];
+    let ctm = baseCtm;
+    let operands = [];
+
+    for (const [token] of contents.matchAll(CONTENT_TOKEN)) {
+      if (/^[-+.\d]/.test(token)) {
+        operands.push(Number(token));
+        continue;
+      }
+      if (token[0] === "/") {
+        operands.push(token);
+        continue;
+      }
+      if (!/^[A-Za-z'"*]/.test(token)) continue;
+
+      if (token === "q") stack.push(ctm);
+      else if (token === "Q") ctm = stack.pop() ?? baseCtm;
+      else if (token === "cm" && operands.length >= 6) ctm = multiply(operands.slice(-6), ctm);
+      else if (token === "Do" && typeof operands.at(-1) === "string") {
+        const ref = xObjects.get(PDFName.of(operands.at(-1).slice(1)));
+        const xObject = ref instanceof PDFRef ? pdfDoc.context.lookup(ref) : undefined;
+        if (xObject instanceof PDFRawStream) {
+          const subtype = lookupName(xObject.dict, "Subtype");
+          if (subtype === "Image") record(ref, ctm);
+          if (subtype === "Form") {
+            const matrix = xObject.dict.lookup(PDFName.of("Matrix"));
+            const formCtm =
+              matrix instanceof PDFArray
+                ? multiply(matrix.asArray().map((n) => n.asNumber()), ctm)
+                : ctm;
+            const formResources = xObject.dict.lookup(PDFName.of("Resources"));
+            scan(decodeContents(xObject), formResources ?? resources, formCtm, depth + 1);
+          }
+        }
+      }
+      operands = [];
+    }
+  };
+
+  for (const page of pdfDoc.getPages()) {
+    const contents = page.node.Contents();
+    const streams = contents instanceof PDFArray
+      ? contents.asArray().map((ref) => pdfDoc.context.lookup(ref))
+      : [contents];
+    const source = streams
+      .filter((stream) => stream instanceof PDFRawStream)
+      .map(decodeContents)
+      .join("\n");
+    scan(source, page.node.Resources(), IDENTITY, 0);
+  }
+
+  return placements;
+};
+
+// Number of colour components for colour spaces we can safely re-encode
+const colorComponents = (context, dict) => {
+  const colorSpace = dict.lookup(PDFName.of("ColorSpace"));
+  if (colorSpace instanceof PDFName) {
+    return { DeviceGray: 1, DeviceRGB: 3 }[colorSpace.decodeText()];
+  }
+  if (colorSpace instanceof PDFArray && colorSpace.size() === 2) {
+    const family = colorSpace.lookup(0);
+    const profile = context.lookup(colorSpace.get(1));
+    if (family instanceof PDFName && family.decodeText() === "ICCBased" && profile instanceof PDFRawStream) {
+      const n = lookupNumber(profile.dict, "N");
+      return n === 1 || n === 3 ? n : undefined;
+    }
+  }
+  return undefined;
+};
+
+const singleFilter = (dict) => {
+  const filter = dict.lookup(PDFName.of("Filter"));
+  if (filter instanceof PDFName) return filter.decodeText();
+  if (filter instanceof PDFArray && filter.size() === 1) {
+    const only = filter.lookup(0);
+    return only instanceof PDFName ? only.decodeText() : undefined;
+  }
+  return filter === undefined ? "None" : undefined;
+};
+
+/**
+ * Re-encode an image XObject as JPEG, downsampling it when it is drawn above
+ * the target resolution. Returns the new stream, or null if the image is not
+ * a candidate or the result would not be smaller.
+ */
+const recompressImage = async (context, stream, placement, preset) => {
+  const { dict } = stream;
+  if (dict.lookup(PDFName.of("ImageMask"))?.asBoolean?.()) return null;
+  if (dict.has(PDFName.of("Decode"))) return null;
+  // Color-key masks match exact sample values, which JPEG doesn't keep, and
+  // stencil masks must keep lining up with the pixels; leave both alone
+  if (dict.has(PDFName.of("Mask"))) return null;
+  if (lookupNumber(dict, "BitsPerComponent") !== 8) return null;
+
+  const width = lookupNumber(dict, "Width");
+  const height = lookupNumber(dict, "Height");
+  const channels = colorComponents(context, dict);
+  const filter = singleFilter(dict);
+  if (!width || !height || !channels) return null;
+
+  let input;
+  if (filter === "DCTDecode") {
+    input = sharp(stream.contents);
+    const { channels: jpegChannels, space } = await input.metadata();
+    if (jpegChannels !== channels || space === "cmyk") return null;
+  } else if (filter === "FlateDecode" || filter === "None") {
+    // PNG/TIFF predictors are not supported by pdf-lib's decoder
+    if (dict.lookup(PDFName.of("DecodeParms"))) return null;
+    const pixels = filter === "None" ? stream.contents : zlib.inflateSync(stream.contents);
+    if (pixels.length !== width * height * channels) return null;
+    input = sharp(Buffer.from(pixels), { raw: { width, height, channels } });
+  } else {
+    return null;
+  }
+
+  // Effective resolution on the page (points are 1/72 inch)
+  const dpi = Math.min(width / (placement.width / 72), height / (placement.height / 72));
+  if (dpi > preset.dpi * DOWNSAMPLE_THRESHOLD) {
+    const scale = preset.dpi / dpi;
+    input = input.resize(
+      Math.max(1, Math.round(width * scale)),
+      Math.max(1, Math.round(height * scale)),
+      { fit: "fill" }
+    );
+  }
+  if (channels === 1) input = input.toColourspace("b-w");
+
+  const { data, info } = await input
+    .jpeg({ quality: preset.quality, mozjpeg: true })
+    .toBuffer({ resolveWithObject: true });
+  if (data.length >= stream.contents.length) return null;
+
+  const entries = {
+    Type: "XObject",
+    Subtype: "Image",
+    Width: info.width,
+    Height: info.height,
+    ColorSpace: channels === 1 ? "DeviceGray" : "DeviceRGB",
+    BitsPerComponent: 8,
+    Filter: "DCTDecode",
+  };
+  for (const key of ["SMask", "Interpolate", "Intent"]) {
+    const value = dict.get(PDFName.of(key));
+    if (value) entries[key] = value;
+  }
+  return context.stream(data, entries);
+};
+
+// Remove the document info dictionary, XMP metadata and other non-rendering data
+const stripMetadata = (pdfDoc) => {
+  pdfDoc.context.trailerInfo.Info = undefined;
+  for (const key of ["Metadata", "PieceInfo"]) {
+    pdfDoc.catalog.delete(PDFName.of(key));
+  }
+  for (const page of pdfDoc.getPages()) {
+    for (const key of ["Metadata", "PieceInfo", "Thumb"]) {
+      page.node.delete(PDFName.of(key));
+    }
+  }
+};
+
+/**
+ * Compress a PDF with one of the COMPRESSION_PRESETS. Throws
+ * EncryptedInputError for encrypted input.
+ */
+export async function compressPdf(buffer, presetName) {
+  const preset = COMPRESSION_PRESETS[presetName];
+  // pdf-lib's ES5 build loses the EncryptedPDFError prototype, so check the flag instead
+  const pdfDoc = await PDFDocument.load(buffer, { updateMetadata: false, ignoreEncryption: true });
+  if (pdfDoc.isEncrypted) throw new EncryptedInputError("The PDF is encrypted");
+  const { context } = pdfDoc;
+
+  stripMetadata(pdfDoc);
+  pruneUnreachableObjects(context);
+
+  const placements = collectImagePlacements(pdfDoc);
+  // Images never drawn directly (e.g. patterns) are assumed to fill the largest page
+  const fallback = pdfDoc.getPages().reduce(
+    (size, page) => ({
+      width: Math.max(size.width, page.getWidth()),
+      height: Math.max(size.height, page.getHeight()),
+    }),
+    { width: 1, height: 1 }
+  );
+
+  // Soft masks must stay lossless, so never re-encode them as JPEG
+  const softMasks = new Set();
+  for (const [, object] of context.enumerateIndirectObjects()) {
+    const mask = object instanceof PDFRawStream && object.dict.get(PDFName.of("SMask"));
+    if (mask instanceof PDFRef) softMasks.add(mask.toString());
+  }
+
+  let imagesRecompressed = 0;
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream)) continue;
+    const { dict } = object;
+
+    if (lookupName(dict, "Subtype") === "Image" && !softMasks.has(ref.toString())) {
+      try {
+        const placement = placements.get(ref.toString()) ?? fallback;
+        const replacement = await recompressImage(context, object, placement, preset);
+        if (replacement) {
+          context.assign(ref, replacement);
+          imagesRecompressed++;
+          continue;
+        }
+      } catch (err) {
+        // Leave images sharp cannot decode untouched
+        console.warn(`⚠️ Skipping image ${ref}: ${err.message}`);
+      }
+    }
+
+    if (!dict.has(PDFName.of("Filter")) && object.contents.length >= MIN_DEFLATE_SIZE) {
+      const deflated = zlib.deflateSync(object.contents, { level: 9 });
+      if (deflated.length < object.contents.length) {
+        dict.set(PDFName.of("Filter"), PDFName.of("FlateDecode"));
+        context.assign(ref, PDFRawStream.of(dict, deflated));
+      }
+    }
+  }
+
+  const bytes = await pdfDoc.save({ useObjectStreams: true });
+  return { bytes, imagesRecompressed };
+}
@@ -0,0 +1,48 @@
+// Low-level helpers over a pdf-lib PDFContext.
+// Objects are matched by shape rather than instanceof so the helpers work for
+// documents loaded with either pdf-lib or @cantoo/pdf-lib.
+
+const isRef = (obj) =>
+  typeof obj?.objectNumber === "number" && typeof obj?.generationNumber === "number";
+const isDict = (obj) => obj?.dict instanceof Map;
+const isStream = (obj) => !!obj && !isDict(obj) && isDict(obj.dict);
+const isArray = (obj) => typeof obj?.asArray === "function";
+
+// Call `visit` for every indirect reference found inside `obj`
+const forEachRef = (obj, visit) => {
+  if (isRef(obj)) return visit(obj);
+  if (isStream(obj)) return forEachRef(obj.dict, visit);
+  if (isArray(obj)) return obj.asArray().forEach((item) => forEachRef(item, visit));
+  if (isDict(obj)) obj.dict.forEach((value) => forEachRef(value, visit));
+};
+
+/**
+ * Delete every indirect object that cannot be reached from the trailer
+ * (Root, Info and Encrypt). Returns the number of objects removed.
+ */
+export function pruneUnreachableObjects(context) {
+  const reachable = new Set();
+  const pending = [];
+  const visit = (ref) => {
+    const key = ref.toString();
+    if (reachable.has(key)) return;
+    reachable.add(key);
+    pending.push(ref);
+  };
+
+  const { Root, Info, Encrypt } = context.trailerInfo;
+  [Root, Info, Encrypt].forEach((entry) => forEachRef(entry, visit));
+
+  while (pending.length > 0) {
+    forEachRef(context.lookup(pending.pop()), visit);
+  }
+
+  let removed = 0;
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (!reachable.has(ref.toString())) {
+      context.delete(ref);
+      removed++;
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,86 @@
+import { PDFName, PDFNull, PDFNumber, PDFHexString } from "pdf-lib";
+import { pruneUnreachableObjects } from "./pdfObjects.js";
+
+const MAX_DEPTH = 16;
+
+export class OutlineError extends Error {}
+
+/**
+ * Check an outline received from the client: an array of
+ * { title, page, children? } with 1-based pages. Returns the cleaned tree.
+ */
+export function validateOutline(items, pageCount, depth = 0) {
+  if (!Array.isArray(items)) throw new OutlineError("Bookmarks must be a JSON array");
+  if (depth > MAX_DEPTH) throw new OutlineError(`Bookmarks can be nested at most ${MAX_DEPTH} levels deep`);
+
+  return items.map((item) => {
+    const title = typeof item?.title === "string" ? item.title.trim() : "";
+    if (!title) throw new OutlineError("Every bookmark needs a title");
+    if (!Number.isInteger(item.page) || item.page < 1 || item.page > pageCount) {
+      throw new OutlineError(
+        `Bookmark "${title}" points to page ${item.page}, but the document has ${pageCount} pages`
+      );
+    }
+    return {
+      title,
+      page: item.page,
+      children: validateOutline(item.children ?? [], pageCount, depth + 1),
+    };
+  });
+}
+
+// Total number of items below `items`, all levels included
+const countDescendants = (items) =>
+  items.reduce((total, item) => total + 1 + countDescendants(item.children), 0);
+
+/**
+ * Replace the document outline with `items` (see validateOutline). Every item
+ * is written open and jumps to the top of its page. An empty list removes the
+ * outline.
+ */
+export function setOutline(pdfDoc, items) {
+  const { context, catalog } = pdfDoc;
+  const pages = pdfDoc.getPages();
+
+  catalog.delete(PDFName.of("Outlines"));
+  if (items.length > 0) {
+    const rootRef = context.nextRef();
+
+    // Writes the sibling list under `parentRef` and returns its first/last refs
+    const writeItems = (list, parentRef) => {
+      const refs = list.map(() => context.nextRef());
+      list.forEach((item, i) => {
+        const page = pages[item.page - 1];
+        const dict = context.obj({
+          Title: PDFHexString.fromText(item.title),
+          Parent: parentRef,
+          Dest: [page.ref, "XYZ", PDFNull, page.getHeight(), PDFNull],
+        });
+        if (i > 0) dict.set(PDFName.of("Prev"), refs[i - 1]);
+        if (i < list.length - 1) dict.set(PDFName.of("Next"), refs[i + 1]);
+        if (item.children.length > 0) {
+          const { first, last } = writeItems(item.children, refs[i]);
+          dict.set(PDFName.of("First"), first);
+          dict.set(PDFName.of("Last"), last);
+          dict.set(PDFName.of("Count"), PDFNumber.of(countDescendants(item.children)));
+        }
+        context.assign(refs[i], dict);
+      });
+      return { first: refs[0], last: refs[refs.length - 1] };
+    };
+
+    const { first, last } = writeItems(items, rootRef);
+    context.assign(
+      rootRef,
+      context.obj({ Type: "Outlines", First: first, Last: last, Count: countDescendants(items) })
+    );
+    catalog.set(PDFName.of("Outlines"), rootRef);
+    // Open the bookmarks panel when the document is opened
+    catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+  } else if (catalog.get(PDFName.of("PageMode"))?.toString() === "/UseOutlines") {
+    catalog.delete(PDFName.of("PageMode"));
+  }
+
+  // Drop the items of the previous outline
+  pruneUnreachableObjects(context);
+}
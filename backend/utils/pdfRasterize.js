@@ -0,0 +1,78 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { fromBuffer } from "pdf2pic";
+import sharp from "sharp";
+import { ImageOptionError, parseInteger, encodeImage } from "./imageProcessing.js";
+
+// Server-side rendering for /pdf-to-images. pdf2pic drives GraphicsMagick and
+// Ghostscript, which rasterize one page per process, so a huge document never
+// has to fit in memory at once. Pages are rendered as PNG and then encoded by
+// sharp, like every other image the backend returns.
+
+export const PDF_IMAGE_FORMATS = ["png", "jpeg", "webp"];
+const MIN_DPI = 72;
+const MAX_DPI = 600;
+// PDF sizes are in points, 72 per inch
+const POINTS_PER_INCH = 72;
+// Same limit as the browser renderer, so both give the same pixel sizes
+const MAX_SIDE = 16384;
+const MAX_AREA = 16384 * 8192;
+
+/** GraphicsMagick or Ghostscript is not installed on this server */
+export class RasterizerUnavailableError extends Error {}
+
+const run = promisify(execFile);
+let toolsCheck = null;
+
+/** Throws RasterizerUnavailableError unless gm and gs are on the PATH; checked once */
+export const assertRasterizerAvailable = async () => {
+  // gm doesn't report a missing binary through pdf2pic, the image just comes back empty
+  toolsCheck ??= Promise.all([run("gm", ["version"]), run("gs", ["--version"])]).then(
+    () => true,
+    () => false
+  );
+  if (!(await toolsCheck)) {
+    throw new RasterizerUnavailableError("Server-side rendering is not available on this server");
+  }
+};
+
+/** `format`, `quality` (1-100, JPEG and WebP only) and `dpi` form fields */
+export const parseRasterizeOptions = (body) => {
+  const format = body.format === "jpg" ? "jpeg" : body.format || "png";
+  if (!PDF_IMAGE_FORMATS.includes(format)) {
+    throw new ImageOptionError(`Unknown format "${body.format}" (expected ${PDF_IMAGE_FORMATS.join(", ")})`);
+  }
+  return {
+    format,
+    quality: format === "png" ? undefined : parseInteger(body.quality, "Quality", 1, 100),
+    dpi: parseInteger(body.dpi, "DPI", MIN_DPI, MAX_DPI) ?? 150,
+  };
+};
+
+// Pixel size of a pdf-lib page at `dpi`, scaled down to what fits the limits
+const pageRasterSize = (page, dpi) => {
+  const { width, height } = page.getSize();
+  const quarterTurn = page.getRotation().angle % 180 !== 0;
+  const [w, h] = quarterTurn ? [height, width] : [width, height];
+  const scale = Math.min(dpi / POINTS_PER_INCH, MAX_SIDE / w, MAX_SIDE / h, Math.sqrt(MAX_AREA / (w * h)));
+  return {
+    width: Math.max(1, Math.floor(w * scale)),
+    height: Math.max(1, Math.floor(h * scale)),
+    dpi: Math.round(scale * POINTS_PER_INCH),
+  };
+};
+
+/**
+ * Render the 1-based `pageNumber` of `pdfDoc` (loaded from `buffer`) and
+ * encode it as `format`; returns sharp's `{ data, info }`.
+ */
+export const rasterizePage = async (buffer, pdfDoc, pageNumber, { format, quality, dpi }) => {
+  const size = pageRasterSize(pdfDoc.getPage(pageNumber - 1), dpi);
+  const convert = fromBuffer(buffer, { ...size, density: size.dpi, format: "png" });
+
+  const rendered = await convert(pageNumber, { responseType: "buffer" });
+  // A failed gm run also ends with an empty stream rather than an error
+  if (!rendered.buffer?.length) throw new Error(`No image was produced for page ${pageNumber}`);
+
+  return encodeImage(sharp(rendered.buffer), format, { quality });
+};
@@ -0,0 +1,292 @@
+import sharp from "sharp";
+import { StandardFonts, degrees, rgb } from "pdf-lib";
+
+// Text and logo watermarks for the /image/watermark and /watermark routes.
+// Layout is shared: the watermark is a box (rotated counter-clockwise by
+// `rotation` degrees) placed at one of nine anchors `margin` away from the
+// edges, repeated in a brick pattern (`tiled`), or centered along the
+// bottom-left to top-right diagonal (`diagonal`). Sizes are pixels for
+// images and points for PDFs.
+
+export class WatermarkError extends Error {}
+
+export const WATERMARK_POSITIONS = [
+  "top-left",
+  "top-center",
+  "top-right",
+  "middle-left",
+  "center",
+  "middle-right",
+  "bottom-left",
+  "bottom-center",
+  "bottom-right",
+  "tiled",
+  "diagonal",
+];
+const MAX_TEXT_LENGTH = 200;
+const MAX_TILES = 2000;
+
+const parseNumber = (value, name, min, max, fallback) => {
+  if (value === undefined || value === "") return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new WatermarkError(`${name} must be between ${min} and ${max}`);
+  }
+  return number;
+};
+
+/**
+ * Watermark options from the form fields: `text` or an uploaded `logo`,
+ * position, opacity (1-100), rotation (degrees), fontSize, color, margin
+ * and logoWidth (percent of the page or image width).
+ */
+export const parseWatermarkOptions = (body, logo) => {
+  const text = (body.text ?? "").trim();
+  if (!logo && !text) throw new WatermarkError("Enter the watermark text or upload a logo");
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new WatermarkError(`The watermark text can be at most ${MAX_TEXT_LENGTH} characters`);
+  }
+
+  const position = body.position || "center";
+  if (!WATERMARK_POSITIONS.includes(position)) {
+    throw new WatermarkError(`Unknown position "${position}" (expected ${WATERMARK_POSITIONS.join(", ")})`);
+  }
+  const color = body.color || "#808080";
+  if (!/^#[0-9a-f]{6}$/i.test(color)) throw new WatermarkError("Colors must be hex values like #ffffff");
+
+  return {
+    text,
+    logo: logo ?? null,
+    position,
+    color,
+    opacity: parseNumber(body.opacity, "Opacity", 1, 100, 50) / 100,
+    rotation: parseNumber(body.rotation, "Rotation", -180, 180, 0),
+    fontSize: parseNumber(body.fontSize, "Font size", 4, 1000, 48),
+    margin: parseNumber(body.margin, "Margin", 0, 5000, 24),
+    logoWidth: parseNumber(body.logoWidth, "Logo width", 1, 100, 25) / 100,
+  };
+};
+
+// Angle of the watermark: the diagonal overrides the chosen rotation
+const watermarkAngle = ({ position, rotation }, area) =>
+  position === "diagonal" ? (Math.atan2(area.height, area.width) * 180) / Math.PI : rotation;
+
+// Size of the box that holds a width × height rectangle rotated by `angle`
+const rotatedSize = (width, height, angle) => {
+  const cos = Math.abs(Math.cos((angle * Math.PI) / 180));
+  const sin = Math.abs(Math.sin((angle * Math.PI) / 180));
+  return { width: width * cos + height * sin, height: width * sin + height * cos };
+};
+
+/**
+ * Top-left corners (y grows downwards) of every copy of a `box`-sized
+ * watermark inside `area`. Tiles may stick out past the edges.
+ */
+const placements = (position, box, area, margin) => {
+  if (position === "tiled") {
+    const stepX = box.width + Math.max(margin, 1);
+    const stepY = box.height + Math.max(margin, 1);
+    if ((Math.ceil(area.width / stepX) + 1) * Math.ceil(area.height / stepY) > MAX_TILES) {
+      throw new WatermarkError("The tiled watermark is too small for this size; use a larger font, logo or margin");
+    }
+    const corners = [];
+    for (let row = 0, top = margin / 2; top < area.height; row++, top += stepY) {
+      // Every other row is shifted by half a tile, like bricks
+      for (let left = row % 2 ? margin / 2 - stepX / 2 : margin / 2; left < area.width; left += stepX) {
+        corners.push({ left, top });
+      }
+    }
+    return corners;
+  }
+  if (position === "diagonal" || position === "center") {
+    return [{ left: (area.width - box.width) / 2, top: (area.height - box.height) / 2 }];
+  }
+
+  const [vertical, horizontal] = position.split("-");
+  return [
+    {
+      left: horizontal === "left" ? margin : horizontal === "right" ? area.width - box.width - margin : (area.width - box.width) / 2,
+      top: vertical === "top" ? margin : vertical === "bottom" ? area.height - box.height - margin : (area.height - box.height) / 2,
+    },
+  ];
+};
+
+const escapeMarkup = (text) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Unrotated watermark as a sharp instance: rendered text or the resized logo
+const renderWatermark = async (options, area) => {
+  if (options.logo) {
+    const width = Math.max(1, Math.round(area.width * options.logoWidth));
+    try {
+      return sharp(await sharp(options.logo).rotate().resize({ width }).png().toBuffer());
+    } catch {
+      throw new WatermarkError("The logo is not a supported image file");
+    }
+  }
+  return sharp({
+    text: {
+      text: `<span foreground="${options.color}">${escapeMarkup(options.text)}</span>`,
+      font: `sans bold ${options.fontSize}`,
+      dpi: 72,
+      rgba: true,
+    },
+  });
+};
+
+// Part of an RGBA overlay that falls inside the image, since sharp can't
+// composite overlays that stick out past the right or bottom edge
+const clipOverlay = (overlay, left, top, area) => {
+  const x0 = Math.max(0, -left);
+  const y0 = Math.max(0, -top);
+  const width = Math.min(overlay.width, area.width - left) - x0;
+  const height = Math.min(overlay.height, area.height - top) - y0;
+  if (width <= 0 || height <= 0) return null;
+
+  const input = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const start = ((y0 + y) * overlay.width + x0) * 4;
+    overlay.data.copy(input, y * width * 4, start, start + width * 4);
+  }
+  return { input, raw: { width, height, channels: 4 }, left: left + x0, top: top + y0 };
+};
+
+/** Composite the watermark onto a sharp `image` whose displayed size is `area` */
+export const watermarkImage = async (image, area, options) => {
+  const angle = watermarkAngle(options, area);
+  let overlay = (await renderWatermark(options, area))
+    .ensureAlpha()
+    // sharp rotates clockwise, the option is counter-clockwise
+    .rotate(-angle, { background: { r: 0, g: 0, b: 0, alpha: 0 } });
+
+  // A single watermark larger than the image is scaled down to fit
+  const { info } = await overlay.clone().raw().toBuffer({ resolveWithObject: true });
+  if (options.position !== "tiled" && (info.width > area.width || info.height > area.height)) {
+    overlay = sharp(await overlay.png().toBuffer()).resize({
+      width: area.width,
+      height: area.height,
+      fit: "inside",
+    });
+  }
+
+  const { data, info: size } = await overlay
+    .linear([1, 1, 1, options.opacity], [0, 0, 0, 0])
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const box = { width: size.width, height: size.height };
+  const layers = placements(options.position, box, area, options.margin)
+    .map(({ left, top }) => clipOverlay({ data, ...box }, Math.round(left), Math.round(top), area))
+    .filter(Boolean);
+
+  return image.composite(layers);
+};
+
+// pdf-lib draws rotated content around its origin; this finds the origin
+// that puts the rotated rectangle [0, width] × [bottom, bottom + height]
+// at `corner` (the bottom-left of its bounding box)
+const rotatedOrigin = (corner, width, bottom, height, angle) => {
+  const cos = Math.cos((angle * Math.PI) / 180);
+  const sin = Math.sin((angle * Math.PI) / 180);
+  const points = [
+    [0, bottom],
+    [width, bottom],
+    [0, bottom + height],
+    [width, bottom + height],
+  ].map(([x, y]) => [x * cos - y * sin, x * sin + y * cos]);
+  return {
+    x: corner.x - Math.min(...points.map(([x]) => x)),
+    y: corner.y - Math.min(...points.map(([, y]) => y)),
+  };
+};
+
+// Map a point of the page as displayed to PDF user space for /Rotate pages
+const toUserSpace = ({ x, y }, box, rotation) => {
+  switch (rotation) {
+    case 90:
+      return { x: box.x + box.width - y, y: box.y + x };
+    case 180:
+      return { x: box.x + box.width - x, y: box.y + box.height - y };
+    case 270:
+      return { x: box.x + y, y: box.y + box.height - x };
+    default:
+      return { x: box.x + x, y: box.y + y };
+  }
+};
+
+/**
+ * Draw the watermark on the pages of `pdfDoc` listed in `pageIndices`
+ * (0-based), in the page's displayed orientation.
+ */
+export const watermarkPdf = async (pdfDoc, pageIndices, options) => {
+  let drawable;
+  if (options.logo) {
+    let png;
+    try {
+      png = await sharp(options.logo).rotate().png().toBuffer();
+    } catch {
+      throw new WatermarkError("The logo is not a supported image file");
+    }
+    const image = await pdfDoc.embedPng(png);
+    drawable = { image, aspect: image.height / image.width };
+  } else {
+    const font = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+    try {
+      font.encodeText(options.text);
+    } catch {
+      throw new WatermarkError("The watermark text has characters the PDF font can't show; use Latin letters only");
+    }
+    drawable = { font };
+  }
+
+  const hex = parseInt(options.color.slice(1), 16);
+  const color = rgb(((hex >> 16) & 255) / 255, ((hex >> 8) & 255) / 255, (hex & 255) / 255);
+  const pages = pdfDoc.getPages();
+
+  for (const index of pageIndices) {
+    const page = pages[index];
+    const cropBox = page.getCropBox();
+    const pageRotation = ((page.getRotation().angle % 360) + 360) % 360;
+    const area =
+      pageRotation % 180 ? { width: cropBox.height, height: cropBox.width } : { width: cropBox.width, height: cropBox.height };
+    const angle = watermarkAngle(options, area);
+
+    // Unrotated size; text also hangs below its baseline by the descender
+    let width;
+    let height;
+    let bottom = 0;
+    if (drawable.image) {
+      width = area.width * options.logoWidth;
+      height = width * drawable.aspect;
+    } else {
+      width = drawable.font.widthOfTextAtSize(options.text, options.fontSize);
+      height = drawable.font.heightAtSize(options.fontSize);
+      bottom = drawable.font.heightAtSize(options.fontSize, { descender: false }) - height;
+    }
+
+    // A single watermark larger than the page is scaled down to fit
+    const rotated = rotatedSize(width, height, angle);
+    const fit =
+      options.position === "tiled" ? 1 : Math.min(1, area.width / rotated.width, area.height / rotated.height);
+    const bounds = { width: rotated.width * fit, height: rotated.height * fit };
+
+    for (const { left, top } of placements(options.position, bounds, area, options.margin)) {
+      // Placements are measured from the top; PDF y grows upwards
+      const corner = { x: left, y: area.height - top - bounds.height };
+      const origin = rotatedOrigin(corner, width * fit, bottom * fit, height * fit, angle);
+      const { x, y } = toUserSpace(origin, cropBox, pageRotation);
+      const rotate = degrees(angle + pageRotation);
+      if (drawable.image) {
+        page.drawImage(drawable.image, { x, y, width: width * fit, height: height * fit, rotate, opacity: options.opacity });
+      } else {
+        page.drawText(options.text, {
+          x,
+          y,
+          size: options.fontSize * fit,
+          font: drawable.font,
+          color,
+          rotate,
+          opacity: options.opacity,
+        });
+      }
+    }
+  }
+};
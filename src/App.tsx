@@ -17,6 +17,24 @@ import PdfSplit from "./components/tools/pdf/pdfsplit";
 import ImgToPdf from "./components/tools/pdf/imgtopdf";
 import PdfToImages from './components/tools/pdf/pdftoimg';
 import MergePdf from "./components/tools/pdf/MergePdf";
+import RotatePdf from "./components/tools/pdf/RotatePdf";
+import ProtectPdf from "./components/tools/pdf/ProtectPdf";
+import UnlockPdf from "./components/tools/pdf/UnlockPdf";
+import CompressPdf from "./components/tools/pdf/CompressPdf";
+import ExtractText from "./components/tools/pdf/ExtractText";
+import BookmarksPdf from "./components/tools/pdf/BookmarksPdf";
+import EditPdf from "./components/tools/pdf/EditPdf";
+import PdfConverter from "./components/tools/pdf/PdfConverter";
+import ResizeImage from "./components/tools/image/ResizeImage";
+import CompressImage from "./components/tools/image/CompressImage";
+import ConvertImage from "./components/tools/image/ConvertImage";
+import CropImage from "./components/tools/image/CropImage";
+import AdjustImage from "./components/tools/image/AdjustImage";
+import Watermark from "./components/tools/image/Watermark";
+import CreateCollage from "./components/tools/image/CreateCollage";
+import RemoveBackground from "./components/tools/image/RemoveBackground";
+import ImageViewer from "./components/tools/image/ImageViewer";
+import BatchImages from "./components/tools/image/BatchImages";
 
 const App: React.FC = () => {
   const [darkMode, setDarkMode] = useDarkMode();
@@ -72,6 +90,88 @@ const App: React.FC = () => {
     path="/tools/pdf/merge" // Add this route
     element={<MergePdf darkMode={darkMode} />}
   />
+            <Route
+              path="/tools/pdf/rotate"
+              element={<RotatePdf darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/pdf/protect"
+              element={<ProtectPdf darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/pdf/unlock"
+              element={<UnlockPdf darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/pdf/compress"
+              element={<CompressPdf darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/pdf/extract-text"
+              element={<ExtractText darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/pdf/bookmarks"
+              element={<BookmarksPdf darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/pdf/edit"
+              element={<EditPdf darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/pdf/converter"
+              element={<PdfConverter darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/pdf/watermark"
+              element={<Watermark darkMode={darkMode} />}
+            />
+
+            {/* Image tools */}
+            <Route
+              path="/tools/image/resize"
+              element={<ResizeImage darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/image/compress"
+              element={<CompressImage darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/image/convert"
+              element={<ConvertImage darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/image/crop"
+              element={<CropImage darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/image/adjust"
+              element={<AdjustImage darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/image/watermark"
+              element={<Watermark darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/image/collage"
+              element={<CreateCollage darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/image/remove-background"
+              element={<RemoveBackground darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/image/viewer"
+              element={<ImageViewer darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/image/batch-upload"
+              element={<BatchImages darkMode={darkMode} />}
+            />
+            <Route
+              path="/tools/image/bulk-download"
+              element={<BatchImages darkMode={darkMode} />}
+            />
 
           </Routes>
         </main>
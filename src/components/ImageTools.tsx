@@ -1,4 +1,5 @@
 import React from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Image, Crop, RotateCw, Maximize as Resize, Palette, Filter, Contrast, Copyright as Brightness6, Compass as Compress, FileImage, Scissors, Grid3X3, Layers, Eye, Download, Upload, } from 'lucide-react';
 import ToolCard from './ToolCard';
 
@@ -7,17 +8,19 @@ interface ImageToolsProps {
 }
 
 const ImageTools: React.FC<ImageToolsProps> = ({ darkMode }) => {
+  const navigate = useNavigate();
+
   // Define tool routes/URLs
   const toolRoutes: Record<string, string> = {
-    'Resize Image': '/tools/convert-from-pdf/pdf-to-word',
+    'Resize Image': '/tools/image/resize',
     'Compress Image': '/tools/image/compress',
     'Crop Image': '/tools/image/crop',
     'Convert Format': '/tools/image/convert',
     'Rotate Image': '/tools/image/rotate',
-    'Apply Filters': '/tools/image/filters',
-    'Adjust Contrast': '/tools/image/contrast',
-    'Brightness Control': '/tools/image/brightness',
-    'Color Correction': '/tools/image/color-correction',
+    'Apply Filters': '/tools/image/adjust',
+    'Adjust Contrast': '/tools/image/adjust',
+    'Brightness Control': '/tools/image/adjust',
+    'Color Correction': '/tools/image/adjust',
     'Remove Background': '/tools/image/remove-background',
     'Create Collage': '/tools/image/collage',
     'Watermark': '/tools/image/watermark',
@@ -123,10 +126,7 @@ const ImageTools: React.FC<ImageToolsProps> = ({ darkMode }) => {
   const handleToolClick = (toolTitle: string) => {
     const route = toolRoutes[toolTitle];
     if (route) {
-      // For a real application, you would use your routing method here
-      // For example, with React Router: navigate(route);
-      // For this example, we'll simulate navigation
-      window.location.href = route;
+      navigate(route);
     } else {
       console.warn(`No route defined for tool: ${toolTitle}`);
     }
@@ -1,6 +1,6 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
-import { FileText, Scissors, Merge, RotateCw, Lock, Unlock, Image, FileImage, Compass as Compress, Edit3, Search, Bookmark } from 'lucide-react';
+import { FileText, Scissors, Merge, RotateCw, Lock, Unlock, Image, FileImage, Compass as Compress, Edit3, Search, Bookmark, Stamp } from 'lucide-react';
 import ToolCard from './ToolCard';
 
 interface PDFToolsProps {
@@ -23,7 +23,8 @@ const PDFTools: React.FC<PDFToolsProps> = ({ darkMode }) => {
     'Edit PDF': '/tools/pdf/edit',
     'Extract Text': '/tools/pdf/extract-text',
     'Add Bookmarks': '/tools/pdf/bookmarks',
-    'PDF Converter': '/tools/pdf/converter'
+    'PDF Converter': '/tools/pdf/converter',
+    'Add Watermark': '/tools/pdf/watermark'
   };
 
   const pdfTools = [
@@ -89,6 +90,11 @@ const PDFTools: React.FC<PDFToolsProps> = ({ darkMode }) => {
       icon: FileText,
       title: 'PDF Converter',
       description: 'Convert PDFs to Word, Excel, PowerPoint, and other formats.'
+    },
+    {
+      icon: Stamp,
+      title: 'Add Watermark',
+      description: 'Stamp text or a logo across selected pages of your PDF.'
     }
   ];
 
@@ -0,0 +1,635 @@
+import React, { useState, useRef, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Upload,
+  SlidersHorizontal,
+  Download,
+  RotateCw,
+  AlertCircle,
+  Home,
+  ArrowLeft,
+  ChevronUp,
+  ChevronDown,
+  X,
+  Eye
+} from "lucide-react";
+import { API_BASE_URL } from "../../../utils/api";
+import { formatFileSize } from "../../../utils/fileSize";
+import {
+  IMAGE_FORMATS,
+  imageFormatInfo,
+  formatFromMimeType,
+  imageFileName,
+  type ImageFormat
+} from "../../../utils/imageFormats";
+import {
+  ADJUSTMENTS,
+  ADJUSTMENT_PRESETS,
+  adjustmentInfo,
+  activeAdjustments,
+  applyAdjustments,
+  type Adjustment,
+  type AdjustmentType
+} from "../../../utils/imageAdjust";
+
+// Longest side of the downscaled copy the live preview works on
+const PREVIEW_SIZE = 900;
+
+interface StackItem extends Adjustment {
+  /** Stable React key while items are reordered */
+  id: number;
+}
+
+interface Preview {
+  pixels: ImageData;
+  /** Preview pixels per original pixel */
+  scale: number;
+  width: number;
+  height: number;
+}
+
+interface AdjustResult {
+  url: string;
+  width: number;
+  height: number;
+  size: number;
+  extension: string;
+}
+
+// Downscaled pixels of the image, drawn the way the browser displays it (EXIF orientation applied)
+const loadPreview = (file: File): Promise<Preview & { originalWidth: number; originalHeight: number }> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, PREVIEW_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+      const width = Math.max(1, Math.round(img.naturalWidth * scale));
+      const height = Math.max(1, Math.round(img.naturalHeight * scale));
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext("2d", { willReadFrequently: true })!;
+      context.drawImage(img, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      resolve({
+        pixels: context.getImageData(0, 0, width, height),
+        scale,
+        width,
+        height,
+        originalWidth: img.naturalWidth,
+        originalHeight: img.naturalHeight,
+      });
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read this image"));
+    };
+    img.src = url;
+  });
+
+const formatValue = (type: AdjustmentType, value: number) => {
+  const { unit, step } = adjustmentInfo(type);
+  const text = step < 1 ? value.toFixed(2).replace(/0$/, "") : String(value);
+  return `${value > 0 && type !== "gamma" && !unit ? "+" : ""}${text}${unit ?? ""}`;
+};
+
+const AdjustImage: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [stack, setStack] = useState<StackItem[]>([]);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [format, setFormat] = useState<ImageFormat | "original">("original");
+  const [result, setResult] = useState<AdjustResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const nextId = useRef(0);
+
+  const active = activeAdjustments(stack);
+
+  // Redraw the preview at most once per frame while sliders move
+  useEffect(() => {
+    if (!preview) return;
+    const frame = requestAnimationFrame(() => {
+      const context = canvasRef.current?.getContext("2d");
+      if (!context) return;
+      context.putImageData(showOriginal ? preview.pixels : applyAdjustments(preview.pixels, stack, preview.scale), 0, 0);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [preview, stack, showOriginal]);
+
+  // Release the result's object URL whenever it is replaced
+  useEffect(() => {
+    return () => {
+      if (result) URL.revokeObjectURL(result.url);
+    };
+  }, [result]);
+
+  const selectFile = async (file: File) => {
+    setError(null);
+    setResult(null);
+    if (!file.type.startsWith("image/")) {
+      setError("Please upload an image file only.");
+      return;
+    }
+
+    try {
+      const { originalWidth, originalHeight, ...loaded } = await loadPreview(file);
+      setSelectedFile(file);
+      setFileName(file.name);
+      setImageSize({ width: originalWidth, height: originalHeight });
+      setPreview(loaded);
+    } catch {
+      setError("This image can't be previewed in your browser. Convert it to JPG or PNG first.");
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      selectFile(e.target.files[0]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      selectFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const withIds = (adjustments: Adjustment[]) => adjustments.map((a) => ({ ...a, id: nextId.current++ }));
+
+  const updateStack = (next: StackItem[]) => {
+    setStack(next);
+    setResult(null);
+  };
+
+  const addAdjustment = (type: AdjustmentType) => {
+    updateStack([...stack, ...withIds([{ type, value: adjustmentInfo(type).initial }])]);
+  };
+
+  const setValue = (id: number, value: number) => {
+    updateStack(stack.map((item) => (item.id === id ? { ...item, value } : item)));
+  };
+
+  const moveAdjustment = (index: number, offset: number) => {
+    const next = [...stack];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    updateStack(next);
+  };
+
+  const handleApply = async () => {
+    if (!selectedFile) {
+      setError("Please select an image.");
+      return;
+    }
+    if (active.length === 0) {
+      setError("Add at least one adjustment or preset first.");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+      formData.append("adjustments", JSON.stringify(active.map(({ type, value }) => ({ type, value }))));
+      if (format !== "original") formData.append("format", format);
+
+      const response = await fetch(`${API_BASE_URL}/image/adjust`, {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Failed to adjust image");
+      }
+
+      const blob = await response.blob();
+      const outputFormat = formatFromMimeType(blob.type);
+      setResult({
+        url: URL.createObjectURL(blob),
+        width: Number(response.headers.get("X-Image-Width")) || 0,
+        height: Number(response.headers.get("X-Image-Height")) || 0,
+        size: blob.size,
+        extension: outputFormat ? imageFormatInfo(outputFormat).extension : "png",
+      });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error && err.message ? err.message : "Something went wrong while processing the image");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    const link = document.createElement("a");
+    link.href = result.url;
+    link.download = imageFileName("adjusted", fileName, result.extension);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
+
+  const handleReset = () => {
+    setSelectedFile(null);
+    setFileName("");
+    setImageSize(null);
+    setPreview(null);
+    setStack([]);
+    setShowOriginal(false);
+    setResult(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleBackToHome = () => {
+    navigate("/");
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border-2 text-sm transition-all duration-300 ${
+    darkMode
+      ? "bg-gray-700 border-gray-600 text-white focus:border-blue-400"
+      : "bg-white border-gray-300 text-gray-900 focus:border-blue-500"
+  }`;
+  const labelClass = `block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`;
+  const chipClass = (highlighted: boolean) =>
+    `px-3 py-1.5 rounded-lg text-sm font-medium border-2 transition-all duration-300 ${
+      highlighted
+        ? darkMode
+          ? "border-blue-400 bg-blue-400/10 text-blue-300"
+          : "border-blue-500 bg-blue-50 text-blue-700"
+        : darkMode
+          ? "border-gray-600 text-gray-300 hover:border-gray-500"
+          : "border-gray-200 text-gray-700 hover:border-gray-300"
+    }`;
+  const iconButtonClass = `p-1 rounded-md transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+    darkMode ? "text-gray-400 hover:text-white hover:bg-gray-600" : "text-gray-500 hover:text-gray-900 hover:bg-gray-200"
+  }`;
+
+  return (
+    <div className={`min-h-screen py-8 px-4 transition-colors duration-300 ${
+      darkMode ? "bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900" : "bg-gradient-to-br from-blue-50 via-white to-gray-100"
+    }`}>
+      <div className="max-w-5xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={handleBackToHome}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-blue-400 hover:text-blue-300 hover:bg-blue-400/10"
+                : "text-blue-600 hover:text-blue-700 hover:bg-blue-100"
+            }`}
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span className="hidden sm:inline">Back to Home</span>
+            <span className="sm:hidden">Home</span>
+          </button>
+
+          <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+            darkMode ? "bg-blue-900/30 text-blue-300" : "bg-blue-100 text-blue-700"
+          }`}>
+            Image Tool
+          </div>
+        </div>
+
+        {/* Main Card */}
+        <div className={`rounded-3xl shadow-2xl overflow-hidden ${
+          darkMode ? "bg-gray-800/80 backdrop-blur-sm" : "bg-white/80 backdrop-blur-sm"
+        }`}>
+          <div className="p-6 md:p-8">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center mb-4">
+                <div className={`p-3 rounded-2xl ${
+                  darkMode ? "bg-gradient-to-br from-blue-600/20 to-teal-600/20" : "bg-gradient-to-br from-blue-100 to-teal-100"
+                }`}>
+                  <SlidersHorizontal className={`h-8 w-8 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                </div>
+              </div>
+              <h1 className={`text-3xl md:text-4xl font-bold mb-3 bg-gradient-to-r ${
+                darkMode ? "from-blue-400 to-teal-400" : "from-blue-600 to-teal-600"
+              } bg-clip-text text-transparent`}>
+                Adjust & Filter Image
+              </h1>
+              <p className={`text-base md:text-lg ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                Brightness, contrast, color and filters with a live preview
+              </p>
+            </div>
+
+            {/* Upload Area */}
+            {!selectedFile && (
+              <div className="mb-6 md:mb-8">
+                <div
+                  className={`border-2 border-dashed rounded-2xl p-6 md:p-8 text-center cursor-pointer transition-all duration-300 group ${
+                    darkMode
+                      ? "border-gray-600 hover:border-blue-400 hover:bg-blue-400/5"
+                      : "border-gray-300 hover:border-blue-500 hover:bg-blue-500/5"
+                  }`}
+                  onClick={() => fileInputRef.current?.click()}
+                  onDrop={handleDrop}
+                  onDragOver={handleDragOver}
+                >
+                  <input
+                    type="file"
+                    accept="image/*"
+                    ref={fileInputRef}
+                    onChange={handleFileChange}
+                    className="hidden"
+                  />
+
+                  <div className="flex flex-col items-center justify-center">
+                    <Upload className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${
+                      darkMode ? "text-blue-400" : "text-blue-600"
+                    } group-hover:scale-110 transition-transform`} />
+                    <h3 className="text-lg md:text-xl font-semibold mb-2">Upload Image</h3>
+                    <p className={`text-sm md:text-base ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                      Click to browse or drag & drop your image here
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Editor */}
+            {selectedFile && preview && imageSize && (
+              <div className="mb-6 md:mb-8 space-y-5">
+                <p className={`text-sm text-center ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                  <span className="font-mono">{fileName}</span> · {imageSize.width} × {imageSize.height} px ·{" "}
+                  {formatFileSize(selectedFile.size)}
+                </p>
+
+                <div className={`relative flex justify-center p-4 rounded-2xl ${darkMode ? "bg-gray-900/60" : "bg-gray-100"}`}>
+                  <canvas
+                    ref={canvasRef}
+                    width={preview.width}
+                    height={preview.height}
+                    className="block max-w-full max-h-[60vh] object-contain"
+                  />
+                  <button
+                    onPointerDown={() => setShowOriginal(true)}
+                    onPointerUp={() => setShowOriginal(false)}
+                    onPointerLeave={() => setShowOriginal(false)}
+                    className="absolute top-6 right-6 flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium bg-black/60 text-white hover:bg-black/75 select-none touch-none"
+                  >
+                    <Eye className="h-4 w-4" />
+                    {showOriginal ? "Original" : "Hold to compare"}
+                  </button>
+                </div>
+
+                {/* Presets */}
+                <div>
+                  <label className={labelClass}>Presets</label>
+                  <div className="flex flex-wrap gap-2">
+                    {ADJUSTMENT_PRESETS.map((preset) => (
+                      <button
+                        key={preset.name}
+                        onClick={() => updateStack(withIds(preset.adjustments))}
+                        className={chipClass(false)}
+                      >
+                        {preset.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Add single adjustments */}
+                <div>
+                  <label className={labelClass}>Add adjustment</label>
+                  <div className="flex flex-wrap gap-2">
+                    {ADJUSTMENTS.map(({ type, label }) => (
+                      <button
+                        key={type}
+                        onClick={() => addAdjustment(type)}
+                        className={chipClass(stack.some((item) => item.type === type))}
+                      >
+                        + {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Adjustment stack, applied top to bottom */}
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className={`text-sm font-medium ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                      Applied in this order
+                    </label>
+                    {stack.length > 0 && (
+                      <button
+                        onClick={() => updateStack([])}
+                        className={`text-sm font-medium ${darkMode ? "text-blue-400 hover:text-blue-300" : "text-blue-600 hover:text-blue-700"}`}
+                      >
+                        Clear all
+                      </button>
+                    )}
+                  </div>
+                  {stack.length === 0 ? (
+                    <p className={`text-sm p-4 rounded-xl border-2 border-dashed text-center ${
+                      darkMode ? "border-gray-600 text-gray-400" : "border-gray-200 text-gray-500"
+                    }`}>
+                      Pick a preset or add an adjustment to get started
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {stack.map((item, index) => {
+                        const info = adjustmentInfo(item.type);
+                        return (
+                          <div
+                            key={item.id}
+                            className={`p-3 rounded-xl border-2 ${
+                              darkMode ? "border-gray-600 bg-gray-700/30" : "border-gray-200 bg-white/60"
+                            }`}
+                          >
+                            <div className="flex items-center gap-2 mb-1">
+                              <span className={`text-sm font-medium flex-1 ${darkMode ? "text-gray-200" : "text-gray-800"}`}>
+                                {info.label}
+                                <span className={`ml-2 font-mono ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                                  {formatValue(item.type, item.value)}
+                                </span>
+                              </span>
+                              <button onClick={() => moveAdjustment(index, -1)} disabled={index === 0} className={iconButtonClass} title="Move up">
+                                <ChevronUp className="h-4 w-4" />
+                              </button>
+                              <button
+                                onClick={() => moveAdjustment(index, 1)}
+                                disabled={index === stack.length - 1}
+                                className={iconButtonClass}
+                                title="Move down"
+                              >
+                                <ChevronDown className="h-4 w-4" />
+                              </button>
+                              <button
+                                onClick={() => updateStack(stack.filter((other) => other.id !== item.id))}
+                                className={iconButtonClass}
+                                title="Remove"
+                              >
+                                <X className="h-4 w-4" />
+                              </button>
+                            </div>
+                            <input
+                              type="range"
+                              min={info.min}
+                              max={info.max}
+                              step={info.step}
+                              value={item.value}
+                              onChange={(e) => setValue(item.id, Number(e.target.value))}
+                              onDoubleClick={() => setValue(item.id, info.neutral)}
+                              className="w-full accent-blue-600"
+                            />
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+
+                <div className="sm:w-48">
+                  <label className={labelClass}>Format</label>
+                  <select
+                    value={format}
+                    onChange={(e) => { setFormat(e.target.value as ImageFormat | "original"); setResult(null); }}
+                    className={inputClass}
+                  >
+                    <option value="original">Original</option>
+                    {IMAGE_FORMATS.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            <div className="flex flex-col sm:flex-row gap-3 md:gap-4 mb-6">
+              <button
+                onClick={handleApply}
+                disabled={loading || !selectedFile || active.length === 0}
+                className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  darkMode
+                    ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                    : "bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                }`}
+              >
+                {loading ? (
+                  <>
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                    <span>Applying...</span>
+                  </>
+                ) : (
+                  <>
+                    <SlidersHorizontal className="h-5 w-5" />
+                    <span>Apply to Full Image</span>
+                  </>
+                )}
+              </button>
+
+              <button
+                onClick={handleReset}
+                disabled={loading}
+                className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                  darkMode
+                    ? "border-gray-600 text-gray-300 hover:bg-gray-700/50 hover:border-gray-500 hover:scale-105"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-gray-400 hover:scale-105"
+                }`}
+              >
+                <RotateCw className="h-5 w-5" />
+                <span>Reset</span>
+              </button>
+            </div>
+
+            {/* Status Messages */}
+            {error && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-red-900/20 border-red-500 text-red-400" : "bg-red-50 border-red-500 text-red-700"
+              }`}>
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {/* Adjust Result */}
+            {result && (
+              <div className={`p-4 md:p-6 rounded-2xl mb-4 animate-fade-in ${
+                darkMode ? "bg-green-900/20 border border-green-700/50" : "bg-green-50 border border-green-200"
+              }`}>
+                <p className={`text-sm text-center mb-4 ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                  {result.width} × {result.height} px · {formatFileSize(result.size)}
+                </p>
+                <button
+                  onClick={handleDownload}
+                  className="w-full py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 bg-green-600 hover:bg-green-700 text-white shadow-lg hover:shadow-xl"
+                >
+                  <Download className="h-5 w-5" />
+                  <span>Download Adjusted Image</span>
+                </button>
+              </div>
+            )}
+
+            {/* Instructions */}
+            <div className={`mt-6 p-4 md:p-6 rounded-2xl ${
+              darkMode ? "bg-gray-700/30" : "bg-white/50"
+            }`}>
+              <h3 className={`font-semibold mb-3 text-sm md:text-base ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                How to use:
+              </h3>
+              <ol className={`list-decimal list-inside space-y-2 text-xs md:text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}>
+                <li>Upload an image, then start from a preset or add adjustments one by one</li>
+                <li>Drag the sliders and watch the preview; double-click a slider to reset it</li>
+                <li>Reorder the stack with the arrows, since each step works on the result of the one above</li>
+                <li>Hold "Hold to compare" to see the original image</li>
+                <li>Click "Apply to Full Image" to process the original at full resolution and download it</li>
+              </ol>
+            </div>
+          </div>
+        </div>
+
+        {/* Quick Actions Footer */}
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleBackToHome}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-gray-400 hover:text-gray-300 hover:bg-gray-700/50"
+                : "text-gray-600 hover:text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <Home className="h-4 w-4" />
+            Back to All Tools
+          </button>
+        </div>
+      </div>
+
+      {/* Add custom animations */}
+      <style>{`
+        @keyframes fade-in {
+          from { opacity: 0; transform: translateY(-10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .animate-fade-in {
+          animation: fade-in 0.3s ease-out;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default AdjustImage;
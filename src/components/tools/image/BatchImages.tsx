@@ -0,0 +1,868 @@
+import React, { useState, useRef, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Upload,
+  Layers,
+  Download,
+  RotateCw,
+  AlertCircle,
+  Home,
+  ArrowLeft,
+  ArrowUp,
+  ArrowDown,
+  Plus,
+  X,
+  CheckCircle,
+  XCircle,
+  Clock
+} from "lucide-react";
+import { API_BASE_URL } from "../../../utils/api";
+import { formatFileSize } from "../../../utils/fileSize";
+import { IMAGE_FORMATS, type ImageFormat } from "../../../utils/imageFormats";
+import { ADJUSTMENT_PRESETS } from "../../../utils/imageAdjust";
+
+// Operation chain as edited here; see stepPayload for what /image/batch receives
+type BatchStep =
+  | { type: "resize"; unit: "px" | "percent"; width: string; height: string; percent: string; withoutEnlargement: boolean }
+  | { type: "adjust"; preset: string }
+  | { type: "convert"; format: ImageFormat; background: string }
+  | { type: "compress"; quality: number };
+
+type BatchStepType = BatchStep["type"];
+
+type FileStatus = "queued" | "processing" | "done" | "failed" | "cancelled";
+
+// Shape of the /image/batch status (see backend/utils/batchQueue.js)
+interface BatchStatus {
+  id: string;
+  finished: boolean;
+  files: {
+    name: string;
+    size: number;
+    status: FileStatus;
+    error: string | null;
+    outputName: string | null;
+    outputSize: number | null;
+    width: number | null;
+    height: number | null;
+  }[];
+}
+
+const MAX_BATCH_FILES = 100;
+const POLL_INTERVAL = 800;
+
+const stepOptions: { type: BatchStepType; label: string; description: string }[] = [
+  { type: "resize", label: "Resize", description: "Fit within a size or scale by percent" },
+  { type: "adjust", label: "Filter", description: "Apply a color preset" },
+  { type: "convert", label: "Convert", description: "Change the file format" },
+  { type: "compress", label: "Compress", description: "Trade quality for size" },
+];
+
+const newStep = (type: BatchStepType): BatchStep => {
+  switch (type) {
+    case "resize":
+      return { type, unit: "px", width: "1920", height: "1920", percent: "50", withoutEnlargement: true };
+    case "adjust":
+      return { type, preset: ADJUSTMENT_PRESETS[0].name };
+    case "convert":
+      return { type, format: "webp", background: "#ffffff" };
+    case "compress":
+      return { type, quality: 75 };
+  }
+};
+
+// Form fields of the matching single-image route, as one step of the chain
+const stepPayload = (step: BatchStep) => {
+  switch (step.type) {
+    case "resize":
+      return {
+        type: "resize",
+        unit: step.unit,
+        ...(step.unit === "px" ? { width: step.width, height: step.height } : { percent: step.percent }),
+        fit: "inside",
+        withoutEnlargement: String(step.withoutEnlargement),
+      };
+    case "adjust":
+      return {
+        type: "adjust",
+        adjustments: ADJUSTMENT_PRESETS.find((preset) => preset.name === step.preset)!.adjustments,
+      };
+    case "convert":
+      return { type: "convert", format: step.format, background: step.background };
+    case "compress":
+      return { type: "compress", quality: String(step.quality) };
+  }
+};
+
+const BatchImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [steps, setSteps] = useState<BatchStep[]>([newStep("resize"), newStep("convert"), newStep("compress")]);
+  const [batch, setBatch] = useState<BatchStatus | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [starting, setStarting] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Files already seen as done, so each one is picked for the download only once
+  const seenDoneRef = useRef<Set<number>>(new Set());
+  const batchId = batch?.id;
+  const batchFinished = batch?.finished ?? true;
+
+  // Poll the queue until every file is done, failed or cancelled. The next
+  // request only goes out once the previous one has answered, so an older
+  // status can never overwrite a newer one.
+  useEffect(() => {
+    if (!batchId || batchFinished) return;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/image/batch/${batchId}`);
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(errorText || "Failed to read the batch progress");
+        }
+        const status: BatchStatus = await response.json();
+        if (stopped) return;
+        // Newly finished files are picked for the download
+        const finished = status.files.flatMap((file, index) =>
+          file.status === "done" && !seenDoneRef.current.has(index) ? [index] : []
+        );
+        finished.forEach((index) => seenDoneRef.current.add(index));
+        setBatch(status);
+        if (finished.length > 0) setSelected((prev) => new Set([...prev, ...finished]));
+        if (!status.finished) timer = setTimeout(poll, POLL_INTERVAL);
+      } catch (err) {
+        if (stopped) return;
+        console.error(err);
+        setError(err instanceof Error && err.message ? err.message : "Lost track of the batch progress");
+        setBatch((prev) => (prev ? { ...prev, finished: true } : prev));
+      }
+    };
+
+    timer = setTimeout(poll, POLL_INTERVAL);
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [batchId, batchFinished]);
+
+  const addFiles = (list: FileList) => {
+    setError(null);
+    const images = Array.from(list).filter((file) => file.type.startsWith("image/"));
+    if (images.length < list.length) {
+      setError("Only image files were added; the other files were skipped.");
+    }
+    const next = [...files, ...images];
+    if (next.length > MAX_BATCH_FILES) {
+      setError(`A batch can hold at most ${MAX_BATCH_FILES} images; the rest were skipped.`);
+    }
+    setFiles(next.slice(0, MAX_BATCH_FILES));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      addFiles(e.target.files);
+    }
+    e.target.value = "";
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      addFiles(e.dataTransfer.files);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const removeFile = (index: number) => {
+    setFiles((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const updateStep = (index: number, changes: Partial<BatchStep>) => {
+    setSteps((prev) => prev.map((step, i) => (i === index ? ({ ...step, ...changes } as BatchStep) : step)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    setSteps((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const removeStep = (index: number) => {
+    setSteps((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleStart = async () => {
+    if (files.length === 0) {
+      setError("Please add some images.");
+      return;
+    }
+    if (steps.length === 0) {
+      setError("Please add at least one operation.");
+      return;
+    }
+
+    setStarting(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      files.forEach((file) => formData.append("files", file));
+      formData.append("steps", JSON.stringify(steps.map(stepPayload)));
+
+      const response = await fetch(`${API_BASE_URL}/image/batch`, {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Failed to start the batch");
+      }
+
+      seenDoneRef.current = new Set();
+      setBatch(await response.json());
+      setSelected(new Set());
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error && err.message ? err.message : "Something went wrong while uploading the images");
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!batch) return;
+    try {
+      const response = await fetch(`${API_BASE_URL}/image/batch/${batch.id}/cancel`, { method: "POST" });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Failed to cancel the batch");
+      }
+      setBatch(await response.json());
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error && err.message ? err.message : "Something went wrong while cancelling");
+    }
+  };
+
+  const toggleSelected = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const downloadSelectedImages = async () => {
+    if (!batch) return;
+    const chosen = [...selected].sort((a, b) => a - b).filter((index) => batch.files[index].status === "done");
+    if (chosen.length === 0) {
+      setError("Please select at least one image to download");
+      return;
+    }
+
+    setDownloading(true);
+    setError(null);
+    try {
+      const { saveAs } = await import("file-saver");
+      const fetchImage = async (index: number) => {
+        const response = await fetch(`${API_BASE_URL}/image/batch/${batch.id}/files/${index}`);
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(errorText || `Failed to download ${batch.files[index].name}`);
+        }
+        return response.blob();
+      };
+
+      if (chosen.length === 1) {
+        saveAs(await fetchImage(chosen[0]), batch.files[chosen[0]].outputName!);
+        return;
+      }
+
+      const JSZip = (await import("jszip")).default;
+      const zip = new JSZip();
+      const folder = zip.folder("batch_images");
+
+      if (!folder) {
+        throw new Error("Could not create zip folder");
+      }
+
+      for (const index of chosen) {
+        folder.file(batch.files[index].outputName!, await fetchImage(index));
+      }
+
+      const content = await zip.generateAsync({ type: "blob" });
+      saveAs(content, "batch_images.zip");
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error && err.message ? err.message : "Something went wrong while creating the ZIP file");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleReset = () => {
+    setFiles([]);
+    setBatch(null);
+    setSelected(new Set());
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleBackToHome = () => {
+    navigate("/");
+  };
+
+  const running = batch !== null && !batch.finished;
+  const counts = batch
+    ? batch.files.reduce(
+        (total, file) => ({ ...total, [file.status]: total[file.status] + 1 }),
+        { queued: 0, processing: 0, done: 0, failed: 0, cancelled: 0 } as Record<FileStatus, number>
+      )
+    : null;
+  const progress = batch && counts ? ((batch.files.length - counts.queued - counts.processing) / batch.files.length) * 100 : 0;
+  const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+  const outputSize = batch?.files.reduce((sum, file) => sum + (file.outputSize ?? 0), 0) ?? 0;
+  const unusedSteps = stepOptions.filter(({ type }) => !steps.some((step) => step.type === type));
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border-2 text-sm transition-all duration-300 ${
+    darkMode
+      ? "bg-gray-700 border-gray-600 text-white focus:border-blue-400"
+      : "bg-white border-gray-300 text-gray-900 focus:border-blue-500"
+  }`;
+  const labelClass = `block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`;
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-sm font-medium border-2 transition-all duration-300 ${
+      active
+        ? darkMode
+          ? "border-blue-400 bg-blue-400/10 text-blue-300"
+          : "border-blue-500 bg-blue-50 text-blue-700"
+        : darkMode
+          ? "border-gray-600 text-gray-300 hover:border-gray-500"
+          : "border-gray-200 text-gray-700 hover:border-gray-300"
+    }`;
+  const hintClass = `flex justify-between text-xs mt-1 ${darkMode ? "text-gray-400" : "text-gray-500"}`;
+  const iconButtonClass = `p-1.5 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+    darkMode ? "text-gray-400 hover:bg-gray-600" : "text-gray-500 hover:bg-gray-100"
+  }`;
+
+  const statusIcon = (status: FileStatus) => {
+    switch (status) {
+      case "done":
+        return <CheckCircle className="h-5 w-5 text-green-500" />;
+      case "failed":
+        return <XCircle className="h-5 w-5 text-red-500" />;
+      case "processing":
+        return <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>;
+      default:
+        return <Clock className={`h-5 w-5 ${darkMode ? "text-gray-500" : "text-gray-400"}`} />;
+    }
+  };
+
+  const renderStepOptions = (step: BatchStep, index: number) => {
+    switch (step.type) {
+      case "resize":
+        return (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => updateStep(index, { unit: "px" })} className={chipClass(step.unit === "px")}>
+                Fit within pixels
+              </button>
+              <button onClick={() => updateStep(index, { unit: "percent" })} className={chipClass(step.unit === "percent")}>
+                Scale by percent
+              </button>
+            </div>
+            {step.unit === "px" ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Max width (px)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={step.width}
+                    onChange={(e) => updateStep(index, { width: e.target.value })}
+                    placeholder="Any"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Max height (px)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={step.height}
+                    onChange={(e) => updateStep(index, { height: e.target.value })}
+                    placeholder="Any"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            ) : (
+              <div>
+                <label className={labelClass}>Scale: {step.percent}%</label>
+                <input
+                  type="range"
+                  min={1}
+                  max={200}
+                  value={step.percent}
+                  onChange={(e) => updateStep(index, { percent: e.target.value })}
+                  className="w-full"
+                />
+              </div>
+            )}
+            <label className={`flex items-center gap-2 text-sm cursor-pointer ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+              <input
+                type="checkbox"
+                checked={step.withoutEnlargement}
+                onChange={(e) => updateStep(index, { withoutEnlargement: e.target.checked })}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+              />
+              Don't enlarge smaller images
+            </label>
+          </div>
+        );
+      case "adjust":
+        return (
+          <div className="flex flex-wrap gap-2">
+            {ADJUSTMENT_PRESETS.map((preset) => (
+              <button
+                key={preset.name}
+                onClick={() => updateStep(index, { preset: preset.name })}
+                className={chipClass(step.preset === preset.name)}
+              >
+                {preset.name}
+              </button>
+            ))}
+          </div>
+        );
+      case "convert":
+        return (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {IMAGE_FORMATS.map((f) => (
+                <button
+                  key={f.value}
+                  onClick={() => updateStep(index, { format: f.value })}
+                  className={chipClass(step.format === f.value)}
+                  title={f.description}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+            {step.format === "jpeg" && (
+              <label className={`flex items-center gap-3 text-sm ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                <input
+                  type="color"
+                  value={step.background}
+                  onChange={(e) => updateStep(index, { background: e.target.value })}
+                  className="h-8 w-12 rounded cursor-pointer"
+                />
+                Fill transparent areas with
+              </label>
+            )}
+          </div>
+        );
+      case "compress":
+        return (
+          <div>
+            <label className={labelClass}>Quality: {step.quality}</label>
+            <input
+              type="range"
+              min={1}
+              max={100}
+              value={step.quality}
+              onChange={(e) => updateStep(index, { quality: Number(e.target.value) })}
+              className="w-full"
+            />
+            <div className={hintClass}>
+              <span>Smallest file</span>
+              <span>Best quality</span>
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className={`min-h-screen py-8 px-4 transition-colors duration-300 ${
+      darkMode ? "bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900" : "bg-gradient-to-br from-blue-50 via-white to-gray-100"
+    }`}>
+      <div className="max-w-4xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={handleBackToHome}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-blue-400 hover:text-blue-300 hover:bg-blue-400/10"
+                : "text-blue-600 hover:text-blue-700 hover:bg-blue-100"
+            }`}
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span className="hidden sm:inline">Back to Home</span>
+            <span className="sm:hidden">Home</span>
+          </button>
+
+          <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+            darkMode ? "bg-blue-900/30 text-blue-300" : "bg-blue-100 text-blue-700"
+          }`}>
+            Image Tool
+          </div>
+        </div>
+
+        {/* Main Card */}
+        <div className={`rounded-3xl shadow-2xl overflow-hidden ${
+          darkMode ? "bg-gray-800/80 backdrop-blur-sm" : "bg-white/80 backdrop-blur-sm"
+        }`}>
+          <div className="p-6 md:p-8">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center mb-4">
+                <div className={`p-3 rounded-2xl ${
+                  darkMode ? "bg-gradient-to-br from-blue-600/20 to-teal-600/20" : "bg-gradient-to-br from-blue-100 to-teal-100"
+                }`}>
+                  <Layers className={`h-8 w-8 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                </div>
+              </div>
+              <h1 className={`text-3xl md:text-4xl font-bold mb-3 bg-gradient-to-r ${
+                darkMode ? "from-blue-400 to-teal-400" : "from-blue-600 to-teal-600"
+              } bg-clip-text text-transparent`}>
+                Batch Process Images
+              </h1>
+              <p className={`text-base md:text-lg ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                Resize, filter, convert and compress many images at once, then download them as a ZIP
+              </p>
+            </div>
+
+            {/* Upload Area */}
+            {!batch && (
+              <div className="mb-6 md:mb-8">
+                <div
+                  className={`border-2 border-dashed rounded-2xl p-6 md:p-8 text-center cursor-pointer transition-all duration-300 group ${
+                    darkMode
+                      ? "border-gray-600 hover:border-blue-400 hover:bg-blue-400/5"
+                      : "border-gray-300 hover:border-blue-500 hover:bg-blue-500/5"
+                  } ${files.length > 0 ? "border-green-400 bg-green-400/5" : ""}`}
+                  onClick={() => fileInputRef.current?.click()}
+                  onDrop={handleDrop}
+                  onDragOver={handleDragOver}
+                >
+                  <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    ref={fileInputRef}
+                    onChange={handleFileChange}
+                    className="hidden"
+                  />
+
+                  <div className="flex flex-col items-center justify-center">
+                    <Upload className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${
+                      darkMode ? "text-blue-400" : "text-blue-600"
+                    } group-hover:scale-110 transition-transform`} />
+                    <h3 className="text-lg md:text-xl font-semibold mb-2">
+                      {files.length > 0 ? `${files.length} image${files.length === 1 ? "" : "s"} · ${formatFileSize(totalSize)}` : "Upload Images"}
+                    </h3>
+                    <p className={`text-sm md:text-base ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                      {files.length > 0
+                        ? "Click or drop to add more images"
+                        : `Click to browse or drag & drop up to ${MAX_BATCH_FILES} images here`}
+                    </p>
+                  </div>
+                </div>
+
+                {files.length > 0 && (
+                  <div className={`mt-4 max-h-64 overflow-y-auto rounded-xl border ${
+                    darkMode ? "border-gray-700" : "border-gray-200"
+                  }`}>
+                    {files.map((file, index) => (
+                      <div
+                        key={`${file.name}-${index}`}
+                        className={`flex items-center gap-3 px-4 py-2 text-sm border-b last:border-b-0 ${
+                          darkMode ? "border-gray-700" : "border-gray-100"
+                        }`}
+                      >
+                        <span className={`flex-1 truncate font-mono ${darkMode ? "text-gray-300" : "text-gray-700"}`}>{file.name}</span>
+                        <span className={darkMode ? "text-gray-500" : "text-gray-500"}>{formatFileSize(file.size)}</span>
+                        <button onClick={() => removeFile(index)} className={iconButtonClass} title="Remove">
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Operation Chain */}
+            {!batch && (
+              <div className="mb-6 md:mb-8 space-y-3">
+                <label className={labelClass}>Operations, applied top to bottom</label>
+                {steps.map((step, index) => {
+                  const option = stepOptions.find((o) => o.type === step.type)!;
+                  return (
+                    <div
+                      key={step.type}
+                      className={`p-4 rounded-xl border-2 ${darkMode ? "border-gray-600" : "border-gray-200"}`}
+                    >
+                      <div className="flex items-center gap-3 mb-3">
+                        <span className={`flex items-center justify-center h-6 w-6 rounded-full text-xs font-bold ${
+                          darkMode ? "bg-blue-400/20 text-blue-300" : "bg-blue-100 text-blue-700"
+                        }`}>
+                          {index + 1}
+                        </span>
+                        <div className="flex-1">
+                          <span className="font-semibold">{option.label}</span>
+                          <span className={`ml-2 text-xs ${darkMode ? "text-gray-400" : "text-gray-500"}`}>{option.description}</span>
+                        </div>
+                        <button onClick={() => moveStep(index, -1)} disabled={index === 0} className={iconButtonClass} title="Move up">
+                          <ArrowUp className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => moveStep(index, 1)}
+                          disabled={index === steps.length - 1}
+                          className={iconButtonClass}
+                          title="Move down"
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </button>
+                        <button onClick={() => removeStep(index)} className={iconButtonClass} title="Remove">
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                      {renderStepOptions(step, index)}
+                    </div>
+                  );
+                })}
+
+                {unusedSteps.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {unusedSteps.map(({ type, label }) => (
+                      <button
+                        key={type}
+                        onClick={() => setSteps((prev) => [...prev, newStep(type)])}
+                        className={`${chipClass(false)} flex items-center gap-1`}
+                      >
+                        <Plus className="h-4 w-4" />
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <p className={`text-xs ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                  Without Convert each image keeps its own format. Filters flatten animated GIFs to their first frame.
+                </p>
+              </div>
+            )}
+
+            {/* Progress */}
+            {batch && counts && (
+              <div className="mb-6 md:mb-8 space-y-4 animate-fade-in">
+                <div>
+                  <div className={`flex justify-between text-sm mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                    <span>
+                      {running ? "Processing" : "Finished"}: {counts.done} done
+                      {counts.failed > 0 && `, ${counts.failed} failed`}
+                      {counts.cancelled > 0 && `, ${counts.cancelled} cancelled`} of {batch.files.length}
+                    </span>
+                    <span>{Math.round(progress)}%</span>
+                  </div>
+                  <div className={`h-2 rounded-full overflow-hidden ${darkMode ? "bg-gray-700" : "bg-gray-200"}`}>
+                    <div
+                      className="h-full bg-gradient-to-r from-blue-500 to-teal-500 transition-all duration-300"
+                      style={{ width: `${progress}%` }}
+                    />
+                  </div>
+                </div>
+
+                <div className={`max-h-96 overflow-y-auto rounded-xl border ${darkMode ? "border-gray-700" : "border-gray-200"}`}>
+                  {batch.files.map((file, index) => (
+                    <div
+                      key={index}
+                      className={`flex items-center gap-3 px-4 py-2 text-sm border-b last:border-b-0 ${
+                        darkMode ? "border-gray-700" : "border-gray-100"
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selected.has(index)}
+                        disabled={file.status !== "done"}
+                        onChange={() => toggleSelected(index)}
+                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 disabled:opacity-30"
+                      />
+                      {statusIcon(file.status)}
+                      <div className="flex-1 min-w-0">
+                        <p className={`truncate font-mono ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                          {file.outputName ?? file.name}
+                        </p>
+                        {file.error && <p className="text-xs text-red-500">{file.error}</p>}
+                        {file.status === "cancelled" && (
+                          <p className={`text-xs ${darkMode ? "text-gray-500" : "text-gray-400"}`}>Cancelled</p>
+                        )}
+                      </div>
+                      <span className={`text-xs text-right ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                        {file.status === "done" ? (
+                          <>
+                            {file.width} × {file.height} px
+                            <br />
+                            {formatFileSize(file.size)} → {formatFileSize(file.outputSize ?? 0)}
+                          </>
+                        ) : (
+                          formatFileSize(file.size)
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            <div className="flex flex-col sm:flex-row gap-3 md:gap-4 mb-6">
+              {!batch ? (
+                <button
+                  onClick={handleStart}
+                  disabled={starting || files.length === 0 || steps.length === 0}
+                  className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+                    darkMode
+                      ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                      : "bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                  }`}
+                >
+                  {starting ? (
+                    <>
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                      <span>Uploading...</span>
+                    </>
+                  ) : (
+                    <>
+                      <Layers className="h-5 w-5" />
+                      <span>Process {files.length > 0 ? `${files.length} ` : ""}Images</span>
+                    </>
+                  )}
+                </button>
+              ) : (
+                <button
+                  onClick={downloadSelectedImages}
+                  disabled={downloading || selected.size === 0}
+                  className="flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 bg-green-600 hover:bg-green-700 text-white shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {downloading ? (
+                    <>
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                      <span>Creating ZIP...</span>
+                    </>
+                  ) : (
+                    <>
+                      <Download className="h-5 w-5" />
+                      <span>
+                        Download Selected ({selected.size}) · {formatFileSize(outputSize)}
+                      </span>
+                    </>
+                  )}
+                </button>
+              )}
+
+              {running && (
+                <button
+                  onClick={handleCancel}
+                  className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                    darkMode
+                      ? "border-red-500/60 text-red-400 hover:bg-red-900/20"
+                      : "border-red-300 text-red-600 hover:bg-red-50"
+                  }`}
+                >
+                  <X className="h-5 w-5" />
+                  <span>Cancel</span>
+                </button>
+              )}
+
+              <button
+                onClick={handleReset}
+                disabled={starting || running}
+                className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  darkMode
+                    ? "border-gray-600 text-gray-300 hover:bg-gray-700/50 hover:border-gray-500 hover:scale-105"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-gray-400 hover:scale-105"
+                }`}
+              >
+                <RotateCw className="h-5 w-5" />
+                <span>{batch ? "New Batch" : "Reset"}</span>
+              </button>
+            </div>
+
+            {/* Status Messages */}
+            {error && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-red-900/20 border-red-500 text-red-400" : "bg-red-50 border-red-500 text-red-700"
+              }`}>
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {/* Instructions */}
+            <div className={`mt-6 p-4 md:p-6 rounded-2xl ${
+              darkMode ? "bg-gray-700/30" : "bg-white/50"
+            }`}>
+              <h3 className={`font-semibold mb-3 text-sm md:text-base ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                How to use:
+              </h3>
+              <ol className={`list-decimal list-inside space-y-2 text-xs md:text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}>
+                <li>Add up to {MAX_BATCH_FILES} images by clicking or dragging them onto the upload area</li>
+                <li>Build the operation chain; resize and filters run in the listed order</li>
+                <li>Click "Process Images" and follow each file as the server works through the queue</li>
+                <li>Pick the images you want and download them together as a ZIP</li>
+              </ol>
+            </div>
+          </div>
+        </div>
+
+        {/* Quick Actions Footer */}
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleBackToHome}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-gray-400 hover:text-gray-300 hover:bg-gray-700/50"
+                : "text-gray-600 hover:text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <Home className="h-4 w-4" />
+            Back to All Tools
+          </button>
+        </div>
+      </div>
+
+      {/* Add custom animations */}
+      <style>{`
+        @keyframes fade-in {
+          from { opacity: 0; transform: translateY(-10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .animate-fade-in {
+          animation: fade-in 0.3s ease-out;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default BatchImages;
@@ -0,0 +1,422 @@
+import React, { useState, useRef, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Upload,
+  FileImage,
+  Download,
+  RotateCw,
+  AlertCircle,
+  Home,
+  ArrowLeft
+} from "lucide-react";
+import { API_BASE_URL } from "../../../utils/api";
+import { formatFileSize } from "../../../utils/fileSize";
+import {
+  IMAGE_FORMATS,
+  imageFormatInfo,
+  formatFromMimeType,
+  imageFileName,
+  type ImageFormat
+} from "../../../utils/imageFormats";
+
+interface ConversionResult {
+  url: string;
+  size: number;
+  format: ImageFormat;
+}
+
+const ConvertImage: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [format, setFormat] = useState<ImageFormat>("webp");
+  const [quality, setQuality] = useState(85);
+  const [background, setBackground] = useState("#ffffff");
+  const [result, setResult] = useState<ConversionResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Release object URLs whenever they are replaced
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  useEffect(() => {
+    return () => {
+      if (result) URL.revokeObjectURL(result.url);
+    };
+  }, [result]);
+
+  const selectFile = (file: File) => {
+    setError(null);
+    setResult(null);
+    if (file.type.startsWith("image/")) {
+      setSelectedFile(file);
+      setFileName(file.name);
+      setPreviewUrl(URL.createObjectURL(file));
+      // Suggest a different target than the file's own format
+      if (formatFromMimeType(file.type) === format) {
+        setFormat(format === "png" ? "jpeg" : "png");
+      }
+    } else {
+      setError("Please upload an image file only.");
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      selectFile(e.target.files[0]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      selectFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const handleConvert = async () => {
+    if (!selectedFile) {
+      setError("Please select an image.");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+      formData.append("format", format);
+      if (imageFormatInfo(format).lossy) formData.append("quality", String(quality));
+      if (format === "jpeg") formData.append("background", background);
+
+      const response = await fetch(`${API_BASE_URL}/image/convert`, {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Failed to convert image");
+      }
+
+      const blob = await response.blob();
+      setResult({ url: URL.createObjectURL(blob), size: blob.size, format });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error && err.message ? err.message : "Something went wrong while processing the image");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    const link = document.createElement("a");
+    link.href = result.url;
+    link.download = imageFileName("converted", fileName, imageFormatInfo(result.format).extension);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
+
+  const handleReset = () => {
+    setSelectedFile(null);
+    setFileName("");
+    setPreviewUrl(null);
+    setResult(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleBackToHome = () => {
+    navigate("/");
+  };
+
+  const { label: formatLabel, lossy } = imageFormatInfo(format);
+  const labelClass = `block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`;
+
+  return (
+    <div className={`min-h-screen py-8 px-4 transition-colors duration-300 ${
+      darkMode ? "bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900" : "bg-gradient-to-br from-blue-50 via-white to-gray-100"
+    }`}>
+      <div className="max-w-4xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={handleBackToHome}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-blue-400 hover:text-blue-300 hover:bg-blue-400/10"
+                : "text-blue-600 hover:text-blue-700 hover:bg-blue-100"
+            }`}
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span className="hidden sm:inline">Back to Home</span>
+            <span className="sm:hidden">Home</span>
+          </button>
+
+          <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+            darkMode ? "bg-blue-900/30 text-blue-300" : "bg-blue-100 text-blue-700"
+          }`}>
+            Image Tool
+          </div>
+        </div>
+
+        {/* Main Card */}
+        <div className={`rounded-3xl shadow-2xl overflow-hidden ${
+          darkMode ? "bg-gray-800/80 backdrop-blur-sm" : "bg-white/80 backdrop-blur-sm"
+        }`}>
+          <div className="p-6 md:p-8">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center mb-4">
+                <div className={`p-3 rounded-2xl ${
+                  darkMode ? "bg-gradient-to-br from-blue-600/20 to-teal-600/20" : "bg-gradient-to-br from-blue-100 to-teal-100"
+                }`}>
+                  <FileImage className={`h-8 w-8 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                </div>
+              </div>
+              <h1 className={`text-3xl md:text-4xl font-bold mb-3 bg-gradient-to-r ${
+                darkMode ? "from-blue-400 to-teal-400" : "from-blue-600 to-teal-600"
+              } bg-clip-text text-transparent`}>
+                Convert Image
+              </h1>
+              <p className={`text-base md:text-lg ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                Convert between JPG, PNG, WebP, AVIF, GIF and TIFF
+              </p>
+            </div>
+
+            {/* Upload Area */}
+            <div className="mb-6 md:mb-8">
+              <div
+                className={`border-2 border-dashed rounded-2xl p-6 md:p-8 text-center cursor-pointer transition-all duration-300 group ${
+                  darkMode
+                    ? "border-gray-600 hover:border-blue-400 hover:bg-blue-400/5"
+                    : "border-gray-300 hover:border-blue-500 hover:bg-blue-500/5"
+                } ${selectedFile ? "border-green-400 bg-green-400/5" : ""}`}
+                onClick={() => fileInputRef.current?.click()}
+                onDrop={handleDrop}
+                onDragOver={handleDragOver}
+              >
+                <input
+                  type="file"
+                  accept="image/*"
+                  ref={fileInputRef}
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+
+                <div className="flex flex-col items-center justify-center">
+                  {selectedFile && previewUrl ? (
+                    <>
+                      <img src={previewUrl} alt={fileName} className="max-h-48 max-w-full rounded-lg shadow mb-4 object-contain" />
+                      <p className={`font-mono text-sm truncate max-w-full ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                        {fileName}
+                      </p>
+                      <p className={`text-xs mt-1 ${darkMode ? "text-gray-500" : "text-gray-500"}`}>
+                        {formatFileSize(selectedFile.size)}
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <Upload className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${
+                        darkMode ? "text-blue-400" : "text-blue-600"
+                      } group-hover:scale-110 transition-transform`} />
+                      <h3 className="text-lg md:text-xl font-semibold mb-2">Upload Image</h3>
+                      <p className={`text-sm md:text-base ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                        Click to browse or drag & drop your image here
+                      </p>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Format Selection */}
+            <div className="mb-6 md:mb-8 space-y-5">
+              <div>
+                <label className={labelClass}>Convert To</label>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {IMAGE_FORMATS.map(({ value, label, description }) => (
+                    <button
+                      key={value}
+                      onClick={() => { setFormat(value); setResult(null); }}
+                      className={`p-4 rounded-xl border-2 text-left transition-all duration-300 ${
+                        format === value
+                          ? darkMode
+                            ? "border-blue-400 bg-blue-400/10"
+                            : "border-blue-500 bg-blue-50"
+                          : darkMode
+                            ? "border-gray-600 hover:border-gray-500"
+                            : "border-gray-200 hover:border-gray-300"
+                      }`}
+                    >
+                      <span className="block font-semibold">{label}</span>
+                      <span className={`block text-xs mt-1 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>{description}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {lossy && (
+                <div>
+                  <label className={labelClass}>Quality: {quality}</label>
+                  <input
+                    type="range"
+                    min={1}
+                    max={100}
+                    value={quality}
+                    onChange={(e) => { setQuality(Number(e.target.value)); setResult(null); }}
+                    className="w-full"
+                  />
+                </div>
+              )}
+
+              {format === "jpeg" && (
+                <label className={`flex items-center gap-3 text-sm ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                  <input
+                    type="color"
+                    value={background}
+                    onChange={(e) => { setBackground(e.target.value); setResult(null); }}
+                    className="h-8 w-12 rounded cursor-pointer"
+                  />
+                  Background for transparent areas (JPG has no transparency)
+                </label>
+              )}
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex flex-col sm:flex-row gap-3 md:gap-4 mb-6">
+              <button
+                onClick={handleConvert}
+                disabled={loading || !selectedFile}
+                className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  darkMode
+                    ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                    : "bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                }`}
+              >
+                {loading ? (
+                  <>
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                    <span>Converting...</span>
+                  </>
+                ) : (
+                  <>
+                    <FileImage className="h-5 w-5" />
+                    <span>Convert to {formatLabel}</span>
+                  </>
+                )}
+              </button>
+
+              <button
+                onClick={handleReset}
+                disabled={loading}
+                className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                  darkMode
+                    ? "border-gray-600 text-gray-300 hover:bg-gray-700/50 hover:border-gray-500 hover:scale-105"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-gray-400 hover:scale-105"
+                }`}
+              >
+                <RotateCw className="h-5 w-5" />
+                <span>Reset</span>
+              </button>
+            </div>
+
+            {/* Status Messages */}
+            {error && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-red-900/20 border-red-500 text-red-400" : "bg-red-50 border-red-500 text-red-700"
+              }`}>
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {/* Conversion Result */}
+            {result && (
+              <div className={`p-4 md:p-6 rounded-2xl mb-4 animate-fade-in ${
+                darkMode ? "bg-green-900/20 border border-green-700/50" : "bg-green-50 border border-green-200"
+              }`}>
+                {/* Browsers can't display TIFF, so there is no preview for it */}
+                {result.format !== "tiff" && (
+                  <img src={result.url} alt="Converted" className="max-h-64 max-w-full mx-auto rounded-lg shadow mb-4 object-contain" />
+                )}
+                <p className={`text-sm text-center mb-4 ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                  {imageFormatInfo(result.format).label} · {formatFileSize(result.size)}
+                </p>
+                <button
+                  onClick={handleDownload}
+                  className="w-full py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 bg-green-600 hover:bg-green-700 text-white shadow-lg hover:shadow-xl"
+                >
+                  <Download className="h-5 w-5" />
+                  <span>Download {imageFormatInfo(result.format).label}</span>
+                </button>
+              </div>
+            )}
+
+            {/* Instructions */}
+            <div className={`mt-6 p-4 md:p-6 rounded-2xl ${
+              darkMode ? "bg-gray-700/30" : "bg-white/50"
+            }`}>
+              <h3 className={`font-semibold mb-3 text-sm md:text-base ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                How to use:
+              </h3>
+              <ol className={`list-decimal list-inside space-y-2 text-xs md:text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}>
+                <li>Upload an image in any common format, including SVG and TIFF</li>
+                <li>Choose the format to convert to and, for JPG, WebP and AVIF, the quality</li>
+                <li>Animated GIFs keep their animation when converted to WebP or GIF</li>
+                <li>Click "Convert" and download the result</li>
+              </ol>
+            </div>
+          </div>
+        </div>
+
+        {/* Quick Actions Footer */}
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleBackToHome}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-gray-400 hover:text-gray-300 hover:bg-gray-700/50"
+                : "text-gray-600 hover:text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <Home className="h-4 w-4" />
+            Back to All Tools
+          </button>
+        </div>
+      </div>
+
+      {/* Add custom animations */}
+      <style>{`
+        @keyframes fade-in {
+          from { opacity: 0; transform: translateY(-10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .animate-fade-in {
+          animation: fade-in 0.3s ease-out;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default ConvertImage;
@@ -0,0 +1,787 @@
+import React, { useState, useRef, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Upload,
+  LayoutGrid,
+  Download,
+  RotateCw,
+  AlertCircle,
+  Home,
+  ArrowLeft,
+  Plus,
+  X,
+  Trash2
+} from "lucide-react";
+import { API_BASE_URL } from "../../../utils/api";
+import { formatFileSize } from "../../../utils/fileSize";
+import {
+  IMAGE_FORMATS,
+  imageFormatInfo,
+  formatFromMimeType,
+  readImageSize,
+  type ImageFormat
+} from "../../../utils/imageFormats";
+import {
+  COLLAGE_TEMPLATES,
+  collageCells,
+  templateCellCount,
+  type CollageTemplate
+} from "../../../utils/collageLayout";
+
+interface CollageImage {
+  id: string;
+  file: File;
+  url: string;
+  width: number;
+  height: number;
+}
+
+interface SizePreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+const sizePresets: SizePreset[] = [
+  { id: "square", label: "Square", width: 2048, height: 2048 },
+  { id: "landscape", label: "Landscape", width: 2400, height: 1600 },
+  { id: "portrait", label: "Portrait", width: 1600, height: 2400 },
+  { id: "instagram-post", label: "Instagram Post", width: 1080, height: 1080 },
+  { id: "instagram-story", label: "Instagram Story", width: 1080, height: 1920 },
+  { id: "hd", label: "Full HD", width: 1920, height: 1080 },
+];
+
+// Same limits as backend/utils/collage.js
+const MAX_COLLAGE_SIZE = 8000;
+const MAX_COLLAGE_IMAGES = 30;
+
+/** What is being dragged: an image from the tray, or the content of a cell */
+interface DragSource {
+  imageId: string;
+  fromCell: number | null;
+}
+
+interface CollageResult {
+  url: string;
+  width: number;
+  height: number;
+  size: number;
+  extension: string;
+}
+
+// Cells of a new template: images already placed keep their order, then the
+// rest fill the empty cells. Masonry always shows every image.
+const fillCells = (template: CollageTemplate, cells: (string | null)[], images: CollageImage[]) => {
+  const placed = cells.filter((id): id is string => id !== null && images.some((img) => img.id === id));
+  const unplaced = images.map((img) => img.id).filter((id) => !placed.includes(id));
+  const ordered = [...placed, ...unplaced];
+  if (template === "masonry") return ordered;
+  return Array.from({ length: templateCellCount(template, images.length) }, (_, i) => ordered[i] ?? null);
+};
+
+const CreateCollage: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
+  const [images, setImages] = useState<CollageImage[]>([]);
+  const [template, setTemplate] = useState<CollageTemplate>("2x2");
+  const [cells, setCells] = useState<(string | null)[]>([]);
+  const [columns, setColumns] = useState(3);
+  const [width, setWidth] = useState(2048);
+  const [height, setHeight] = useState(2048);
+  const [spacing, setSpacing] = useState(16);
+  const [border, setBorder] = useState(16);
+  const [background, setBackground] = useState("#ffffff");
+  const [format, setFormat] = useState<ImageFormat>("jpeg");
+  const [dragSource, setDragSource] = useState<DragSource | null>(null);
+  const [result, setResult] = useState<CollageResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const imagesRef = useRef<CollageImage[]>([]);
+  imagesRef.current = images;
+
+  const maxGap = Math.floor(Math.min(width, height) / 4);
+  const layout = { width, height, spacing: Math.min(spacing, maxGap), border: Math.min(border, maxGap), columns };
+  const imageById = (id: string | null) => images.find((img) => img.id === id) ?? null;
+  const rects = collageCells(
+    template,
+    layout,
+    template === "masonry" ? cells.map((id) => imageById(id)!).map((img) => img.width / img.height) : []
+  );
+
+  // Release the thumbnails when the page is left
+  useEffect(() => {
+    return () => {
+      imagesRef.current.forEach((img) => URL.revokeObjectURL(img.url));
+    };
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (result) URL.revokeObjectURL(result.url);
+    };
+  }, [result]);
+
+  const addFiles = async (files: FileList | null) => {
+    if (!files) return;
+    setError(null);
+    setResult(null);
+
+    const imageFiles = Array.from(files).filter((file) => file.type.startsWith("image/"));
+    if (imageFiles.length === 0) {
+      setError("Please upload image files only.");
+      return;
+    }
+    if (images.length + imageFiles.length > MAX_COLLAGE_IMAGES) {
+      setError(`A collage can hold at most ${MAX_COLLAGE_IMAGES} images.`);
+      return;
+    }
+
+    const added: CollageImage[] = [];
+    const skipped: string[] = [];
+    for (const file of imageFiles) {
+      try {
+        const size = await readImageSize(file);
+        added.push({ id: Math.random().toString(36).slice(2, 11), file, url: URL.createObjectURL(file), ...size });
+      } catch {
+        skipped.push(file.name);
+      }
+    }
+    if (skipped.length > 0) {
+      setError(`These images can't be previewed in your browser: ${skipped.join(", ")}. Convert them to JPG or PNG first.`);
+    }
+
+    const next = [...images, ...added];
+    setImages(next);
+    setCells(fillCells(template, cells, next));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(e.target.files);
+    e.target.value = "";
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    addFiles(e.dataTransfer.files);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const handleTemplateChange = (next: CollageTemplate) => {
+    setTemplate(next);
+    setCells(fillCells(next, cells, images));
+    setResult(null);
+  };
+
+  const removeImage = (id: string) => {
+    const image = imageById(id);
+    if (image) URL.revokeObjectURL(image.url);
+    const next = images.filter((img) => img.id !== id);
+    setImages(next);
+    setCells(template === "masonry" ? cells.filter((c) => c !== id) : cells.map((c) => (c === id ? null : c)));
+    setResult(null);
+  };
+
+  const clearCell = (index: number) => {
+    setCells((prev) => prev.map((c, i) => (i === index ? null : c)));
+    setResult(null);
+  };
+
+  // Drag and drop for placing images into cells
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, imageId: string, fromCell: number | null) => {
+    setDragSource({ imageId, fromCell });
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  const handleDragOverCell = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = "move";
+  };
+
+  const handleDropCell = (e: React.DragEvent<HTMLDivElement>, targetCell: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!dragSource) {
+      // Files dropped straight onto the collage are added like uploads
+      addFiles(e.dataTransfer.files);
+      return;
+    }
+
+    setCells((prev) => {
+      const next = [...prev];
+      // An image dragged from the tray moves out of the cell it was in, if any
+      const fromCell = dragSource.fromCell ?? prev.indexOf(dragSource.imageId);
+      if (fromCell === targetCell) return prev;
+      if (fromCell !== -1) next[fromCell] = prev[targetCell];
+      next[targetCell] = dragSource.imageId;
+      return next;
+    });
+
+    setDragSource(null);
+    setResult(null);
+  };
+
+  const handleSizePreset = (preset: SizePreset) => {
+    setWidth(preset.width);
+    setHeight(preset.height);
+    setResult(null);
+  };
+
+  const handleSizeInput = (field: "width" | "height", value: string) => {
+    const number = Math.round(Number(value));
+    if (!Number.isFinite(number)) return;
+    const clamped = Math.min(Math.max(number, 16), MAX_COLLAGE_SIZE);
+    if (field === "width") setWidth(clamped);
+    else setHeight(clamped);
+    setResult(null);
+  };
+
+  const handleCreate = async () => {
+    if (!cells.some((id) => id !== null)) {
+      setError("Please add at least one image to the collage.");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      // Only the images shown in the collage are uploaded
+      const used = cells.filter((id, i): id is string => id !== null && cells.indexOf(id) === i);
+      const formData = new FormData();
+      used.forEach((id) => formData.append("files", imageById(id)!.file));
+      formData.append("template", template);
+      formData.append("cells", JSON.stringify(cells.map((id) => (id === null ? null : used.indexOf(id)))));
+      formData.append("width", String(width));
+      formData.append("height", String(height));
+      formData.append("spacing", String(layout.spacing));
+      formData.append("border", String(layout.border));
+      formData.append("background", background);
+      if (template === "masonry") formData.append("columns", String(columns));
+      formData.append("format", format);
+
+      const response = await fetch(`${API_BASE_URL}/image/collage`, {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Failed to create collage");
+      }
+
+      const blob = await response.blob();
+      const outputFormat = formatFromMimeType(blob.type);
+      setResult({
+        url: URL.createObjectURL(blob),
+        width: Number(response.headers.get("X-Image-Width")) || 0,
+        height: Number(response.headers.get("X-Image-Height")) || 0,
+        size: blob.size,
+        extension: outputFormat ? imageFormatInfo(outputFormat).extension : "jpg",
+      });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error && err.message ? err.message : "Something went wrong while processing the image");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    const link = document.createElement("a");
+    link.href = result.url;
+    link.download = `collage.${result.extension}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
+
+  const handleReset = () => {
+    images.forEach((img) => URL.revokeObjectURL(img.url));
+    setImages([]);
+    setCells([]);
+    setTemplate("2x2");
+    setResult(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleBackToHome = () => {
+    navigate("/");
+  };
+
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+  const inputClass = `w-full px-3 py-2 rounded-lg border-2 text-sm transition-all duration-300 ${
+    darkMode
+      ? "bg-gray-700 border-gray-600 text-white focus:border-blue-400"
+      : "bg-white border-gray-300 text-gray-900 focus:border-blue-500"
+  }`;
+  const labelClass = `block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`;
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-sm font-medium border-2 transition-all duration-300 ${
+      active
+        ? darkMode
+          ? "border-blue-400 bg-blue-400/10 text-blue-300"
+          : "border-blue-500 bg-blue-50 text-blue-700"
+        : darkMode
+          ? "border-gray-600 text-gray-300 hover:border-gray-500"
+          : "border-gray-200 text-gray-700 hover:border-gray-300"
+    }`;
+
+  return (
+    <div className={`min-h-screen py-8 px-4 transition-colors duration-300 ${
+      darkMode ? "bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900" : "bg-gradient-to-br from-blue-50 via-white to-gray-100"
+    }`}>
+      <div className="max-w-5xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={handleBackToHome}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-blue-400 hover:text-blue-300 hover:bg-blue-400/10"
+                : "text-blue-600 hover:text-blue-700 hover:bg-blue-100"
+            }`}
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span className="hidden sm:inline">Back to Home</span>
+            <span className="sm:hidden">Home</span>
+          </button>
+
+          <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+            darkMode ? "bg-blue-900/30 text-blue-300" : "bg-blue-100 text-blue-700"
+          }`}>
+            Image Tool
+          </div>
+        </div>
+
+        {/* Main Card */}
+        <div className={`rounded-3xl shadow-2xl overflow-hidden ${
+          darkMode ? "bg-gray-800/80 backdrop-blur-sm" : "bg-white/80 backdrop-blur-sm"
+        }`}>
+          <div className="p-6 md:p-8">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center mb-4">
+                <div className={`p-3 rounded-2xl ${
+                  darkMode ? "bg-gradient-to-br from-blue-600/20 to-teal-600/20" : "bg-gradient-to-br from-blue-100 to-teal-100"
+                }`}>
+                  <LayoutGrid className={`h-8 w-8 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                </div>
+              </div>
+              <h1 className={`text-3xl md:text-4xl font-bold mb-3 bg-gradient-to-r ${
+                darkMode ? "from-blue-400 to-teal-400" : "from-blue-600 to-teal-600"
+              } bg-clip-text text-transparent`}>
+                Create Collage
+              </h1>
+              <p className={`text-base md:text-lg ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                Combine several images into one, arranged on a grid of your choice
+              </p>
+            </div>
+
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              ref={fileInputRef}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+
+            {/* Upload Area */}
+            {images.length === 0 && (
+              <div className="mb-6 md:mb-8">
+                <div
+                  className={`border-2 border-dashed rounded-2xl p-6 md:p-8 text-center cursor-pointer transition-all duration-300 group ${
+                    darkMode
+                      ? "border-gray-600 hover:border-blue-400 hover:bg-blue-400/5"
+                      : "border-gray-300 hover:border-blue-500 hover:bg-blue-500/5"
+                  }`}
+                  onClick={() => fileInputRef.current?.click()}
+                  onDrop={handleDrop}
+                  onDragOver={handleDragOver}
+                >
+                  <div className="flex flex-col items-center justify-center">
+                    <Upload className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${
+                      darkMode ? "text-blue-400" : "text-blue-600"
+                    } group-hover:scale-110 transition-transform`} />
+                    <h3 className="text-lg md:text-xl font-semibold mb-2">Upload Images</h3>
+                    <p className={`text-sm md:text-base ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                      Click to browse or drag & drop up to {MAX_COLLAGE_IMAGES} images here
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Collage Editor */}
+            {images.length > 0 && (
+              <div className="mb-6 md:mb-8 space-y-5">
+                {/* Templates */}
+                <div>
+                  <label className={labelClass}>Template</label>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    {COLLAGE_TEMPLATES.map((t) => (
+                      <button
+                        key={t.value}
+                        onClick={() => handleTemplateChange(t.value)}
+                        className={`p-4 rounded-xl border-2 text-left transition-all duration-300 ${
+                          template === t.value
+                            ? darkMode
+                              ? "border-blue-400 bg-blue-400/10"
+                              : "border-blue-500 bg-blue-50"
+                            : darkMode
+                              ? "border-gray-600 hover:border-gray-500"
+                              : "border-gray-200 hover:border-gray-300"
+                        }`}
+                      >
+                        <div className="font-semibold">{t.label}</div>
+                        <div className={`text-xs ${darkMode ? "text-gray-400" : "text-gray-500"}`}>{t.description}</div>
+                      </button>
+                    ))}
+                  </div>
+                  {template === "masonry" && (
+                    <div className="flex flex-wrap items-center gap-2 mt-3">
+                      <span className={`text-sm ${darkMode ? "text-gray-300" : "text-gray-700"}`}>Columns</span>
+                      {[2, 3, 4, 5].map((count) => (
+                        <button
+                          key={count}
+                          onClick={() => { setColumns(count); setResult(null); }}
+                          className={chipClass(columns === count)}
+                        >
+                          {count}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Preview */}
+                <div className={`flex justify-center p-4 rounded-2xl ${darkMode ? "bg-gray-900/60" : "bg-gray-100"}`}>
+                  <div
+                    className="relative max-w-xl shadow-lg"
+                    style={{
+                      // Fits the width and at most 60% of the screen height
+                      width: `min(100%, ${(60 * width) / height}vh)`,
+                      aspectRatio: `${width} / ${height}`,
+                      backgroundColor: background,
+                    }}
+                  >
+                    {rects.map((rect, index) => {
+                      const image = imageById(cells[index]);
+                      return (
+                        <div
+                          key={index}
+                          draggable={!!image}
+                          onDragStart={(e) => image && handleDragStart(e, image.id, index)}
+                          onDragEnd={() => setDragSource(null)}
+                          onDragOver={handleDragOverCell}
+                          onDrop={(e) => handleDropCell(e, index)}
+                          className={`absolute group overflow-hidden ${
+                            image
+                              ? "cursor-grab"
+                              : darkMode
+                                ? "border-2 border-dashed border-gray-500 bg-gray-700/60"
+                                : "border-2 border-dashed border-gray-400 bg-gray-200/80"
+                          } ${dragSource?.fromCell === index ? "opacity-50" : ""}`}
+                          style={{
+                            left: percent(rect.left, width),
+                            top: percent(rect.top, height),
+                            width: percent(rect.width, width),
+                            height: percent(rect.height, height),
+                          }}
+                        >
+                          {image ? (
+                            <>
+                              <img src={image.url} alt={image.file.name} draggable={false} className="w-full h-full object-cover" />
+                              {template !== "masonry" && (
+                                <button
+                                  onClick={() => clearCell(index)}
+                                  title="Empty this cell"
+                                  className="absolute top-1 right-1 p-1 rounded-full bg-black/60 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                                >
+                                  <X className="h-3 w-3" />
+                                </button>
+                              )}
+                            </>
+                          ) : (
+                            <div className={`w-full h-full flex items-center justify-center text-xs ${
+                              darkMode ? "text-gray-400" : "text-gray-500"
+                            }`}>
+                              Drop an image here
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {/* Image Tray */}
+                <div>
+                  <label className={labelClass}>Images ({images.length})</label>
+                  <div className="flex flex-wrap gap-3" onDrop={handleDrop} onDragOver={handleDragOver}>
+                    {images.map((img) => (
+                      <div
+                        key={img.id}
+                        draggable
+                        onDragStart={(e) => handleDragStart(e, img.id, null)}
+                        onDragEnd={() => setDragSource(null)}
+                        title={`${img.file.name} · ${img.width} × ${img.height} px · ${formatFileSize(img.file.size)}`}
+                        className={`relative group w-20 h-20 rounded-lg overflow-hidden border-2 cursor-grab transition-all duration-200 ${
+                          cells.includes(img.id)
+                            ? darkMode ? "border-blue-400" : "border-blue-500"
+                            : darkMode ? "border-gray-600" : "border-gray-300"
+                        } ${dragSource?.imageId === img.id ? "opacity-50" : ""}`}
+                      >
+                        <img src={img.url} alt={img.file.name} draggable={false} className="w-full h-full object-cover" />
+                        <button
+                          onClick={() => removeImage(img.id)}
+                          title="Remove image"
+                          className="absolute top-1 right-1 p-1 rounded-full bg-black/60 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </div>
+                    ))}
+                    {images.length < MAX_COLLAGE_IMAGES && (
+                      <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className={`w-20 h-20 rounded-lg border-2 border-dashed flex items-center justify-center transition-all duration-300 ${
+                          darkMode ? "border-gray-600 text-gray-400 hover:border-blue-400" : "border-gray-300 text-gray-500 hover:border-blue-500"
+                        }`}
+                        title="Add images"
+                      >
+                        <Plus className="h-6 w-6" />
+                      </button>
+                    )}
+                  </div>
+                  <p className={`text-xs mt-2 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                    Drag images into the cells • Drag between cells to swap them • Highlighted images are in the collage
+                  </p>
+                </div>
+
+                {/* Output Size */}
+                <div>
+                  <label className={labelClass}>Size</label>
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {sizePresets.map((p) => (
+                      <button
+                        key={p.id}
+                        onClick={() => handleSizePreset(p)}
+                        className={chipClass(width === p.width && height === p.height)}
+                      >
+                        {p.label}
+                        <span className={`ml-1 text-xs ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                          {p.width}×{p.height}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                    <div>
+                      <label className={labelClass}>Width</label>
+                      <input
+                        type="number"
+                        min={16}
+                        max={MAX_COLLAGE_SIZE}
+                        value={width}
+                        onChange={(e) => handleSizeInput("width", e.target.value)}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Height</label>
+                      <input
+                        type="number"
+                        min={16}
+                        max={MAX_COLLAGE_SIZE}
+                        value={height}
+                        onChange={(e) => handleSizeInput("height", e.target.value)}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Format</label>
+                      <select
+                        value={format}
+                        onChange={(e) => { setFormat(e.target.value as ImageFormat); setResult(null); }}
+                        className={inputClass}
+                      >
+                        {IMAGE_FORMATS.map(({ value, label }) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Spacing, Border and Background */}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <label className={labelClass}>Spacing: {layout.spacing} px</label>
+                    <input
+                      type="range"
+                      min={0}
+                      max={Math.min(200, maxGap)}
+                      value={layout.spacing}
+                      onChange={(e) => { setSpacing(Number(e.target.value)); setResult(null); }}
+                      className="w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Border: {layout.border} px</label>
+                    <input
+                      type="range"
+                      min={0}
+                      max={Math.min(200, maxGap)}
+                      value={layout.border}
+                      onChange={(e) => { setBorder(Number(e.target.value)); setResult(null); }}
+                      className="w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Background</label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="color"
+                        value={background}
+                        onChange={(e) => { setBackground(e.target.value); setResult(null); }}
+                        className="h-10 w-14 rounded cursor-pointer"
+                      />
+                      <span className={`font-mono text-sm ${darkMode ? "text-gray-300" : "text-gray-700"}`}>{background}</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            <div className="flex flex-col sm:flex-row gap-3 md:gap-4 mb-6">
+              <button
+                onClick={handleCreate}
+                disabled={loading || images.length === 0}
+                className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  darkMode
+                    ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                    : "bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                }`}
+              >
+                {loading ? (
+                  <>
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                    <span>Creating...</span>
+                  </>
+                ) : (
+                  <>
+                    <LayoutGrid className="h-5 w-5" />
+                    <span>Create Collage</span>
+                  </>
+                )}
+              </button>
+
+              <button
+                onClick={handleReset}
+                disabled={loading}
+                className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                  darkMode
+                    ? "border-gray-600 text-gray-300 hover:bg-gray-700/50 hover:border-gray-500 hover:scale-105"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-gray-400 hover:scale-105"
+                }`}
+              >
+                <RotateCw className="h-5 w-5" />
+                <span>Reset</span>
+              </button>
+            </div>
+
+            {/* Status Messages */}
+            {error && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-red-900/20 border-red-500 text-red-400" : "bg-red-50 border-red-500 text-red-700"
+              }`}>
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {/* Collage Result */}
+            {result && (
+              <div className={`p-4 md:p-6 rounded-2xl mb-4 animate-fade-in ${
+                darkMode ? "bg-green-900/20 border border-green-700/50" : "bg-green-50 border border-green-200"
+              }`}>
+                {result.extension !== "tif" && (
+                  <img src={result.url} alt="Collage" className="max-h-64 max-w-full mx-auto rounded-lg shadow mb-4 object-contain" />
+                )}
+                <p className={`text-sm text-center mb-4 ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                  {result.width} × {result.height} px · {formatFileSize(result.size)}
+                </p>
+                <button
+                  onClick={handleDownload}
+                  className="w-full py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 bg-green-600 hover:bg-green-700 text-white shadow-lg hover:shadow-xl"
+                >
+                  <Download className="h-5 w-5" />
+                  <span>Download Collage</span>
+                </button>
+              </div>
+            )}
+
+            {/* Instructions */}
+            <div className={`mt-6 p-4 md:p-6 rounded-2xl ${
+              darkMode ? "bg-gray-700/30" : "bg-white/50"
+            }`}>
+              <h3 className={`font-semibold mb-3 text-sm md:text-base ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                How to use:
+              </h3>
+              <ol className={`list-decimal list-inside space-y-2 text-xs md:text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}>
+                <li>Upload the images for your collage; they fill the cells in order</li>
+                <li>Pick a template; masonry shows every image in columns that keep their proportions</li>
+                <li>Drag images from the tray into cells, or between cells to swap them</li>
+                <li>Choose the size, spacing, border and background color</li>
+                <li>Click "Create Collage"; the full-resolution images are combined on the server</li>
+              </ol>
+            </div>
+          </div>
+        </div>
+
+        {/* Quick Actions Footer */}
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleBackToHome}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-gray-400 hover:text-gray-300 hover:bg-gray-700/50"
+                : "text-gray-600 hover:text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <Home className="h-4 w-4" />
+            Back to All Tools
+          </button>
+        </div>
+      </div>
+
+      {/* Add custom animations */}
+      <style>{`
+        @keyframes fade-in {
+          from { opacity: 0; transform: translateY(-10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .animate-fade-in {
+          animation: fade-in 0.3s ease-out;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default CreateCollage;
@@ -0,0 +1,634 @@
+import React, { useState, useRef, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Upload,
+  Crop,
+  Download,
+  RotateCw,
+  AlertCircle,
+  Home,
+  ArrowLeft
+} from "lucide-react";
+import { API_BASE_URL } from "../../../utils/api";
+import { formatFileSize } from "../../../utils/fileSize";
+import {
+  IMAGE_FORMATS,
+  imageFormatInfo,
+  formatFromMimeType,
+  imageFileName,
+  readImageSize,
+  type ImageFormat
+} from "../../../utils/imageFormats";
+import {
+  CROP_HANDLES,
+  centeredCrop,
+  clampCrop,
+  dragCrop,
+  type CropHandle,
+  type CropRect,
+  type Size
+} from "../../../utils/cropBox";
+
+interface CropPreset {
+  id: string;
+  label: string;
+  /** Width:height ratio; "original" follows the image */
+  ratio?: [number, number] | "original";
+  /** Social media sizes also scale the crop to this exact size */
+  output?: Size;
+}
+
+const ratioPresets: CropPreset[] = [
+  { id: "free", label: "Free" },
+  { id: "original", label: "Original", ratio: "original" },
+  { id: "1:1", label: "1:1", ratio: [1, 1] },
+  { id: "4:3", label: "4:3", ratio: [4, 3] },
+  { id: "3:4", label: "3:4", ratio: [3, 4] },
+  { id: "3:2", label: "3:2", ratio: [3, 2] },
+  { id: "16:9", label: "16:9", ratio: [16, 9] },
+  { id: "9:16", label: "9:16", ratio: [9, 16] },
+];
+
+const socialPresets: CropPreset[] = [
+  { id: "instagram-post", label: "Instagram Post", output: { width: 1080, height: 1080 } },
+  { id: "instagram-portrait", label: "Instagram Portrait", output: { width: 1080, height: 1350 } },
+  { id: "instagram-story", label: "Instagram Story", output: { width: 1080, height: 1920 } },
+  { id: "facebook-cover", label: "Facebook Cover", output: { width: 851, height: 315 } },
+  { id: "x-header", label: "X / Twitter Header", output: { width: 1500, height: 500 } },
+  { id: "youtube-thumbnail", label: "YouTube Thumbnail", output: { width: 1280, height: 720 } },
+  { id: "linkedin-banner", label: "LinkedIn Banner", output: { width: 1584, height: 396 } },
+];
+
+const presetAspect = (preset: CropPreset, imageSize: Size): number | null => {
+  if (preset.output) return preset.output.width / preset.output.height;
+  if (preset.ratio === "original") return imageSize.width / imageSize.height;
+  return preset.ratio ? preset.ratio[0] / preset.ratio[1] : null;
+};
+
+interface DragState {
+  handle: CropHandle;
+  startX: number;
+  startY: number;
+  start: CropRect;
+  /** Image pixels per screen pixel */
+  scale: number;
+}
+
+interface CropResult {
+  url: string;
+  width: number;
+  height: number;
+  size: number;
+  extension: string;
+}
+
+const CropImage: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [imageSize, setImageSize] = useState<Size | null>(null);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [presetId, setPresetId] = useState("free");
+  const [resizeToPreset, setResizeToPreset] = useState(true);
+  const [format, setFormat] = useState<ImageFormat | "original">("original");
+  const [result, setResult] = useState<CropResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const preset = [...ratioPresets, ...socialPresets].find((p) => p.id === presetId)!;
+  const aspect = imageSize ? presetAspect(preset, imageSize) : null;
+  const outputSize = preset.output && resizeToPreset ? preset.output : crop;
+
+  // Release object URLs whenever they are replaced
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  useEffect(() => {
+    return () => {
+      if (result) URL.revokeObjectURL(result.url);
+    };
+  }, [result]);
+
+  const selectFile = async (file: File) => {
+    setError(null);
+    setResult(null);
+    if (!file.type.startsWith("image/")) {
+      setError("Please upload an image file only.");
+      return;
+    }
+
+    try {
+      const size = await readImageSize(file);
+      setSelectedFile(file);
+      setFileName(file.name);
+      setPreviewUrl(URL.createObjectURL(file));
+      setImageSize(size);
+      setPresetId("free");
+      setCrop(centeredCrop(size, null));
+    } catch {
+      setError("This image can't be previewed in your browser. Convert it to JPG or PNG first.");
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      selectFile(e.target.files[0]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      selectFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const handlePresetChange = (next: CropPreset) => {
+    if (!imageSize) return;
+    setPresetId(next.id);
+    setResult(null);
+    setCrop(centeredCrop(imageSize, presetAspect(next, imageSize)));
+  };
+
+  const startDrag = (e: React.PointerEvent, handle: CropHandle) => {
+    const stage = stageRef.current;
+    if (!stage || !crop || !imageSize) return;
+    e.preventDefault();
+    e.stopPropagation();
+    dragRef.current = {
+      handle,
+      startX: e.clientX,
+      startY: e.clientY,
+      start: crop,
+      scale: imageSize.width / stage.clientWidth,
+    };
+    stage.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !imageSize) return;
+    const dx = (e.clientX - drag.startX) * drag.scale;
+    const dy = (e.clientY - drag.startY) * drag.scale;
+    setCrop(dragCrop(drag.start, drag.handle, dx, dy, imageSize, aspect));
+    setResult(null);
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // Numeric inputs; with a fixed ratio the other side follows
+  const handleCropInput = (field: keyof CropRect, value: string) => {
+    if (!crop || !imageSize) return;
+    const number = Math.round(Number(value));
+    if (!Number.isFinite(number)) return;
+
+    const next = { ...crop, [field]: number };
+    if (aspect && field === "width") next.height = number / aspect;
+    if (aspect && field === "height") next.width = number * aspect;
+    setCrop(clampCrop(next, imageSize, aspect));
+    setResult(null);
+  };
+
+  const handleCrop = async () => {
+    if (!selectedFile || !crop) {
+      setError("Please select an image.");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+      formData.append("left", String(crop.x));
+      formData.append("top", String(crop.y));
+      formData.append("width", String(crop.width));
+      formData.append("height", String(crop.height));
+      if (preset.output && resizeToPreset) {
+        formData.append("outputWidth", String(preset.output.width));
+        formData.append("outputHeight", String(preset.output.height));
+      }
+      if (format !== "original") formData.append("format", format);
+
+      const response = await fetch(`${API_BASE_URL}/image/crop`, {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Failed to crop image");
+      }
+
+      const blob = await response.blob();
+      const outputFormat = formatFromMimeType(blob.type);
+      setResult({
+        url: URL.createObjectURL(blob),
+        width: Number(response.headers.get("X-Image-Width")) || 0,
+        height: Number(response.headers.get("X-Image-Height")) || 0,
+        size: blob.size,
+        extension: outputFormat ? imageFormatInfo(outputFormat).extension : "png",
+      });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error && err.message ? err.message : "Something went wrong while processing the image");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    const link = document.createElement("a");
+    link.href = result.url;
+    link.download = imageFileName("cropped", fileName, result.extension);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
+
+  const handleReset = () => {
+    setSelectedFile(null);
+    setFileName("");
+    setPreviewUrl(null);
+    setImageSize(null);
+    setCrop(null);
+    setPresetId("free");
+    setResult(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleBackToHome = () => {
+    navigate("/");
+  };
+
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+  const inputClass = `w-full px-3 py-2 rounded-lg border-2 text-sm transition-all duration-300 ${
+    darkMode
+      ? "bg-gray-700 border-gray-600 text-white focus:border-blue-400"
+      : "bg-white border-gray-300 text-gray-900 focus:border-blue-500"
+  }`;
+  const labelClass = `block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`;
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-sm font-medium border-2 transition-all duration-300 ${
+      active
+        ? darkMode
+          ? "border-blue-400 bg-blue-400/10 text-blue-300"
+          : "border-blue-500 bg-blue-50 text-blue-700"
+        : darkMode
+          ? "border-gray-600 text-gray-300 hover:border-gray-500"
+          : "border-gray-200 text-gray-700 hover:border-gray-300"
+    }`;
+
+  return (
+    <div className={`min-h-screen py-8 px-4 transition-colors duration-300 ${
+      darkMode ? "bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900" : "bg-gradient-to-br from-blue-50 via-white to-gray-100"
+    }`}>
+      <div className="max-w-5xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={handleBackToHome}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-blue-400 hover:text-blue-300 hover:bg-blue-400/10"
+                : "text-blue-600 hover:text-blue-700 hover:bg-blue-100"
+            }`}
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span className="hidden sm:inline">Back to Home</span>
+            <span className="sm:hidden">Home</span>
+          </button>
+
+          <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+            darkMode ? "bg-blue-900/30 text-blue-300" : "bg-blue-100 text-blue-700"
+          }`}>
+            Image Tool
+          </div>
+        </div>
+
+        {/* Main Card */}
+        <div className={`rounded-3xl shadow-2xl overflow-hidden ${
+          darkMode ? "bg-gray-800/80 backdrop-blur-sm" : "bg-white/80 backdrop-blur-sm"
+        }`}>
+          <div className="p-6 md:p-8">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center mb-4">
+                <div className={`p-3 rounded-2xl ${
+                  darkMode ? "bg-gradient-to-br from-blue-600/20 to-teal-600/20" : "bg-gradient-to-br from-blue-100 to-teal-100"
+                }`}>
+                  <Crop className={`h-8 w-8 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                </div>
+              </div>
+              <h1 className={`text-3xl md:text-4xl font-bold mb-3 bg-gradient-to-r ${
+                darkMode ? "from-blue-400 to-teal-400" : "from-blue-600 to-teal-600"
+              } bg-clip-text text-transparent`}>
+                Crop Image
+              </h1>
+              <p className={`text-base md:text-lg ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                Trim your image to the area that matters, at full resolution
+              </p>
+            </div>
+
+            {/* Upload Area */}
+            {!selectedFile && (
+              <div className="mb-6 md:mb-8">
+                <div
+                  className={`border-2 border-dashed rounded-2xl p-6 md:p-8 text-center cursor-pointer transition-all duration-300 group ${
+                    darkMode
+                      ? "border-gray-600 hover:border-blue-400 hover:bg-blue-400/5"
+                      : "border-gray-300 hover:border-blue-500 hover:bg-blue-500/5"
+                  }`}
+                  onClick={() => fileInputRef.current?.click()}
+                  onDrop={handleDrop}
+                  onDragOver={handleDragOver}
+                >
+                  <input
+                    type="file"
+                    accept="image/*"
+                    ref={fileInputRef}
+                    onChange={handleFileChange}
+                    className="hidden"
+                  />
+
+                  <div className="flex flex-col items-center justify-center">
+                    <Upload className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${
+                      darkMode ? "text-blue-400" : "text-blue-600"
+                    } group-hover:scale-110 transition-transform`} />
+                    <h3 className="text-lg md:text-xl font-semibold mb-2">Upload Image</h3>
+                    <p className={`text-sm md:text-base ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                      Click to browse or drag & drop your image here
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Crop Editor */}
+            {selectedFile && previewUrl && imageSize && crop && (
+              <div className="mb-6 md:mb-8 space-y-5">
+                <p className={`text-sm text-center ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                  <span className="font-mono">{fileName}</span> · {imageSize.width} × {imageSize.height} px ·{" "}
+                  {formatFileSize(selectedFile.size)}
+                </p>
+
+                <div className={`flex justify-center p-4 rounded-2xl ${darkMode ? "bg-gray-900/60" : "bg-gray-100"}`}>
+                  <div
+                    ref={stageRef}
+                    className="relative inline-block overflow-hidden select-none touch-none"
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                  >
+                    <img src={previewUrl} alt={fileName} draggable={false} className="block max-w-full max-h-[60vh]" />
+                    <div
+                      className="absolute border-2 border-white cursor-move"
+                      style={{
+                        left: percent(crop.x, imageSize.width),
+                        top: percent(crop.y, imageSize.height),
+                        width: percent(crop.width, imageSize.width),
+                        height: percent(crop.height, imageSize.height),
+                        // Dim everything outside the crop box
+                        boxShadow: "0 0 0 9999px rgba(0, 0, 0, 0.55)",
+                      }}
+                      onPointerDown={(e) => startDrag(e, "move")}
+                    >
+                      {/* Rule-of-thirds guides */}
+                      <div className="absolute inset-0 pointer-events-none">
+                        {["33.33%", "66.67%"].map((offset) => (
+                          <React.Fragment key={offset}>
+                            <div className="absolute top-0 bottom-0 border-l border-white/40" style={{ left: offset }} />
+                            <div className="absolute left-0 right-0 border-t border-white/40" style={{ top: offset }} />
+                          </React.Fragment>
+                        ))}
+                      </div>
+                      {CROP_HANDLES.map((handle) => (
+                        <div
+                          key={handle}
+                          onPointerDown={(e) => startDrag(e, handle)}
+                          className="absolute w-3.5 h-3.5 bg-white border-2 border-blue-600 rounded-sm"
+                          style={{
+                            left: handle.includes("w") ? 0 : handle.includes("e") ? "100%" : "50%",
+                            top: handle.includes("n") ? 0 : handle.includes("s") ? "100%" : "50%",
+                            transform: "translate(-50%, -50%)",
+                            cursor: `${handle}-resize`,
+                          }}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                </div>
+
+                {/* Presets */}
+                <div>
+                  <label className={labelClass}>Aspect ratio</label>
+                  <div className="flex flex-wrap gap-2">
+                    {ratioPresets.map((p) => (
+                      <button key={p.id} onClick={() => handlePresetChange(p)} className={chipClass(presetId === p.id)}>
+                        {p.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <label className={labelClass}>Social media</label>
+                  <div className="flex flex-wrap gap-2">
+                    {socialPresets.map((p) => (
+                      <button key={p.id} onClick={() => handlePresetChange(p)} className={chipClass(presetId === p.id)}>
+                        {p.label}
+                        <span className={`ml-1 text-xs ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                          {p.output!.width}×{p.output!.height}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                  {preset.output && (
+                    <label className={`flex items-center gap-2 mt-3 text-sm cursor-pointer ${
+                      darkMode ? "text-gray-300" : "text-gray-700"
+                    }`}>
+                      <input
+                        type="checkbox"
+                        checked={resizeToPreset}
+                        onChange={(e) => { setResizeToPreset(e.target.checked); setResult(null); }}
+                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                      />
+                      Scale the crop to exactly {preset.output.width} × {preset.output.height} px
+                    </label>
+                  )}
+                </div>
+
+                {/* Numeric crop area */}
+                <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 items-end">
+                  {(["x", "y", "width", "height"] as const).map((field) => (
+                    <div key={field}>
+                      <label className={labelClass}>{field === "x" || field === "y" ? field.toUpperCase() : field[0].toUpperCase() + field.slice(1)}</label>
+                      <input
+                        type="number"
+                        min={field === "x" || field === "y" ? 0 : 1}
+                        value={crop[field]}
+                        onChange={(e) => handleCropInput(field, e.target.value)}
+                        className={inputClass}
+                      />
+                    </div>
+                  ))}
+                  <div>
+                    <label className={labelClass}>Format</label>
+                    <select
+                      value={format}
+                      onChange={(e) => { setFormat(e.target.value as ImageFormat | "original"); setResult(null); }}
+                      className={inputClass}
+                    >
+                      <option value="original">Original</option>
+                      {IMAGE_FORMATS.map(({ value, label }) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                {outputSize && (
+                  <p className={`text-sm ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                    Output: {outputSize.width} × {outputSize.height} px
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            <div className="flex flex-col sm:flex-row gap-3 md:gap-4 mb-6">
+              <button
+                onClick={handleCrop}
+                disabled={loading || !selectedFile}
+                className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  darkMode
+                    ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                    : "bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                }`}
+              >
+                {loading ? (
+                  <>
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                    <span>Cropping...</span>
+                  </>
+                ) : (
+                  <>
+                    <Crop className="h-5 w-5" />
+                    <span>Crop Image</span>
+                  </>
+                )}
+              </button>
+
+              <button
+                onClick={handleReset}
+                disabled={loading}
+                className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                  darkMode
+                    ? "border-gray-600 text-gray-300 hover:bg-gray-700/50 hover:border-gray-500 hover:scale-105"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-gray-400 hover:scale-105"
+                }`}
+              >
+                <RotateCw className="h-5 w-5" />
+                <span>Reset</span>
+              </button>
+            </div>
+
+            {/* Status Messages */}
+            {error && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-red-900/20 border-red-500 text-red-400" : "bg-red-50 border-red-500 text-red-700"
+              }`}>
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {/* Crop Result */}
+            {result && (
+              <div className={`p-4 md:p-6 rounded-2xl mb-4 animate-fade-in ${
+                darkMode ? "bg-green-900/20 border border-green-700/50" : "bg-green-50 border border-green-200"
+              }`}>
+                {result.extension !== "tif" && (
+                  <img src={result.url} alt="Cropped" className="max-h-64 max-w-full mx-auto rounded-lg shadow mb-4 object-contain" />
+                )}
+                <p className={`text-sm text-center mb-4 ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                  {result.width} × {result.height} px · {formatFileSize(result.size)}
+                </p>
+                <button
+                  onClick={handleDownload}
+                  className="w-full py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 bg-green-600 hover:bg-green-700 text-white shadow-lg hover:shadow-xl"
+                >
+                  <Download className="h-5 w-5" />
+                  <span>Download Cropped Image</span>
+                </button>
+              </div>
+            )}
+
+            {/* Instructions */}
+            <div className={`mt-6 p-4 md:p-6 rounded-2xl ${
+              darkMode ? "bg-gray-700/30" : "bg-white/50"
+            }`}>
+              <h3 className={`font-semibold mb-3 text-sm md:text-base ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                How to use:
+              </h3>
+              <ol className={`list-decimal list-inside space-y-2 text-xs md:text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}>
+                <li>Upload an image and drag the box or its handles to choose the area to keep</li>
+                <li>Pick an aspect ratio or a social media size to lock the proportions</li>
+                <li>Fine-tune the position and size in pixels with the number fields</li>
+                <li>Click "Crop Image"; the original is cropped at full resolution on the server</li>
+              </ol>
+            </div>
+          </div>
+        </div>
+
+        {/* Quick Actions Footer */}
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleBackToHome}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-gray-400 hover:text-gray-300 hover:bg-gray-700/50"
+                : "text-gray-600 hover:text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <Home className="h-4 w-4" />
+            Back to All Tools
+          </button>
+        </div>
+      </div>
+
+      {/* Add custom animations */}
+      <style>{`
+        @keyframes fade-in {
+          from { opacity: 0; transform: translateY(-10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .animate-fade-in {
+          animation: fade-in 0.3s ease-out;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default CropImage;
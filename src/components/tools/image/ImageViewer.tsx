@@ -0,0 +1,794 @@
+import React, { useState, useRef, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Upload,
+  Info,
+  Download,
+  RotateCw,
+  AlertCircle,
+  Home,
+  ArrowLeft,
+  ZoomIn,
+  ZoomOut,
+  Maximize2,
+  MapPin,
+  ShieldCheck
+} from "lucide-react";
+import { API_BASE_URL } from "../../../utils/api";
+import { formatFileSize } from "../../../utils/fileSize";
+import { imageFormatInfo, formatFromMimeType, imageFileName } from "../../../utils/imageFormats";
+
+// Shape of the /image/metadata response (see backend/utils/metadata.js)
+interface ExifTag {
+  group: "Image" | "Exif" | "GPS";
+  tag: number;
+  name: string;
+  value: string;
+}
+
+interface ImageMetadata {
+  format: string;
+  width: number;
+  height: number;
+  storedWidth: number;
+  storedHeight: number;
+  orientation: number;
+  space: string;
+  channels: number;
+  depth: string;
+  hasAlpha: boolean;
+  density: number | null;
+  chromaSubsampling: string | null;
+  isProgressive: boolean;
+  pages: number;
+  iccProfile: string | null;
+  fileSize: number;
+  exif: ExifTag[];
+  gps: { latitude: number; longitude: number; altitude: number | null } | null;
+  iptc: { name: string; value: string }[];
+  xmp: string | null;
+}
+
+interface Histogram {
+  red: number[];
+  green: number[];
+  blue: number[];
+  luminance: number[];
+}
+
+interface StripResult {
+  url: string;
+  size: number;
+  fileName: string;
+  mode: "all" | "gps";
+}
+
+// Longest side of the copy the histogram is counted on
+const HISTOGRAM_SIZE = 512;
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 32;
+
+const BIT_DEPTHS: Record<string, string> = {
+  uchar: "8-bit",
+  char: "8-bit",
+  ushort: "16-bit",
+  short: "16-bit",
+  uint: "32-bit",
+  int: "32-bit",
+  float: "32-bit float",
+  double: "64-bit float",
+};
+
+const ORIENTATIONS = [
+  "",
+  "Normal",
+  "Mirrored",
+  "Rotated 180°",
+  "Flipped",
+  "Mirrored, rotated 90° CCW",
+  "Rotated 90° CW",
+  "Mirrored, rotated 90° CW",
+  "Rotated 90° CCW",
+];
+
+const countHistogram = (img: HTMLImageElement): Histogram => {
+  const scale = Math.min(1, HISTOGRAM_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const context = canvas.getContext("2d", { willReadFrequently: true })!;
+  context.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+
+  const histogram: Histogram = {
+    red: Array(256).fill(0),
+    green: Array(256).fill(0),
+    blue: Array(256).fill(0),
+    luminance: Array(256).fill(0),
+  };
+  for (let i = 0; i < data.length; i += 4) {
+    // Fully transparent pixels have no visible color
+    if (data[i + 3] === 0) continue;
+    histogram.red[data[i]]++;
+    histogram.green[data[i + 1]]++;
+    histogram.blue[data[i + 2]]++;
+    histogram.luminance[Math.round(0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2])]++;
+  }
+  return histogram;
+};
+
+// SVG area of one histogram channel in a 256 × 100 box
+const histogramPath = (counts: number[], peak: number) =>
+  `M0,100 ${counts.map((count, i) => `L${i},${100 - (count / peak) * 100}`).join(" ")} L255,100 Z`;
+
+const ImageViewer: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [metadata, setMetadata] = useState<ImageMetadata | null>(null);
+  const [metadataLoading, setMetadataLoading] = useState(false);
+  const [histogram, setHistogram] = useState<Histogram | null>(null);
+  const [view, setView] = useState({ zoom: 1, x: 0, y: 0 });
+  const [result, setResult] = useState<StripResult | null>(null);
+  const [stripping, setStripping] = useState<"all" | "gps" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const panRef = useRef<{ startX: number; startY: number; x: number; y: number } | null>(null);
+
+  // Release object URLs whenever they are replaced
+  useEffect(() => {
+    return () => {
+      if (imageUrl) URL.revokeObjectURL(imageUrl);
+    };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    return () => {
+      if (result) URL.revokeObjectURL(result.url);
+    };
+  }, [result]);
+
+  // Zoom towards the pointer; React's wheel listener is passive and can't stop page scrolling
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      zoomAt(e.deltaY < 0 ? 1.2 : 1 / 1.2, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    viewport.addEventListener("wheel", handleWheel, { passive: false });
+    return () => viewport.removeEventListener("wheel", handleWheel);
+  }, [imageUrl]);
+
+  const zoomAt = (factor: number, originX: number, originY: number) => {
+    setView((prev) => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.zoom * factor));
+      const ratio = zoom / prev.zoom;
+      return { zoom, x: originX - (originX - prev.x) * ratio, y: originY - (originY - prev.y) * ratio };
+    });
+  };
+
+  const zoomFromCenter = (factor: number) => {
+    const viewport = viewportRef.current;
+    if (viewport) zoomAt(factor, viewport.clientWidth / 2, viewport.clientHeight / 2);
+  };
+
+  // Show the image at `zoom` (fit to the viewport when omitted), centered
+  const centerImage = (zoom?: number) => {
+    const viewport = viewportRef.current;
+    const img = imageRef.current;
+    if (!viewport || !img || !img.naturalWidth) return;
+    const scale =
+      zoom ?? Math.min(1, viewport.clientWidth / img.naturalWidth, viewport.clientHeight / img.naturalHeight);
+    setView({
+      zoom: scale,
+      x: (viewport.clientWidth - img.naturalWidth * scale) / 2,
+      y: (viewport.clientHeight - img.naturalHeight * scale) / 2,
+    });
+  };
+
+  const loadMetadata = async (file: File) => {
+    setMetadataLoading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await fetch(`${API_BASE_URL}/image/metadata`, {
+        method: "POST",
+        body: formData,
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Failed to read the image metadata");
+      }
+      setMetadata(await response.json());
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error && err.message ? err.message : "Something went wrong while reading the metadata");
+    } finally {
+      setMetadataLoading(false);
+    }
+  };
+
+  const selectFile = (file: File) => {
+    setError(null);
+    setResult(null);
+    if (!file.type.startsWith("image/")) {
+      setError("Please upload an image file only.");
+      return;
+    }
+
+    setSelectedFile(file);
+    setFileName(file.name);
+    setImageUrl(URL.createObjectURL(file));
+    setMetadata(null);
+    setHistogram(null);
+    loadMetadata(file);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      selectFile(e.target.files[0]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      selectFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const handleImageLoad = () => {
+    const img = imageRef.current;
+    if (!img) return;
+    centerImage();
+    setHistogram(countHistogram(img));
+  };
+
+  const handleImageError = () => {
+    setError("This image can't be displayed in your browser, but its metadata can still be read and stripped.");
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panRef.current = { startX: e.clientX, startY: e.clientY, x: view.x, y: view.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pan = panRef.current;
+    if (!pan) return;
+    setView((prev) => ({ ...prev, x: pan.x + e.clientX - pan.startX, y: pan.y + e.clientY - pan.startY }));
+  };
+
+  const handlePointerUp = () => {
+    panRef.current = null;
+  };
+
+  const handleStrip = async (mode: "all" | "gps") => {
+    if (!selectedFile) {
+      setError("Please select an image.");
+      return;
+    }
+
+    setStripping(mode);
+    setError(null);
+    setResult(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+      formData.append("mode", mode);
+
+      const response = await fetch(`${API_BASE_URL}/image/strip-metadata`, {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Failed to strip the metadata");
+      }
+
+      const blob = await response.blob();
+      const outputFormat = formatFromMimeType(blob.type);
+      const extension = outputFormat ? imageFormatInfo(outputFormat).extension : "jpg";
+      setResult({
+        url: URL.createObjectURL(blob),
+        size: blob.size,
+        fileName: imageFileName(mode === "gps" ? "no-location" : "no-metadata", fileName, extension),
+        mode,
+      });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error && err.message ? err.message : "Something went wrong while processing the image");
+    } finally {
+      setStripping(null);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    const link = document.createElement("a");
+    link.href = result.url;
+    link.download = result.fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
+
+  const handleReset = () => {
+    setSelectedFile(null);
+    setFileName("");
+    setImageUrl(null);
+    setMetadata(null);
+    setHistogram(null);
+    setView({ zoom: 1, x: 0, y: 0 });
+    setResult(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleBackToHome = () => {
+    navigate("/");
+  };
+
+  const properties: [string, string][] = metadata
+    ? [
+        ["Format", metadata.format.toUpperCase()],
+        [
+          "Dimensions",
+          `${metadata.width} × ${metadata.height} px` +
+            (metadata.width !== metadata.storedWidth ? ` (stored as ${metadata.storedWidth} × ${metadata.storedHeight})` : ""),
+        ],
+        ["Megapixels", (metadata.width * metadata.height / 1e6).toFixed(1)],
+        ["Orientation", ORIENTATIONS[metadata.orientation] ?? String(metadata.orientation)],
+        ["Color space", metadata.space.toUpperCase()],
+        ["Channels", `${metadata.channels}${metadata.hasAlpha ? " (with transparency)" : ""}`],
+        ["Bit depth", BIT_DEPTHS[metadata.depth] ?? metadata.depth],
+        ["ICC profile", metadata.iccProfile ?? "None"],
+        ["Resolution", metadata.density ? `${metadata.density} DPI` : "Not set"],
+        ...(metadata.chromaSubsampling ? [["Chroma subsampling", metadata.chromaSubsampling] as [string, string]] : []),
+        ...(metadata.format === "jpeg" ? [["Progressive", metadata.isProgressive ? "Yes" : "No"] as [string, string]] : []),
+        ...(metadata.pages > 1 ? [["Frames / pages", String(metadata.pages)] as [string, string]] : []),
+        ["File size", formatFileSize(metadata.fileSize)],
+      ]
+    : [];
+  const exifGroups = (["Image", "Exif", "GPS"] as const)
+    .map((group) => ({ group, tags: metadata?.exif.filter((tag) => tag.group === group) ?? [] }))
+    .filter(({ tags }) => tags.length > 0);
+  const histogramPeak = histogram
+    ? Math.max(1, ...histogram.red, ...histogram.green, ...histogram.blue)
+    : 1;
+
+  const sectionClass = `p-4 rounded-2xl ${darkMode ? "bg-gray-700/30" : "bg-white/60 border border-gray-200"}`;
+  const headingClass = `font-semibold mb-3 text-sm md:text-base ${darkMode ? "text-gray-200" : "text-gray-800"}`;
+  const rowClass = `grid grid-cols-[minmax(8rem,40%)_1fr] gap-3 py-1.5 text-sm border-b last:border-b-0 ${
+    darkMode ? "border-gray-700" : "border-gray-100"
+  }`;
+  const nameClass = darkMode ? "text-gray-400" : "text-gray-500";
+  const valueClass = `break-words ${darkMode ? "text-gray-200" : "text-gray-800"}`;
+  const iconButtonClass = `p-2 rounded-lg transition-colors ${
+    darkMode ? "bg-black/50 text-white hover:bg-black/70" : "bg-white/90 text-gray-700 hover:bg-white shadow"
+  }`;
+
+  return (
+    <div className={`min-h-screen py-8 px-4 transition-colors duration-300 ${
+      darkMode ? "bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900" : "bg-gradient-to-br from-blue-50 via-white to-gray-100"
+    }`}>
+      <div className="max-w-5xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={handleBackToHome}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-blue-400 hover:text-blue-300 hover:bg-blue-400/10"
+                : "text-blue-600 hover:text-blue-700 hover:bg-blue-100"
+            }`}
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span className="hidden sm:inline">Back to Home</span>
+            <span className="sm:hidden">Home</span>
+          </button>
+
+          <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+            darkMode ? "bg-blue-900/30 text-blue-300" : "bg-blue-100 text-blue-700"
+          }`}>
+            Image Tool
+          </div>
+        </div>
+
+        {/* Main Card */}
+        <div className={`rounded-3xl shadow-2xl overflow-hidden ${
+          darkMode ? "bg-gray-800/80 backdrop-blur-sm" : "bg-white/80 backdrop-blur-sm"
+        }`}>
+          <div className="p-6 md:p-8">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center mb-4">
+                <div className={`p-3 rounded-2xl ${
+                  darkMode ? "bg-gradient-to-br from-blue-600/20 to-teal-600/20" : "bg-gradient-to-br from-blue-100 to-teal-100"
+                }`}>
+                  <Info className={`h-8 w-8 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                </div>
+              </div>
+              <h1 className={`text-3xl md:text-4xl font-bold mb-3 bg-gradient-to-r ${
+                darkMode ? "from-blue-400 to-teal-400" : "from-blue-600 to-teal-600"
+              } bg-clip-text text-transparent`}>
+                Image Viewer
+              </h1>
+              <p className={`text-base md:text-lg ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                Inspect properties, camera data and location, and strip them before sharing
+              </p>
+            </div>
+
+            {/* Upload Area */}
+            {!selectedFile && (
+              <div className="mb-6 md:mb-8">
+                <div
+                  className={`border-2 border-dashed rounded-2xl p-6 md:p-8 text-center cursor-pointer transition-all duration-300 group ${
+                    darkMode
+                      ? "border-gray-600 hover:border-blue-400 hover:bg-blue-400/5"
+                      : "border-gray-300 hover:border-blue-500 hover:bg-blue-500/5"
+                  }`}
+                  onClick={() => fileInputRef.current?.click()}
+                  onDrop={handleDrop}
+                  onDragOver={handleDragOver}
+                >
+                  <input
+                    type="file"
+                    accept="image/*"
+                    ref={fileInputRef}
+                    onChange={handleFileChange}
+                    className="hidden"
+                  />
+
+                  <div className="flex flex-col items-center justify-center">
+                    <Upload className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${
+                      darkMode ? "text-blue-400" : "text-blue-600"
+                    } group-hover:scale-110 transition-transform`} />
+                    <h3 className="text-lg md:text-xl font-semibold mb-2">Upload Image</h3>
+                    <p className={`text-sm md:text-base ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                      Click to browse or drag & drop your image here
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Viewer */}
+            {selectedFile && imageUrl && (
+              <div className="mb-6 md:mb-8 space-y-5">
+                <p className={`text-sm text-center ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                  <span className="font-mono">{fileName}</span> · {formatFileSize(selectedFile.size)}
+                </p>
+
+                <div
+                  ref={viewportRef}
+                  className={`relative h-[60vh] rounded-2xl overflow-hidden cursor-grab active:cursor-grabbing select-none touch-none ${
+                    darkMode ? "bg-gray-900/60" : "bg-gray-100"
+                  }`}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                  onDoubleClick={() => centerImage()}
+                >
+                  <img
+                    ref={imageRef}
+                    src={imageUrl}
+                    alt={fileName}
+                    draggable={false}
+                    onLoad={handleImageLoad}
+                    onError={handleImageError}
+                    className="absolute top-0 left-0 max-w-none origin-top-left"
+                    style={{
+                      transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+                      // Show single pixels when zoomed in
+                      imageRendering: view.zoom > 2 ? "pixelated" : "auto",
+                    }}
+                  />
+                  <div className="absolute top-3 right-3 flex items-center gap-2" onPointerDown={(e) => e.stopPropagation()}>
+                    <button onClick={() => zoomFromCenter(1 / 1.5)} className={iconButtonClass} title="Zoom out">
+                      <ZoomOut className="h-4 w-4" />
+                    </button>
+                    <span className={`px-2 py-1 rounded-lg text-sm font-mono ${
+                      darkMode ? "bg-black/50 text-white" : "bg-white/90 text-gray-700 shadow"
+                    }`}>
+                      {Math.round(view.zoom * 100)}%
+                    </span>
+                    <button onClick={() => zoomFromCenter(1.5)} className={iconButtonClass} title="Zoom in">
+                      <ZoomIn className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => centerImage()} className={iconButtonClass} title="Fit to view">
+                      <Maximize2 className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => centerImage(1)} className={`${iconButtonClass} text-xs font-semibold`} title="Actual size">
+                      1:1
+                    </button>
+                  </div>
+                </div>
+                <p className={`text-xs text-center ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                  Scroll to zoom • Drag to pan • Double-click to fit
+                </p>
+
+                {metadataLoading && (
+                  <div className={`flex items-center justify-center gap-2 text-sm ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-500"></div>
+                    Reading metadata...
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {metadata && (
+                    <div className={sectionClass}>
+                      <h3 className={headingClass}>Properties</h3>
+                      {properties.map(([name, value]) => (
+                        <div key={name} className={rowClass}>
+                          <span className={nameClass}>{name}</span>
+                          <span className={valueClass}>{value}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {histogram && (
+                    <div className={sectionClass}>
+                      <h3 className={headingClass}>Histogram</h3>
+                      <svg viewBox="0 0 256 100" preserveAspectRatio="none" className={`w-full h-40 rounded-lg ${
+                        darkMode ? "bg-gray-900/60" : "bg-gray-50"
+                      }`}>
+                        <path d={histogramPath(histogram.red, histogramPeak)} fill="rgb(239, 68, 68)" fillOpacity={0.45} />
+                        <path d={histogramPath(histogram.green, histogramPeak)} fill="rgb(34, 197, 94)" fillOpacity={0.45} />
+                        <path d={histogramPath(histogram.blue, histogramPeak)} fill="rgb(59, 130, 246)" fillOpacity={0.45} />
+                        <path
+                          d={histogramPath(histogram.luminance, histogramPeak)}
+                          fill="none"
+                          stroke={darkMode ? "#e5e7eb" : "#374151"}
+                          strokeWidth={1}
+                          vectorEffect="non-scaling-stroke"
+                        />
+                      </svg>
+                      <div className={`flex justify-between text-xs mt-1 ${nameClass}`}>
+                        <span>Shadows</span>
+                        <span>Red · Green · Blue · Luminance</span>
+                        <span>Highlights</span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {/* Location warning */}
+                {metadata?.gps && (
+                  <div className={`p-4 rounded-xl border-l-4 flex items-start gap-3 ${
+                    darkMode ? "bg-amber-900/20 border-amber-500 text-amber-300" : "bg-amber-50 border-amber-500 text-amber-800"
+                  }`}>
+                    <MapPin className="h-5 w-5 flex-shrink-0 mt-0.5" />
+                    <div className="text-sm">
+                      <p className="font-semibold">This image reveals where it was taken</p>
+                      <p>
+                        {metadata.gps.latitude.toFixed(6)}, {metadata.gps.longitude.toFixed(6)}
+                        {metadata.gps.altitude !== null && ` · ${metadata.gps.altitude.toFixed(1)} m`} ·{" "}
+                        <a
+                          href={`https://www.openstreetmap.org/?mlat=${metadata.gps.latitude}&mlon=${metadata.gps.longitude}#map=15/${metadata.gps.latitude}/${metadata.gps.longitude}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="underline"
+                        >
+                          View on map
+                        </a>
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                {/* EXIF */}
+                {metadata && (
+                  <div className={sectionClass}>
+                    <h3 className={headingClass}>EXIF</h3>
+                    {exifGroups.length === 0 ? (
+                      <p className={`text-sm ${nameClass}`}>No EXIF data</p>
+                    ) : (
+                      exifGroups.map(({ group, tags }) => (
+                        <div key={group} className="mb-3 last:mb-0">
+                          <h4 className={`text-xs font-semibold uppercase tracking-wide mb-1 ${
+                            group === "GPS" ? "text-amber-500" : nameClass
+                          }`}>
+                            {group === "Image" ? "Camera & image" : group === "Exif" ? "Exposure" : "Location"}
+                          </h4>
+                          {tags.map((tag) => (
+                            <div key={`${group}-${tag.tag}`} className={rowClass}>
+                              <span className={nameClass}>{tag.name}</span>
+                              <span className={`${valueClass} font-mono text-xs`}>{tag.value}</span>
+                            </div>
+                          ))}
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+
+                {/* IPTC and XMP */}
+                {metadata && (metadata.iptc.length > 0 || metadata.xmp) && (
+                  <div className={sectionClass}>
+                    {metadata.iptc.length > 0 && (
+                      <>
+                        <h3 className={headingClass}>IPTC</h3>
+                        {metadata.iptc.map((row) => (
+                          <div key={row.name} className={rowClass}>
+                            <span className={nameClass}>{row.name}</span>
+                            <span className={valueClass}>{row.value}</span>
+                          </div>
+                        ))}
+                      </>
+                    )}
+                    {metadata.xmp && (
+                      <details className={metadata.iptc.length > 0 ? "mt-4" : ""}>
+                        <summary className={`cursor-pointer font-semibold text-sm md:text-base ${darkMode ? "text-gray-200" : "text-gray-800"}`}>
+                          XMP ({formatFileSize(metadata.xmp.length)})
+                        </summary>
+                        <pre className={`mt-2 p-3 rounded-lg text-xs overflow-auto max-h-72 whitespace-pre-wrap break-all ${
+                          darkMode ? "bg-gray-900/60 text-gray-300" : "bg-gray-50 text-gray-700"
+                        }`}>
+                          {metadata.xmp}
+                        </pre>
+                      </details>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            <div className="flex flex-col sm:flex-row gap-3 md:gap-4 mb-6">
+              <button
+                onClick={() => handleStrip("all")}
+                disabled={stripping !== null || !selectedFile}
+                className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  darkMode
+                    ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                    : "bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                }`}
+              >
+                {stripping === "all" ? (
+                  <>
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                    <span>Stripping...</span>
+                  </>
+                ) : (
+                  <>
+                    <ShieldCheck className="h-5 w-5" />
+                    <span>Strip All Metadata</span>
+                  </>
+                )}
+              </button>
+
+              <button
+                onClick={() => handleStrip("gps")}
+                disabled={stripping !== null || !metadata?.gps}
+                title={metadata && !metadata.gps ? "This image has no location data" : undefined}
+                className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  darkMode
+                    ? "border-blue-400 text-blue-300 hover:bg-blue-400/10"
+                    : "border-blue-500 text-blue-700 hover:bg-blue-50"
+                }`}
+              >
+                {stripping === "gps" ? (
+                  <>
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-current"></div>
+                    <span>Stripping...</span>
+                  </>
+                ) : (
+                  <>
+                    <MapPin className="h-5 w-5" />
+                    <span>Remove Location Only</span>
+                  </>
+                )}
+              </button>
+
+              <button
+                onClick={handleReset}
+                disabled={stripping !== null}
+                className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                  darkMode
+                    ? "border-gray-600 text-gray-300 hover:bg-gray-700/50 hover:border-gray-500 hover:scale-105"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-gray-400 hover:scale-105"
+                }`}
+              >
+                <RotateCw className="h-5 w-5" />
+                <span>Reset</span>
+              </button>
+            </div>
+
+            {/* Status Messages */}
+            {error && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-red-900/20 border-red-500 text-red-400" : "bg-red-50 border-red-500 text-red-700"
+              }`}>
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {/* Strip Result */}
+            {result && (
+              <div className={`p-4 md:p-6 rounded-2xl mb-4 animate-fade-in ${
+                darkMode ? "bg-green-900/20 border border-green-700/50" : "bg-green-50 border border-green-200"
+              }`}>
+                <p className={`text-sm text-center mb-4 ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                  {result.mode === "gps"
+                    ? "Location removed; the other camera data is kept."
+                    : "All metadata removed; only the color profile and orientation are kept."}{" "}
+                  {formatFileSize(result.size)}
+                </p>
+                <button
+                  onClick={handleDownload}
+                  className="w-full py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 bg-green-600 hover:bg-green-700 text-white shadow-lg hover:shadow-xl"
+                >
+                  <Download className="h-5 w-5" />
+                  <span>Download Clean Image</span>
+                </button>
+              </div>
+            )}
+
+            {/* Instructions */}
+            <div className={`mt-6 p-4 md:p-6 rounded-2xl ${
+              darkMode ? "bg-gray-700/30" : "bg-white/50"
+            }`}>
+              <h3 className={`font-semibold mb-3 text-sm md:text-base ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                How to use:
+              </h3>
+              <ol className={`list-decimal list-inside space-y-2 text-xs md:text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}>
+                <li>Upload an image to see its properties, histogram and embedded metadata</li>
+                <li>Scroll to zoom and drag to pan; use 1:1 to check detail at actual size</li>
+                <li>Check the EXIF table for camera details and the location the photo was taken</li>
+                <li>Strip all metadata, or only the location, before sharing; JPEG, PNG and WebP pixels are left untouched</li>
+              </ol>
+            </div>
+          </div>
+        </div>
+
+        {/* Quick Actions Footer */}
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleBackToHome}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-gray-400 hover:text-gray-300 hover:bg-gray-700/50"
+                : "text-gray-600 hover:text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <Home className="h-4 w-4" />
+            Back to All Tools
+          </button>
+        </div>
+      </div>
+
+      {/* Add custom animations */}
+      <style>{`
+        @keyframes fade-in {
+          from { opacity: 0; transform: translateY(-10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .animate-fade-in {
+          animation: fade-in 0.3s ease-out;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default ImageViewer;
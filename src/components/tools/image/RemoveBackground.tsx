@@ -0,0 +1,769 @@
+import React, { useState, useRef, useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Upload,
+  Scissors,
+  Download,
+  RotateCw,
+  AlertCircle,
+  Home,
+  ArrowLeft,
+  Pipette,
+  Paintbrush,
+  Eraser,
+  Eye
+} from "lucide-react";
+import { API_BASE_URL } from "../../../utils/api";
+import { formatFileSize } from "../../../utils/fileSize";
+import {
+  IMAGE_FORMATS,
+  imageFormatInfo,
+  formatFromMimeType,
+  imageFileName,
+  type ImageFormat
+} from "../../../utils/imageFormats";
+import {
+  DEFAULT_BACKGROUND_OPTIONS,
+  applyMatte,
+  backgroundMatte,
+  detectKeyColor,
+  hexToRgb,
+  rgbToHex,
+  type BackgroundMode,
+  type BackgroundOptions
+} from "../../../utils/backgroundRemoval";
+
+// Longest side of the downscaled copy the live preview and brush work on
+const PREVIEW_SIZE = 900;
+
+type Tool = "pick" | "keep" | "erase";
+
+const tools: { value: Tool; label: string; icon: React.ElementType }[] = [
+  { value: "pick", label: "Pick color", icon: Pipette },
+  { value: "keep", label: "Keep brush", icon: Paintbrush },
+  { value: "erase", label: "Erase brush", icon: Eraser },
+];
+
+const modes: { value: BackgroundMode; label: string; description: string }[] = [
+  { value: "flood", label: "Connected backdrop", description: "Clears the background touching the edges" },
+  { value: "color", label: "Every matching color", description: "Also clears holes and gaps inside" },
+];
+
+// Transparency keeps to the formats that can store it
+const TRANSPARENT_FORMATS: ImageFormat[] = ["png", "webp", "avif", "tiff"];
+
+interface Preview {
+  pixels: ImageData;
+  /** Preview pixels per original pixel */
+  scale: number;
+  width: number;
+  height: number;
+}
+
+interface CutoutResult {
+  url: string;
+  width: number;
+  height: number;
+  size: number;
+  extension: string;
+}
+
+// Downscaled pixels of the image, drawn the way the browser displays it (EXIF orientation applied)
+const loadPreview = (file: File): Promise<Preview & { originalWidth: number; originalHeight: number }> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, PREVIEW_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+      const width = Math.max(1, Math.round(img.naturalWidth * scale));
+      const height = Math.max(1, Math.round(img.naturalHeight * scale));
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext("2d", { willReadFrequently: true })!;
+      context.drawImage(img, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      resolve({
+        pixels: context.getImageData(0, 0, width, height),
+        scale,
+        width,
+        height,
+        originalWidth: img.naturalWidth,
+        originalHeight: img.naturalHeight,
+      });
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read this image"));
+    };
+    img.src = url;
+  });
+
+const checkerboard = {
+  backgroundImage: "repeating-conic-gradient(#d1d5db 0% 25%, #ffffff 0% 50%)",
+  backgroundSize: "20px 20px",
+};
+
+const RemoveBackground: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [options, setOptions] = useState<BackgroundOptions>(DEFAULT_BACKGROUND_OPTIONS);
+  const [tool, setTool] = useState<Tool>("keep");
+  const [brushSize, setBrushSize] = useState(30);
+  const [hasStrokes, setHasStrokes] = useState(false);
+  const [brushVersion, setBrushVersion] = useState(0);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [output, setOutput] = useState<"transparent" | "solid">("transparent");
+  const [fillColor, setFillColor] = useState("#ffffff");
+  const [format, setFormat] = useState<ImageFormat>("png");
+  const [result, setResult] = useState<CutoutResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Brush strokes at preview size: opaque white keeps, opaque black erases
+  const brushRef = useRef<HTMLCanvasElement | null>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  const detectedColor = useMemo(() => (preview ? rgbToHex(detectKeyColor(preview.pixels)) : null), [preview]);
+  const keyColor = options.color ?? detectedColor ?? "#ffffff";
+  const matte = useMemo(
+    () => (preview ? backgroundMatte(preview.pixels, options, hexToRgb(keyColor), preview.scale) : null),
+    [preview, options, keyColor]
+  );
+
+  // Redraw the preview at most once per frame while sliders move or strokes are painted
+  useEffect(() => {
+    if (!preview || !matte) return;
+    const frame = requestAnimationFrame(() => {
+      const context = canvasRef.current?.getContext("2d");
+      const brush = brushRef.current?.getContext("2d");
+      if (!context) return;
+      context.putImageData(
+        showOriginal
+          ? preview.pixels
+          : applyMatte(
+              preview.pixels,
+              matte,
+              hexToRgb(keyColor),
+              hasStrokes && brush ? brush.getImageData(0, 0, preview.width, preview.height) : undefined
+            ),
+        0,
+        0
+      );
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [preview, matte, keyColor, hasStrokes, brushVersion, showOriginal]);
+
+  // Release the result's object URL whenever it is replaced
+  useEffect(() => {
+    return () => {
+      if (result) URL.revokeObjectURL(result.url);
+    };
+  }, [result]);
+
+  const newBrushCanvas = (width: number, height: number) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    brushRef.current = canvas;
+    setHasStrokes(false);
+  };
+
+  const selectFile = async (file: File) => {
+    setError(null);
+    setResult(null);
+    if (!file.type.startsWith("image/")) {
+      setError("Please upload an image file only.");
+      return;
+    }
+
+    try {
+      const { originalWidth, originalHeight, ...loaded } = await loadPreview(file);
+      newBrushCanvas(loaded.width, loaded.height);
+      setSelectedFile(file);
+      setFileName(file.name);
+      setImageSize({ width: originalWidth, height: originalHeight });
+      setPreview(loaded);
+      setOptions(DEFAULT_BACKGROUND_OPTIONS);
+    } catch {
+      setError("This image can't be previewed in your browser. Convert it to JPG or PNG first.");
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      selectFile(e.target.files[0]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      selectFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const updateOptions = (changes: Partial<BackgroundOptions>) => {
+    setOptions((prev) => ({ ...prev, ...changes }));
+    setResult(null);
+  };
+
+  // Pointer position in preview pixels
+  const canvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) * e.currentTarget.width) / rect.width,
+      y: ((e.clientY - rect.top) * e.currentTarget.height) / rect.height,
+      // Brush size is in screen pixels
+      ratio: e.currentTarget.width / rect.width,
+    };
+  };
+
+  const paint = (from: { x: number; y: number }, to: { x: number; y: number }, ratio: number) => {
+    const context = brushRef.current?.getContext("2d");
+    if (!context) return;
+    context.strokeStyle = tool === "keep" ? "#ffffff" : "#000000";
+    context.lineWidth = brushSize * ratio;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(to.x, to.y);
+    context.stroke();
+    setHasStrokes(true);
+    setBrushVersion((version) => version + 1);
+    setResult(null);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!preview) return;
+    const { x, y, ratio } = canvasPoint(e);
+    if (tool === "pick") {
+      const i = (Math.min(preview.height - 1, Math.floor(y)) * preview.width + Math.min(preview.width - 1, Math.floor(x))) * 4;
+      const { data } = preview.pixels;
+      updateOptions({ color: rgbToHex([data[i], data[i + 1], data[i + 2]]) });
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = { x, y };
+    paint({ x, y }, { x, y }, ratio);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const last = lastPointRef.current;
+    if (!last) return;
+    const { x, y, ratio } = canvasPoint(e);
+    paint(last, { x, y }, ratio);
+    lastPointRef.current = { x, y };
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const clearBrush = () => {
+    if (preview) newBrushCanvas(preview.width, preview.height);
+    setResult(null);
+  };
+
+  const handleOutputChange = (next: "transparent" | "solid") => {
+    setOutput(next);
+    if (next === "transparent" && !TRANSPARENT_FORMATS.includes(format)) setFormat("png");
+    setResult(null);
+  };
+
+  const handleRemove = async () => {
+    if (!selectedFile) {
+      setError("Please select an image.");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+      formData.append("mode", options.mode);
+      formData.append("color", keyColor);
+      formData.append("tolerance", String(options.tolerance));
+      formData.append("softness", String(options.softness));
+      formData.append("shrink", String(options.shrink));
+      formData.append("feather", String(options.feather));
+      if (hasStrokes && brushRef.current) {
+        const mask = await new Promise<Blob | null>((resolve) => brushRef.current!.toBlob(resolve, "image/png"));
+        if (mask) formData.append("mask", mask, "mask.png");
+      }
+      if (output === "solid") formData.append("background", fillColor);
+      formData.append("format", format);
+
+      const response = await fetch(`${API_BASE_URL}/image/remove-background`, {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Failed to remove the background");
+      }
+
+      const blob = await response.blob();
+      const outputFormat = formatFromMimeType(blob.type);
+      setResult({
+        url: URL.createObjectURL(blob),
+        width: Number(response.headers.get("X-Image-Width")) || 0,
+        height: Number(response.headers.get("X-Image-Height")) || 0,
+        size: blob.size,
+        extension: outputFormat ? imageFormatInfo(outputFormat).extension : "png",
+      });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error && err.message ? err.message : "Something went wrong while processing the image");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    const link = document.createElement("a");
+    link.href = result.url;
+    link.download = imageFileName("no-background", fileName, result.extension);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
+
+  const handleReset = () => {
+    setSelectedFile(null);
+    setFileName("");
+    setImageSize(null);
+    setPreview(null);
+    setOptions(DEFAULT_BACKGROUND_OPTIONS);
+    brushRef.current = null;
+    setHasStrokes(false);
+    setShowOriginal(false);
+    setResult(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleBackToHome = () => {
+    navigate("/");
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border-2 text-sm transition-all duration-300 ${
+    darkMode
+      ? "bg-gray-700 border-gray-600 text-white focus:border-blue-400"
+      : "bg-white border-gray-300 text-gray-900 focus:border-blue-500"
+  }`;
+  const labelClass = `block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`;
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-sm font-medium border-2 transition-all duration-300 ${
+      active
+        ? darkMode
+          ? "border-blue-400 bg-blue-400/10 text-blue-300"
+          : "border-blue-500 bg-blue-50 text-blue-700"
+        : darkMode
+          ? "border-gray-600 text-gray-300 hover:border-gray-500"
+          : "border-gray-200 text-gray-700 hover:border-gray-300"
+    }`;
+  const cardClass = (active: boolean) =>
+    `p-4 rounded-xl border-2 text-left transition-all duration-300 ${
+      active
+        ? darkMode
+          ? "border-blue-400 bg-blue-400/10"
+          : "border-blue-500 bg-blue-50"
+        : darkMode
+          ? "border-gray-600 hover:border-gray-500"
+          : "border-gray-200 hover:border-gray-300"
+    }`;
+
+  const sliders: { key: "tolerance" | "softness" | "shrink" | "feather"; label: string; max: number; unit: string }[] = [
+    { key: "tolerance", label: "Tolerance", max: 100, unit: "%" },
+    { key: "softness", label: "Edge softness", max: 100, unit: "%" },
+    { key: "shrink", label: "Shrink edge", max: 10, unit: " px" },
+    { key: "feather", label: "Feather", max: 20, unit: " px" },
+  ];
+
+  return (
+    <div className={`min-h-screen py-8 px-4 transition-colors duration-300 ${
+      darkMode ? "bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900" : "bg-gradient-to-br from-blue-50 via-white to-gray-100"
+    }`}>
+      <div className="max-w-5xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={handleBackToHome}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-blue-400 hover:text-blue-300 hover:bg-blue-400/10"
+                : "text-blue-600 hover:text-blue-700 hover:bg-blue-100"
+            }`}
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span className="hidden sm:inline">Back to Home</span>
+            <span className="sm:hidden">Home</span>
+          </button>
+
+          <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+            darkMode ? "bg-blue-900/30 text-blue-300" : "bg-blue-100 text-blue-700"
+          }`}>
+            Image Tool
+          </div>
+        </div>
+
+        {/* Main Card */}
+        <div className={`rounded-3xl shadow-2xl overflow-hidden ${
+          darkMode ? "bg-gray-800/80 backdrop-blur-sm" : "bg-white/80 backdrop-blur-sm"
+        }`}>
+          <div className="p-6 md:p-8">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center mb-4">
+                <div className={`p-3 rounded-2xl ${
+                  darkMode ? "bg-gradient-to-br from-blue-600/20 to-teal-600/20" : "bg-gradient-to-br from-blue-100 to-teal-100"
+                }`}>
+                  <Scissors className={`h-8 w-8 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                </div>
+              </div>
+              <h1 className={`text-3xl md:text-4xl font-bold mb-3 bg-gradient-to-r ${
+                darkMode ? "from-blue-400 to-teal-400" : "from-blue-600 to-teal-600"
+              } bg-clip-text text-transparent`}>
+                Remove Background
+              </h1>
+              <p className={`text-base md:text-lg ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                Cut out products and objects from plain backdrops, processed on our own server
+              </p>
+            </div>
+
+            {/* Upload Area */}
+            {!selectedFile && (
+              <div className="mb-6 md:mb-8">
+                <div
+                  className={`border-2 border-dashed rounded-2xl p-6 md:p-8 text-center cursor-pointer transition-all duration-300 group ${
+                    darkMode
+                      ? "border-gray-600 hover:border-blue-400 hover:bg-blue-400/5"
+                      : "border-gray-300 hover:border-blue-500 hover:bg-blue-500/5"
+                  }`}
+                  onClick={() => fileInputRef.current?.click()}
+                  onDrop={handleDrop}
+                  onDragOver={handleDragOver}
+                >
+                  <input
+                    type="file"
+                    accept="image/*"
+                    ref={fileInputRef}
+                    onChange={handleFileChange}
+                    className="hidden"
+                  />
+
+                  <div className="flex flex-col items-center justify-center">
+                    <Upload className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${
+                      darkMode ? "text-blue-400" : "text-blue-600"
+                    } group-hover:scale-110 transition-transform`} />
+                    <h3 className="text-lg md:text-xl font-semibold mb-2">Upload Image</h3>
+                    <p className={`text-sm md:text-base ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                      Click to browse or drag & drop your image here
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Editor */}
+            {selectedFile && preview && imageSize && (
+              <div className="mb-6 md:mb-8 space-y-5">
+                <p className={`text-sm text-center ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                  <span className="font-mono">{fileName}</span> · {imageSize.width} × {imageSize.height} px ·{" "}
+                  {formatFileSize(selectedFile.size)}
+                </p>
+
+                {/* Tools */}
+                <div className="flex flex-wrap items-center gap-2">
+                  {tools.map(({ value, label, icon: Icon }) => (
+                    <button
+                      key={value}
+                      onClick={() => setTool(value)}
+                      className={`${chipClass(tool === value)} flex items-center gap-1.5`}
+                    >
+                      <Icon className="h-4 w-4" />
+                      {label}
+                    </button>
+                  ))}
+                  {tool !== "pick" && (
+                    <label className={`flex items-center gap-2 text-sm ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                      Size
+                      <input
+                        type="range"
+                        min={4}
+                        max={120}
+                        value={brushSize}
+                        onChange={(e) => setBrushSize(Number(e.target.value))}
+                        className="w-28 accent-blue-600"
+                      />
+                    </label>
+                  )}
+                  {hasStrokes && (
+                    <button
+                      onClick={clearBrush}
+                      className={`ml-auto text-sm font-medium ${darkMode ? "text-blue-400 hover:text-blue-300" : "text-blue-600 hover:text-blue-700"}`}
+                    >
+                      Clear brush strokes
+                    </button>
+                  )}
+                </div>
+
+                <div className={`relative flex justify-center p-4 rounded-2xl ${darkMode ? "bg-gray-900/60" : "bg-gray-100"}`}>
+                  <canvas
+                    ref={canvasRef}
+                    width={preview.width}
+                    height={preview.height}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    className="block max-w-full max-h-[60vh] object-contain cursor-crosshair touch-none"
+                    style={output === "solid" ? { backgroundColor: fillColor } : checkerboard}
+                  />
+                  <button
+                    onPointerDown={() => setShowOriginal(true)}
+                    onPointerUp={() => setShowOriginal(false)}
+                    onPointerLeave={() => setShowOriginal(false)}
+                    className="absolute top-6 right-6 flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium bg-black/60 text-white hover:bg-black/75 select-none touch-none"
+                  >
+                    <Eye className="h-4 w-4" />
+                    {showOriginal ? "Original" : "Hold to compare"}
+                  </button>
+                </div>
+
+                {/* Detection */}
+                <div>
+                  <label className={labelClass}>Remove</label>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {modes.map((m) => (
+                      <button key={m.value} onClick={() => updateOptions({ mode: m.value })} className={cardClass(options.mode === m.value)}>
+                        <div className="font-semibold">{m.label}</div>
+                        <div className={`text-xs ${darkMode ? "text-gray-400" : "text-gray-500"}`}>{m.description}</div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className={`text-sm font-medium ${darkMode ? "text-gray-300" : "text-gray-700"}`}>Background color</span>
+                  <input
+                    type="color"
+                    value={keyColor}
+                    onChange={(e) => updateOptions({ color: e.target.value })}
+                    className="h-9 w-14 rounded-lg cursor-pointer"
+                  />
+                  <span className={`font-mono text-sm ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                    {keyColor}
+                    {options.color === null && " (detected)"}
+                  </span>
+                  {options.color !== null && (
+                    <button
+                      onClick={() => updateOptions({ color: null })}
+                      className={`text-sm font-medium ${darkMode ? "text-blue-400 hover:text-blue-300" : "text-blue-600 hover:text-blue-700"}`}
+                    >
+                      Detect automatically
+                    </button>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {sliders.map(({ key, label, max, unit }) => (
+                    <div key={key}>
+                      <label className={labelClass}>
+                        {label}: {options[key]}{unit}
+                      </label>
+                      <input
+                        type="range"
+                        min={0}
+                        max={max}
+                        value={options[key]}
+                        onChange={(e) => updateOptions({ [key]: Number(e.target.value) })}
+                        onDoubleClick={() => updateOptions({ [key]: DEFAULT_BACKGROUND_OPTIONS[key] })}
+                        className="w-full accent-blue-600"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                {/* Output */}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+                  <div className="sm:col-span-2">
+                    <label className={labelClass}>Output</label>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <button onClick={() => handleOutputChange("transparent")} className={chipClass(output === "transparent")}>
+                        Transparent
+                      </button>
+                      <button onClick={() => handleOutputChange("solid")} className={chipClass(output === "solid")}>
+                        Solid color
+                      </button>
+                      {output === "solid" && (
+                        <input
+                          type="color"
+                          value={fillColor}
+                          onChange={(e) => { setFillColor(e.target.value); setResult(null); }}
+                          className="h-9 w-14 rounded-lg cursor-pointer"
+                        />
+                      )}
+                    </div>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Format</label>
+                    <select
+                      value={format}
+                      onChange={(e) => { setFormat(e.target.value as ImageFormat); setResult(null); }}
+                      className={inputClass}
+                    >
+                      {IMAGE_FORMATS.filter(({ value }) => output === "solid" || TRANSPARENT_FORMATS.includes(value)).map(
+                        ({ value, label }) => (
+                          <option key={value} value={value}>{label}</option>
+                        )
+                      )}
+                    </select>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            <div className="flex flex-col sm:flex-row gap-3 md:gap-4 mb-6">
+              <button
+                onClick={handleRemove}
+                disabled={loading || !selectedFile}
+                className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  darkMode
+                    ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                    : "bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                }`}
+              >
+                {loading ? (
+                  <>
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                    <span>Removing...</span>
+                  </>
+                ) : (
+                  <>
+                    <Scissors className="h-5 w-5" />
+                    <span>Remove Background</span>
+                  </>
+                )}
+              </button>
+
+              <button
+                onClick={handleReset}
+                disabled={loading}
+                className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                  darkMode
+                    ? "border-gray-600 text-gray-300 hover:bg-gray-700/50 hover:border-gray-500 hover:scale-105"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-gray-400 hover:scale-105"
+                }`}
+              >
+                <RotateCw className="h-5 w-5" />
+                <span>Reset</span>
+              </button>
+            </div>
+
+            {/* Status Messages */}
+            {error && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-red-900/20 border-red-500 text-red-400" : "bg-red-50 border-red-500 text-red-700"
+              }`}>
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {/* Cutout Result */}
+            {result && (
+              <div className={`p-4 md:p-6 rounded-2xl mb-4 animate-fade-in ${
+                darkMode ? "bg-green-900/20 border border-green-700/50" : "bg-green-50 border border-green-200"
+              }`}>
+                {result.extension !== "tif" && (
+                  <img
+                    src={result.url}
+                    alt="Background removed"
+                    className="max-h-64 max-w-full mx-auto rounded-lg shadow mb-4 object-contain"
+                    style={checkerboard}
+                  />
+                )}
+                <p className={`text-sm text-center mb-4 ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                  {result.width} × {result.height} px · {formatFileSize(result.size)}
+                </p>
+                <button
+                  onClick={handleDownload}
+                  className="w-full py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 bg-green-600 hover:bg-green-700 text-white shadow-lg hover:shadow-xl"
+                >
+                  <Download className="h-5 w-5" />
+                  <span>Download Image</span>
+                </button>
+              </div>
+            )}
+
+            {/* Instructions */}
+            <div className={`mt-6 p-4 md:p-6 rounded-2xl ${
+              darkMode ? "bg-gray-700/30" : "bg-white/50"
+            }`}>
+              <h3 className={`font-semibold mb-3 text-sm md:text-base ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                How to use:
+              </h3>
+              <ol className={`list-decimal list-inside space-y-2 text-xs md:text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}>
+                <li>Upload a photo on a plain backdrop; the backdrop color is detected from the edges</li>
+                <li>Use "Pick color" and click the backdrop if the wrong color was detected</li>
+                <li>Raise the tolerance until the backdrop disappears; soften, shrink or feather the edge as needed</li>
+                <li>Paint with the keep brush to restore parts of the subject, or the erase brush to clear leftovers</li>
+                <li>Choose a transparent or solid background and click "Remove Background"</li>
+              </ol>
+            </div>
+          </div>
+        </div>
+
+        {/* Quick Actions Footer */}
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleBackToHome}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-gray-400 hover:text-gray-300 hover:bg-gray-700/50"
+                : "text-gray-600 hover:text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <Home className="h-4 w-4" />
+            Back to All Tools
+          </button>
+        </div>
+      </div>
+
+      {/* Add custom animations */}
+      <style>{`
+        @keyframes fade-in {
+          from { opacity: 0; transform: translateY(-10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .animate-fade-in {
+          animation: fade-in 0.3s ease-out;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default RemoveBackground;
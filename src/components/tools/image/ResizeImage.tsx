@@ -0,0 +1,569 @@
+import React, { useState, useRef, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Upload,
+  Maximize,
+  Download,
+  RotateCw,
+  AlertCircle,
+  Home,
+  ArrowLeft
+} from "lucide-react";
+import { API_BASE_URL } from "../../../utils/api";
+import { formatFileSize } from "../../../utils/fileSize";
+import {
+  IMAGE_FORMATS,
+  imageFormatInfo,
+  formatFromMimeType,
+  imageFileName,
+  readImageSize,
+  type ImageFormat
+} from "../../../utils/imageFormats";
+
+type ResizeUnit = "px" | "percent";
+type ResizeFit = "fill" | "contain" | "cover" | "inside";
+
+const fitOptions: { value: ResizeFit; label: string; description: string }[] = [
+  { value: "fill", label: "Stretch", description: "Exact size, may distort" },
+  { value: "contain", label: "Pad", description: "Exact size, adds borders" },
+  { value: "cover", label: "Crop", description: "Exact size, trims edges" },
+  { value: "inside", label: "Fit within", description: "No larger than the box" },
+];
+
+interface ResizeResult {
+  url: string;
+  width: number;
+  height: number;
+  size: number;
+  extension: string;
+}
+
+const ResizeImage: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [originalSize, setOriginalSize] = useState<{ width: number; height: number } | null>(null);
+  const [unit, setUnit] = useState<ResizeUnit>("px");
+  const [width, setWidth] = useState("");
+  const [height, setHeight] = useState("");
+  const [percent, setPercent] = useState("50");
+  const [keepAspect, setKeepAspect] = useState(true);
+  const [fit, setFit] = useState<ResizeFit>("fill");
+  const [background, setBackground] = useState("#ffffff");
+  const [format, setFormat] = useState<ImageFormat | "original">("original");
+  const [withoutEnlargement, setWithoutEnlargement] = useState(false);
+  const [result, setResult] = useState<ResizeResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Release object URLs whenever they are replaced
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  useEffect(() => {
+    return () => {
+      if (result) URL.revokeObjectURL(result.url);
+    };
+  }, [result]);
+
+  const selectFile = async (file: File) => {
+    setError(null);
+    setResult(null);
+    if (!file.type.startsWith("image/")) {
+      setError("Please upload an image file only.");
+      return;
+    }
+
+    setSelectedFile(file);
+    setFileName(file.name);
+    setPreviewUrl(URL.createObjectURL(file));
+    try {
+      const size = await readImageSize(file);
+      setOriginalSize(size);
+      setWidth(String(size.width));
+      setHeight(String(size.height));
+    } catch {
+      // Formats the browser can't display (e.g. TIFF) are still resized by the server
+      setOriginalSize(null);
+      setWidth("");
+      setHeight("");
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      selectFile(e.target.files[0]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      selectFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  // With the aspect ratio locked, editing one side updates the other
+  const handleWidthChange = (value: string) => {
+    setWidth(value);
+    if (keepAspect && originalSize && Number(value) > 0) {
+      setHeight(String(Math.max(1, Math.round((Number(value) * originalSize.height) / originalSize.width))));
+    }
+  };
+
+  const handleHeightChange = (value: string) => {
+    setHeight(value);
+    if (keepAspect && originalSize && Number(value) > 0) {
+      setWidth(String(Math.max(1, Math.round((Number(value) * originalSize.width) / originalSize.height))));
+    }
+  };
+
+  const handleResize = async () => {
+    if (!selectedFile) {
+      setError("Please select an image.");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+      formData.append("unit", unit);
+      if (unit === "percent") {
+        formData.append("percent", percent);
+      } else {
+        formData.append("width", width);
+        formData.append("height", height);
+        formData.append("fit", keepAspect ? "inside" : fit);
+        formData.append("keepAspect", String(keepAspect || fit !== "fill"));
+        if (!keepAspect && fit === "contain") formData.append("background", background);
+      }
+      if (format !== "original") formData.append("format", format);
+      formData.append("withoutEnlargement", String(withoutEnlargement));
+
+      const response = await fetch(`${API_BASE_URL}/image/resize`, {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Failed to resize image");
+      }
+
+      const blob = await response.blob();
+      const outputFormat = formatFromMimeType(blob.type);
+      setResult({
+        url: URL.createObjectURL(blob),
+        width: Number(response.headers.get("X-Image-Width")) || 0,
+        height: Number(response.headers.get("X-Image-Height")) || 0,
+        size: blob.size,
+        extension: outputFormat ? imageFormatInfo(outputFormat).extension : "png",
+      });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error && err.message ? err.message : "Something went wrong while processing the image");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    const link = document.createElement("a");
+    link.href = result.url;
+    link.download = imageFileName("resized", fileName, result.extension);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
+
+  const handleReset = () => {
+    setSelectedFile(null);
+    setFileName("");
+    setPreviewUrl(null);
+    setOriginalSize(null);
+    setWidth("");
+    setHeight("");
+    setResult(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleBackToHome = () => {
+    navigate("/");
+  };
+
+  const inputClass = `w-full px-4 py-3 rounded-xl border-2 transition-all duration-300 ${
+    darkMode
+      ? "bg-gray-700 border-gray-600 text-white focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20"
+      : "bg-white border-gray-300 text-gray-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+  }`;
+  const labelClass = `block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`;
+  const toggleClass = (active: boolean) =>
+    `p-3 rounded-xl border-2 text-left transition-all duration-300 ${
+      active
+        ? darkMode
+          ? "border-blue-400 bg-blue-400/10"
+          : "border-blue-500 bg-blue-50"
+        : darkMode
+          ? "border-gray-600 hover:border-gray-500"
+          : "border-gray-200 hover:border-gray-300"
+    }`;
+
+  return (
+    <div className={`min-h-screen py-8 px-4 transition-colors duration-300 ${
+      darkMode ? "bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900" : "bg-gradient-to-br from-blue-50 via-white to-gray-100"
+    }`}>
+      <div className="max-w-4xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={handleBackToHome}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-blue-400 hover:text-blue-300 hover:bg-blue-400/10"
+                : "text-blue-600 hover:text-blue-700 hover:bg-blue-100"
+            }`}
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span className="hidden sm:inline">Back to Home</span>
+            <span className="sm:hidden">Home</span>
+          </button>
+
+          <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+            darkMode ? "bg-blue-900/30 text-blue-300" : "bg-blue-100 text-blue-700"
+          }`}>
+            Image Tool
+          </div>
+        </div>
+
+        {/* Main Card */}
+        <div className={`rounded-3xl shadow-2xl overflow-hidden ${
+          darkMode ? "bg-gray-800/80 backdrop-blur-sm" : "bg-white/80 backdrop-blur-sm"
+        }`}>
+          <div className="p-6 md:p-8">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center mb-4">
+                <div className={`p-3 rounded-2xl ${
+                  darkMode ? "bg-gradient-to-br from-blue-600/20 to-teal-600/20" : "bg-gradient-to-br from-blue-100 to-teal-100"
+                }`}>
+                  <Maximize className={`h-8 w-8 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                </div>
+              </div>
+              <h1 className={`text-3xl md:text-4xl font-bold mb-3 bg-gradient-to-r ${
+                darkMode ? "from-blue-400 to-teal-400" : "from-blue-600 to-teal-600"
+              } bg-clip-text text-transparent`}>
+                Resize Image
+              </h1>
+              <p className={`text-base md:text-lg ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                Change the dimensions of your image by pixels or percentage
+              </p>
+            </div>
+
+            {/* Upload Area */}
+            <div className="mb-6 md:mb-8">
+              <div
+                className={`border-2 border-dashed rounded-2xl p-6 md:p-8 text-center cursor-pointer transition-all duration-300 group ${
+                  darkMode
+                    ? "border-gray-600 hover:border-blue-400 hover:bg-blue-400/5"
+                    : "border-gray-300 hover:border-blue-500 hover:bg-blue-500/5"
+                } ${selectedFile ? "border-green-400 bg-green-400/5" : ""}`}
+                onClick={() => fileInputRef.current?.click()}
+                onDrop={handleDrop}
+                onDragOver={handleDragOver}
+              >
+                <input
+                  type="file"
+                  accept="image/*"
+                  ref={fileInputRef}
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+
+                <div className="flex flex-col items-center justify-center">
+                  {selectedFile && previewUrl ? (
+                    <>
+                      <img src={previewUrl} alt={fileName} className="max-h-48 max-w-full rounded-lg shadow mb-4 object-contain" />
+                      <p className={`font-mono text-sm truncate max-w-full ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                        {fileName}
+                      </p>
+                      <p className={`text-xs mt-1 ${darkMode ? "text-gray-500" : "text-gray-500"}`}>
+                        {originalSize ? `${originalSize.width} × ${originalSize.height} px · ` : ""}
+                        {formatFileSize(selectedFile.size)}
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <Upload className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${
+                        darkMode ? "text-blue-400" : "text-blue-600"
+                      } group-hover:scale-110 transition-transform`} />
+                      <h3 className="text-lg md:text-xl font-semibold mb-2">Upload Image</h3>
+                      <p className={`text-sm md:text-base ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                        Click to browse or drag & drop a JPG, PNG, WebP, AVIF, GIF or TIFF image
+                      </p>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Resize Options */}
+            <div className="mb-6 md:mb-8 space-y-5">
+              <div className="grid grid-cols-2 gap-3">
+                <button onClick={() => setUnit("px")} className={toggleClass(unit === "px")}>
+                  <span className="block font-semibold">By Pixels</span>
+                  <span className={`block text-xs mt-1 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>Exact width and height</span>
+                </button>
+                <button onClick={() => setUnit("percent")} className={toggleClass(unit === "percent")}>
+                  <span className="block font-semibold">By Percentage</span>
+                  <span className={`block text-xs mt-1 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>Scale both sides equally</span>
+                </button>
+              </div>
+
+              {unit === "px" ? (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className={labelClass}>Width (px)</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={width}
+                        onChange={(e) => handleWidthChange(e.target.value)}
+                        placeholder="Auto"
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Height (px)</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={height}
+                        onChange={(e) => handleHeightChange(e.target.value)}
+                        placeholder="Auto"
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+
+                  <label className={`flex items-center gap-2 text-sm cursor-pointer ${
+                    darkMode ? "text-gray-300" : "text-gray-700"
+                  }`}>
+                    <input
+                      type="checkbox"
+                      checked={keepAspect}
+                      onChange={(e) => setKeepAspect(e.target.checked)}
+                      className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    Keep aspect ratio
+                  </label>
+
+                  {!keepAspect && (
+                    <div>
+                      <label className={labelClass}>Fit to the new size</label>
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                        {fitOptions.map(({ value, label, description }) => (
+                          <button key={value} onClick={() => setFit(value)} className={toggleClass(fit === value)}>
+                            <span className="block font-semibold text-sm">{label}</span>
+                            <span className={`block text-xs mt-1 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>{description}</span>
+                          </button>
+                        ))}
+                      </div>
+                      {fit === "contain" && (
+                        <label className={`flex items-center gap-3 mt-3 text-sm ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                          <input
+                            type="color"
+                            value={background}
+                            onChange={(e) => setBackground(e.target.value)}
+                            className="h-8 w-12 rounded cursor-pointer"
+                          />
+                          Border color
+                        </label>
+                      )}
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div>
+                  <label className={labelClass}>
+                    Scale: {percent}%
+                    {originalSize && Number(percent) > 0 && (
+                      <span className={darkMode ? "text-gray-400" : "text-gray-500"}>
+                        {" "}→ {Math.round((originalSize.width * Number(percent)) / 100)} × {Math.round((originalSize.height * Number(percent)) / 100)} px
+                      </span>
+                    )}
+                  </label>
+                  <input
+                    type="range"
+                    min={1}
+                    max={200}
+                    value={percent}
+                    onChange={(e) => setPercent(e.target.value)}
+                    className="w-full"
+                  />
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+                <div>
+                  <label className={labelClass}>Output format</label>
+                  <select
+                    value={format}
+                    onChange={(e) => setFormat(e.target.value as ImageFormat | "original")}
+                    className={inputClass}
+                  >
+                    <option value="original">Same as original</option>
+                    {IMAGE_FORMATS.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <label className={`flex items-center gap-2 text-sm cursor-pointer pb-3 ${
+                  darkMode ? "text-gray-300" : "text-gray-700"
+                }`}>
+                  <input
+                    type="checkbox"
+                    checked={withoutEnlargement}
+                    onChange={(e) => setWithoutEnlargement(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                  Never enlarge smaller images
+                </label>
+              </div>
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex flex-col sm:flex-row gap-3 md:gap-4 mb-6">
+              <button
+                onClick={handleResize}
+                disabled={loading || !selectedFile}
+                className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  darkMode
+                    ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                    : "bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                }`}
+              >
+                {loading ? (
+                  <>
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                    <span>Resizing...</span>
+                  </>
+                ) : (
+                  <>
+                    <Maximize className="h-5 w-5" />
+                    <span>Resize Image</span>
+                  </>
+                )}
+              </button>
+
+              <button
+                onClick={handleReset}
+                disabled={loading}
+                className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                  darkMode
+                    ? "border-gray-600 text-gray-300 hover:bg-gray-700/50 hover:border-gray-500 hover:scale-105"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-gray-400 hover:scale-105"
+                }`}
+              >
+                <RotateCw className="h-5 w-5" />
+                <span>Reset</span>
+              </button>
+            </div>
+
+            {/* Status Messages */}
+            {error && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-red-900/20 border-red-500 text-red-400" : "bg-red-50 border-red-500 text-red-700"
+              }`}>
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {/* Resize Result */}
+            {result && (
+              <div className={`p-4 md:p-6 rounded-2xl mb-4 animate-fade-in ${
+                darkMode ? "bg-green-900/20 border border-green-700/50" : "bg-green-50 border border-green-200"
+              }`}>
+                <img src={result.url} alt="Resized" className="max-h-64 max-w-full mx-auto rounded-lg shadow mb-4 object-contain" />
+                <p className={`text-sm text-center mb-4 ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                  {result.width} × {result.height} px · {formatFileSize(result.size)}
+                </p>
+                <button
+                  onClick={handleDownload}
+                  className="w-full py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 bg-green-600 hover:bg-green-700 text-white shadow-lg hover:shadow-xl"
+                >
+                  <Download className="h-5 w-5" />
+                  <span>Download Resized Image</span>
+                </button>
+              </div>
+            )}
+
+            {/* Instructions */}
+            <div className={`mt-6 p-4 md:p-6 rounded-2xl ${
+              darkMode ? "bg-gray-700/30" : "bg-white/50"
+            }`}>
+              <h3 className={`font-semibold mb-3 text-sm md:text-base ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                How to use:
+              </h3>
+              <ol className={`list-decimal list-inside space-y-2 text-xs md:text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}>
+                <li>Upload the image you want to resize</li>
+                <li>Enter the new size in pixels, or scale it by a percentage</li>
+                <li>Untick "Keep aspect ratio" to force an exact size by stretching, padding or cropping</li>
+                <li>Click "Resize Image", check the preview and download the result</li>
+              </ol>
+            </div>
+          </div>
+        </div>
+
+        {/* Quick Actions Footer */}
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleBackToHome}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-gray-400 hover:text-gray-300 hover:bg-gray-700/50"
+                : "text-gray-600 hover:text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <Home className="h-4 w-4" />
+            Back to All Tools
+          </button>
+        </div>
+      </div>
+
+      {/* Add custom animations */}
+      <style>{`
+        @keyframes fade-in {
+          from { opacity: 0; transform: translateY(-10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .animate-fade-in {
+          animation: fade-in 0.3s ease-out;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default ResizeImage;
@@ -0,0 +1,826 @@
+import React, { useState, useRef, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import {
+  Upload,
+  Stamp,
+  Download,
+  RotateCw,
+  AlertCircle,
+  Home,
+  ArrowLeft,
+  Type,
+  Image as ImageIcon,
+  X
+} from "lucide-react";
+import { API_BASE_URL } from "../../../utils/api";
+import { formatFileSize } from "../../../utils/fileSize";
+import {
+  IMAGE_FORMATS,
+  imageFormatInfo,
+  formatFromMimeType,
+  imageFileName,
+  type ImageFormat
+} from "../../../utils/imageFormats";
+import { findInvalidPageTokens, parsePageRanges } from "../../../utils/pageRanges";
+import { loadPdfDocument, pdfLoadErrorMessage, renderPageToCanvas } from "../../../utils/pdfRender";
+import {
+  WATERMARK_ANCHORS,
+  rotatedSize,
+  watermarkAngle,
+  watermarkPlacements,
+  type WatermarkPosition
+} from "../../../utils/watermarkLayout";
+
+// Width of the preview canvas in screen pixels
+const PREVIEW_WIDTH = 720;
+
+interface Source {
+  kind: "image" | "pdf";
+  /** Image pixels, or PDF points of the previewed page as displayed */
+  width: number;
+  height: number;
+  pageCount: number;
+}
+
+interface WatermarkResult {
+  url: string;
+  size: number;
+  extension: string;
+}
+
+const loadImageElement = (file: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read this image"));
+    };
+    img.src = url;
+  });
+
+const positionLabel = (position: WatermarkPosition) =>
+  position === "center" ? "Center" : position.split("-").map((word) => word[0].toUpperCase() + word.slice(1)).join(" ");
+
+const Watermark: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [source, setSource] = useState<Source | null>(null);
+  const [background, setBackground] = useState<CanvasImageSource | null>(null);
+  const [mode, setMode] = useState<"text" | "logo">("text");
+  const [text, setText] = useState("CONFIDENTIAL");
+  const [color, setColor] = useState("#808080");
+  const [fontSize, setFontSize] = useState(48);
+  const [logoFile, setLogoFile] = useState<File | null>(null);
+  const [logo, setLogo] = useState<HTMLImageElement | null>(null);
+  const [logoWidth, setLogoWidth] = useState(25);
+  const [position, setPosition] = useState<WatermarkPosition>("diagonal");
+  const [opacity, setOpacity] = useState(40);
+  const [rotation, setRotation] = useState(0);
+  const [margin, setMargin] = useState(24);
+  const [pages, setPages] = useState("");
+  const [format, setFormat] = useState<ImageFormat | "original">("original");
+  const [result, setResult] = useState<WatermarkResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pdfRef = useRef<PDFDocumentProxy | null>(null);
+
+  const invalidPages = findInvalidPageTokens(pages);
+  const unit = source?.kind === "pdf" ? "pt" : "px";
+
+  // Preview the first watermarked page of a PDF
+  const previewPage = (() => {
+    if (source?.kind !== "pdf" || !pages.trim() || invalidPages.length > 0) return 1;
+    const { pages: selected, outOfBounds } = parsePageRanges(pages, source.pageCount);
+    return outOfBounds.length === 0 && selected.length > 0 ? Math.min(...selected) : 1;
+  })();
+
+  useEffect(() => {
+    const pdf = pdfRef.current;
+    if (source?.kind !== "pdf" || !pdf) return;
+    let cancelled = false;
+    (async () => {
+      const page = await pdf.getPage(previewPage);
+      const { width, height } = page.getViewport({ scale: 1 });
+      const canvas = await renderPageToCanvas(pdf, previewPage, { width: PREVIEW_WIDTH });
+      if (cancelled) return;
+      setSource((current) => (current ? { ...current, width, height } : current));
+      setBackground(canvas);
+    })().catch((err) => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [previewPage, source?.kind, selectedFile]);
+
+  // Redraw the preview with the same layout the server uses
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context || !source || !background) return;
+
+    const scale = canvas.width / source.width;
+    const area = { width: source.width, height: source.height };
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(background, 0, 0, canvas.width, canvas.height);
+
+    const useLogo = mode === "logo" && logo;
+    if (!useLogo && !text.trim()) return;
+
+    context.save();
+    context.scale(scale, scale);
+    context.font = `bold ${fontSize}px sans-serif`;
+    const width = useLogo ? (area.width * logoWidth) / 100 : context.measureText(text.trim()).width;
+    const height = useLogo ? (width * logo.naturalHeight) / logo.naturalWidth : fontSize * 1.15;
+    const angle = watermarkAngle(position, rotation, area);
+    const rotated = rotatedSize(width, height, angle);
+    const fit = position === "tiled" ? 1 : Math.min(1, area.width / rotated.width, area.height / rotated.height);
+    const box = { width: rotated.width * fit, height: rotated.height * fit };
+    const corners = watermarkPlacements(position, box, area, margin);
+
+    context.globalAlpha = opacity / 100;
+    context.fillStyle = color;
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+    for (const { left, top } of corners.slice(0, 2000)) {
+      context.save();
+      context.translate(left + box.width / 2, top + box.height / 2);
+      context.rotate((-angle * Math.PI) / 180);
+      context.scale(fit, fit);
+      if (useLogo) context.drawImage(logo, -width / 2, -height / 2, width, height);
+      else context.fillText(text.trim(), 0, 0);
+      context.restore();
+    }
+    context.restore();
+  }, [source, background, mode, text, color, fontSize, logo, logoWidth, position, opacity, rotation, margin]);
+
+  // Release the result's object URL whenever it is replaced
+  useEffect(() => {
+    return () => {
+      if (result) URL.revokeObjectURL(result.url);
+    };
+  }, [result]);
+
+  // Release the PDF when the page closes
+  useEffect(() => {
+    return () => {
+      pdfRef.current?.destroy();
+    };
+  }, []);
+
+  const selectFile = async (file: File) => {
+    setError(null);
+    setResult(null);
+    const isPdf = file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+    if (!isPdf && !file.type.startsWith("image/")) {
+      setError("Please upload an image or a PDF file.");
+      return;
+    }
+
+    try {
+      pdfRef.current?.destroy();
+      pdfRef.current = null;
+      if (isPdf) {
+        const pdf = await loadPdfDocument(await file.arrayBuffer());
+        const { width, height } = (await pdf.getPage(1)).getViewport({ scale: 1 });
+        pdfRef.current = pdf;
+        setBackground(null);
+        setSource({ kind: "pdf", width, height, pageCount: pdf.numPages });
+        setFontSize(48);
+        setMargin(24);
+      } else {
+        const img = await loadImageElement(file);
+        setBackground(img);
+        setSource({ kind: "image", width: img.naturalWidth, height: img.naturalHeight, pageCount: 1 });
+        // Start with text about a tenth of the image width
+        setFontSize(Math.max(12, Math.round(img.naturalWidth / 12)));
+        setMargin(Math.max(8, Math.round(img.naturalWidth / 40)));
+      }
+      setSelectedFile(file);
+      setFileName(file.name);
+      setPages("");
+    } catch (err) {
+      setError(isPdf
+        ? pdfLoadErrorMessage(err, "Could not read this PDF. It may be corrupt or password protected.")
+        : "This image can't be previewed in your browser. Convert it to JPG or PNG first.");
+    }
+  };
+
+  const selectLogo = async (file: File) => {
+    setError(null);
+    if (!file.type.startsWith("image/")) {
+      setError("The logo must be an image file.");
+      return;
+    }
+    try {
+      setLogo(await loadImageElement(file));
+      setLogoFile(file);
+      setResult(null);
+    } catch {
+      setError("This logo can't be previewed in your browser. Use a PNG or JPG.");
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      selectFile(e.target.files[0]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      selectFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  // Every option change invalidates the last result
+  const update = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setResult(null);
+  };
+
+  const handleApply = async () => {
+    if (!selectedFile || !source) {
+      setError("Please select an image or PDF.");
+      return;
+    }
+    if (mode === "text" && !text.trim()) {
+      setError("Enter the watermark text.");
+      return;
+    }
+    if (mode === "logo" && !logoFile) {
+      setError("Upload a logo image.");
+      return;
+    }
+    if (source.kind === "pdf" && invalidPages.length > 0) {
+      setError(`Invalid page range: ${invalidPages.join(", ")}. Use e.g. 1-3,7 or odd`);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+      if (mode === "logo" && logoFile) {
+        formData.append("logo", logoFile);
+        formData.append("logoWidth", String(logoWidth));
+      } else {
+        formData.append("text", text.trim());
+        formData.append("fontSize", String(fontSize));
+        formData.append("color", color);
+      }
+      formData.append("position", position);
+      formData.append("opacity", String(opacity));
+      formData.append("rotation", String(rotation));
+      formData.append("margin", String(margin));
+      if (source.kind === "pdf" && pages.trim()) formData.append("pages", pages);
+      if (source.kind === "image" && format !== "original") formData.append("format", format);
+
+      const response = await fetch(`${API_BASE_URL}/${source.kind === "pdf" ? "watermark" : "image/watermark"}`, {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Failed to add the watermark");
+      }
+
+      const blob = await response.blob();
+      const outputFormat = formatFromMimeType(blob.type);
+      setResult({
+        url: URL.createObjectURL(blob),
+        size: blob.size,
+        extension: source.kind === "pdf" ? "pdf" : outputFormat ? imageFormatInfo(outputFormat).extension : "png",
+      });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error && err.message ? err.message : "Something went wrong while adding the watermark");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    const link = document.createElement("a");
+    link.href = result.url;
+    link.download = imageFileName("watermarked", fileName, result.extension);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
+
+  const handleReset = () => {
+    pdfRef.current?.destroy();
+    pdfRef.current = null;
+    setSelectedFile(null);
+    setFileName("");
+    setSource(null);
+    setBackground(null);
+    setLogoFile(null);
+    setLogo(null);
+    setPages("");
+    setResult(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    if (logoInputRef.current) logoInputRef.current.value = "";
+  };
+
+  const handleBackToHome = () => {
+    navigate("/");
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border-2 text-sm transition-all duration-300 ${
+    darkMode
+      ? "bg-gray-700 border-gray-600 text-white focus:border-blue-400"
+      : "bg-white border-gray-300 text-gray-900 focus:border-blue-500"
+  }`;
+  const labelClass = `block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`;
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-sm font-medium border-2 transition-all duration-300 ${
+      active
+        ? darkMode
+          ? "border-blue-400 bg-blue-400/10 text-blue-300"
+          : "border-blue-500 bg-blue-50 text-blue-700"
+        : darkMode
+          ? "border-gray-600 text-gray-300 hover:border-gray-500"
+          : "border-gray-200 text-gray-700 hover:border-gray-300"
+    }`;
+  const valueClass = `font-mono ${darkMode ? "text-gray-400" : "text-gray-500"}`;
+
+  return (
+    <div className={`min-h-screen py-8 px-4 transition-colors duration-300 ${
+      darkMode ? "bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900" : "bg-gradient-to-br from-blue-50 via-white to-gray-100"
+    }`}>
+      <div className="max-w-5xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={handleBackToHome}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-blue-400 hover:text-blue-300 hover:bg-blue-400/10"
+                : "text-blue-600 hover:text-blue-700 hover:bg-blue-100"
+            }`}
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span className="hidden sm:inline">Back to Home</span>
+            <span className="sm:hidden">Home</span>
+          </button>
+
+          <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+            darkMode ? "bg-blue-900/30 text-blue-300" : "bg-blue-100 text-blue-700"
+          }`}>
+            {source?.kind === "pdf" ? "PDF Tool" : "Image & PDF Tool"}
+          </div>
+        </div>
+
+        {/* Main Card */}
+        <div className={`rounded-3xl shadow-2xl overflow-hidden ${
+          darkMode ? "bg-gray-800/80 backdrop-blur-sm" : "bg-white/80 backdrop-blur-sm"
+        }`}>
+          <div className="p-6 md:p-8">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center mb-4">
+                <div className={`p-3 rounded-2xl ${
+                  darkMode ? "bg-gradient-to-br from-blue-600/20 to-teal-600/20" : "bg-gradient-to-br from-blue-100 to-teal-100"
+                }`}>
+                  <Stamp className={`h-8 w-8 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                </div>
+              </div>
+              <h1 className={`text-3xl md:text-4xl font-bold mb-3 bg-gradient-to-r ${
+                darkMode ? "from-blue-400 to-teal-400" : "from-blue-600 to-teal-600"
+              } bg-clip-text text-transparent`}>
+                Add Watermark
+              </h1>
+              <p className={`text-base md:text-lg ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                Stamp text or your logo onto images and PDF pages
+              </p>
+            </div>
+
+            {/* Upload Area */}
+            {!selectedFile && (
+              <div className="mb-6 md:mb-8">
+                <div
+                  className={`border-2 border-dashed rounded-2xl p-6 md:p-8 text-center cursor-pointer transition-all duration-300 group ${
+                    darkMode
+                      ? "border-gray-600 hover:border-blue-400 hover:bg-blue-400/5"
+                      : "border-gray-300 hover:border-blue-500 hover:bg-blue-500/5"
+                  }`}
+                  onClick={() => fileInputRef.current?.click()}
+                  onDrop={handleDrop}
+                  onDragOver={handleDragOver}
+                >
+                  <input
+                    type="file"
+                    accept="image/*,application/pdf"
+                    ref={fileInputRef}
+                    onChange={handleFileChange}
+                    className="hidden"
+                  />
+
+                  <div className="flex flex-col items-center justify-center">
+                    <Upload className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${
+                      darkMode ? "text-blue-400" : "text-blue-600"
+                    } group-hover:scale-110 transition-transform`} />
+                    <h3 className="text-lg md:text-xl font-semibold mb-2">Upload Image or PDF</h3>
+                    <p className={`text-sm md:text-base ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                      Click to browse or drag & drop your file here
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Editor */}
+            {selectedFile && source && (
+              <div className="mb-6 md:mb-8 space-y-5">
+                <p className={`text-sm text-center ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                  <span className="font-mono">{fileName}</span> ·{" "}
+                  {source.kind === "pdf"
+                    ? `${source.pageCount} page${source.pageCount === 1 ? "" : "s"}`
+                    : `${source.width} × ${source.height} px`}{" "}
+                  · {formatFileSize(selectedFile.size)}
+                </p>
+
+                <div className={`flex flex-col items-center p-4 rounded-2xl ${darkMode ? "bg-gray-900/60" : "bg-gray-100"}`}>
+                  <canvas
+                    ref={canvasRef}
+                    width={PREVIEW_WIDTH}
+                    height={Math.round((PREVIEW_WIDTH * source.height) / source.width)}
+                    className="block max-w-full max-h-[60vh] object-contain shadow"
+                  />
+                  {source.kind === "pdf" && (
+                    <p className={`mt-2 text-xs ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                      Preview of page {previewPage}
+                    </p>
+                  )}
+                </div>
+
+                {/* Text or logo */}
+                <div className="grid grid-cols-2 gap-3">
+                  {([
+                    { value: "text", label: "Text", icon: Type },
+                    { value: "logo", label: "Logo", icon: ImageIcon },
+                  ] as const).map(({ value, label, icon: Icon }) => (
+                    <button
+                      key={value}
+                      onClick={() => update(setMode)(value)}
+                      className={`p-4 rounded-xl border-2 flex items-center justify-center gap-2 font-medium transition-all duration-300 ${
+                        mode === value
+                          ? darkMode
+                            ? "border-blue-400 bg-blue-400/10 text-blue-300"
+                            : "border-blue-500 bg-blue-50 text-blue-700"
+                          : darkMode
+                            ? "border-gray-600 text-gray-300 hover:border-gray-500"
+                            : "border-gray-200 text-gray-700 hover:border-gray-300"
+                      }`}
+                    >
+                      <Icon className="h-5 w-5" />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+
+                {mode === "text" ? (
+                  <div className="grid grid-cols-1 sm:grid-cols-[1fr_8rem_5rem] gap-3">
+                    <div>
+                      <label className={labelClass}>Text</label>
+                      <input
+                        type="text"
+                        value={text}
+                        maxLength={200}
+                        onChange={(e) => update(setText)(e.target.value)}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Font size ({unit})</label>
+                      <input
+                        type="number"
+                        min={4}
+                        max={1000}
+                        value={fontSize}
+                        onChange={(e) => update(setFontSize)(Math.min(1000, Math.max(4, Number(e.target.value) || 4)))}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Color</label>
+                      <input
+                        type="color"
+                        value={color}
+                        onChange={(e) => update(setColor)(e.target.value)}
+                        className="w-full h-10 rounded-lg cursor-pointer"
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <input
+                      type="file"
+                      accept="image/*"
+                      ref={logoInputRef}
+                      onChange={(e) => e.target.files?.[0] && selectLogo(e.target.files[0])}
+                      className="hidden"
+                    />
+                    {logoFile ? (
+                      <div className={`flex items-center gap-3 p-3 rounded-xl border-2 ${
+                        darkMode ? "border-gray-600" : "border-gray-200"
+                      }`}>
+                        <ImageIcon className={`h-5 w-5 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                        <span className="flex-1 text-sm font-mono truncate">{logoFile.name}</span>
+                        <button
+                          onClick={() => {
+                            setLogoFile(null);
+                            setLogo(null);
+                            setResult(null);
+                            if (logoInputRef.current) logoInputRef.current.value = "";
+                          }}
+                          className={darkMode ? "text-gray-400 hover:text-white" : "text-gray-500 hover:text-gray-900"}
+                          title="Remove logo"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => logoInputRef.current?.click()}
+                        className={`w-full p-4 rounded-xl border-2 border-dashed text-sm font-medium transition-all duration-300 ${
+                          darkMode
+                            ? "border-gray-600 text-gray-300 hover:border-blue-400"
+                            : "border-gray-300 text-gray-700 hover:border-blue-500"
+                        }`}
+                      >
+                        Choose a logo image (PNG with transparency works best)
+                      </button>
+                    )}
+                    <div>
+                      <label className={labelClass}>
+                        Logo width <span className={valueClass}>{logoWidth}%</span>
+                      </label>
+                      <input
+                        type="range"
+                        min={1}
+                        max={100}
+                        value={logoWidth}
+                        onChange={(e) => update(setLogoWidth)(Number(e.target.value))}
+                        className="w-full accent-blue-600"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {/* Position */}
+                <div>
+                  <label className={labelClass}>Position</label>
+                  <div className="flex flex-wrap items-start gap-4">
+                    <div className="grid grid-cols-3 gap-1.5">
+                      {WATERMARK_ANCHORS.map((anchor) => (
+                        <button
+                          key={anchor}
+                          onClick={() => update(setPosition)(anchor)}
+                          title={positionLabel(anchor)}
+                          className={`w-10 h-10 rounded-lg border-2 flex items-center justify-center transition-all duration-300 ${
+                            position === anchor
+                              ? darkMode
+                                ? "border-blue-400 bg-blue-400/10"
+                                : "border-blue-500 bg-blue-50"
+                              : darkMode
+                                ? "border-gray-600 hover:border-gray-500"
+                                : "border-gray-200 hover:border-gray-300"
+                          }`}
+                        >
+                          <span className={`w-2.5 h-2.5 rounded-full ${
+                            position === anchor ? "bg-blue-500" : darkMode ? "bg-gray-500" : "bg-gray-300"
+                          }`} />
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex flex-col gap-2">
+                      <button onClick={() => update(setPosition)("tiled")} className={chipClass(position === "tiled")}>
+                        Tiled
+                      </button>
+                      <button onClick={() => update(setPosition)("diagonal")} className={chipClass(position === "diagonal")}>
+                        Diagonal
+                      </button>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Appearance */}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <label className={labelClass}>
+                      Opacity <span className={valueClass}>{opacity}%</span>
+                    </label>
+                    <input
+                      type="range"
+                      min={1}
+                      max={100}
+                      value={opacity}
+                      onChange={(e) => update(setOpacity)(Number(e.target.value))}
+                      className="w-full accent-blue-600"
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>
+                      Rotation{" "}
+                      <span className={valueClass}>{position === "diagonal" ? "follows the diagonal" : `${rotation}°`}</span>
+                    </label>
+                    <input
+                      type="range"
+                      min={-180}
+                      max={180}
+                      value={rotation}
+                      disabled={position === "diagonal"}
+                      onChange={(e) => update(setRotation)(Number(e.target.value))}
+                      className="w-full accent-blue-600 disabled:opacity-40"
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>
+                      {position === "tiled" ? "Spacing" : "Margin"} <span className={valueClass}>{margin} {unit}</span>
+                    </label>
+                    <input
+                      type="range"
+                      min={0}
+                      max={Math.max(100, Math.round(Math.min(source.width, source.height) / 4))}
+                      value={margin}
+                      onChange={(e) => update(setMargin)(Number(e.target.value))}
+                      className="w-full accent-blue-600"
+                    />
+                  </div>
+                </div>
+
+                {source.kind === "pdf" ? (
+                  <div>
+                    <label className={labelClass}>Pages</label>
+                    <input
+                      type="text"
+                      value={pages}
+                      placeholder={`All ${source.pageCount} pages, or e.g. 1-3,7, odd, !1`}
+                      onChange={(e) => update(setPages)(e.target.value)}
+                      className={inputClass}
+                    />
+                    {invalidPages.length > 0 && (
+                      <p className="mt-1 text-xs text-red-500">Not a page range: {invalidPages.join(", ")}</p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="sm:w-48">
+                    <label className={labelClass}>Format</label>
+                    <select
+                      value={format}
+                      onChange={(e) => update(setFormat)(e.target.value as ImageFormat | "original")}
+                      className={inputClass}
+                    >
+                      <option value="original">Original</option>
+                      {IMAGE_FORMATS.map(({ value, label }) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            <div className="flex flex-col sm:flex-row gap-3 md:gap-4 mb-6">
+              <button
+                onClick={handleApply}
+                disabled={loading || !selectedFile}
+                className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  darkMode
+                    ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                    : "bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                }`}
+              >
+                {loading ? (
+                  <>
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                    <span>Adding watermark...</span>
+                  </>
+                ) : (
+                  <>
+                    <Stamp className="h-5 w-5" />
+                    <span>Add Watermark</span>
+                  </>
+                )}
+              </button>
+
+              <button
+                onClick={handleReset}
+                disabled={loading}
+                className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                  darkMode
+                    ? "border-gray-600 text-gray-300 hover:bg-gray-700/50 hover:border-gray-500 hover:scale-105"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-gray-400 hover:scale-105"
+                }`}
+              >
+                <RotateCw className="h-5 w-5" />
+                <span>Reset</span>
+              </button>
+            </div>
+
+            {/* Status Messages */}
+            {error && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-red-900/20 border-red-500 text-red-400" : "bg-red-50 border-red-500 text-red-700"
+              }`}>
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {/* Watermark Result */}
+            {result && (
+              <div className={`p-4 md:p-6 rounded-2xl mb-4 animate-fade-in ${
+                darkMode ? "bg-green-900/20 border border-green-700/50" : "bg-green-50 border border-green-200"
+              }`}>
+                <p className={`text-sm text-center mb-4 ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                  Watermark added · {formatFileSize(result.size)}
+                </p>
+                <button
+                  onClick={handleDownload}
+                  className="w-full py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 bg-green-600 hover:bg-green-700 text-white shadow-lg hover:shadow-xl"
+                >
+                  <Download className="h-5 w-5" />
+                  <span>Download Watermarked {result.extension === "pdf" ? "PDF" : "Image"}</span>
+                </button>
+              </div>
+            )}
+
+            {/* Instructions */}
+            <div className={`mt-6 p-4 md:p-6 rounded-2xl ${
+              darkMode ? "bg-gray-700/30" : "bg-white/50"
+            }`}>
+              <h3 className={`font-semibold mb-3 text-sm md:text-base ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                How to use:
+              </h3>
+              <ol className={`list-decimal list-inside space-y-2 text-xs md:text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}>
+                <li>Upload an image or a PDF</li>
+                <li>Type your watermark text or choose a logo image</li>
+                <li>Pick one of the nine positions, repeat it as tiles, or run it along the diagonal</li>
+                <li>Adjust opacity, rotation and margin while watching the preview</li>
+                <li>For PDFs, optionally limit the watermark to some pages, e.g. 2-5 or odd</li>
+                <li>Click "Add Watermark" and download the result</li>
+              </ol>
+            </div>
+          </div>
+        </div>
+
+        {/* Quick Actions Footer */}
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleBackToHome}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-gray-400 hover:text-gray-300 hover:bg-gray-700/50"
+                : "text-gray-600 hover:text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <Home className="h-4 w-4" />
+            Back to All Tools
+          </button>
+        </div>
+      </div>
+
+      {/* Add custom animations */}
+      <style>{`
+        @keyframes fade-in {
+          from { opacity: 0; transform: translateY(-10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .animate-fade-in {
+          animation: fade-in 0.3s ease-out;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default Watermark;
@@ -0,0 +1,539 @@
+import React, { useState, useRef, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import {
+  Upload,
+  Bookmark,
+  Plus,
+  Trash2,
+  ChevronUp,
+  ChevronDown,
+  Indent,
+  Outdent,
+  Download,
+  RotateCw,
+  CheckCircle,
+  AlertCircle,
+  Home,
+  ArrowLeft
+} from "lucide-react";
+import { API_BASE_URL } from "../../../utils/api";
+import { loadPdfDocument, pdfLoadErrorMessage } from "../../../utils/pdfRender";
+import { usePdfThumbnails } from "../../../hooks/usePdfThumbnails";
+import {
+  type BookmarkNode,
+  createBookmark,
+  loadOutline,
+  serializeOutline,
+  countBookmarks,
+  updateBookmark,
+  removeBookmark,
+  addChildBookmark,
+  moveBookmark,
+  indentBookmark,
+  outdentBookmark
+} from "../../../utils/pdfOutline";
+
+const hasEmptyTitle = (nodes: BookmarkNode[]): boolean =>
+  nodes.some((node) => !node.title.trim() || hasEmptyTitle(node.children));
+
+const BookmarksPdf: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [bookmarks, setBookmarks] = useState<BookmarkNode[]>([]);
+  const [outlineLoading, setOutlineLoading] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { thumbnails, pageCount, error: previewError } = usePdfThumbnails(selectedFile, 60);
+
+  // Load the existing outline of the selected PDF
+  useEffect(() => {
+    setBookmarks([]);
+    if (!selectedFile) return;
+
+    let cancelled = false;
+    const load = async () => {
+      setOutlineLoading(true);
+      let pdf: PDFDocumentProxy | null = null;
+      try {
+        pdf = await loadPdfDocument(await selectedFile.arrayBuffer());
+        const outline = await loadOutline(pdf);
+        if (!cancelled) setBookmarks(outline);
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError(pdfLoadErrorMessage(err, "Could not read the existing bookmarks of this PDF."));
+      } finally {
+        // Only the outline is kept; free the document in the shared pdf.js worker
+        pdf?.destroy();
+        if (!cancelled) setOutlineLoading(false);
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFile]);
+
+  const selectFile = (file: File) => {
+    setError(null);
+    setSuccess(null);
+    if (file.type === "application/pdf") {
+      setSelectedFile(file);
+      setFileName(file.name);
+    } else {
+      setError("Please upload a PDF file only.");
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      selectFile(e.target.files[0]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      selectFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const editBookmarks = (edit: (nodes: BookmarkNode[]) => BookmarkNode[]) => {
+    setSuccess(null);
+    setBookmarks(edit);
+  };
+
+  const handlePageChange = (id: string, value: string) => {
+    const page = parseInt(value, 10);
+    if (!Number.isNaN(page)) {
+      editBookmarks((nodes) => updateBookmark(nodes, id, { page: Math.min(Math.max(page, 1), pageCount || 1) }));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selectedFile) {
+      setError("Please select a PDF file.");
+      return;
+    }
+    if (hasEmptyTitle(bookmarks)) {
+      setError("Every bookmark needs a title.");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+      formData.append("outline", JSON.stringify(serializeOutline(bookmarks)));
+
+      const response = await fetch(`${API_BASE_URL}/bookmarks`, {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Failed to save bookmarks");
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `bookmarked-${fileName.replace('.pdf', '') || "document"}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+
+      const count = countBookmarks(bookmarks);
+      setSuccess(
+        count > 0
+          ? `Saved ${count} bookmark${count === 1 ? "" : "s"}. Your PDF has been downloaded!`
+          : "All bookmarks removed. Your PDF has been downloaded!"
+      );
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error && err.message ? err.message : "Something went wrong while processing the PDF");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = () => {
+    setSelectedFile(null);
+    setFileName("");
+    setBookmarks([]);
+    setError(null);
+    setSuccess(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleBackToHome = () => {
+    navigate("/");
+  };
+
+  const iconButtonClass = `p-1.5 rounded-md transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+    darkMode ? "text-gray-400 hover:text-blue-400 hover:bg-blue-400/10" : "text-gray-500 hover:text-blue-600 hover:bg-blue-100"
+  }`;
+
+  const renderBookmarks = (nodes: BookmarkNode[], depth: number): React.ReactNode =>
+    nodes.map((node, index) => (
+      <React.Fragment key={node.id}>
+        <div
+          className={`flex items-center gap-2 p-2 rounded-lg border ${
+            darkMode ? "bg-gray-700/50 border-gray-600" : "bg-white border-gray-200"
+          }`}
+          style={{ marginLeft: depth * 24 }}
+        >
+          <div className={`w-8 h-10 flex-shrink-0 rounded overflow-hidden ${darkMode ? "bg-gray-600" : "bg-gray-100"}`}>
+            {thumbnails[node.page - 1] && (
+              <img src={thumbnails[node.page - 1]} alt={`Page ${node.page}`} className="w-full h-full object-contain" />
+            )}
+          </div>
+          <input
+            type="text"
+            value={node.title}
+            onChange={(e) => editBookmarks((nodes) => updateBookmark(nodes, node.id, { title: e.target.value }))}
+            placeholder="Bookmark title"
+            className={`flex-1 min-w-0 px-3 py-1.5 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              darkMode
+                ? "bg-gray-700/50 border-gray-500 text-white placeholder-gray-400"
+                : "bg-white border-gray-300 text-gray-900 placeholder-gray-500"
+            } ${!node.title.trim() ? "border-red-500" : ""}`}
+          />
+          <label className={`flex items-center gap-1 text-xs ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+            Page
+            <input
+              type="number"
+              min={1}
+              max={pageCount || undefined}
+              value={node.page}
+              onChange={(e) => handlePageChange(node.id, e.target.value)}
+              className={`w-16 px-2 py-1.5 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                darkMode ? "bg-gray-700/50 border-gray-500 text-white" : "bg-white border-gray-300 text-gray-900"
+              }`}
+            />
+          </label>
+          <div className="flex items-center">
+            <button
+              onClick={() => editBookmarks((nodes) => moveBookmark(nodes, node.id, -1))}
+              disabled={index === 0}
+              className={iconButtonClass}
+              title="Move up"
+            >
+              <ChevronUp className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => editBookmarks((nodes) => moveBookmark(nodes, node.id, 1))}
+              disabled={index === nodes.length - 1}
+              className={iconButtonClass}
+              title="Move down"
+            >
+              <ChevronDown className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => editBookmarks((nodes) => outdentBookmark(nodes, node.id))}
+              disabled={depth === 0}
+              className={iconButtonClass}
+              title="Move out of parent"
+            >
+              <Outdent className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => editBookmarks((nodes) => indentBookmark(nodes, node.id))}
+              disabled={index === 0}
+              className={iconButtonClass}
+              title="Nest under previous bookmark"
+            >
+              <Indent className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => editBookmarks((nodes) => addChildBookmark(nodes, node.id, createBookmark("", node.page)))}
+              className={iconButtonClass}
+              title="Add child bookmark"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => editBookmarks((nodes) => removeBookmark(nodes, node.id))}
+              className={`p-1.5 rounded-md transition-colors ${
+                darkMode ? "text-red-400 hover:bg-red-400/10" : "text-red-500 hover:bg-red-500/10"
+              }`}
+              title={node.children.length > 0 ? "Delete bookmark and its children" : "Delete bookmark"}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+        {renderBookmarks(node.children, depth + 1)}
+      </React.Fragment>
+    ));
+
+  return (
+    <div className={`min-h-screen py-8 px-4 transition-colors duration-300 ${
+      darkMode ? "bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900" : "bg-gradient-to-br from-blue-50 via-white to-gray-100"
+    }`}>
+      <div className="max-w-4xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={handleBackToHome}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-blue-400 hover:text-blue-300 hover:bg-blue-400/10"
+                : "text-blue-600 hover:text-blue-700 hover:bg-blue-100"
+            }`}
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span className="hidden sm:inline">Back to Home</span>
+            <span className="sm:hidden">Home</span>
+          </button>
+
+          <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+            darkMode ? "bg-blue-900/30 text-blue-300" : "bg-blue-100 text-blue-700"
+          }`}>
+            PDF Tool
+          </div>
+        </div>
+
+        {/* Main Card */}
+        <div className={`rounded-3xl shadow-2xl overflow-hidden ${
+          darkMode ? "bg-gray-800/80 backdrop-blur-sm" : "bg-white/80 backdrop-blur-sm"
+        }`}>
+          <div className="p-6 md:p-8">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center mb-4">
+                <div className={`p-3 rounded-2xl ${
+                  darkMode ? "bg-gradient-to-br from-blue-600/20 to-teal-600/20" : "bg-gradient-to-br from-blue-100 to-teal-100"
+                }`}>
+                  <Bookmark className={`h-8 w-8 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                </div>
+              </div>
+              <h1 className={`text-3xl md:text-4xl font-bold mb-3 bg-gradient-to-r ${
+                darkMode ? "from-blue-400 to-teal-400" : "from-blue-600 to-teal-600"
+              } bg-clip-text text-transparent`}>
+                Add Bookmarks
+              </h1>
+              <p className={`text-base md:text-lg ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                Build and edit the bookmark outline of your PDF for easy navigation
+              </p>
+            </div>
+
+            {/* Upload Area */}
+            <div className="mb-6 md:mb-8">
+              <div
+                className={`border-2 border-dashed rounded-2xl p-6 md:p-8 text-center cursor-pointer transition-all duration-300 group ${
+                  darkMode
+                    ? "border-gray-600 hover:border-blue-400 hover:bg-blue-400/5"
+                    : "border-gray-300 hover:border-blue-500 hover:bg-blue-500/5"
+                } ${selectedFile ? "border-green-400 bg-green-400/5" : ""}`}
+                onClick={() => fileInputRef.current?.click()}
+                onDrop={handleDrop}
+                onDragOver={handleDragOver}
+              >
+                <input
+                  type="file"
+                  accept="application/pdf"
+                  ref={fileInputRef}
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+
+                <div className="flex flex-col items-center justify-center">
+                  {selectedFile ? (
+                    <>
+                      <CheckCircle className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${darkMode ? "text-green-400" : "text-green-600"}`} />
+                      <h3 className="text-lg md:text-xl font-semibold mb-2">File Selected</h3>
+                      <p className={`font-mono text-sm truncate max-w-full ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                        {fileName}{pageCount > 0 && ` · ${pageCount} page${pageCount === 1 ? "" : "s"}`}
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <Upload className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${
+                        darkMode ? "text-blue-400" : "text-blue-600"
+                      } group-hover:scale-110 transition-transform`} />
+                      <h3 className="text-lg md:text-xl font-semibold mb-2">Upload PDF File</h3>
+                      <p className={`text-sm md:text-base ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                        Click to browse or drag & drop your PDF here
+                      </p>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Outline Editor */}
+            {selectedFile && (
+              <div className={`p-4 rounded-xl mb-6 md:mb-8 ${darkMode ? "bg-gray-700/30" : "bg-gray-50"}`}>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className={`font-semibold ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                    Bookmarks {bookmarks.length > 0 && `(${countBookmarks(bookmarks)})`}
+                  </h2>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => editBookmarks((nodes) => [...nodes, createBookmark("", 1)])}
+                      disabled={outlineLoading}
+                      className={`px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-1 transition-colors disabled:opacity-50 ${
+                        darkMode ? "text-blue-400 hover:bg-blue-400/10" : "text-blue-600 hover:bg-blue-100"
+                      }`}
+                    >
+                      <Plus className="h-4 w-4" />
+                      Add Bookmark
+                    </button>
+                    <button
+                      onClick={() => editBookmarks(() => [])}
+                      disabled={bookmarks.length === 0}
+                      className={`px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                        darkMode ? "text-red-400 hover:bg-red-400/10" : "text-red-500 hover:bg-red-500/10"
+                      }`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      Clear All
+                    </button>
+                  </div>
+                </div>
+
+                {outlineLoading ? (
+                  <div className="flex items-center justify-center gap-3 py-6">
+                    <div className={`animate-spin rounded-full h-5 w-5 border-b-2 ${darkMode ? "border-blue-400" : "border-blue-600"}`}></div>
+                    <span className={`text-sm ${darkMode ? "text-gray-400" : "text-gray-600"}`}>Reading existing bookmarks...</span>
+                  </div>
+                ) : bookmarks.length > 0 ? (
+                  <div className="space-y-2">{renderBookmarks(bookmarks, 0)}</div>
+                ) : (
+                  <p className={`text-sm text-center py-6 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                    This PDF has no bookmarks yet. Click "Add Bookmark" to create one.
+                  </p>
+                )}
+                {previewError && (
+                  <p className={`text-xs mt-3 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                    Page previews are unavailable: {previewError}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            <div className="flex flex-col sm:flex-row gap-3 md:gap-4 mb-6">
+              <button
+                onClick={handleSave}
+                disabled={loading || !selectedFile || outlineLoading}
+                className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  darkMode
+                    ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                    : "bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                }`}
+              >
+                {loading ? (
+                  <>
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                    <span>Saving...</span>
+                  </>
+                ) : (
+                  <>
+                    <Download className="h-5 w-5" />
+                    <span>Save & Download</span>
+                  </>
+                )}
+              </button>
+
+              <button
+                onClick={handleReset}
+                disabled={loading}
+                className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                  darkMode
+                    ? "border-gray-600 text-gray-300 hover:bg-gray-700/50 hover:border-gray-500 hover:scale-105"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-gray-400 hover:scale-105"
+                }`}
+              >
+                <RotateCw className="h-5 w-5" />
+                <span>Reset</span>
+              </button>
+            </div>
+
+            {/* Status Messages */}
+            {error && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-red-900/20 border-red-500 text-red-400" : "bg-red-50 border-red-500 text-red-700"
+              }`}>
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {success && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-green-900/20 border-green-500 text-green-400" : "bg-green-50 border-green-500 text-green-700"
+              }`}>
+                <CheckCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{success}</p>
+              </div>
+            )}
+
+            {/* Instructions */}
+            <div className={`mt-6 p-4 md:p-6 rounded-2xl ${
+              darkMode ? "bg-gray-700/30" : "bg-white/50"
+            }`}>
+              <h3 className={`font-semibold mb-3 text-sm md:text-base ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                How to use:
+              </h3>
+              <ol className={`list-decimal list-inside space-y-2 text-xs md:text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}>
+                <li>Upload a PDF; any existing bookmarks are loaded for editing</li>
+                <li>Add bookmarks, rename them and choose the page each one opens</li>
+                <li>Use the arrows to reorder and the indent buttons to nest bookmarks</li>
+                <li>Click "Save & Download" to write the outline into your PDF</li>
+              </ol>
+            </div>
+          </div>
+        </div>
+
+        {/* Quick Actions Footer */}
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleBackToHome}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-gray-400 hover:text-gray-300 hover:bg-gray-700/50"
+                : "text-gray-600 hover:text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <Home className="h-4 w-4" />
+            Back to All Tools
+          </button>
+        </div>
+      </div>
+
+      {/* Add custom animations */}
+      <style>{`
+        @keyframes fade-in {
+          from { opacity: 0; transform: translateY(-10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .animate-fade-in {
+          animation: fade-in 0.3s ease-out;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default BookmarksPdf;
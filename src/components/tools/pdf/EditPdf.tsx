@@ -0,0 +1,987 @@
+import React, { useState, useRef, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import {
+  Upload,
+  Edit3,
+  MousePointer2,
+  Type,
+  ImagePlus,
+  Square,
+  ArrowUpRight,
+  Highlighter,
+  PenTool,
+  ChevronLeft,
+  ChevronRight,
+  Trash2,
+  Download,
+  RotateCw,
+  CheckCircle,
+  AlertCircle,
+  Home,
+  ArrowLeft
+} from "lucide-react";
+import { loadPdfDocument, pdfLoadErrorMessage, renderPageToCanvas } from "../../../utils/pdfRender";
+import {
+  type EditElement,
+  type Point,
+  TEXT_LINE_HEIGHT,
+  applyEdits,
+  arrowHead,
+  translateElement
+} from "../../../utils/pdfEdit";
+
+type Tool = "select" | "text" | "image" | "rect" | "arrow" | "highlight" | "ink";
+
+const tools: { value: Tool; label: string; icon: React.ElementType }[] = [
+  { value: "select", label: "Select & move", icon: MousePointer2 },
+  { value: "text", label: "Text", icon: Type },
+  { value: "image", label: "Image", icon: ImagePlus },
+  { value: "rect", label: "Rectangle", icon: Square },
+  { value: "arrow", label: "Arrow", icon: ArrowUpRight },
+  { value: "highlight", label: "Highlight", icon: Highlighter },
+  { value: "ink", label: "Freehand", icon: PenTool },
+];
+
+const HIGHLIGHT_COLOR = "#ffeb3b";
+
+interface PageImage {
+  src: string;
+  width: number;
+  height: number;
+}
+
+type DragState =
+  | { mode: "create"; id: string; origin: Point }
+  | { mode: "move" | "resize"; id: string; origin: Point; original: EditElement };
+
+let nextId = 0;
+const createId = () => `element-${nextId++}`;
+
+// Elements too small to be intentional are dropped when the pointer is released
+const isDegenerate = (element: EditElement) => {
+  switch (element.type) {
+    case "rect":
+    case "highlight":
+      return element.width < 3 || element.height < 3;
+    case "arrow":
+      return Math.hypot(element.to.x - element.from.x, element.to.y - element.from.y) < 5;
+    case "ink":
+      return element.points.length < 2;
+    default:
+      return false;
+  }
+};
+
+// Read an image as a data URL pdf-lib can embed (PNG or JPEG)
+const readImage = (file: File): Promise<{ src: string; width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error("Could not read the image"));
+    reader.onload = () => {
+      const img = new Image();
+      img.onerror = () => reject(new Error("Unsupported image format"));
+      img.onload = () => {
+        let src = reader.result as string;
+        if (!/^data:image\/(png|jpeg)/.test(src)) {
+          const canvas = document.createElement("canvas");
+          canvas.width = img.naturalWidth;
+          canvas.height = img.naturalHeight;
+          canvas.getContext("2d")?.drawImage(img, 0, 0);
+          src = canvas.toDataURL("image/png");
+        }
+        resolve({ src, width: img.naturalWidth, height: img.naturalHeight });
+      };
+      img.src = reader.result as string;
+    };
+    reader.readAsDataURL(file);
+  });
+
+const EditPdf: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageImages, setPageImages] = useState<Record<number, PageImage>>({});
+  const [elements, setElements] = useState<EditElement[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [tool, setTool] = useState<Tool>("select");
+  const [color, setColor] = useState("#e53935");
+  const [strokeWidth, setStrokeWidth] = useState(3);
+  const [fontSize, setFontSize] = useState(16);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const pageImage = pageImages[currentPage];
+  const pageElements = elements.filter((el) => el.page === currentPage);
+  const selectedElement = elements.find((el) => el.id === selectedId) ?? null;
+
+  // Render the current page once; visited pages stay cached
+  useEffect(() => {
+    if (!pdf || pageImages[currentPage]) return;
+
+    let cancelled = false;
+    const render = async () => {
+      setLoading(true);
+      try {
+        const page = await pdf.getPage(currentPage);
+        const { width, height } = page.getViewport({ scale: 1 });
+        const canvas = await renderPageToCanvas(pdf, currentPage, 2);
+        if (!cancelled) {
+          setPageImages((prev) => ({ ...prev, [currentPage]: { src: canvas.toDataURL("image/png"), width, height } }));
+        }
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError("Could not render this page.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    render();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, currentPage, pageImages]);
+
+  // Free each document in the shared pdf.js worker when it is replaced, reset or the page closes
+  useEffect(() => {
+    return () => {
+      pdf?.destroy();
+    };
+  }, [pdf]);
+
+  // Delete the selected element with the keyboard
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if ((e.key === "Delete" || e.key === "Backspace") && selectedId && !editingId) {
+        e.preventDefault();
+        setElements((prev) => prev.filter((el) => el.id !== selectedId));
+        setSelectedId(null);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [selectedId, editingId]);
+
+  const selectFile = async (file: File) => {
+    setError(null);
+    setSuccess(null);
+    if (file.type !== "application/pdf") {
+      setError("Please upload a PDF file only.");
+      return;
+    }
+
+    setSelectedFile(file);
+    setFileName(file.name);
+    setPdf(null);
+    setPageImages({});
+    setElements([]);
+    setSelectedId(null);
+    setEditingId(null);
+    setCurrentPage(1);
+    try {
+      setPdf(await loadPdfDocument(await file.arrayBuffer()));
+    } catch (err) {
+      console.error(err);
+      setError(pdfLoadErrorMessage(err, "Could not open this PDF. It may be damaged or password protected."));
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      selectFile(e.target.files[0]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      selectFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const updateElement = (id: string, update: (element: EditElement) => EditElement) => {
+    setElements((prev) => prev.map((el) => (el.id === id ? update(el) : el)));
+  };
+
+  const removeElement = (id: string) => {
+    setElements((prev) => prev.filter((el) => el.id !== id));
+    if (selectedId === id) setSelectedId(null);
+    if (editingId === id) setEditingId(null);
+  };
+
+  // Pointer position in page points
+  const toPagePoint = (e: React.PointerEvent): Point => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * pageImage.width,
+      y: ((e.clientY - rect.top) / rect.height) * pageImage.height,
+    };
+  };
+
+  const handleToolChange = (value: Tool) => {
+    if (value === "image") {
+      imageInputRef.current?.click();
+      return;
+    }
+    // Highlights are meant to be translucent yellow unless the user picks otherwise
+    if (value === "highlight" && tool !== "highlight") setColor(HIGHLIGHT_COLOR);
+    setTool(value);
+    setEditingId(null);
+  };
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !pageImage) return;
+
+    try {
+      const image = await readImage(file);
+      // Place the image centered, at most 40% of the page wide
+      const width = Math.min(image.width, pageImage.width * 0.4);
+      const height = (width * image.height) / image.width;
+      const element: EditElement = {
+        id: createId(),
+        type: "image",
+        page: currentPage,
+        color,
+        x: (pageImage.width - width) / 2,
+        y: (pageImage.height - height) / 2,
+        width,
+        height,
+        src: image.src,
+      };
+      setElements((prev) => [...prev, element]);
+      setSelectedId(element.id);
+      setTool("select");
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "Could not add the image");
+    }
+  };
+
+  const handleOverlayPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pageImage || e.button !== 0) return;
+    const point = toPagePoint(e);
+    setSuccess(null);
+
+    if (tool === "select") {
+      setSelectedId(null);
+      setEditingId(null);
+      return;
+    }
+
+    // Keeps focus in the new text box and stops the page image from being dragged
+    e.preventDefault();
+    const base = { id: createId(), page: currentPage, color };
+    let element: EditElement;
+    switch (tool) {
+      case "text":
+        element = {
+          ...base,
+          type: "text",
+          x: point.x,
+          y: point.y,
+          width: Math.max(40, Math.min(200, pageImage.width - point.x)),
+          text: "",
+          fontSize,
+        };
+        setElements((prev) => [...prev, element]);
+        setSelectedId(element.id);
+        setEditingId(element.id);
+        setTool("select");
+        return;
+      case "rect":
+      case "highlight":
+        element = {
+          ...base,
+          type: tool,
+          x: point.x,
+          y: point.y,
+          width: 0,
+          height: 0,
+          strokeWidth,
+        };
+        break;
+      case "arrow":
+        element = { ...base, type: "arrow", from: point, to: point, strokeWidth };
+        break;
+      default:
+        element = { ...base, type: "ink", points: [point], strokeWidth };
+    }
+
+    setElements((prev) => [...prev, element]);
+    setSelectedId(element.id);
+    dragRef.current = { mode: "create", id: element.id, origin: point };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const startDrag = (e: React.PointerEvent, element: EditElement, mode: "move" | "resize") => {
+    if (tool !== "select" || e.button !== 0) return;
+    e.stopPropagation();
+    setSelectedId(element.id);
+    if (editingId !== element.id) setEditingId(null);
+    dragRef.current = { mode, id: element.id, origin: toPagePoint(e), original: element };
+    overlayRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !pageImage) return;
+    const point = toPagePoint(e);
+    const dx = point.x - drag.origin.x;
+    const dy = point.y - drag.origin.y;
+
+    updateElement(drag.id, (el) => {
+      if (drag.mode === "move") return translateElement(drag.original, dx, dy);
+
+      if (drag.mode === "resize") {
+        const original = drag.original;
+        if (original.type === "text") return { ...original, width: Math.max(20, original.width + dx) };
+        if (original.type === "image") {
+          const width = Math.max(10, original.width + dx);
+          return { ...original, width, height: (width * original.height) / original.width };
+        }
+        if (original.type === "rect" || original.type === "highlight") {
+          return { ...original, width: Math.max(3, original.width + dx), height: Math.max(3, original.height + dy) };
+        }
+        return original;
+      }
+
+      switch (el.type) {
+        case "rect":
+        case "highlight":
+          return {
+            ...el,
+            x: Math.min(drag.origin.x, point.x),
+            y: Math.min(drag.origin.y, point.y),
+            width: Math.abs(dx),
+            height: Math.abs(dy),
+          };
+        case "arrow":
+          return { ...el, to: point };
+        case "ink": {
+          const last = el.points[el.points.length - 1];
+          return Math.hypot(point.x - last.x, point.y - last.y) < 1 ? el : { ...el, points: [...el.points, point] };
+        }
+        default:
+          return el;
+      }
+    });
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.mode !== "create") return;
+
+    setElements((prev) => {
+      const created = prev.find((el) => el.id === drag.id);
+      if (created && isDegenerate(created)) {
+        setSelectedId(null);
+        return prev.filter((el) => el.id !== drag.id);
+      }
+      return prev;
+    });
+  };
+
+  const finishTextEditing = (id: string) => {
+    setEditingId(null);
+    setElements((prev) => prev.filter((el) => el.id !== id || el.type !== "text" || el.text.trim() !== ""));
+  };
+
+  // Style changes apply to new elements and to the selected one
+  const handleColorChange = (value: string) => {
+    setColor(value);
+    if (selectedId) updateElement(selectedId, (el) => ({ ...el, color: value }));
+  };
+
+  const handleStrokeWidthChange = (value: number) => {
+    setStrokeWidth(value);
+    if (selectedId) {
+      updateElement(selectedId, (el) => ("strokeWidth" in el ? { ...el, strokeWidth: value } : el));
+    }
+  };
+
+  const handleFontSizeChange = (value: number) => {
+    setFontSize(value);
+    if (selectedId) {
+      updateElement(selectedId, (el) => (el.type === "text" ? { ...el, fontSize: value } : el));
+    }
+  };
+
+  const goToPage = (page: number) => {
+    setSelectedId(null);
+    setEditingId(null);
+    setCurrentPage(page);
+  };
+
+  const handleSave = async () => {
+    if (!selectedFile) {
+      setError("Please select a PDF file.");
+      return;
+    }
+
+    const edits = elements.filter((el) => el.type !== "text" || el.text.trim() !== "");
+    if (edits.length === 0) {
+      setError("Add some text, images or annotations before saving.");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const pdfBytes = await applyEdits(await selectedFile.arrayBuffer(), edits);
+      const blob = new Blob([pdfBytes as BlobPart], { type: "application/pdf" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `edited-${fileName.replace('.pdf', '') || "document"}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+
+      setSuccess("Edits saved! Your PDF has been downloaded.");
+    } catch (err) {
+      console.error(err);
+      if (err instanceof Error && err.message.includes("WinAnsi cannot encode")) {
+        setError("Text can only use Latin characters. Remove other characters (e.g. emoji or CJK) and try again.");
+      } else if (err instanceof Error && err.message.includes("encrypted")) {
+        setError("This PDF is password protected. Unlock it before editing.");
+      } else {
+        setError(err instanceof Error && err.message ? err.message : "Something went wrong while processing the PDF");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    setSelectedFile(null);
+    setFileName("");
+    setPdf(null);
+    setPageImages({});
+    setElements([]);
+    setSelectedId(null);
+    setEditingId(null);
+    setTool("select");
+    setError(null);
+    setSuccess(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleBackToHome = () => {
+    navigate("/");
+  };
+
+  // Percent-based placement keeps the overlay aligned at any display size
+  const boxStyle = (x: number, y: number, width?: number, height?: number): React.CSSProperties => ({
+    position: "absolute",
+    left: `${(x / pageImage.width) * 100}%`,
+    top: `${(y / pageImage.height) * 100}%`,
+    width: width === undefined ? undefined : `${(width / pageImage.width) * 100}%`,
+    height: height === undefined ? undefined : `${(height / pageImage.height) * 100}%`,
+  });
+
+  const renderShape = (el: EditElement) => {
+    const selected = el.id === selectedId;
+    const selectionStroke = darkMode ? "#60a5fa" : "#2563eb";
+    const onPointerDown = (e: React.PointerEvent) => startDrag(e, el, "move");
+    const cursor = tool === "select" ? "move" : undefined;
+
+    switch (el.type) {
+      case "rect":
+      case "highlight":
+        return (
+          <g key={el.id} onPointerDown={onPointerDown} style={{ cursor, pointerEvents: tool === "select" ? "all" : "none" }}>
+            <rect
+              x={el.x}
+              y={el.y}
+              width={el.width}
+              height={el.height}
+              fill={el.type === "highlight" ? el.color : "transparent"}
+              fillOpacity={el.type === "highlight" ? 0.4 : 0}
+              stroke={el.type === "rect" ? el.color : "none"}
+              strokeWidth={el.strokeWidth}
+              style={el.type === "highlight" ? { mixBlendMode: "multiply" } : undefined}
+            />
+            {selected && (
+              <rect x={el.x} y={el.y} width={el.width} height={el.height} fill="none" stroke={selectionStroke} strokeWidth={1} strokeDasharray="4 3" />
+            )}
+          </g>
+        );
+      case "arrow": {
+        const [left, right] = arrowHead(el.from, el.to, el.strokeWidth);
+        return (
+          <g key={el.id} onPointerDown={onPointerDown} style={{ cursor }} strokeLinecap="round" fill="none">
+            <line
+              x1={el.from.x}
+              y1={el.from.y}
+              x2={el.to.x}
+              y2={el.to.y}
+              stroke="transparent"
+              strokeWidth={Math.max(12, el.strokeWidth)}
+              style={{ pointerEvents: tool === "select" ? "stroke" : "none" }}
+            />
+            <line x1={el.from.x} y1={el.from.y} x2={el.to.x} y2={el.to.y} stroke={selected ? selectionStroke : el.color} strokeWidth={el.strokeWidth} />
+            <polyline
+              points={`${left.x},${left.y} ${el.to.x},${el.to.y} ${right.x},${right.y}`}
+              stroke={selected ? selectionStroke : el.color}
+              strokeWidth={el.strokeWidth}
+              strokeLinejoin="round"
+            />
+          </g>
+        );
+      }
+      case "ink": {
+        const points = el.points.map((p) => `${p.x},${p.y}`).join(" ");
+        return (
+          <g key={el.id} onPointerDown={onPointerDown} style={{ cursor }} fill="none" strokeLinecap="round" strokeLinejoin="round">
+            <polyline
+              points={points}
+              stroke="transparent"
+              strokeWidth={Math.max(12, el.strokeWidth)}
+              style={{ pointerEvents: tool === "select" ? "stroke" : "none" }}
+            />
+            <polyline points={points} stroke={el.color} strokeWidth={el.strokeWidth} strokeOpacity={selected ? 0.6 : 1} />
+          </g>
+        );
+      }
+      default:
+        return null;
+    }
+  };
+
+  const renderBoxElement = (el: EditElement) => {
+    const selected = el.id === selectedId;
+    const selectionRing = selected ? (darkMode ? "ring-2 ring-blue-400" : "ring-2 ring-blue-600") : "";
+    const pointerEvents = tool === "select" ? "auto" : "none";
+
+    if (el.type === "text") {
+      const textStyle: React.CSSProperties = {
+        fontSize: `${(el.fontSize / pageImage.width) * 100}cqw`,
+        lineHeight: TEXT_LINE_HEIGHT,
+        color: el.color,
+        fontFamily: "Helvetica, Arial, sans-serif",
+      };
+      return (
+        <div
+          key={el.id}
+          style={{ ...boxStyle(el.x, el.y, el.width), pointerEvents }}
+          className={`${selectionRing} ${tool === "select" ? "cursor-move" : ""}`}
+          onPointerDown={(e) => editingId !== el.id && startDrag(e, el, "move")}
+          onDoubleClick={() => setEditingId(el.id)}
+        >
+          {editingId === el.id ? (
+            <textarea
+              autoFocus
+              value={el.text}
+              onChange={(e) => updateElement(el.id, (current) => ({ ...current, text: e.target.value }))}
+              onBlur={() => finishTextEditing(el.id)}
+              onPointerDown={(e) => e.stopPropagation()}
+              placeholder="Type here"
+              ref={(textarea) => {
+                if (textarea) {
+                  textarea.style.height = "auto";
+                  textarea.style.height = `${textarea.scrollHeight}px`;
+                }
+              }}
+              className="block w-full p-0 m-0 border-0 bg-white/60 outline-none resize-none overflow-hidden whitespace-pre-wrap"
+              style={textStyle}
+            />
+          ) : (
+            <div className="whitespace-pre-wrap select-none" style={textStyle}>
+              {el.text || " "}
+            </div>
+          )}
+          {selected && editingId !== el.id && (
+            <div
+              onPointerDown={(e) => startDrag(e, el, "resize")}
+              className="absolute -right-1.5 top-1/2 -translate-y-1/2 w-3 h-3 rounded-full bg-blue-600 border-2 border-white cursor-ew-resize"
+            />
+          )}
+        </div>
+      );
+    }
+
+    if (el.type === "image") {
+      return (
+        <div
+          key={el.id}
+          style={{ ...boxStyle(el.x, el.y, el.width, el.height), pointerEvents }}
+          className={`${selectionRing} ${tool === "select" ? "cursor-move" : ""}`}
+          onPointerDown={(e) => startDrag(e, el, "move")}
+        >
+          <img src={el.src} alt="" draggable={false} className="w-full h-full select-none" />
+          {selected && (
+            <div
+              onPointerDown={(e) => startDrag(e, el, "resize")}
+              className="absolute -right-1.5 -bottom-1.5 w-3 h-3 rounded-full bg-blue-600 border-2 border-white cursor-nwse-resize"
+            />
+          )}
+        </div>
+      );
+    }
+
+    // Resize handle for rectangles and highlights, which are drawn in the SVG layer
+    if ((el.type === "rect" || el.type === "highlight") && selected) {
+      return (
+        <div
+          key={`${el.id}-handle`}
+          style={{ ...boxStyle(el.x + el.width, el.y + el.height), pointerEvents }}
+          onPointerDown={(e) => startDrag(e, el, "resize")}
+          className="-ml-1.5 -mt-1.5 w-3 h-3 rounded-full bg-blue-600 border-2 border-white cursor-nwse-resize"
+        />
+      );
+    }
+    return null;
+  };
+
+  const pageCount = pdf?.numPages ?? 0;
+  const panelClass = `p-4 rounded-xl ${darkMode ? "bg-gray-700/50" : "bg-gray-100"}`;
+  const labelClass = `block text-xs font-medium mb-1 ${darkMode ? "text-gray-400" : "text-gray-600"}`;
+
+  return (
+    <div className={`min-h-screen py-8 px-4 transition-colors duration-300 ${
+      darkMode ? "bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900" : "bg-gradient-to-br from-blue-50 via-white to-gray-100"
+    }`}>
+      <div className="max-w-5xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={handleBackToHome}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-blue-400 hover:text-blue-300 hover:bg-blue-400/10"
+                : "text-blue-600 hover:text-blue-700 hover:bg-blue-100"
+            }`}
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span className="hidden sm:inline">Back to Home</span>
+            <span className="sm:hidden">Home</span>
+          </button>
+
+          <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+            darkMode ? "bg-blue-900/30 text-blue-300" : "bg-blue-100 text-blue-700"
+          }`}>
+            PDF Tool
+          </div>
+        </div>
+
+        {/* Main Card */}
+        <div className={`rounded-3xl shadow-2xl overflow-hidden ${
+          darkMode ? "bg-gray-800/80 backdrop-blur-sm" : "bg-white/80 backdrop-blur-sm"
+        }`}>
+          <div className="p-6 md:p-8">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center mb-4">
+                <div className={`p-3 rounded-2xl ${
+                  darkMode ? "bg-gradient-to-br from-blue-600/20 to-teal-600/20" : "bg-gradient-to-br from-blue-100 to-teal-100"
+                }`}>
+                  <Edit3 className={`h-8 w-8 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                </div>
+              </div>
+              <h1 className={`text-3xl md:text-4xl font-bold mb-3 bg-gradient-to-r ${
+                darkMode ? "from-blue-400 to-teal-400" : "from-blue-600 to-teal-600"
+              } bg-clip-text text-transparent`}>
+                Edit PDF
+              </h1>
+              <p className={`text-base md:text-lg ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                Add text, images, shapes, highlights and drawings to your PDF
+              </p>
+            </div>
+
+            {/* Upload Area */}
+            {!selectedFile && (
+              <div className="mb-6 md:mb-8">
+                <div
+                  className={`border-2 border-dashed rounded-2xl p-6 md:p-8 text-center cursor-pointer transition-all duration-300 group ${
+                    darkMode
+                      ? "border-gray-600 hover:border-blue-400 hover:bg-blue-400/5"
+                      : "border-gray-300 hover:border-blue-500 hover:bg-blue-500/5"
+                  }`}
+                  onClick={() => fileInputRef.current?.click()}
+                  onDrop={handleDrop}
+                  onDragOver={handleDragOver}
+                >
+                  <div className="flex flex-col items-center justify-center">
+                    <Upload className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${
+                      darkMode ? "text-blue-400" : "text-blue-600"
+                    } group-hover:scale-110 transition-transform`} />
+                    <h3 className="text-lg md:text-xl font-semibold mb-2">Upload PDF File</h3>
+                    <p className={`text-sm md:text-base ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                      Click to browse or drag & drop your PDF here
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+            <input
+              type="file"
+              accept="application/pdf"
+              ref={fileInputRef}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <input
+              type="file"
+              accept="image/*"
+              ref={imageInputRef}
+              onChange={handleImageChange}
+              className="hidden"
+            />
+
+            {/* Editor */}
+            {selectedFile && (
+              <div className="mb-6">
+                {/* Toolbar */}
+                <div className={`${panelClass} mb-4 flex flex-wrap items-end gap-4`}>
+                  <div className="flex flex-wrap gap-1">
+                    {tools.map(({ value, label, icon: Icon }) => (
+                      <button
+                        key={value}
+                        onClick={() => handleToolChange(value)}
+                        title={label}
+                        disabled={!pageImage}
+                        className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${
+                          tool === value
+                            ? "bg-blue-600 text-white"
+                            : darkMode
+                              ? "text-gray-300 hover:bg-gray-600"
+                              : "text-gray-700 hover:bg-white"
+                        }`}
+                      >
+                        <Icon className="h-5 w-5" />
+                      </button>
+                    ))}
+                  </div>
+
+                  <div>
+                    <label className={labelClass}>Color</label>
+                    <input
+                      type="color"
+                      value={selectedElement?.color ?? color}
+                      onChange={(e) => handleColorChange(e.target.value)}
+                      className="w-10 h-9 rounded cursor-pointer bg-transparent"
+                    />
+                  </div>
+
+                  <div>
+                    <label className={labelClass}>Line width: {selectedElement && "strokeWidth" in selectedElement ? selectedElement.strokeWidth : strokeWidth}</label>
+                    <input
+                      type="range"
+                      min={1}
+                      max={12}
+                      value={selectedElement && "strokeWidth" in selectedElement ? selectedElement.strokeWidth : strokeWidth}
+                      onChange={(e) => handleStrokeWidthChange(Number(e.target.value))}
+                      className="w-28"
+                    />
+                  </div>
+
+                  <div>
+                    <label className={labelClass}>Font size: {selectedElement?.type === "text" ? selectedElement.fontSize : fontSize}</label>
+                    <input
+                      type="range"
+                      min={6}
+                      max={72}
+                      value={selectedElement?.type === "text" ? selectedElement.fontSize : fontSize}
+                      onChange={(e) => handleFontSizeChange(Number(e.target.value))}
+                      className="w-28"
+                    />
+                  </div>
+
+                  <button
+                    onClick={() => selectedId && removeElement(selectedId)}
+                    disabled={!selectedId}
+                    className={`ml-auto px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-1 transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                      darkMode ? "text-red-400 hover:bg-red-400/10" : "text-red-500 hover:bg-red-500/10"
+                    }`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Delete
+                  </button>
+                </div>
+
+                {/* Page Navigation */}
+                <div className="flex items-center justify-between mb-3">
+                  <button
+                    onClick={() => goToPage(currentPage - 1)}
+                    disabled={currentPage <= 1}
+                    className={`p-2 rounded-lg transition-colors disabled:opacity-40 ${darkMode ? "hover:bg-gray-700" : "hover:bg-gray-100"}`}
+                  >
+                    <ChevronLeft className="h-5 w-5" />
+                  </button>
+                  <span className={`text-sm ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                    {pageCount > 0 ? `Page ${currentPage} of ${pageCount}` : "Loading..."}
+                    {pageElements.length > 0 && ` · ${pageElements.length} edit${pageElements.length === 1 ? "" : "s"}`}
+                  </span>
+                  <button
+                    onClick={() => goToPage(currentPage + 1)}
+                    disabled={currentPage >= pageCount}
+                    className={`p-2 rounded-lg transition-colors disabled:opacity-40 ${darkMode ? "hover:bg-gray-700" : "hover:bg-gray-100"}`}
+                  >
+                    <ChevronRight className="h-5 w-5" />
+                  </button>
+                </div>
+
+                {/* Page Canvas */}
+                <div className={`rounded-xl p-2 md:p-4 flex justify-center ${darkMode ? "bg-gray-900/50" : "bg-gray-200"}`}>
+                  {pageImage && !loading ? (
+                    <div
+                      ref={overlayRef}
+                      className={`relative w-full shadow-lg touch-none select-none ${tool === "select" ? "" : "cursor-crosshair"}`}
+                      style={{ maxWidth: pageImage.width * 1.5, containerType: "inline-size" }}
+                      onPointerDown={handleOverlayPointerDown}
+                      onPointerMove={handlePointerMove}
+                      onPointerUp={handlePointerUp}
+                      onPointerCancel={handlePointerUp}
+                    >
+                      <img src={pageImage.src} alt={`Page ${currentPage}`} draggable={false} className="block w-full bg-white" />
+                      <svg
+                        viewBox={`0 0 ${pageImage.width} ${pageImage.height}`}
+                        className="absolute inset-0 w-full h-full"
+                        style={{ pointerEvents: "none" }}
+                      >
+                        {pageElements.map(renderShape)}
+                      </svg>
+                      {pageElements.map(renderBoxElement)}
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-3 py-24">
+                      <div className={`animate-spin rounded-full h-6 w-6 border-b-2 ${darkMode ? "border-blue-400" : "border-blue-600"}`}></div>
+                      <span className={`text-sm ${darkMode ? "text-gray-400" : "text-gray-600"}`}>Rendering page...</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            {selectedFile && (
+              <div className="flex flex-col sm:flex-row gap-3 md:gap-4 mb-6">
+                <button
+                  onClick={handleSave}
+                  disabled={saving || elements.length === 0}
+                  className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+                    darkMode
+                      ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                      : "bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                  }`}
+                >
+                  {saving ? (
+                    <>
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                      <span>Saving...</span>
+                    </>
+                  ) : (
+                    <>
+                      <Download className="h-5 w-5" />
+                      <span>Save & Download</span>
+                    </>
+                  )}
+                </button>
+
+                <button
+                  onClick={handleReset}
+                  disabled={saving}
+                  className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                    darkMode
+                      ? "border-gray-600 text-gray-300 hover:bg-gray-700/50 hover:border-gray-500 hover:scale-105"
+                      : "border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-gray-400 hover:scale-105"
+                  }`}
+                >
+                  <RotateCw className="h-5 w-5" />
+                  <span>Reset</span>
+                </button>
+              </div>
+            )}
+
+            {/* Status Messages */}
+            {error && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-red-900/20 border-red-500 text-red-400" : "bg-red-50 border-red-500 text-red-700"
+              }`}>
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {success && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-green-900/20 border-green-500 text-green-400" : "bg-green-50 border-green-500 text-green-700"
+              }`}>
+                <CheckCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{success}</p>
+              </div>
+            )}
+
+            {/* Instructions */}
+            <div className={`mt-6 p-4 md:p-6 rounded-2xl ${
+              darkMode ? "bg-gray-700/30" : "bg-white/50"
+            }`}>
+              <h3 className={`font-semibold mb-3 text-sm md:text-base ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                How to use:
+              </h3>
+              <ol className={`list-decimal list-inside space-y-2 text-xs md:text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}>
+                <li>Upload a PDF and pick a tool from the toolbar</li>
+                <li>Click to place text, or drag on the page to draw shapes, arrows, highlights and freehand lines</li>
+                <li>With the select tool, drag items to move them, use the blue handle to resize and double-click text to edit it</li>
+                <li>Click "Save & Download"; edits are written into the PDF in your browser and stay sharp at any zoom</li>
+              </ol>
+            </div>
+          </div>
+        </div>
+
+        {/* Quick Actions Footer */}
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleBackToHome}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-gray-400 hover:text-gray-300 hover:bg-gray-700/50"
+                : "text-gray-600 hover:text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <Home className="h-4 w-4" />
+            Back to All Tools
+          </button>
+        </div>
+      </div>
+
+      {/* Add custom animations */}
+      <style>{`
+        @keyframes fade-in {
+          from { opacity: 0; transform: translateY(-10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .animate-fade-in {
+          animation: fade-in 0.3s ease-out;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default EditPdf;
@@ -0,0 +1,411 @@
+import React, { useState, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Upload,
+  Search,
+  Copy,
+  Check,
+  Download,
+  RotateCw,
+  CheckCircle,
+  AlertCircle,
+  Home,
+  ArrowLeft
+} from "lucide-react";
+import { loadPdfDocument, PdfWorkerError } from "../../../utils/pdfRender";
+import {
+  extractPageText,
+  pagesToPlainText,
+  pagesToJson,
+  pagesToMarkdown,
+  type PageText
+} from "../../../utils/pdfText";
+
+type ExportFormat = "txt" | "json" | "md";
+
+const exportFormats: { value: ExportFormat; label: string; mimeType: string; toText: (pages: PageText[]) => string }[] = [
+  { value: "txt", label: "TXT", mimeType: "text/plain", toText: pagesToPlainText },
+  { value: "json", label: "JSON", mimeType: "application/json", toText: pagesToJson },
+  { value: "md", label: "Markdown", mimeType: "text/markdown", toText: pagesToMarkdown },
+];
+
+const ExtractText: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [pages, setPages] = useState<PageText[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [copied, setCopied] = useState<number | "all" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Incremented for every new file so a stale extraction stops early
+  const runRef = useRef(0);
+
+  const extractText = async (file: File) => {
+    const run = ++runRef.current;
+    setPages([]);
+    setProgress({ done: 0, total: 0 });
+
+    try {
+      const pdf = await loadPdfDocument(await file.arrayBuffer());
+      const extracted: PageText[] = [];
+
+      try {
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+          if (runRef.current !== run) return;
+          setProgress({ done: pageNumber - 1, total: pdf.numPages });
+          extracted.push(await extractPageText(pdf, pageNumber));
+          setPages([...extracted]);
+        }
+      } finally {
+        // Free the document in the shared pdf.js worker, also for stale runs
+        pdf.destroy();
+      }
+
+      if (extracted.every((p) => !p.text)) {
+        setError("No text found. This PDF may contain only scanned images.");
+      }
+    } catch (err) {
+      console.error(err);
+      if (runRef.current === run) {
+        setError(err instanceof PdfWorkerError
+          ? err.message
+          : err instanceof Error && err.message ? `Could not read PDF: ${err.message}` : "Could not read PDF");
+      }
+    } finally {
+      if (runRef.current === run) setProgress(null);
+    }
+  };
+
+  const selectFile = (file: File) => {
+    setError(null);
+    if (file.type === "application/pdf") {
+      setSelectedFile(file);
+      setFileName(file.name);
+      extractText(file);
+    } else {
+      setError("Please upload a PDF file only.");
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      selectFile(e.target.files[0]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      selectFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const copyText = async (text: string, key: number | "all") => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+      setTimeout(() => setCopied((current) => (current === key ? null : current)), 2000);
+    } catch {
+      setError("Could not copy to clipboard. Select the text and copy it manually.");
+    }
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const { mimeType, toText } = exportFormats.find((f) => f.value === format)!;
+    const blob = new Blob([toText(pages)], { type: `${mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${fileName.replace('.pdf', '') || "document"}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleReset = () => {
+    runRef.current++;
+    setSelectedFile(null);
+    setFileName("");
+    setPages([]);
+    setProgress(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleBackToHome = () => {
+    navigate("/");
+  };
+
+  const extracting = progress !== null;
+  const hasText = pages.some((p) => p.text);
+
+  return (
+    <div className={`min-h-screen py-8 px-4 transition-colors duration-300 ${
+      darkMode ? "bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900" : "bg-gradient-to-br from-blue-50 via-white to-gray-100"
+    }`}>
+      <div className="max-w-4xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={handleBackToHome}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-blue-400 hover:text-blue-300 hover:bg-blue-400/10"
+                : "text-blue-600 hover:text-blue-700 hover:bg-blue-100"
+            }`}
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span className="hidden sm:inline">Back to Home</span>
+            <span className="sm:hidden">Home</span>
+          </button>
+
+          <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+            darkMode ? "bg-blue-900/30 text-blue-300" : "bg-blue-100 text-blue-700"
+          }`}>
+            PDF Tool
+          </div>
+        </div>
+
+        {/* Main Card */}
+        <div className={`rounded-3xl shadow-2xl overflow-hidden ${
+          darkMode ? "bg-gray-800/80 backdrop-blur-sm" : "bg-white/80 backdrop-blur-sm"
+        }`}>
+          <div className="p-6 md:p-8">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center mb-4">
+                <div className={`p-3 rounded-2xl ${
+                  darkMode ? "bg-gradient-to-br from-blue-600/20 to-teal-600/20" : "bg-gradient-to-br from-blue-100 to-teal-100"
+                }`}>
+                  <Search className={`h-8 w-8 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                </div>
+              </div>
+              <h1 className={`text-3xl md:text-4xl font-bold mb-3 bg-gradient-to-r ${
+                darkMode ? "from-blue-400 to-teal-400" : "from-blue-600 to-teal-600"
+              } bg-clip-text text-transparent`}>
+                Extract Text
+              </h1>
+              <p className={`text-base md:text-lg ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                Pull the text out of your PDF page by page, right in your browser
+              </p>
+            </div>
+
+            {/* Upload Area */}
+            <div className="mb-6 md:mb-8">
+              <div
+                className={`border-2 border-dashed rounded-2xl p-6 md:p-8 text-center cursor-pointer transition-all duration-300 group ${
+                  darkMode
+                    ? "border-gray-600 hover:border-blue-400 hover:bg-blue-400/5"
+                    : "border-gray-300 hover:border-blue-500 hover:bg-blue-500/5"
+                } ${selectedFile ? "border-green-400 bg-green-400/5" : ""}`}
+                onClick={() => fileInputRef.current?.click()}
+                onDrop={handleDrop}
+                onDragOver={handleDragOver}
+              >
+                <input
+                  type="file"
+                  accept="application/pdf"
+                  ref={fileInputRef}
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+
+                <div className="flex flex-col items-center justify-center">
+                  {selectedFile ? (
+                    <>
+                      <CheckCircle className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${darkMode ? "text-green-400" : "text-green-600"}`} />
+                      <h3 className="text-lg md:text-xl font-semibold mb-2">File Selected</h3>
+                      <p className={`font-mono text-sm truncate max-w-full ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                        {fileName}
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <Upload className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${
+                        darkMode ? "text-blue-400" : "text-blue-600"
+                      } group-hover:scale-110 transition-transform`} />
+                      <h3 className="text-lg md:text-xl font-semibold mb-2">Upload PDF File</h3>
+                      <p className={`text-sm md:text-base ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                        Click to browse or drag & drop your PDF here
+                      </p>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Progress */}
+            {extracting && (
+              <div className="flex items-center justify-center gap-3 mb-6">
+                <div className={`animate-spin rounded-full h-5 w-5 border-b-2 ${darkMode ? "border-blue-400" : "border-blue-600"}`}></div>
+                <span className={`text-sm ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                  {progress.total > 0
+                    ? `Extracting page ${progress.done + 1} of ${progress.total}...`
+                    : "Loading PDF..."}
+                </span>
+              </div>
+            )}
+
+            {/* Export Bar */}
+            {hasText && !extracting && (
+              <div className={`p-4 rounded-xl mb-6 flex flex-col sm:flex-row sm:items-center gap-3 ${
+                darkMode ? "bg-gray-700/50" : "bg-gray-100"
+              }`}>
+                <button
+                  onClick={() => copyText(pages.map((p) => p.text).join("\n\n"), "all")}
+                  className={`py-2 px-4 rounded-lg font-medium flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                    darkMode
+                      ? "border-gray-600 text-gray-300 hover:bg-gray-600/50"
+                      : "border-gray-300 text-gray-700 hover:bg-white"
+                  }`}
+                >
+                  {copied === "all" ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                  <span>{copied === "all" ? "Copied!" : "Copy All"}</span>
+                </button>
+                <div className="flex-1" />
+                <span className={`text-sm ${darkMode ? "text-gray-400" : "text-gray-500"}`}>Export as</span>
+                <div className="flex gap-2">
+                  {exportFormats.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      onClick={() => handleExport(value)}
+                      className={`flex-1 py-2 px-4 rounded-lg font-medium flex items-center justify-center gap-2 transition-all duration-300 text-white ${
+                        darkMode
+                          ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600"
+                          : "bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700"
+                      }`}
+                    >
+                      <Download className="h-4 w-4" />
+                      <span>{label}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Status Messages */}
+            {error && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-red-900/20 border-red-500 text-red-400" : "bg-red-50 border-red-500 text-red-700"
+              }`}>
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {/* Extracted Pages */}
+            {pages.length > 0 && (
+              <div className="space-y-4 mb-6">
+                {pages.map((page) => (
+                  <div
+                    key={page.pageNumber}
+                    className={`rounded-xl border animate-fade-in ${
+                      darkMode ? "border-gray-700 bg-gray-900/40" : "border-gray-200 bg-white"
+                    }`}
+                  >
+                    <div className={`flex items-center justify-between px-4 py-2 border-b ${
+                      darkMode ? "border-gray-700" : "border-gray-200"
+                    }`}>
+                      <span className="font-semibold text-sm">Page {page.pageNumber}</span>
+                      <button
+                        onClick={() => copyText(page.text, page.pageNumber)}
+                        disabled={!page.text}
+                        className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                          darkMode ? "text-blue-400 hover:bg-blue-400/10" : "text-blue-600 hover:bg-blue-100"
+                        }`}
+                      >
+                        {copied === page.pageNumber ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                        {copied === page.pageNumber ? "Copied" : "Copy"}
+                      </button>
+                    </div>
+                    {page.text ? (
+                      <pre className={`p-4 max-h-80 overflow-auto whitespace-pre-wrap break-words text-sm font-sans ${
+                        darkMode ? "text-gray-200" : "text-gray-800"
+                      }`}>
+                        {page.text}
+                      </pre>
+                    ) : (
+                      <p className={`p-4 text-sm italic ${darkMode ? "text-gray-500" : "text-gray-400"}`}>
+                        No text found on this page (it may be a scanned image).
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            {selectedFile && (
+              <div className="flex justify-end mb-6">
+                <button
+                  onClick={handleReset}
+                  className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                    darkMode
+                      ? "border-gray-600 text-gray-300 hover:bg-gray-700/50 hover:border-gray-500 hover:scale-105"
+                      : "border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-gray-400 hover:scale-105"
+                  }`}
+                >
+                  <RotateCw className="h-5 w-5" />
+                  <span>Reset</span>
+                </button>
+              </div>
+            )}
+
+            {/* Instructions */}
+            <div className={`mt-6 p-4 md:p-6 rounded-2xl ${
+              darkMode ? "bg-gray-700/30" : "bg-white/50"
+            }`}>
+              <h3 className={`font-semibold mb-3 text-sm md:text-base ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                How to use:
+              </h3>
+              <ol className={`list-decimal list-inside space-y-2 text-xs md:text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}>
+                <li>Upload a PDF; text is extracted locally and never leaves your device</li>
+                <li>Review the text of each page and copy what you need</li>
+                <li>Export everything as plain text, JSON (with block coordinates) or Markdown</li>
+              </ol>
+            </div>
+          </div>
+        </div>
+
+        {/* Quick Actions Footer */}
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleBackToHome}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-gray-400 hover:text-gray-300 hover:bg-gray-700/50"
+                : "text-gray-600 hover:text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <Home className="h-4 w-4" />
+            Back to All Tools
+          </button>
+        </div>
+      </div>
+
+      {/* Add custom animations */}
+      <style>{`
+        @keyframes fade-in {
+          from { opacity: 0; transform: translateY(-10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .animate-fade-in {
+          animation: fade-in 0.3s ease-out;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default ExtractText;
@@ -12,6 +12,8 @@ import {
   X,
   // ObjectGroup
 } from "lucide-react";
+import { API_BASE_URL } from "../../../utils/api";
+import { findInvalidPageTokens } from "../../../utils/pageRanges";
 
 interface MergePdfProps {
   darkMode: boolean;
@@ -25,6 +27,7 @@ const MergePdf: React.FC<MergePdfProps> = ({ darkMode }) => {
     name: string;
     file: File;
     size: string;
+    pages: string;
   }
 
   const [pdfFiles, setPdfFiles] = useState<PdfFile[]>([]);
@@ -38,6 +41,7 @@ const MergePdf: React.FC<MergePdfProps> = ({ darkMode }) => {
   const [showEditor, setShowEditor] = useState(false);
   const [showDownload, setShowDownload] = useState(false);
   const [mergedPdfBlob, setMergedPdfBlob] = useState<Blob | null>(null);
+  const [addBookmarks, setAddBookmarks] = useState(false);
 
   const showStatusMessage = (text: string, type: 'error' | 'info' | 'success') => {
     setStatusMessage({ text, type });
@@ -89,7 +93,8 @@ const MergePdf: React.FC<MergePdfProps> = ({ darkMode }) => {
         id: Date.now() + Math.random(),
         name: file.name,
         file: file,
-        size: (file.size / (1024 * 1024)).toFixed(2) + ' MB'
+        size: (file.size / (1024 * 1024)).toFixed(2) + ' MB',
+        pages: ''
       };
 
       setPdfFiles(prev => [...prev, newPdfFile]);
@@ -125,12 +130,23 @@ const MergePdf: React.FC<MergePdfProps> = ({ darkMode }) => {
     setPdfFiles(newPdfFiles);
   };
 
+  const updatePageRange = (pdfId: number, pages: string) => {
+    setPdfFiles(prev => prev.map(pdf => pdf.id === pdfId ? { ...pdf, pages } : pdf));
+  };
+
   const mergePDFs = async () => {
     if (pdfFiles.length < 2) {
       showStatusMessage('Please upload at least 2 PDF files to merge', 'error');
       return;
     }
 
+    // Validate per-file page ranges (empty means all pages)
+    const invalidFile = pdfFiles.find(pdf => findInvalidPageTokens(pdf.pages).length > 0);
+    if (invalidFile) {
+      showStatusMessage(`Invalid page range for ${invalidFile.name}. Use e.g. 1-3,7`, 'error');
+      return;
+    }
+
     try {
       setIsLoading(true);
       setProgress(0);
@@ -138,9 +154,15 @@ const MergePdf: React.FC<MergePdfProps> = ({ darkMode }) => {
 
       // Create FormData
       const formData = new FormData();
-      pdfFiles.forEach(pdfFile => {
+      pdfFiles.forEach((pdfFile, index) => {
         formData.append('files', pdfFile.file);
+        if (pdfFile.pages.trim()) {
+          formData.append(`pages[${index}]`, pdfFile.pages.trim());
+        }
       });
+      if (addBookmarks) {
+        formData.append('bookmarks', 'true');
+      }
 
       // Upload progress simulation
       const progressInterval = setInterval(() => {
@@ -154,7 +176,7 @@ const MergePdf: React.FC<MergePdfProps> = ({ darkMode }) => {
       }, 200);
 
       // Send merge request to backend
-      const response = await fetch('/merge', {
+      const response = await fetch(`${API_BASE_URL}/merge`, {
         method: 'POST',
         body: formData,
       });
@@ -392,7 +414,7 @@ const MergePdf: React.FC<MergePdfProps> = ({ darkMode }) => {
                 </div>
 
                 <p className={`text-sm mb-4 ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
-                  Drag and drop to reorder your PDFs before merging:
+                  Drag and drop to reorder your PDFs before merging. Optionally enter pages to include from each file (e.g. 1-3,7):
                 </p>
 
                 <div className="space-y-3">
@@ -434,6 +456,18 @@ const MergePdf: React.FC<MergePdfProps> = ({ darkMode }) => {
                             {pdfFile.size}
                           </div>
                         </div>
+                        <input
+                          type="text"
+                          placeholder="All pages"
+                          value={pdfFile.pages}
+                          onChange={(e) => updatePageRange(pdfFile.id, e.target.value)}
+                          title="Pages to include, e.g. 1-3,7 or 5- or !2"
+                          className={`w-32 mr-3 px-3 py-1.5 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                            darkMode
+                              ? "bg-gray-700/50 border-gray-500 text-white placeholder-gray-400"
+                              : "bg-white border-gray-300 text-gray-900 placeholder-gray-500"
+                          }`}
+                        />
                         <button
                           onClick={() => removePdfFile(pdfFile.id)}
                           className={`w-8 h-8 rounded-full flex items-center justify-center transition-colors ${
@@ -448,6 +482,18 @@ const MergePdf: React.FC<MergePdfProps> = ({ darkMode }) => {
                     </div>
                   ))}
                 </div>
+
+                <label className={`flex items-center gap-2 mt-4 text-sm cursor-pointer ${
+                  darkMode ? "text-gray-300" : "text-gray-700"
+                }`}>
+                  <input
+                    type="checkbox"
+                    checked={addBookmarks}
+                    onChange={(e) => setAddBookmarks(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                  Add a bookmark for each file, named after the file
+                </label>
               </div>
             )}
 
@@ -0,0 +1,159 @@
+import React, { useEffect, useRef } from "react";
+import { CheckSquare, Square } from "lucide-react";
+
+interface PageThumbnailPickerProps {
+  thumbnails: string[];
+  pageCount: number;
+  loading: boolean;
+  selected: Set<number>;
+  onChange: (selected: Set<number>) => void;
+  darkMode: boolean;
+}
+
+interface DragState {
+  start: number;
+  mode: "add" | "remove";
+  base: Set<number>;
+}
+
+// Grid of page previews. Click toggles a page, shift-click selects a range
+// from the last clicked page, and dragging across pages paints the selection.
+const PageThumbnailPicker: React.FC<PageThumbnailPickerProps> = ({
+  thumbnails,
+  pageCount,
+  loading,
+  selected,
+  onChange,
+  darkMode
+}) => {
+  const anchorRef = useRef<number | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    const endDrag = () => {
+      dragRef.current = null;
+    };
+    window.addEventListener("mouseup", endDrag);
+    return () => window.removeEventListener("mouseup", endDrag);
+  }, []);
+
+  const applyRange = (base: Set<number>, from: number, to: number, mode: "add" | "remove") => {
+    const next = new Set(base);
+    const [low, high] = from <= to ? [from, to] : [to, from];
+    for (let p = low; p <= high; p++) {
+      if (mode === "add") next.add(p);
+      else next.delete(p);
+    }
+    return next;
+  };
+
+  const handleMouseDown = (e: React.MouseEvent, page: number) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+
+    if (e.shiftKey && anchorRef.current !== null) {
+      onChange(applyRange(selected, anchorRef.current, page, "add"));
+      return;
+    }
+
+    const mode = selected.has(page) ? "remove" : "add";
+    dragRef.current = { start: page, mode, base: new Set(selected) };
+    anchorRef.current = page;
+    onChange(applyRange(selected, page, page, mode));
+  };
+
+  const handleMouseEnter = (page: number) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    onChange(applyRange(drag.base, drag.start, page, drag.mode));
+  };
+
+  const selectAll = () => onChange(applyRange(new Set(), 1, pageCount, "add"));
+  const clearAll = () => onChange(new Set());
+
+  return (
+    <div className={`rounded-xl p-4 ${darkMode ? "bg-gray-700/50" : "bg-gray-100"}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <p className={`text-sm ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+          {selected.size} of {pageCount || "…"} pages selected
+          <span className={`ml-2 text-xs ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+            Click, shift-click or drag to select
+          </span>
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={selectAll}
+            disabled={pageCount === 0}
+            className={`px-3 py-1.5 text-sm border-2 rounded-lg font-medium flex items-center transition-all duration-300 disabled:opacity-50 ${
+              darkMode
+                ? "border-blue-400 text-blue-400 hover:bg-blue-400/10"
+                : "border-blue-600 text-blue-600 hover:bg-blue-600/10"
+            }`}
+          >
+            <CheckSquare className="h-4 w-4 mr-1" />
+            Select All
+          </button>
+          <button
+            onClick={clearAll}
+            disabled={selected.size === 0}
+            className={`px-3 py-1.5 text-sm border-2 rounded-lg font-medium flex items-center transition-all duration-300 disabled:opacity-50 ${
+              darkMode
+                ? "border-gray-400 text-gray-400 hover:bg-gray-400/10"
+                : "border-gray-600 text-gray-600 hover:bg-gray-600/10"
+            }`}
+          >
+            <Square className="h-4 w-4 mr-1" />
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3 max-h-96 overflow-y-auto p-1 select-none">
+        {Array.from({ length: pageCount }, (_, i) => i + 1).map((page) => {
+          const isSelected = selected.has(page);
+          const thumbnail = thumbnails[page - 1];
+          return (
+            <div
+              key={page}
+              onMouseDown={(e) => handleMouseDown(e, page)}
+              onMouseEnter={() => handleMouseEnter(page)}
+              className={`relative cursor-pointer rounded-lg overflow-hidden border-2 transition-all duration-200 ${
+                isSelected
+                  ? "border-blue-500 ring-2 ring-blue-500/40"
+                  : darkMode
+                    ? "border-gray-600 hover:border-gray-400"
+                    : "border-gray-200 hover:border-gray-400"
+              }`}
+            >
+              {thumbnail ? (
+                <img
+                  src={thumbnail}
+                  alt={`Page ${page}`}
+                  draggable={false}
+                  className={`w-full h-32 object-contain bg-white ${isSelected ? "" : "opacity-70"}`}
+                />
+              ) : (
+                <div className={`w-full h-32 animate-pulse ${darkMode ? "bg-gray-600" : "bg-gray-200"}`} />
+              )}
+              <div className={`text-xs text-center py-1 font-medium ${
+                isSelected
+                  ? "bg-blue-500 text-white"
+                  : darkMode ? "bg-gray-800 text-gray-300" : "bg-white text-gray-700"
+              }`}>
+                {page}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {loading && pageCount === 0 && (
+        <p className={`text-sm text-center py-6 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+          Rendering page previews...
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PageThumbnailPicker;
@@ -0,0 +1,416 @@
+import React, { useState, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Upload,
+  FileText,
+  FileSpreadsheet,
+  Presentation,
+  RefreshCw,
+  RotateCw,
+  CheckCircle,
+  AlertCircle,
+  Home,
+  ArrowLeft
+} from "lucide-react";
+import { loadPdfDocument, renderPageToCanvas } from "../../../utils/pdfRender";
+import { extractPageText, type PageText } from "../../../utils/pdfText";
+import { buildDocx, buildXlsx, buildPptx, type SlidePage } from "../../../utils/officeExport";
+
+type OutputFormat = "docx" | "xlsx" | "pptx";
+
+const formatOptions: { value: OutputFormat; label: string; description: string; icon: React.ElementType }[] = [
+  { value: "docx", label: "Word", description: "Paragraphs and headings, reflowed as editable text", icon: FileText },
+  { value: "xlsx", label: "Excel", description: "Detected tables, one sheet per table", icon: FileSpreadsheet },
+  { value: "pptx", label: "PowerPoint", description: "One slide per page with its image and text boxes", icon: Presentation },
+];
+
+// Page images in the deck are rendered at twice the PDF resolution
+const SLIDE_IMAGE_SCALE = 2;
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not render page image"))), "image/jpeg", 0.85)
+  );
+
+const PdfConverter: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [format, setFormat] = useState<OutputFormat>("docx");
+  const [visibleText, setVisibleText] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Incremented on reset so a running conversion stops early
+  const runRef = useRef(0);
+
+  const selectFile = (file: File) => {
+    setError(null);
+    setSuccess(null);
+    if (file.type === "application/pdf") {
+      setSelectedFile(file);
+      setFileName(file.name);
+    } else {
+      setError("Please upload a PDF file only.");
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      selectFile(e.target.files[0]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      selectFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const handleConvert = async () => {
+    if (!selectedFile) {
+      setError("Please select a PDF file first.");
+      return;
+    }
+
+    const run = ++runRef.current;
+    setError(null);
+    setSuccess(null);
+    setProgress({ done: 0, total: 0 });
+
+    try {
+      const pdf = await loadPdfDocument(await selectedFile.arrayBuffer());
+      const pages: PageText[] = [];
+      const slides: SlidePage[] = [];
+
+      try {
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+          if (runRef.current !== run) return;
+          setProgress({ done: pageNumber - 1, total: pdf.numPages });
+          const text = await extractPageText(pdf, pageNumber);
+          pages.push(text);
+          if (format === "pptx") {
+            const canvas = await renderPageToCanvas(pdf, pageNumber, SLIDE_IMAGE_SCALE);
+            slides.push({ text, image: await canvasToBlob(canvas) });
+          }
+        }
+      } finally {
+        // Text and slide images are extracted; free the document in the shared pdf.js worker
+        pdf.destroy();
+      }
+      if (runRef.current !== run) return;
+
+      const hasText = pages.some((p) => p.text);
+      if (!hasText && format !== "pptx") {
+        throw new Error("No text found. This PDF may contain only scanned images.");
+      }
+
+      let blob: Blob;
+      let message: string;
+      if (format === "docx") {
+        blob = await buildDocx(pages);
+        message = "Word document created successfully!";
+      } else if (format === "xlsx") {
+        const workbook = await buildXlsx(pages);
+        blob = workbook.blob;
+        message = workbook.tableCount > 0
+          ? `Excel workbook created with ${workbook.tableCount} table${workbook.tableCount === 1 ? "" : "s"}!`
+          : "No tables detected, so the text was placed in a single sheet, one line per row.";
+      } else {
+        blob = await buildPptx(slides, { visibleText });
+        message = `PowerPoint deck created with ${slides.length} slide${slides.length === 1 ? "" : "s"}!`;
+      }
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${fileName.replace('.pdf', '') || "document"}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+
+      setSuccess(message);
+    } catch (err) {
+      console.error(err);
+      if (runRef.current === run) {
+        setError(err instanceof Error && err.message ? err.message : "Something went wrong while converting the PDF");
+      }
+    } finally {
+      if (runRef.current === run) setProgress(null);
+    }
+  };
+
+  const handleReset = () => {
+    runRef.current++;
+    setSelectedFile(null);
+    setFileName("");
+    setProgress(null);
+    setError(null);
+    setSuccess(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleBackToHome = () => {
+    navigate("/");
+  };
+
+  const converting = progress !== null;
+
+  return (
+    <div className={`min-h-screen py-8 px-4 transition-colors duration-300 ${
+      darkMode ? "bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900" : "bg-gradient-to-br from-blue-50 via-white to-gray-100"
+    }`}>
+      <div className="max-w-2xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={handleBackToHome}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-blue-400 hover:text-blue-300 hover:bg-blue-400/10"
+                : "text-blue-600 hover:text-blue-700 hover:bg-blue-100"
+            }`}
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span className="hidden sm:inline">Back to Home</span>
+            <span className="sm:hidden">Home</span>
+          </button>
+
+          <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+            darkMode ? "bg-blue-900/30 text-blue-300" : "bg-blue-100 text-blue-700"
+          }`}>
+            PDF Tool
+          </div>
+        </div>
+
+        {/* Main Card */}
+        <div className={`rounded-3xl shadow-2xl overflow-hidden ${
+          darkMode ? "bg-gray-800/80 backdrop-blur-sm" : "bg-white/80 backdrop-blur-sm"
+        }`}>
+          <div className="p-6 md:p-8">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center mb-4">
+                <div className={`p-3 rounded-2xl ${
+                  darkMode ? "bg-gradient-to-br from-blue-600/20 to-teal-600/20" : "bg-gradient-to-br from-blue-100 to-teal-100"
+                }`}>
+                  <RefreshCw className={`h-8 w-8 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                </div>
+              </div>
+              <h1 className={`text-3xl md:text-4xl font-bold mb-3 bg-gradient-to-r ${
+                darkMode ? "from-blue-400 to-teal-400" : "from-blue-600 to-teal-600"
+              } bg-clip-text text-transparent`}>
+                PDF Converter
+              </h1>
+              <p className={`text-base md:text-lg ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                Convert your PDF to Word, Excel or PowerPoint, right in your browser
+              </p>
+            </div>
+
+            {/* Upload Area */}
+            <div className="mb-6 md:mb-8">
+              <div
+                className={`border-2 border-dashed rounded-2xl p-6 md:p-8 text-center cursor-pointer transition-all duration-300 group ${
+                  darkMode
+                    ? "border-gray-600 hover:border-blue-400 hover:bg-blue-400/5"
+                    : "border-gray-300 hover:border-blue-500 hover:bg-blue-500/5"
+                } ${selectedFile ? "border-green-400 bg-green-400/5" : ""}`}
+                onClick={() => fileInputRef.current?.click()}
+                onDrop={handleDrop}
+                onDragOver={handleDragOver}
+              >
+                <input
+                  type="file"
+                  accept="application/pdf"
+                  ref={fileInputRef}
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+
+                <div className="flex flex-col items-center justify-center">
+                  {selectedFile ? (
+                    <>
+                      <CheckCircle className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${darkMode ? "text-green-400" : "text-green-600"}`} />
+                      <h3 className="text-lg md:text-xl font-semibold mb-2">File Selected</h3>
+                      <p className={`font-mono text-sm truncate max-w-full ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                        {fileName}
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <Upload className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${
+                        darkMode ? "text-blue-400" : "text-blue-600"
+                      } group-hover:scale-110 transition-transform`} />
+                      <h3 className="text-lg md:text-xl font-semibold mb-2">Upload PDF File</h3>
+                      <p className={`text-sm md:text-base ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                        Click to browse or drag & drop your PDF here
+                      </p>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Format Selection */}
+            <div className="mb-6 md:mb-8">
+              <label className={`block text-sm font-medium mb-3 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                Convert To
+              </label>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {formatOptions.map(({ value, label, description, icon: Icon }) => (
+                  <button
+                    key={value}
+                    onClick={() => { setFormat(value); setSuccess(null); }}
+                    disabled={converting}
+                    className={`p-4 rounded-xl border-2 text-left transition-all duration-300 ${
+                      format === value
+                        ? darkMode
+                          ? "border-blue-400 bg-blue-400/10"
+                          : "border-blue-500 bg-blue-50"
+                        : darkMode
+                          ? "border-gray-600 hover:border-gray-500"
+                          : "border-gray-200 hover:border-gray-300"
+                    }`}
+                  >
+                    <span className="flex items-center gap-2 font-semibold">
+                      <Icon className={`h-5 w-5 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                      {label}
+                    </span>
+                    <span className={`block text-xs mt-1 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>{description}</span>
+                  </button>
+                ))}
+              </div>
+
+              {format === "pptx" && (
+                <label className={`flex items-center gap-2 mt-4 text-sm cursor-pointer ${
+                  darkMode ? "text-gray-300" : "text-gray-700"
+                }`}>
+                  <input
+                    type="checkbox"
+                    checked={visibleText}
+                    onChange={(e) => setVisibleText(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                  Show text boxes on top of the page image (otherwise they are invisible but still selectable)
+                </label>
+              )}
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex flex-col sm:flex-row gap-3 md:gap-4 mb-6">
+              <button
+                onClick={handleConvert}
+                disabled={converting || !selectedFile}
+                className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  darkMode
+                    ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                    : "bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                }`}
+              >
+                {converting ? (
+                  <>
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                    <span>
+                      {progress.total > 0 ? `Reading page ${progress.done + 1} of ${progress.total}...` : "Loading PDF..."}
+                    </span>
+                  </>
+                ) : (
+                  <>
+                    <RefreshCw className="h-5 w-5" />
+                    <span>Convert PDF</span>
+                  </>
+                )}
+              </button>
+
+              <button
+                onClick={handleReset}
+                className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                  darkMode
+                    ? "border-gray-600 text-gray-300 hover:bg-gray-700/50 hover:border-gray-500 hover:scale-105"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-gray-400 hover:scale-105"
+                }`}
+              >
+                <RotateCw className="h-5 w-5" />
+                <span>Reset</span>
+              </button>
+            </div>
+
+            {/* Status Messages */}
+            {error && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-red-900/20 border-red-500 text-red-400" : "bg-red-50 border-red-500 text-red-700"
+              }`}>
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {success && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-green-900/20 border-green-500 text-green-400" : "bg-green-50 border-green-500 text-green-700"
+              }`}>
+                <CheckCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{success}</p>
+              </div>
+            )}
+
+            {/* Instructions */}
+            <div className={`mt-6 p-4 md:p-6 rounded-2xl ${
+              darkMode ? "bg-gray-700/30" : "bg-white/50"
+            }`}>
+              <h3 className={`font-semibold mb-3 text-sm md:text-base ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                How to use:
+              </h3>
+              <ol className={`list-decimal list-inside space-y-2 text-xs md:text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}>
+                <li>Upload a PDF; the conversion runs locally and the file never leaves your device</li>
+                <li>Choose Word for editable text, Excel for tables or PowerPoint for slides</li>
+                <li>Click "Convert PDF" and the document downloads automatically</li>
+                <li>Scanned PDFs have no text layer, so only the PowerPoint page images will contain content</li>
+              </ol>
+            </div>
+          </div>
+        </div>
+
+        {/* Quick Actions Footer */}
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleBackToHome}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-gray-400 hover:text-gray-300 hover:bg-gray-700/50"
+                : "text-gray-600 hover:text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <Home className="h-4 w-4" />
+            Back to All Tools
+          </button>
+        </div>
+      </div>
+
+      {/* Add custom animations */}
+      <style>{`
+        @keyframes fade-in {
+          from { opacity: 0; transform: translateY(-10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .animate-fade-in {
+          animation: fade-in 0.3s ease-out;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default PdfConverter;
@@ -0,0 +1,485 @@
+import React, { useState, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Upload,
+  Lock,
+  Eye,
+  EyeOff,
+  RotateCw,
+  CheckCircle,
+  AlertCircle,
+  Home,
+  ArrowLeft,
+  ShieldCheck
+} from "lucide-react";
+import { API_BASE_URL } from "../../../utils/api";
+
+type EncryptionAlgorithm = "AES-128" | "AES-256";
+
+interface Permissions {
+  printing: boolean;
+  copying: boolean;
+  modifying: boolean;
+  annotating: boolean;
+}
+
+const permissionLabels: { key: keyof Permissions; label: string; description: string }[] = [
+  { key: "printing", label: "Printing", description: "Allow the document to be printed" },
+  { key: "copying", label: "Copying", description: "Allow copying text and images" },
+  { key: "modifying", label: "Modifying", description: "Allow editing the content" },
+  { key: "annotating", label: "Annotating", description: "Allow comments and form filling" },
+];
+
+const defaultPermissions: Permissions = {
+  printing: true,
+  copying: false,
+  modifying: false,
+  annotating: false,
+};
+
+const ProtectPdf: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [userPassword, setUserPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [ownerPassword, setOwnerPassword] = useState("");
+  const [showPasswords, setShowPasswords] = useState(false);
+  const [algorithm, setAlgorithm] = useState<EncryptionAlgorithm>("AES-256");
+  const [permissions, setPermissions] = useState<Permissions>(defaultPermissions);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectFile = (file: File) => {
+    setError(null);
+    setSuccess(null);
+    if (file.type === "application/pdf") {
+      setSelectedFile(file);
+      setFileName(file.name);
+    } else {
+      setError("Please upload a PDF file only.");
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      selectFile(e.target.files[0]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      selectFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const togglePermission = (key: keyof Permissions) => {
+    setPermissions(prev => ({ ...prev, [key]: !prev[key] }));
+  };
+
+  const handleProtect = async () => {
+    if (!selectedFile) {
+      setError("Please select a PDF file.");
+      return;
+    }
+    if (!userPassword) {
+      setError("Please enter a password.");
+      return;
+    }
+    if (userPassword !== confirmPassword) {
+      setError("Passwords do not match.");
+      return;
+    }
+    if (ownerPassword && ownerPassword === userPassword) {
+      setError("The owner password must differ from the open password, otherwise permissions cannot be enforced.");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+      formData.append("userPassword", userPassword);
+      if (ownerPassword) formData.append("ownerPassword", ownerPassword);
+      formData.append("algorithm", algorithm);
+      permissionLabels.forEach(({ key }) => formData.append(key, String(permissions[key])));
+
+      const response = await fetch(`${API_BASE_URL}/protect`, {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Failed to protect PDF");
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `protected-${fileName.replace('.pdf', '') || "document"}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+
+      setSuccess(`PDF encrypted with ${algorithm} and downloaded!`);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error && err.message ? err.message : "Something went wrong while processing the PDF");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = () => {
+    setSelectedFile(null);
+    setFileName("");
+    setUserPassword("");
+    setConfirmPassword("");
+    setOwnerPassword("");
+    setAlgorithm("AES-256");
+    setPermissions(defaultPermissions);
+    setError(null);
+    setSuccess(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleBackToHome = () => {
+    navigate("/");
+  };
+
+  const inputClassName = `w-full pl-10 pr-4 py-3 border rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all ${
+    darkMode
+      ? "bg-gray-700/50 border-gray-600 text-white placeholder-gray-400"
+      : "bg-white border-gray-300 text-gray-900 placeholder-gray-500"
+  }`;
+  const iconClassName = `absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 ${
+    darkMode ? "text-gray-400" : "text-gray-500"
+  }`;
+
+  return (
+    <div className={`min-h-screen py-8 px-4 transition-colors duration-300 ${
+      darkMode ? "bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900" : "bg-gradient-to-br from-blue-50 via-white to-gray-100"
+    }`}>
+      <div className="max-w-4xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={handleBackToHome}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-blue-400 hover:text-blue-300 hover:bg-blue-400/10"
+                : "text-blue-600 hover:text-blue-700 hover:bg-blue-100"
+            }`}
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span className="hidden sm:inline">Back to Home</span>
+            <span className="sm:hidden">Home</span>
+          </button>
+
+          <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+            darkMode ? "bg-blue-900/30 text-blue-300" : "bg-blue-100 text-blue-700"
+          }`}>
+            PDF Tool
+          </div>
+        </div>
+
+        {/* Main Card */}
+        <div className={`rounded-3xl shadow-2xl overflow-hidden ${
+          darkMode ? "bg-gray-800/80 backdrop-blur-sm" : "bg-white/80 backdrop-blur-sm"
+        }`}>
+          <div className="p-6 md:p-8">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center mb-4">
+                <div className={`p-3 rounded-2xl ${
+                  darkMode ? "bg-gradient-to-br from-blue-600/20 to-teal-600/20" : "bg-gradient-to-br from-blue-100 to-teal-100"
+                }`}>
+                  <Lock className={`h-8 w-8 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                </div>
+              </div>
+              <h1 className={`text-3xl md:text-4xl font-bold mb-3 bg-gradient-to-r ${
+                darkMode ? "from-blue-400 to-teal-400" : "from-blue-600 to-teal-600"
+              } bg-clip-text text-transparent`}>
+                Protect PDF
+              </h1>
+              <p className={`text-base md:text-lg ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                Encrypt your PDF with a password and control what readers can do
+              </p>
+            </div>
+
+            {/* Upload Area */}
+            <div className="mb-6 md:mb-8">
+              <div
+                className={`border-2 border-dashed rounded-2xl p-6 md:p-8 text-center cursor-pointer transition-all duration-300 group ${
+                  darkMode
+                    ? "border-gray-600 hover:border-blue-400 hover:bg-blue-400/5"
+                    : "border-gray-300 hover:border-blue-500 hover:bg-blue-500/5"
+                } ${selectedFile ? "border-green-400 bg-green-400/5" : ""}`}
+                onClick={() => fileInputRef.current?.click()}
+                onDrop={handleDrop}
+                onDragOver={handleDragOver}
+              >
+                <input
+                  type="file"
+                  accept="application/pdf"
+                  ref={fileInputRef}
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+
+                <div className="flex flex-col items-center justify-center">
+                  {selectedFile ? (
+                    <>
+                      <CheckCircle className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${darkMode ? "text-green-400" : "text-green-600"}`} />
+                      <h3 className="text-lg md:text-xl font-semibold mb-2">File Selected</h3>
+                      <p className={`font-mono text-sm truncate max-w-full ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                        {fileName}
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <Upload className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${
+                        darkMode ? "text-blue-400" : "text-blue-600"
+                      } group-hover:scale-110 transition-transform`} />
+                      <h3 className="text-lg md:text-xl font-semibold mb-2">Upload PDF File</h3>
+                      <p className={`text-sm md:text-base ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                        Click to browse or drag & drop your PDF here
+                      </p>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Passwords */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className={`block text-sm font-medium mb-3 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                  Open Password
+                </label>
+                <div className="relative">
+                  <Lock className={iconClassName} />
+                  <input
+                    type={showPasswords ? "text" : "password"}
+                    value={userPassword}
+                    onChange={(e) => { setUserPassword(e.target.value); setError(null); }}
+                    placeholder="Required to open the PDF"
+                    autoComplete="new-password"
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className={`block text-sm font-medium mb-3 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                  Confirm Password
+                </label>
+                <div className="relative">
+                  <Lock className={iconClassName} />
+                  <input
+                    type={showPasswords ? "text" : "password"}
+                    value={confirmPassword}
+                    onChange={(e) => { setConfirmPassword(e.target.value); setError(null); }}
+                    placeholder="Repeat the password"
+                    autoComplete="new-password"
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="mb-6 md:mb-8">
+              <label className={`block text-sm font-medium mb-3 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                Owner Password (optional)
+              </label>
+              <div className="relative">
+                <ShieldCheck className={iconClassName} />
+                <input
+                  type={showPasswords ? "text" : "password"}
+                  value={ownerPassword}
+                  onChange={(e) => { setOwnerPassword(e.target.value); setError(null); }}
+                  placeholder="Grants full access and lifts the restrictions below"
+                  autoComplete="new-password"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex items-center justify-between mt-2">
+                <p className={`text-xs ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                  Leave empty to generate a random owner password
+                </p>
+                <button
+                  onClick={() => setShowPasswords(!showPasswords)}
+                  className={`flex items-center gap-1 text-xs font-medium ${darkMode ? "text-blue-400" : "text-blue-600"}`}
+                >
+                  {showPasswords ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  {showPasswords ? "Hide" : "Show"} passwords
+                </button>
+              </div>
+            </div>
+
+            {/* Encryption & Permissions */}
+            <div className={`p-4 rounded-xl mb-6 md:mb-8 ${darkMode ? "bg-gray-700/50" : "bg-gray-100"}`}>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div>
+                  <label className={`block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                    Encryption
+                  </label>
+                  <select
+                    value={algorithm}
+                    onChange={(e) => setAlgorithm(e.target.value as EncryptionAlgorithm)}
+                    className={`w-full p-2 border rounded-lg ${
+                      darkMode
+                        ? "bg-gray-600 border-gray-500 text-white"
+                        : "bg-white border-gray-300"
+                    }`}
+                  >
+                    <option value="AES-256">AES-256 (recommended)</option>
+                    <option value="AES-128">AES-128 (older readers)</option>
+                  </select>
+                </div>
+                <div className="md:col-span-2">
+                  <label className={`block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                    Permissions
+                  </label>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {permissionLabels.map(({ key, label, description }) => (
+                      <label key={key} className="flex items-start gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={permissions[key]}
+                          onChange={() => togglePermission(key)}
+                          className="mt-1 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                        />
+                        <span>
+                          <span className="text-sm font-medium">{label}</span>
+                          <span className={`block text-xs ${darkMode ? "text-gray-400" : "text-gray-500"}`}>{description}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex flex-col sm:flex-row gap-3 md:gap-4 mb-6">
+              <button
+                onClick={handleProtect}
+                disabled={loading || !selectedFile || !userPassword}
+                className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  darkMode
+                    ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                    : "bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                }`}
+              >
+                {loading ? (
+                  <>
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                    <span>Encrypting...</span>
+                  </>
+                ) : (
+                  <>
+                    <Lock className="h-5 w-5" />
+                    <span>Protect PDF</span>
+                  </>
+                )}
+              </button>
+
+              <button
+                onClick={handleReset}
+                disabled={loading}
+                className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                  darkMode
+                    ? "border-gray-600 text-gray-300 hover:bg-gray-700/50 hover:border-gray-500 hover:scale-105"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-gray-400 hover:scale-105"
+                }`}
+              >
+                <RotateCw className="h-5 w-5" />
+                <span>Reset</span>
+              </button>
+            </div>
+
+            {/* Status Messages */}
+            {error && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-red-900/20 border-red-500 text-red-400" : "bg-red-50 border-red-500 text-red-700"
+              }`}>
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {success && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-green-900/20 border-green-500 text-green-400" : "bg-green-50 border-green-500 text-green-700"
+              }`}>
+                <CheckCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{success}</p>
+              </div>
+            )}
+
+            {/* Instructions */}
+            <div className={`mt-6 p-4 md:p-6 rounded-2xl ${
+              darkMode ? "bg-gray-700/30" : "bg-white/50"
+            }`}>
+              <h3 className={`font-semibold mb-3 text-sm md:text-base ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                How to use:
+              </h3>
+              <ol className={`list-decimal list-inside space-y-2 text-xs md:text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}>
+                <li>Upload the PDF you want to protect</li>
+                <li>Choose the password needed to open it and, optionally, an owner password</li>
+                <li>Pick the encryption strength and what readers are allowed to do</li>
+                <li>Click "Protect PDF" to download the encrypted copy — keep your password safe, it cannot be recovered</li>
+              </ol>
+            </div>
+          </div>
+        </div>
+
+        {/* Quick Actions Footer */}
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleBackToHome}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-gray-400 hover:text-gray-300 hover:bg-gray-700/50"
+                : "text-gray-600 hover:text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <Home className="h-4 w-4" />
+            Back to All Tools
+          </button>
+        </div>
+      </div>
+
+      {/* Add custom animations */}
+      <style>{`
+        @keyframes fade-in {
+          from { opacity: 0; transform: translateY(-10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .animate-fade-in {
+          animation: fade-in 0.3s ease-out;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default ProtectPdf;
@@ -0,0 +1,460 @@
+import React, { useState, useRef, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Upload,
+  Download,
+  RotateCw,
+  RotateCcw,
+  CheckCircle,
+  AlertCircle,
+  Home,
+  ArrowLeft,
+  Undo2
+} from "lucide-react";
+import { API_BASE_URL } from "../../../utils/api";
+import { usePdfThumbnails } from "../../../hooks/usePdfThumbnails";
+
+type PageFilter = "all" | "odd" | "even";
+
+const RotatePdf: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  // Clockwise rotation added to each page, in degrees (multiples of 90)
+  const [rotations, setRotations] = useState<number[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { thumbnails, pageCount, loading: thumbnailsLoading, error: thumbnailsError } = usePdfThumbnails(selectedFile, 200);
+
+  useEffect(() => {
+    setRotations(new Array(pageCount).fill(0));
+  }, [pageCount]);
+
+  const selectFile = (file: File) => {
+    setError(null);
+    setSuccess(null);
+    if (file.type === "application/pdf") {
+      setSelectedFile(file);
+      setFileName(file.name);
+    } else {
+      setError("Please upload a PDF file only.");
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      selectFile(e.target.files[0]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      selectFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const rotatePage = (index: number, delta: number) => {
+    setRotations(prev => prev.map((r, i) => (i === index ? (r + delta + 360) % 360 : r)));
+    setSuccess(null);
+  };
+
+  const rotatePages = (filter: PageFilter, delta: number) => {
+    setRotations(prev =>
+      prev.map((r, i) => {
+        const page = i + 1;
+        const matches = filter === "all" || (filter === "odd" ? page % 2 === 1 : page % 2 === 0);
+        return matches ? (r + delta + 360) % 360 : r;
+      })
+    );
+    setSuccess(null);
+  };
+
+  const resetRotations = () => {
+    setRotations(new Array(pageCount).fill(0));
+    setSuccess(null);
+  };
+
+  const hasChanges = rotations.some(r => r !== 0);
+
+  const handleRotate = async () => {
+    if (!selectedFile) {
+      setError("Please select a PDF file.");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+      formData.append("rotations", JSON.stringify(rotations));
+
+      const response = await fetch(`${API_BASE_URL}/rotate`, {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Failed to rotate PDF");
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `rotated-${fileName.replace('.pdf', '') || "document"}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+
+      setSuccess("PDF successfully rotated and downloaded!");
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error && err.message ? err.message : "Something went wrong while processing the PDF");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = () => {
+    setSelectedFile(null);
+    setFileName("");
+    setRotations([]);
+    setError(null);
+    setSuccess(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleBackToHome = () => {
+    navigate("/");
+  };
+
+  const bulkActions: { filter: PageFilter; label: string }[] = [
+    { filter: "all", label: "All" },
+    { filter: "odd", label: "Odd" },
+    { filter: "even", label: "Even" },
+  ];
+
+  return (
+    <div className={`min-h-screen py-8 px-4 transition-colors duration-300 ${
+      darkMode ? "bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900" : "bg-gradient-to-br from-blue-50 via-white to-gray-100"
+    }`}>
+      <div className="max-w-6xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={handleBackToHome}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-blue-400 hover:text-blue-300 hover:bg-blue-400/10"
+                : "text-blue-600 hover:text-blue-700 hover:bg-blue-100"
+            }`}
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span className="hidden sm:inline">Back to Home</span>
+            <span className="sm:hidden">Home</span>
+          </button>
+
+          <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+            darkMode ? "bg-blue-900/30 text-blue-300" : "bg-blue-100 text-blue-700"
+          }`}>
+            PDF Tool
+          </div>
+        </div>
+
+        {/* Main Card */}
+        <div className={`rounded-3xl shadow-2xl overflow-hidden ${
+          darkMode ? "bg-gray-800/80 backdrop-blur-sm" : "bg-white/80 backdrop-blur-sm"
+        }`}>
+          <div className="p-6 md:p-8">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center mb-4">
+                <div className={`p-3 rounded-2xl ${
+                  darkMode ? "bg-gradient-to-br from-blue-600/20 to-teal-600/20" : "bg-gradient-to-br from-blue-100 to-teal-100"
+                }`}>
+                  <RotateCw className={`h-8 w-8 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                </div>
+              </div>
+              <h1 className={`text-3xl md:text-4xl font-bold mb-3 bg-gradient-to-r ${
+                darkMode ? "from-blue-400 to-teal-400" : "from-blue-600 to-teal-600"
+              } bg-clip-text text-transparent`}>
+                Rotate PDF
+              </h1>
+              <p className={`text-base md:text-lg ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
+                Rotate individual pages or the whole document without losing quality
+              </p>
+            </div>
+
+            {/* Upload Area */}
+            <div className="mb-6 md:mb-8">
+              <div
+                className={`border-2 border-dashed rounded-2xl p-6 md:p-8 text-center cursor-pointer transition-all duration-300 group ${
+                  darkMode
+                    ? "border-gray-600 hover:border-blue-400 hover:bg-blue-400/5"
+                    : "border-gray-300 hover:border-blue-500 hover:bg-blue-500/5"
+                } ${selectedFile ? "border-green-400 bg-green-400/5" : ""}`}
+                onClick={() => fileInputRef.current?.click()}
+                onDrop={handleDrop}
+                onDragOver={handleDragOver}
+              >
+                <input
+                  type="file"
+                  accept="application/pdf"
+                  ref={fileInputRef}
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+
+                <div className="flex flex-col items-center justify-center">
+                  {selectedFile ? (
+                    <>
+                      <CheckCircle className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${darkMode ? "text-green-400" : "text-green-600"}`} />
+                      <h3 className="text-lg md:text-xl font-semibold mb-2">File Selected</h3>
+                      <p className={`font-mono text-sm truncate max-w-full ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                        {fileName}
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <Upload className={`h-12 w-12 md:h-16 md:w-16 mb-4 ${
+                        darkMode ? "text-blue-400" : "text-blue-600"
+                      } group-hover:scale-110 transition-transform`} />
+                      <h3 className="text-lg md:text-xl font-semibold mb-2">Upload PDF File</h3>
+                      <p className={`text-sm md:text-base ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                        Click to browse or drag & drop your PDF here
+                      </p>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Page Grid */}
+            {selectedFile && (
+              <div className={`rounded-xl shadow-lg p-6 mb-8 ${darkMode ? "bg-gray-700/50" : "bg-white"}`}>
+                <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4 mb-6">
+                  <h2 className={`text-2xl font-semibold ${darkMode ? "text-blue-400" : "text-blue-600"}`}>
+                    Pages {pageCount > 0 && `(${pageCount})`}
+                  </h2>
+                  <div className="flex flex-wrap gap-2">
+                    {bulkActions.map(({ filter, label }) => (
+                      <div
+                        key={filter}
+                        className={`flex items-center rounded-lg border-2 ${
+                          darkMode ? "border-gray-500" : "border-gray-300"
+                        }`}
+                      >
+                        <button
+                          onClick={() => rotatePages(filter, -90)}
+                          disabled={pageCount === 0}
+                          title={`Rotate ${label.toLowerCase()} pages left`}
+                          className={`p-2 disabled:opacity-50 ${darkMode ? "hover:bg-gray-600" : "hover:bg-gray-100"}`}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </button>
+                        <span className="px-2 text-sm font-medium">{label}</span>
+                        <button
+                          onClick={() => rotatePages(filter, 90)}
+                          disabled={pageCount === 0}
+                          title={`Rotate ${label.toLowerCase()} pages right`}
+                          className={`p-2 disabled:opacity-50 ${darkMode ? "hover:bg-gray-600" : "hover:bg-gray-100"}`}
+                        >
+                          <RotateCw className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={resetRotations}
+                      disabled={!hasChanges}
+                      className={`px-3 py-2 border-2 rounded-lg text-sm font-medium flex items-center transition-all duration-300 disabled:opacity-50 ${
+                        darkMode
+                          ? "border-gray-400 text-gray-400 hover:bg-gray-400/10"
+                          : "border-gray-600 text-gray-600 hover:bg-gray-600/10"
+                      }`}
+                    >
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Undo All
+                    </button>
+                  </div>
+                </div>
+
+                {thumbnailsError && (
+                  <p className={`text-sm mb-4 ${darkMode ? "text-red-400" : "text-red-600"}`}>{thumbnailsError}</p>
+                )}
+                {thumbnailsLoading && pageCount === 0 && (
+                  <p className={`text-sm text-center py-6 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                    Rendering page previews...
+                  </p>
+                )}
+
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+                  {rotations.map((rotation, index) => (
+                    <div
+                      key={index}
+                      className={`rounded-lg overflow-hidden shadow-md border-2 transition-all duration-300 ${
+                        rotation !== 0
+                          ? "border-blue-500"
+                          : darkMode ? "border-gray-600" : "border-gray-200"
+                      } ${darkMode ? "bg-gray-600" : "bg-white"}`}
+                    >
+                      <div className="h-48 flex items-center justify-center bg-gray-100 dark:bg-gray-600 overflow-hidden">
+                        {thumbnails[index] ? (
+                          <img
+                            src={thumbnails[index]}
+                            alt={`Page ${index + 1}`}
+                            className="max-h-40 max-w-[10rem] object-contain shadow transition-transform duration-300"
+                            style={{ transform: `rotate(${rotation}deg)` }}
+                          />
+                        ) : (
+                          <div className={`w-28 h-40 animate-pulse ${darkMode ? "bg-gray-500" : "bg-gray-200"}`} />
+                        )}
+                      </div>
+                      <div className={`flex items-center justify-between p-2 border-t ${
+                        darkMode ? "border-gray-500" : "border-gray-200"
+                      }`}>
+                        <button
+                          onClick={() => rotatePage(index, -90)}
+                          title="Rotate left"
+                          className={`p-1.5 rounded ${darkMode ? "hover:bg-gray-500" : "hover:bg-gray-100"}`}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </button>
+                        <span className={`text-sm font-medium ${darkMode ? "text-gray-200" : "text-gray-800"}`}>
+                          {index + 1}
+                          {rotation !== 0 && <span className="text-xs text-blue-500 ml-1">{rotation}°</span>}
+                        </span>
+                        <button
+                          onClick={() => rotatePage(index, 90)}
+                          title="Rotate right"
+                          className={`p-1.5 rounded ${darkMode ? "hover:bg-gray-500" : "hover:bg-gray-100"}`}
+                        >
+                          <RotateCw className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            <div className="flex flex-col sm:flex-row gap-3 md:gap-4 mb-6">
+              <button
+                onClick={handleRotate}
+                disabled={loading || !selectedFile || !hasChanges}
+                className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  darkMode
+                    ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                    : "bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                }`}
+              >
+                {loading ? (
+                  <>
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                    <span>Processing...</span>
+                  </>
+                ) : (
+                  <>
+                    <Download className="h-5 w-5" />
+                    <span>Apply & Download</span>
+                  </>
+                )}
+              </button>
+
+              <button
+                onClick={handleReset}
+                disabled={loading}
+                className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                  darkMode
+                    ? "border-gray-600 text-gray-300 hover:bg-gray-700/50 hover:border-gray-500 hover:scale-105"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-gray-400 hover:scale-105"
+                }`}
+              >
+                <RotateCw className="h-5 w-5" />
+                <span>Reset</span>
+              </button>
+            </div>
+
+            {/* Status Messages */}
+            {error && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-red-900/20 border-red-500 text-red-400" : "bg-red-50 border-red-500 text-red-700"
+              }`}>
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {success && (
+              <div className={`p-4 rounded-xl border-l-4 flex items-center gap-3 mb-4 animate-fade-in ${
+                darkMode ? "bg-green-900/20 border-green-500 text-green-400" : "bg-green-50 border-green-500 text-green-700"
+              }`}>
+                <CheckCircle className="h-5 w-5 flex-shrink-0" />
+                <p className="text-sm">{success}</p>
+              </div>
+            )}
+
+            {/* Instructions */}
+            <div className={`mt-6 p-4 md:p-6 rounded-2xl ${
+              darkMode ? "bg-gray-700/30" : "bg-white/50"
+            }`}>
+              <h3 className={`font-semibold mb-3 text-sm md:text-base ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                How to use:
+              </h3>
+              <ol className={`list-decimal list-inside space-y-2 text-xs md:text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}>
+                <li>Upload your PDF file</li>
+                <li>Rotate single pages with the arrows under each preview, or all / odd / even pages at once</li>
+                <li>Click "Apply & Download" — pages are rotated losslessly, text stays selectable</li>
+              </ol>
+            </div>
+          </div>
+        </div>
+
+        {/* Quick Actions Footer */}
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleBackToHome}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-300 ${
+              darkMode
+                ? "text-gray-400 hover:text-gray-300 hover:bg-gray-700/50"
+                : "text-gray-600 hover:text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <Home className="h-4 w-4" />
+            Back to All Tools
+          </button>
+        </div>
+      </div>
+
+      {/* Add custom animations */}
+      <style>{`
+        @keyframes fade-in {
+          from { opacity: 0; transform: translateY(-10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .animate-fade-in {
+          animation: fade-in 0.3s ease-out;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default RotatePdf;
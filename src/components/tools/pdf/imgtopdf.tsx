@@ -5,7 +5,6 @@ import {
   Download,
   Trash2,
   GripVertical,
-  RotateCw,
   Image as ImageIcon,
   Settings,
   CheckCircle,
@@ -19,18 +18,105 @@ import {
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 
+type Orientation = 'portrait' | 'landscape';
+type PageSizeId = 'a3' | 'a4' | 'a5' | 'letter' | 'legal' | 'custom' | 'image';
+type FitMode = 'fit' | 'fill' | 'stretch' | 'original';
+
 interface ImageData {
   file: File;
   url: string;
   id: string;
+  width: number;
+  height: number;
+  /** Overrides the page orientation of the settings for this image */
+  orientation?: Orientation;
 }
 
 interface PageSettings {
-  orientation: 'portrait' | 'landscape';
+  pageSize: PageSizeId;
+  /** Portrait size in mm, used by the custom page size */
+  customWidth: number;
+  customHeight: number;
+  /** 'auto' turns the page to match each image */
+  orientation: Orientation | 'auto';
+  fitMode: FitMode;
+  background: string;
   margin: number;
   quality: number;
 }
 
+// Portrait sizes in mm
+const PAGE_SIZES: { id: PageSizeId; label: string; width?: number; height?: number }[] = [
+  { id: 'a4', label: 'A4 (210 × 297 mm)', width: 210, height: 297 },
+  { id: 'a3', label: 'A3 (297 × 420 mm)', width: 297, height: 420 },
+  { id: 'a5', label: 'A5 (148 × 210 mm)', width: 148, height: 210 },
+  { id: 'letter', label: 'Letter (8.5 × 11 in)', width: 215.9, height: 279.4 },
+  { id: 'legal', label: 'Legal (8.5 × 14 in)', width: 215.9, height: 355.6 },
+  { id: 'custom', label: 'Custom size' },
+  { id: 'image', label: 'Match each image' },
+];
+
+const FIT_MODES: { id: FitMode; label: string; description: string }[] = [
+  { id: 'fit', label: 'Fit', description: 'Whole image, letterboxed' },
+  { id: 'fill', label: 'Fill', description: 'Covers the page, edges cropped' },
+  { id: 'stretch', label: 'Stretch', description: 'Covers the page, distorted' },
+  { id: 'original', label: 'Original size', description: 'At 96 DPI, cropped if larger' },
+];
+
+const MIN_CUSTOM_MM = 10;
+// jsPDF pages can't be larger than 14400 pt
+const MAX_CUSTOM_MM = 5080;
+// Image pixels are placed as CSS pixels, 96 per inch
+const MM_PER_PX = 25.4 / 96;
+
+const loadImageElement = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not load image"));
+    image.src = url;
+  });
+
+const imageOrientation = (img: ImageData, settings: PageSettings): Orientation => {
+  if (img.orientation) return img.orientation;
+  if (settings.orientation !== 'auto') return settings.orientation;
+  return img.width > img.height ? 'landscape' : 'portrait';
+};
+
+// Page size in mm for one image, turned to its orientation
+const pageSizeFor = (img: ImageData, settings: PageSettings): [number, number] => {
+  if (settings.pageSize === 'image') {
+    return [
+      img.width * MM_PER_PX + settings.margin * 2,
+      img.height * MM_PER_PX + settings.margin * 2
+    ];
+  }
+  const preset = PAGE_SIZES.find(size => size.id === settings.pageSize);
+  const width = preset?.width ?? settings.customWidth;
+  const height = preset?.height ?? settings.customHeight;
+  const [short, long] = width < height ? [width, height] : [height, width];
+  return imageOrientation(img, settings) === 'landscape' ? [long, short] : [short, long];
+};
+
+// Where the image goes in the area inside the margins; it may overflow the area for fill and original size
+const placeImage = (img: ImageData, area: { x: number; y: number; width: number; height: number }, fitMode: FitMode) => {
+  if (fitMode === 'stretch') return area;
+
+  const scale = fitMode === 'original'
+    ? MM_PER_PX
+    : fitMode === 'fill'
+      ? Math.max(area.width / img.width, area.height / img.height)
+      : Math.min(area.width / img.width, area.height / img.height);
+  const width = img.width * scale;
+  const height = img.height * scale;
+  return {
+    x: area.x + (area.width - width) / 2,
+    y: area.y + (area.height - height) / 2,
+    width,
+    height
+  };
+};
+
 const ImgToPdf: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [selectedImages, setSelectedImages] = useState<ImageData[]>([]);
@@ -38,7 +124,12 @@ const ImgToPdf: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
   const [loading, setLoading] = useState(false);
   const [draggedImage, setDraggedImage] = useState<string | null>(null);
   const [pageSettings, setPageSettings] = useState<PageSettings>({
-    orientation: 'portrait',
+    pageSize: 'a4',
+    customWidth: 210,
+    customHeight: 297,
+    orientation: 'auto',
+    fitMode: 'fit',
+    background: '#ffffff',
     margin: 10,
     quality: 100
   });
@@ -49,8 +140,8 @@ const ImgToPdf: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
   // Generate unique ID for images
   const generateId = () => Math.random().toString(36).substr(2, 9);
 
-  // Handle uploaded files
-  const handleFiles = (files: FileList | null) => {
+  // Handle uploaded files; their sizes are read up front for auto orientation
+  const handleFiles = async (files: FileList | null) => {
     if (!files) return;
     
     const validImages = Array.from(files).filter((file) =>
@@ -67,14 +158,23 @@ const ImgToPdf: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
       return;
     }
 
-    const imageData: ImageData[] = validImages.map((file) => ({
-      file,
-      url: URL.createObjectURL(file),
-      id: generateId()
+    const loaded = await Promise.all(validImages.map(async (file): Promise<ImageData | null> => {
+      const url = URL.createObjectURL(file);
+      try {
+        const image = await loadImageElement(url);
+        return { file, url, id: generateId(), width: image.naturalWidth, height: image.naturalHeight };
+      } catch {
+        URL.revokeObjectURL(url);
+        return null;
+      }
     }));
+    const imageData = loaded.filter((img): img is ImageData => img !== null);
+    const skipped = loaded.length - imageData.length;
 
     setSelectedImages((prev) => [...prev, ...imageData]);
-    setStatus({ message: `${imageData.length} image(s) added`, type: "success" });
+    setStatus(skipped > 0
+      ? { message: `${imageData.length} image(s) added, ${skipped} could not be read`, type: imageData.length > 0 ? "info" : "error" }
+      : { message: `${imageData.length} image(s) added`, type: "success" });
   };
 
   // Drag and drop for file upload
@@ -136,6 +236,10 @@ const ImgToPdf: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
     setStatus({ message: "All images cleared", type: "success" });
   };
 
+  const setImageOrientation = (id: string, orientation?: Orientation) => {
+    setSelectedImages((prev) => prev.map(img => img.id === id ? { ...img, orientation } : img));
+  };
+
   // Move image up/down
   const moveImage = (index: number, direction: 'up' | 'down') => {
     if ((direction === 'up' && index === 0) || (direction === 'down' && index === selectedImages.length - 1)) {
@@ -156,51 +260,53 @@ const ImgToPdf: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
       setStatus({ message: "No images selected", type: "error" });
       return;
     }
+    if (pageSettings.pageSize === 'custom' && [pageSettings.customWidth, pageSettings.customHeight].some(
+      (size) => !(size >= MIN_CUSTOM_MM && size <= MAX_CUSTOM_MM)
+    )) {
+      setStatus({ message: `Custom page sizes must be between ${MIN_CUSTOM_MM} and ${MAX_CUSTOM_MM} mm`, type: "error" });
+      return;
+    }
 
     setLoading(true);
     setStatus({ message: "Generating PDF...", type: "info" });
 
     try {
-      const pdf = new jsPDF({
-        orientation: pageSettings.orientation,
-        unit: 'mm',
-        format: 'a4'
-      });
-
-      for (let i = 0; i < selectedImages.length; i++) {
-        if (i > 0) pdf.addPage();
-
-        const img = selectedImages[i];
-        const imgElement = new Image();
-        imgElement.src = img.url;
-
-        await new Promise<void>((resolve) => {
-          imgElement.onload = () => {
-            const pdfWidth = pdf.internal.pageSize.getWidth();
-            const pdfHeight = pdf.internal.pageSize.getHeight();
-
-            let width = imgElement.width;
-            let height = imgElement.height;
-
-            // Calculate available space considering margins
-            const availableWidth = pdfWidth - (pageSettings.margin * 2);
-            const availableHeight = pdfHeight - (pageSettings.margin * 2);
-
-            // Scale to fit available space while maintaining aspect ratio
-            const ratio = Math.min(availableWidth / width, availableHeight / height);
-            width *= ratio;
-            height *= ratio;
-
-            const x = (pdfWidth - width) / 2;
-            const y = (pdfHeight - height) / 2;
-
-            const format = img.file.type === "image/png" ? "PNG" : "JPEG";
-            pdf.addImage(imgElement, format, x, y, width, height, '', 'FAST');
-            resolve();
-          };
-        });
+      let pdf: jsPDF | null = null;
+
+      for (const img of selectedImages) {
+        const [pageWidth, pageHeight] = pageSizeFor(img, pageSettings);
+        const orientation = pageWidth > pageHeight ? 'landscape' : 'portrait';
+        if (pdf) {
+          pdf.addPage([pageWidth, pageHeight], orientation);
+        } else {
+          pdf = new jsPDF({ orientation, unit: 'mm', format: [pageWidth, pageHeight] });
+        }
+
+        if (pageSettings.background.toLowerCase() !== '#ffffff') {
+          pdf.setFillColor(pageSettings.background);
+          pdf.rect(0, 0, pageWidth, pageHeight, 'F');
+        }
+
+        const area = {
+          x: pageSettings.margin,
+          y: pageSettings.margin,
+          width: Math.max(1, pageWidth - pageSettings.margin * 2),
+          height: Math.max(1, pageHeight - pageSettings.margin * 2)
+        };
+        const placed = placeImage(img, area, pageSettings.pageSize === 'image' ? 'stretch' : pageSettings.fitMode);
+        const imgElement = await loadImageElement(img.url);
+        const format = img.file.type === "image/png" ? "PNG" : "JPEG";
+
+        // Keep overflowing images inside the margins
+        pdf.saveGraphicsState();
+        pdf.rect(area.x, area.y, area.width, area.height, null);
+        pdf.clip();
+        pdf.discardPath();
+        pdf.addImage(imgElement, format, placed.x, placed.y, placed.width, placed.height, '', 'FAST');
+        pdf.restoreGraphicsState();
       }
 
+      if (!pdf) return;
       pdf.save(`images-${new Date().getTime()}.pdf`);
       setStatus({ message: `PDF generated with ${selectedImages.length} image(s)`, type: "success" });
     } catch (error) {
@@ -215,6 +321,12 @@ const ImgToPdf: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
     navigate("/");
   };
 
+  const selectClass = `w-full p-2 border rounded-lg ${
+    darkMode 
+      ? "bg-gray-600 border-gray-500 text-white" 
+      : "bg-white border-gray-300"
+  }`;
+
   return (
     <div className={`min-h-screen py-8 px-4 transition-colors duration-300 ${
       darkMode ? "bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900" : "bg-gradient-to-br from-blue-50 via-white to-gray-100"
@@ -365,6 +477,23 @@ const ImgToPdf: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
                       PDF Settings
                     </h3>
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <label className={`block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                          Page Size
+                        </label>
+                        <select
+                          value={pageSettings.pageSize}
+                          onChange={(e) => setPageSettings(prev => ({
+                            ...prev,
+                            pageSize: e.target.value as PageSizeId
+                          }))}
+                          className={selectClass}
+                        >
+                          {PAGE_SIZES.map(size => (
+                            <option key={size.id} value={size.id}>{size.label}</option>
+                          ))}
+                        </select>
+                      </div>
                       <div>
                         <label className={`block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
                           Orientation
@@ -373,18 +502,99 @@ const ImgToPdf: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
                           value={pageSettings.orientation}
                           onChange={(e) => setPageSettings(prev => ({
                             ...prev,
-                            orientation: e.target.value as 'portrait' | 'landscape'
+                            orientation: e.target.value as Orientation | 'auto'
                           }))}
-                          className={`w-full p-2 border rounded-lg ${
-                            darkMode 
-                              ? "bg-gray-600 border-gray-500 text-white" 
-                              : "bg-white border-gray-300"
-                          }`}
+                          disabled={pageSettings.pageSize === 'image'}
+                          className={`${selectClass} disabled:opacity-50`}
                         >
+                          <option value="auto">Auto (match each image)</option>
                           <option value="portrait">Portrait</option>
                           <option value="landscape">Landscape</option>
                         </select>
                       </div>
+                      <div>
+                        <label className={`block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                          Background
+                        </label>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="color"
+                            value={pageSettings.background}
+                            onChange={(e) => setPageSettings(prev => ({
+                              ...prev,
+                              background: e.target.value
+                            }))}
+                            className="h-10 w-14 rounded cursor-pointer"
+                          />
+                          <span className="text-sm">{pageSettings.background}</span>
+                        </div>
+                      </div>
+                      {pageSettings.pageSize === 'custom' && (
+                        <>
+                          <div>
+                            <label className={`block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                              Width (mm)
+                            </label>
+                            <input
+                              type="number"
+                              min={MIN_CUSTOM_MM}
+                              max={MAX_CUSTOM_MM}
+                              value={pageSettings.customWidth}
+                              onChange={(e) => setPageSettings(prev => ({
+                                ...prev,
+                                customWidth: Number(e.target.value)
+                              }))}
+                              className={selectClass}
+                            />
+                          </div>
+                          <div>
+                            <label className={`block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                              Height (mm)
+                            </label>
+                            <input
+                              type="number"
+                              min={MIN_CUSTOM_MM}
+                              max={MAX_CUSTOM_MM}
+                              value={pageSettings.customHeight}
+                              onChange={(e) => setPageSettings(prev => ({
+                                ...prev,
+                                customHeight: Number(e.target.value)
+                              }))}
+                              className={selectClass}
+                            />
+                          </div>
+                          <div />
+                        </>
+                      )}
+                      {pageSettings.pageSize !== 'image' && (
+                        <div className="md:col-span-3">
+                          <label className={`block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                            Image Placement
+                          </label>
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                            {FIT_MODES.map(mode => (
+                              <button
+                                key={mode.id}
+                                onClick={() => setPageSettings(prev => ({ ...prev, fitMode: mode.id }))}
+                                className={`p-2 rounded-lg border-2 text-left transition-all duration-300 ${
+                                  pageSettings.fitMode === mode.id
+                                    ? darkMode
+                                      ? "border-blue-400 bg-blue-400/10"
+                                      : "border-blue-500 bg-blue-50"
+                                    : darkMode
+                                      ? "border-gray-500 hover:border-gray-400"
+                                      : "border-gray-300 hover:border-gray-400"
+                                }`}
+                              >
+                                <span className="block text-sm font-semibold">{mode.label}</span>
+                                <span className={`block text-xs ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                                  {mode.description}
+                                </span>
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                       <div>
                         <label className={`block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
                           Margin (mm)
@@ -485,6 +695,19 @@ const ImgToPdf: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
                         className="w-full h-32 object-contain rounded"
                         style={{ transform: `scale(${zoomLevel})` }}
                       />
+                      {pageSettings.pageSize !== 'image' && (
+                        <select
+                          value={img.orientation ?? ''}
+                          onChange={(e) => setImageOrientation(img.id, (e.target.value || undefined) as Orientation | undefined)}
+                          className={`${selectClass} mt-2 text-xs`}
+                        >
+                          <option value="">
+                            Default ({pageSettings.orientation === 'auto' ? `auto: ${imageOrientation({ ...img, orientation: undefined }, pageSettings)}` : pageSettings.orientation})
+                          </option>
+                          <option value="portrait">Portrait page</option>
+                          <option value="landscape">Landscape page</option>
+                        </select>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -597,7 +820,7 @@ const ImgToPdf: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
                 </div>
                 <h3 className="font-semibold mb-1 text-sm md:text-base">Customizable</h3>
                 <p className={`text-xs md:text-sm ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
-                  Page settings
+                  Page size, fit & background
                 </p>
               </div>
 
@@ -1,10 +1,25 @@
-import React, { useState, useRef } from "react";
-import { Scissors, Upload, Download, RotateCw, FileText, AlertCircle, CheckCircle, Home, ArrowLeft } from "lucide-react";
+import React, { useState, useRef, useMemo } from "react";
+import { Scissors, Upload, Download, RotateCw, FileText, AlertCircle, CheckCircle, Home, ArrowLeft, Files, Layers, Copy } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { API_BASE_URL } from "../../../utils/api";
+import { findInvalidPageTokens, formatPageRanges, parsePageRanges } from "../../../utils/pageRanges";
+import { usePdfThumbnails } from "../../../hooks/usePdfThumbnails";
+import PageThumbnailPicker from "./PageThumbnailPicker";
+
+type SplitMode = "extract" | "burst" | "every" | "groups";
+
+const splitModes: { id: SplitMode; label: string; description: string; icon: typeof Scissors }[] = [
+  { id: "extract", label: "Extract Pages", description: "One PDF with the selected pages", icon: Scissors },
+  { id: "burst", label: "One File per Page", description: "Every page becomes its own PDF", icon: Copy },
+  { id: "every", label: "Every N Pages", description: "Fixed-size chunks", icon: Layers },
+  { id: "groups", label: "Custom Groups", description: "e.g. 1-3;4-9;10-", icon: Files },
+];
 
 const PdfSplit: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [pages, setPages] = useState<string>("");
+  const [splitMode, setSplitMode] = useState<SplitMode>("extract");
+  const [chunkSize, setChunkSize] = useState<number>(1);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -12,6 +27,18 @@ const PdfSplit: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
   const navigate = useNavigate();
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { thumbnails, pageCount, loading: thumbnailsLoading, error: thumbnailsError } = usePdfThumbnails(selectedFile);
+
+  // The range text is the source of truth; the thumbnail selection is derived from it
+  const selectedPages = useMemo(
+    () => new Set(pageCount > 0 ? parsePageRanges(pages, pageCount).pages : []),
+    [pages, pageCount]
+  );
+
+  const handleThumbnailSelection = (selection: Set<number>) => {
+    setPages(formatPageRanges(selection));
+    setError(null);
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setError(null);
@@ -32,20 +59,36 @@ const PdfSplit: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
     setError(null);
   };
 
+  // Burst mode works on all pages unless a selection is given; "every" ignores pages
+  const pagesRequired = splitMode === "extract" || splitMode === "groups";
+
   const handleSplit = async () => {
     if (!selectedFile) {
       setError("Please select a PDF file.");
       return;
     }
-    if (!pages.trim()) {
-      setError("Please enter pages to extract (comma-separated or ranges like 1-5).");
+    if (pagesRequired && !pages.trim()) {
+      setError(
+        splitMode === "groups"
+          ? "Please enter page groups separated by semicolons (e.g., 1-3;4-9;10-)."
+          : "Please enter pages to extract (comma-separated or ranges like 1-5)."
+      );
+      return;
+    }
+    if (splitMode === "every" && (!Number.isInteger(chunkSize) || chunkSize < 1)) {
+      setError("Please enter how many pages each file should contain.");
       return;
     }
 
     // Validate page format
-    const pageRegex = /^(\d+(-\d+)?)(,\s*\d+(-\d+)?)*$/;
-    if (!pageRegex.test(pages.replace(/\s/g, ''))) {
-      setError("Invalid page format. Use commas for separate pages and hyphens for ranges (e.g., 1,3-5,8).");
+    const invalidTokens = splitMode === "every"
+      ? []
+      : pages.split(";").flatMap(group => findInvalidPageTokens(group));
+    if (splitMode !== "groups" && pages.includes(";")) {
+      invalidTokens.push(";");
+    }
+    if (invalidTokens.length > 0) {
+      setError(`Invalid page format: ${invalidTokens.join(", ")}. Use e.g. 1,3-5,8, 5-, last-2, odd or 1-20,!7.`);
       return;
     }
 
@@ -56,26 +99,36 @@ const PdfSplit: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
     try {
       const formData = new FormData();
       formData.append("file", selectedFile);
-      formData.append("pages", pages);
+      formData.append("mode", splitMode);
+      if (splitMode === "every") {
+        formData.append("size", String(chunkSize));
+      } else if (pages.trim()) {
+        formData.append("pages", pages);
+      }
 
-      const response = await fetch("https://sharp-tools-react.onrender.com/split", {
+      const response = await fetch(`${API_BASE_URL}/split`, {
         method: "POST",
         body: formData,
       });
 
-      if (!response.ok) throw new Error("Failed to split PDF");
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Failed to split PDF");
+      }
 
       const blob = await response.blob();
+      const isZip = response.headers.get("Content-Type")?.includes("zip");
+      const baseName = fileName.replace('.pdf', '') || "document";
       const url = URL.createObjectURL(blob);
       const link = document.createElement("a");
       link.href = url;
-      link.download = `split-${fileName.replace('.pdf', '') || "document"}.pdf`;
+      link.download = isZip ? `${baseName}-split.zip` : `split-${baseName}.pdf`;
       document.body.appendChild(link);
       link.click();
       link.remove();
       URL.revokeObjectURL(url);
 
-      setSuccess("PDF successfully split and downloaded!");
+      setSuccess(isZip ? "PDF split into multiple files and downloaded as ZIP!" : "PDF successfully split and downloaded!");
     } catch (err: any) {
       console.error(err);
       setError(err.message || "Something went wrong while processing the PDF");
@@ -87,6 +140,8 @@ const PdfSplit: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
   const handleReset = () => {
     setSelectedFile(null);
     setPages("");
+    setSplitMode("extract");
+    setChunkSize(1);
     setError(null);
     setSuccess(null);
     setFileName("");
@@ -223,37 +278,118 @@ const PdfSplit: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
               </div>
             </div>
 
-            {/* Pages Input */}
+            {/* Split Mode */}
             <div className="mb-6 md:mb-8">
               <label className={`block text-sm font-medium mb-3 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
-                Pages to Extract
+                Split Mode
               </label>
-              <div className="relative">
-                <FileText className={`absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 ${
-                  darkMode ? "text-gray-400" : "text-gray-500"
-                }`} />
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {splitModes.map(({ id, label, description, icon: Icon }) => (
+                  <button
+                    key={id}
+                    onClick={() => { setSplitMode(id); setError(null); }}
+                    className={`p-3 rounded-xl border-2 text-left transition-all duration-300 ${
+                      splitMode === id
+                        ? darkMode
+                          ? "border-blue-400 bg-blue-400/10"
+                          : "border-blue-500 bg-blue-50"
+                        : darkMode
+                          ? "border-gray-600 hover:border-gray-500"
+                          : "border-gray-200 hover:border-gray-300"
+                    }`}
+                  >
+                    <Icon className={`h-5 w-5 mb-2 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
+                    <div className="font-semibold text-sm">{label}</div>
+                    <div className={`text-xs ${darkMode ? "text-gray-400" : "text-gray-500"}`}>{description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Chunk Size Input */}
+            {splitMode === "every" && (
+              <div className="mb-6 md:mb-8">
+                <label className={`block text-sm font-medium mb-3 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                  Pages per File
+                </label>
                 <input
-                  type="text"
-                  placeholder="e.g., 1,3,5 or 1-5 or 1,3-5,8"
-                  value={pages}
-                  onChange={handlePagesChange}
-                  className={`w-full pl-10 pr-4 py-3 border rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all ${
+                  type="number"
+                  min={1}
+                  value={chunkSize}
+                  onChange={(e) => { setChunkSize(parseInt(e.target.value, 10) || 0); setError(null); }}
+                  className={`w-full px-4 py-3 border rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all ${
                     darkMode 
                       ? "bg-gray-700/50 border-gray-600 text-white placeholder-gray-400" 
                       : "bg-white border-gray-300 text-gray-900 placeholder-gray-500"
                   }`}
                 />
+                <p className={`text-xs mt-2 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                  The PDF is cut into files of this many pages; the last file may be shorter
+                </p>
               </div>
-              <p className={`text-xs mt-2 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
-                Enter page numbers separated by commas, or ranges using hyphens (e.g., 1,3-5,8)
-              </p>
-            </div>
+            )}
+
+            {/* Pages Input */}
+            {splitMode !== "every" && (
+              <div className="mb-6 md:mb-8">
+                <label className={`block text-sm font-medium mb-3 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                  {splitMode === "groups" ? "Page Groups" : splitMode === "burst" ? "Pages to Split (optional)" : "Pages to Extract"}
+                </label>
+                <div className="relative">
+                  <FileText className={`absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 ${
+                    darkMode ? "text-gray-400" : "text-gray-500"
+                  }`} />
+                  <input
+                    type="text"
+                    placeholder={
+                      splitMode === "groups"
+                        ? "e.g., 1-3;4-9;10-"
+                        : splitMode === "burst"
+                          ? "All pages"
+                          : "e.g., 1,3-5,8 or 5- or last-2 or 1-20,!7"
+                    }
+                    value={pages}
+                    onChange={handlePagesChange}
+                    className={`w-full pl-10 pr-4 py-3 border rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all ${
+                      darkMode 
+                        ? "bg-gray-700/50 border-gray-600 text-white placeholder-gray-400" 
+                        : "bg-white border-gray-300 text-gray-900 placeholder-gray-500"
+                    }`}
+                  />
+                </div>
+                <p className={`text-xs mt-2 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                  {splitMode === "groups" && "Separate output files with semicolons. "}
+                  Separate pages with commas. Use ranges (3-5, 10-1), open ends (5-), "last"/"last-2", "odd"/"even" and "!" to exclude (1-20,!7)
+                </p>
+              </div>
+            )}
+
+            {/* Page Picker */}
+            {selectedFile && (splitMode === "extract" || splitMode === "burst") && (
+              <div className="mb-6 md:mb-8">
+                <label className={`block text-sm font-medium mb-3 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                  Select Pages Visually
+                </label>
+                {thumbnailsError ? (
+                  <p className={`text-sm ${darkMode ? "text-red-400" : "text-red-600"}`}>{thumbnailsError}</p>
+                ) : (
+                  <PageThumbnailPicker
+                    thumbnails={thumbnails}
+                    pageCount={pageCount}
+                    loading={thumbnailsLoading}
+                    selected={selectedPages}
+                    onChange={handleThumbnailSelection}
+                    darkMode={darkMode}
+                  />
+                )}
+              </div>
+            )}
 
             {/* Action Buttons */}
             <div className="flex flex-col sm:flex-row gap-3 md:gap-4 mb-6">
               <button
                 onClick={handleSplit}
-                disabled={loading || !selectedFile || !pages.trim()}
+                disabled={loading || !selectedFile || (pagesRequired && !pages.trim())}
                 className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
                   darkMode
                     ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600 text-white shadow-lg hover:shadow-xl hover:scale-105"
@@ -367,9 +503,10 @@ const PdfSplit: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
                 darkMode ? "text-gray-400" : "text-gray-600"
               }`}>
                 <li>Upload your PDF file by clicking the upload area or dragging & dropping</li>
-                <li>Enter the pages you want to extract (e.g., "1,3,5" or "1-5" or "1,3-5,8")</li>
+                <li>Choose a split mode: extract pages, one file per page, every N pages or custom groups</li>
+                <li>Click, shift-click or drag over the page previews, or type the pages you want (e.g., "1,3-5,8", "5-", "last" or "1-20,!7"; groups like "1-3;4-9;10-")</li>
                 <li>Click "Split PDF" to process your document</li>
-                <li>Download your new PDF with only the selected pages</li>
+                <li>Download your new PDF, or a ZIP with one PDF per part</li>
               </ol>
             </div>
           </div>
@@ -1,4 +1,4 @@
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { 
   UploadCloud, 
@@ -8,25 +8,100 @@ import {
   ArrowLeft,
   FileText,
   Home,
+  X,
+  Server,
   Image as ImageIcon
 } from "lucide-react";
-
+import { loadPdfDocument, pdfLoadErrorMessage } from "../../../utils/pdfRender";
+import type { PdfToImagesMessage, PdfToImagesRequest } from "../../../utils/pdfToImages.worker";
+import { findInvalidPageTokens, parsePageRanges } from "../../../utils/pageRanges";
+import { formatFileSize } from "../../../utils/fileSize";
+import { API_BASE_URL } from "../../../utils/api";
+
+type PdfImageFormat = 'png' | 'jpeg' | 'webp';
+
+const imageFormats: { id: PdfImageFormat; label: string; mimeType: string; extension: string; description: string }[] = [
+  { id: 'png', label: 'PNG', mimeType: 'image/png', extension: 'png', description: 'Lossless, sharp text' },
+  { id: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', description: 'Small files for scans and photos' },
+  { id: 'webp', label: 'WebP', mimeType: 'image/webp', extension: 'webp', description: 'Smallest files, modern browsers' },
+];
+
+const DPI_PRESETS = [72, 150, 300, 600];
+const MIN_DPI = 72;
+const MAX_DPI = 600;
+// PDF sizes are in points, 72 per inch
+const POINTS_PER_INCH = 72;
+
+// Rendered pages stay Blobs; the object URLs are revoked when the pages are replaced
 interface PDFImage {
   name: string;
-  data: string;
+  blob: Blob;
+  url: string;
+  thumbnailUrl: string;
   selected: boolean;
+  pageNumber: number;
+  width: number;
+  height: number;
 }
 
+const revokeImageUrls = (images: PDFImage[]) => {
+  images.forEach(image => {
+    URL.revokeObjectURL(image.url);
+    URL.revokeObjectURL(image.thumbnailUrl);
+  });
+};
+
 const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
   const navigate = useNavigate();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [pdfImages, setPdfImages] = useState<PDFImage[]>([]);
   const [isSelectAll, setIsSelectAll] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
   const [progress, setProgress] = useState(0);
   const [statusMessage, setStatusMessage] = useState<{ text: string; type: 'success' | 'error' | 'info' } | null>(null);
   const [showPreview, setShowPreview] = useState(false);
   const [fileName, setFileName] = useState<string>('');
+  const [pdfFile, setPdfFile] = useState<File | null>(null);
+  const [pageCount, setPageCount] = useState(0);
+  const [firstPageSize, setFirstPageSize] = useState<{ width: number; height: number } | null>(null);
+  const [imageFormat, setImageFormat] = useState<PdfImageFormat>('png');
+  const [quality, setQuality] = useState(90);
+  const [dpi, setDpi] = useState(150);
+  const [pages, setPages] = useState('');
+  const [renderOnServer, setRenderOnServer] = useState(false);
+  const [isServerRendering, setIsServerRendering] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const serverRequestRef = useRef<AbortController | null>(null);
+  const imagesRef = useRef<PDFImage[]>([]);
+
+  // Stop rendering and free the page Blobs when leaving the tool
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      serverRequestRef.current?.abort();
+      revokeImageUrls(imagesRef.current);
+    };
+  }, []);
+
+  const replaceImages = (images: PDFImage[]) => {
+    revokeImageUrls(imagesRef.current);
+    imagesRef.current = images;
+    setPdfImages(images);
+  };
+
+  // The ref is read by the worker callbacks, so keep it in step with the state
+  const updateImages = (update: (images: PDFImage[]) => PDFImage[]) => {
+    imagesRef.current = update(imagesRef.current);
+    setPdfImages(imagesRef.current);
+  };
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    serverRequestRef.current?.abort();
+    serverRequestRef.current = null;
+  };
 
   const showStatusMessage = (text: string, type: 'success' | 'error' | 'info') => {
     setStatusMessage({ text, type });
@@ -35,13 +110,14 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
 
   const resetLoadingState = () => {
     setIsLoading(false);
+    setIsServerRendering(false);
     setProgress(0);
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      processPDFFile(file);
+      selectPDFFile(file);
     }
   };
 
@@ -61,101 +137,225 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
     
     const file = e.dataTransfer.files[0];
     if (file && file.type === 'application/pdf') {
-      processPDFFile(file);
+      selectPDFFile(file);
     } else {
       showStatusMessage('Please upload a valid PDF file', 'error');
     }
   };
 
-  const processPDFFile = async (file: File) => {
+  // Read the page count and size up front; pages are only rendered on convert
+  const selectPDFFile = async (file: File) => {
     if (file.type !== 'application/pdf') {
       showStatusMessage('Please upload a valid PDF file', 'error');
       return;
     }
 
+    stopWorker();
+    resetLoadingState();
+    replaceImages([]);
+    setShowPreview(false);
+    setPdfFile(null);
+    setPageCount(0);
+    setFirstPageSize(null);
+    setPages('');
+    setFileName(file.name);
+
     try {
-      setIsLoading(true);
-      setProgress(0);
-      setPdfImages([]);
-      setShowPreview(false);
-      setFileName(file.name);
+      const pdf = await loadPdfDocument(await file.arrayBuffer());
+      const { width, height } = (await pdf.getPage(1)).getViewport({ scale: 1 });
+      setPdfFile(file);
+      setPageCount(pdf.numPages);
+      setFirstPageSize({ width, height });
+      pdf.destroy();
+    } catch (error) {
+      console.error('Error reading PDF:', error);
+      showStatusMessage(pdfLoadErrorMessage(error, 'Error reading PDF file. Please try another file.'), 'error');
+      setFileName('');
+    }
+  };
 
-      const pdfjs = await import('pdfjs-dist');
-      pdfjs.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js`;
+  // Pages to convert; an empty range means the whole document
+  const pageSelection = pages.trim() && pageCount > 0 ? parsePageRanges(pages, pageCount) : null;
+  const pagesToConvert = pageSelection
+    ? Array.from(new Set(pageSelection.pages))
+    : Array.from({ length: pageCount }, (_, i) => i + 1);
 
-      const reader = new FileReader();
-      
-      reader.onload = async (e) => {
-        try {
-          const typedArray = new Uint8Array(e.target?.result as ArrayBuffer);
-          
-          const pdf = await pdfjs.getDocument({ data: typedArray }).promise;
-          setProgress(20);
+  const convertPDF = async () => {
+    if (!pdfFile) {
+      showStatusMessage('Please upload a PDF file first', 'error');
+      return;
+    }
+    const invalidTokens = findInvalidPageTokens(pages);
+    if (invalidTokens.length > 0) {
+      showStatusMessage(`Invalid page format: ${invalidTokens.join(', ')}. Use e.g. 1,3-5,8, 5-, last-2, odd or 1-20,!7.`, 'error');
+      return;
+    }
+    if (pageSelection && pageSelection.outOfBounds.length > 0) {
+      showStatusMessage(`Pages out of range: ${pageSelection.outOfBounds.join(', ')} (the PDF has ${pageCount} pages)`, 'error');
+      return;
+    }
+    if (pagesToConvert.length === 0) {
+      showStatusMessage('The page range does not select any pages', 'error');
+      return;
+    }
+    if (!Number.isInteger(dpi) || dpi < MIN_DPI || dpi > MAX_DPI) {
+      showStatusMessage(`DPI must be a whole number between ${MIN_DPI} and ${MAX_DPI}`, 'error');
+      return;
+    }
 
-          const images: PDFImage[] = [];
-          
-          for (let i = 1; i <= pdf.numPages; i++) {
-            const page = await pdf.getPage(i);
-            const viewport = page.getViewport({ scale: 2.0 }); // Increased scale for better quality
-            
-            const canvas = document.createElement('canvas');
-            const context = canvas.getContext('2d');
-            if (!context) throw new Error('Could not get canvas context');
-            
-            canvas.height = viewport.height;
-            canvas.width = viewport.width;
-            
-            await page.render({
-              canvasContext: context,
-              canvas: canvas,
-              viewport: viewport
-            }).promise;
-            
-            const imageData = canvas.toDataURL('image/png', 1.0); // Use PNG for better quality
-            const imageName = `${file.name.replace('.pdf', '')}_page_${i}.png`;
-            
-            images.push({
-              name: imageName,
-              data: imageData,
-              selected: true
-            });
-            
-            setProgress(20 + (i / pdf.numPages * 80));
-          }
-
-          setProgress(100);
-          setTimeout(() => {
-            setIsLoading(false);
-            setPdfImages(images);
-            setShowPreview(true);
-            showStatusMessage(`Successfully converted ${images.length} pages to images!`, 'success');
-          }, 500);
-
-        } catch (error) {
-          console.error('Error processing PDF:', error);
-          showStatusMessage('Error processing PDF file. Please try another file.', 'error');
-          resetLoadingState();
+    setIsLoading(true);
+    setProgress(0);
+    replaceImages([]);
+    setIsSelectAll(true);
+    setShowPreview(false);
+    stopWorker();
+
+    if (renderOnServer) {
+      convertOnServer(pdfFile);
+      return;
+    }
+
+    const format = imageFormats.find(f => f.id === imageFormat)!;
+    const baseName = fileName.replace(/\.pdf$/i, '');
+    const worker = new Worker(new URL('../../../utils/pdfToImages.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    let fellBackToPng = false;
+    let scaledDown = false;
+
+    const finish = () => {
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      resetLoadingState();
+    };
+
+    // Pages are shown as soon as they are rendered
+    worker.onmessage = (event: MessageEvent<PdfToImagesMessage>) => {
+      const message = event.data;
+      if (message.type === 'page') {
+        // Browsers without a WebP encoder hand back PNG instead
+        const actual = imageFormats.find(f => f.mimeType === message.blob.type) ?? imageFormats[0];
+        if (actual.id !== format.id) fellBackToPng = true;
+        if (message.dpi < dpi) scaledDown = true;
+
+        const image: PDFImage = {
+          name: `${baseName}_page_${message.pageNumber}.${actual.extension}`,
+          blob: message.blob,
+          url: URL.createObjectURL(message.blob),
+          thumbnailUrl: URL.createObjectURL(message.thumbnail),
+          selected: true,
+          pageNumber: message.pageNumber,
+          width: message.width,
+          height: message.height
+        };
+        updateImages(images => [...images, image]);
+        setShowPreview(true);
+        setProgress(Math.round((imagesRef.current.length / pagesToConvert.length) * 100));
+      } else if (message.type === 'done') {
+        finish();
+        const notes = [
+          fellBackToPng && "your browser can't create WebP, so they were saved as PNG",
+          scaledDown && 'some pages were too large for the chosen DPI and were rendered smaller'
+        ].filter(Boolean);
+        showStatusMessage(
+          notes.length > 0
+            ? `Converted ${imagesRef.current.length} pages; ${notes.join(' and ')}`
+            : `Successfully converted ${imagesRef.current.length} pages to images!`,
+          notes.length > 0 ? 'info' : 'success'
+        );
+      } else if (message.outOfMemory) {
+        finish();
+        console.error('Browser rendering ran out of memory:', message.message);
+        // Uploading needs the user's go-ahead; otherwise the pages rendered so far are kept
+        if (!window.confirm('Your browser ran out of memory rendering this PDF. Upload it to our server and render the pages there instead? The file is not stored.')) {
+          showStatusMessage('Your browser ran out of memory. Try a lower DPI or fewer pages.', 'error');
+          return;
         }
-      };
+        // Start over on the server; the pages rendered so far are dropped to free memory
+        replaceImages([]);
+        setShowPreview(false);
+        setIsLoading(true);
+        showStatusMessage('Rendering the pages on the server instead', 'info');
+        convertOnServer(pdfFile);
+      } else {
+        finish();
+        console.error('Error processing PDF:', message.message);
+        showStatusMessage(
+          message.engineFailed ? message.message : 'Error processing PDF file. Please try another file.',
+          'error'
+        );
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      console.error('PDF rendering worker failed:', event.message);
+      showStatusMessage('Your browser could not start the PDF renderer. Please try another browser.', 'error');
+    };
+
+    const request: PdfToImagesRequest = {
+      data: await pdfFile.arrayBuffer(),
+      pages: pagesToConvert,
+      dpi,
+      mimeType: format.mimeType,
+      quality: quality / 100
+    };
+    worker.postMessage(request, [request.data]);
+  };
 
-      reader.onerror = () => {
-        showStatusMessage('Error reading file', 'error');
-        resetLoadingState();
-      };
+  // The backend renders the pages and sends them as one ZIP, so there are no previews
+  const convertOnServer = async (file: File) => {
+    const controller = new AbortController();
+    serverRequestRef.current = controller;
+    setIsServerRendering(true);
 
-      reader.readAsArrayBuffer(file);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('format', imageFormat);
+      formData.append('dpi', String(dpi));
+      if (imageFormat !== 'png') formData.append('quality', String(quality));
+      // The selection the page count above was worked out from, with repeats already dropped
+      if (pages.trim()) formData.append('pages', pagesToConvert.join(','));
+
+      const response = await fetch(`${API_BASE_URL}/pdf-to-images`, {
+        method: 'POST',
+        body: formData,
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || 'Failed to convert PDF on the server');
+      }
 
+      const { saveAs } = await import('file-saver');
+      saveAs(await response.blob(), `${fileName.replace(/\.pdf$/i, '')}_images.zip`);
+      showStatusMessage(`Converted ${pagesToConvert.length} pages on the server and downloaded them as a zip`, 'success');
     } catch (error) {
-      console.error('Error:', error);
-      showStatusMessage('Error processing PDF file', 'error');
-      resetLoadingState();
+      if (controller.signal.aborted) return;
+      console.error('Error converting PDF on the server:', error);
+      showStatusMessage(error instanceof Error && error.message ? error.message : 'Error processing PDF file. Please try another file.', 'error');
+    } finally {
+      if (serverRequestRef.current === controller) {
+        serverRequestRef.current = null;
+        resetLoadingState();
+      }
+    }
+  };
+
+  // Abort mid-document; the pages rendered so far are kept
+  const cancelConversion = () => {
+    if (!workerRef.current && !serverRequestRef.current) return;
+    stopWorker();
+    resetLoadingState();
+    if (imagesRef.current.length > 0) {
+      showStatusMessage(`Conversion cancelled; ${imagesRef.current.length} pages were converted`, 'info');
     }
   };
 
   const downloadImage = (image: PDFImage) => {
     try {
       const link = document.createElement('a');
-      link.href = image.data;
+      link.href = image.url;
       link.download = image.name;
       document.body.appendChild(link);
       link.click();
@@ -186,7 +386,7 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
     }
 
     try {
-      setIsLoading(true);
+      setIsZipping(true);
       const JSZip = (await import('jszip')).default;
       const { saveAs } = await import('file-saver');
 
@@ -198,29 +398,28 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
       }
 
       selectedImages.forEach(image => {
-        const base64Data = image.data.split(',')[1];
-        folder.file(image.name, base64Data, { base64: true });
+        folder.file(image.name, image.blob);
       });
 
       const content = await zip.generateAsync({ type: 'blob' });
       saveAs(content, 'pdf_images.zip');
       showStatusMessage(`Downloaded ${selectedImages.length} images as zip`, 'success');
-      setIsLoading(false);
+      setIsZipping(false);
     } catch (error) {
       console.error('Error creating zip file:', error);
       showStatusMessage('Error creating zip file', 'error');
-      setIsLoading(false);
+      setIsZipping(false);
     }
   };
 
   const toggleSelectAll = () => {
     const newSelectAll = !isSelectAll;
     setIsSelectAll(newSelectAll);
-    setPdfImages(prev => prev.map(img => ({ ...img, selected: newSelectAll })));
+    updateImages(prev => prev.map(img => ({ ...img, selected: newSelectAll })));
   };
 
   const toggleImageSelection = (index: number) => {
-    setPdfImages(prev => {
+    updateImages(prev => {
       const newImages = [...prev];
       newImages[index] = { ...newImages[index], selected: !newImages[index].selected };
       
@@ -234,11 +433,16 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
 
   const resetConverter = () => {
     if (fileInputRef.current) fileInputRef.current.value = '';
-    setPdfImages([]);
+    stopWorker();
+    replaceImages([]);
     setShowPreview(false);
     setStatusMessage(null);
     setIsSelectAll(false);
     setFileName('');
+    setPdfFile(null);
+    setPageCount(0);
+    setFirstPageSize(null);
+    setPages('');
     resetLoadingState();
   };
 
@@ -295,7 +499,7 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
                 PDF to Images Converter
               </h1>
               <p className={`text-base md:text-lg ${darkMode ? "text-gray-300" : "text-gray-600"}`}>
-                Convert PDF pages to high-quality PNG images instantly in your browser
+                Convert PDF pages to PNG, JPEG or WebP images at any resolution, in your browser or on our server
               </p>
             </div>
 
@@ -332,7 +536,7 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
                         {fileName}
                       </p>
                       <p className={`text-sm mt-2 ${darkMode ? "text-green-400" : "text-green-600"}`}>
-                        Ready to convert!
+                        {pageCount > 0 ? `${pageCount} page${pageCount === 1 ? '' : 's'} · ready to convert!` : 'Reading PDF...'}
                       </p>
                     </>
                   ) : (
@@ -345,7 +549,7 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
                         Click to browse or drag & drop your PDF here
                       </p>
                       <p className={`text-xs mt-2 ${darkMode ? "text-gray-500" : "text-gray-400"}`}>
-                        Processing happens entirely in your browser - no server upload
+                        Rendered in your browser - nothing is uploaded unless you choose server rendering
                       </p>
                     </>
                   )}
@@ -355,13 +559,17 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
                 {isLoading && (
                   <div className="mt-6 w-full max-w-md mx-auto">
                     <div className="flex justify-between text-sm mb-2">
-                      <span className={darkMode ? "text-gray-300" : "text-gray-600"}>Converting...</span>
-                      <span className={darkMode ? "text-gray-300" : "text-gray-600"}>{progress}%</span>
+                      <span className={darkMode ? "text-gray-300" : "text-gray-600"}>
+                        {isServerRendering ? 'Rendering on the server...' : 'Converting...'}
+                      </span>
+                      {!isServerRendering && (
+                        <span className={darkMode ? "text-gray-300" : "text-gray-600"}>{progress}%</span>
+                      )}
                     </div>
                     <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
                       <div 
                         className="bg-gradient-to-r from-blue-500 to-teal-500 dark:from-blue-400 dark:to-teal-400 h-2 rounded-full relative overflow-hidden transition-all duration-300"
-                        style={{ width: `${progress}%` }}
+                        style={{ width: isServerRendering ? '100%' : `${progress}%` }}
                       >
                         <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/30 to-transparent animate-shine"></div>
                       </div>
@@ -395,6 +603,187 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
               )}
             </div>
 
+            {/* Conversion Options */}
+            {pdfFile && (
+              <div className="mb-6 md:mb-8 space-y-5">
+                <div>
+                  <label className={`block text-sm font-medium mb-3 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                    Image Format
+                  </label>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    {imageFormats.map(format => (
+                      <button
+                        key={format.id}
+                        onClick={() => setImageFormat(format.id)}
+                        className={`p-4 rounded-xl border-2 text-left transition-all duration-300 ${
+                          imageFormat === format.id
+                            ? darkMode
+                              ? "border-blue-400 bg-blue-400/10"
+                              : "border-blue-500 bg-blue-50"
+                            : darkMode
+                              ? "border-gray-600 hover:border-gray-500"
+                              : "border-gray-200 hover:border-gray-300"
+                        }`}
+                      >
+                        <span className="block font-semibold">{format.label}</span>
+                        <span className={`block text-xs mt-1 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                          {format.description}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {imageFormat !== 'png' && (
+                  <div>
+                    <label className={`block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                      Quality: {quality}
+                    </label>
+                    <input
+                      type="range"
+                      min={10}
+                      max={100}
+                      value={quality}
+                      onChange={(e) => setQuality(Number(e.target.value))}
+                      className="w-full accent-blue-600"
+                    />
+                    <div className={`flex justify-between text-xs mt-1 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                      <span>Smallest file</span>
+                      <span>Best quality</span>
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <label className={`block text-sm font-medium mb-2 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                    Resolution: {dpi} DPI
+                    {firstPageSize && (
+                      <span className={darkMode ? "text-gray-400" : "text-gray-500"}>
+                        {" "}→ page 1 is {Math.round(firstPageSize.width * dpi / POINTS_PER_INCH)} × {Math.round(firstPageSize.height * dpi / POINTS_PER_INCH)} px
+                      </span>
+                    )}
+                  </label>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {DPI_PRESETS.map(preset => (
+                      <button
+                        key={preset}
+                        onClick={() => setDpi(preset)}
+                        className={`px-3 py-1.5 rounded-lg text-sm font-medium border-2 transition-all duration-300 ${
+                          dpi === preset
+                            ? darkMode
+                              ? "border-blue-400 bg-blue-400/10 text-blue-300"
+                              : "border-blue-500 bg-blue-50 text-blue-700"
+                            : darkMode
+                              ? "border-gray-600 text-gray-300 hover:border-gray-500"
+                              : "border-gray-200 text-gray-700 hover:border-gray-300"
+                        }`}
+                      >
+                        {preset}
+                      </button>
+                    ))}
+                    <input
+                      type="number"
+                      min={MIN_DPI}
+                      max={MAX_DPI}
+                      value={dpi}
+                      onChange={(e) => setDpi(Number(e.target.value))}
+                      className={`w-24 px-3 py-1.5 rounded-lg border-2 text-sm transition-all duration-300 ${
+                        darkMode
+                          ? "bg-gray-700 border-gray-600 text-white focus:border-blue-400"
+                          : "bg-white border-gray-300 text-gray-900 focus:border-blue-500"
+                      }`}
+                    />
+                  </div>
+                  <p className={`text-xs mt-2 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                    72 for screens, 150 for documents, 300 for print, 600 for archival scans
+                  </p>
+                </div>
+
+                <div>
+                  <label className={`block text-sm font-medium mb-3 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                    Pages to Convert (optional)
+                  </label>
+                  <div className="relative">
+                    <FileText className={`absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 ${
+                      darkMode ? "text-gray-400" : "text-gray-500"
+                    }`} />
+                    <input
+                      type="text"
+                      placeholder={`All ${pageCount} pages`}
+                      value={pages}
+                      onChange={(e) => setPages(e.target.value)}
+                      className={`w-full pl-10 pr-4 py-3 border rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all ${
+                        darkMode 
+                          ? "bg-gray-700/50 border-gray-600 text-white placeholder-gray-400" 
+                          : "bg-white border-gray-300 text-gray-900 placeholder-gray-500"
+                      }`}
+                    />
+                  </div>
+                  <p className={`text-xs mt-2 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                    {pages.trim() ? `${pagesToConvert.length} of ${pageCount} pages selected. ` : ''}
+                    Separate pages with commas. Use ranges (3-5), open ends (5-), "last"/"last-2", "odd"/"even" and "!" to exclude (1-20,!7)
+                  </p>
+                </div>
+
+                <div>
+                  <label className={`flex items-center gap-2 text-sm cursor-pointer ${
+                    darkMode ? "text-gray-300" : "text-gray-700"
+                  }`}>
+                    <input
+                      type="checkbox"
+                      checked={renderOnServer}
+                      onChange={(e) => setRenderOnServer(e.target.checked)}
+                      disabled={isLoading}
+                      className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    <Server className="h-4 w-4" />
+                    Render on the server
+                  </label>
+                  <p className={`text-xs mt-2 ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                    For very large files or low-powered devices. The PDF is uploaded to our server, which renders it without storing it, and the images come back as one zip, without previews. If your browser runs out of memory, you are asked before the file is uploaded.
+                  </p>
+                </div>
+
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button
+                    onClick={convertPDF}
+                    disabled={isLoading}
+                    className={`flex-1 py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+                      darkMode
+                        ? "bg-gradient-to-r from-blue-500 to-teal-500 hover:from-blue-600 hover:to-teal-600 text-white shadow-lg hover:shadow-xl"
+                        : "bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white shadow-lg hover:shadow-xl"
+                    }`}
+                  >
+                    {isLoading ? (
+                      <>
+                        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                        <span>Converting...</span>
+                      </>
+                    ) : (
+                      <>
+                        <ImageIcon className="h-5 w-5" />
+                        <span>Convert {pagesToConvert.length} {pagesToConvert.length === 1 ? 'Page' : 'Pages'} to {imageFormats.find(f => f.id === imageFormat)!.label}</span>
+                      </>
+                    )}
+                  </button>
+
+                  {isLoading && (
+                    <button
+                      onClick={cancelConversion}
+                      className={`py-3 px-6 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all duration-300 border-2 ${
+                        darkMode
+                          ? "border-red-500/60 text-red-400 hover:bg-red-900/20"
+                          : "border-red-300 text-red-600 hover:bg-red-50"
+                      }`}
+                    >
+                      <X className="h-5 w-5" />
+                      <span>Cancel</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Preview Section */}
             {showPreview && (
               <div className={`rounded-xl shadow-lg p-6 mb-8 ${
@@ -404,7 +793,7 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
                   <h2 className={`text-2xl font-semibold ${
                     darkMode ? "text-blue-400" : "text-blue-600"
                   }`}>
-                    PDF Pages Preview ({pdfImages.length} pages)
+                    PDF Pages Preview ({pdfImages.length} {pdfImages.length === 1 ? 'page' : 'pages'})
                   </h2>
                   <div className="preview-actions flex flex-wrap gap-3 w-full sm:w-auto">
                     <button
@@ -420,7 +809,7 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
                     </button>
                     <button
                       onClick={downloadSelectedImages}
-                      disabled={isLoading || selectedCount === 0}
+                      disabled={isLoading || isZipping || selectedCount === 0}
                       className="px-4 py-2 bg-gradient-to-r from-blue-600 to-teal-600 dark:from-blue-500 dark:to-teal-500 text-white rounded-lg font-medium flex items-center hover:shadow-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       <Download className="h-4 w-4 mr-2" />
@@ -457,10 +846,11 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
                           onChange={() => toggleImageSelection(index)}
                         />
                         <img
-                          src={image.data}
+                          src={image.thumbnailUrl}
                           className="w-full h-48 object-contain bg-gray-100 dark:bg-gray-600"
-                          alt={`Page ${index + 1}`}
+                          alt={`Page ${image.pageNumber}`}
                           loading="lazy"
+                          decoding="async"
                         />
                       </div>
                       <div className={`p-4 border-t ${
@@ -469,8 +859,11 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
                         <h4 className={`font-semibold mb-1 ${
                           darkMode ? "text-gray-200" : "text-gray-800"
                         }`}>
-                          Page {index + 1}
+                          Page {image.pageNumber}
                         </h4>
+                        <p className={`text-xs ${darkMode ? "text-gray-400" : "text-gray-500"}`}>
+                          {image.width} × {image.height} px · {formatFileSize(image.blob.size)}
+                        </p>
                         <button
                           onClick={() => downloadImage(image)}
                           className="w-full mt-2 px-3 py-1.5 bg-blue-600 dark:bg-blue-500 text-white rounded text-sm font-medium hover:bg-blue-700 dark:hover:bg-blue-600 transition-all duration-300"
@@ -495,9 +888,9 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
                 }`}>
                   <UploadCloud className={`h-5 w-5 md:h-6 md:w-6 ${darkMode ? "text-blue-400" : "text-blue-600"}`} />
                 </div>
-                <h3 className="font-semibold mb-1 text-sm md:text-base">100% Frontend</h3>
+                <h3 className="font-semibold mb-1 text-sm md:text-base">Private by Default</h3>
                 <p className={`text-xs md:text-sm ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
-                  No server upload
+                  No upload unless you choose it
                 </p>
               </div>
 
@@ -511,7 +904,7 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
                 </div>
                 <h3 className="font-semibold mb-1 text-sm md:text-base">High Quality</h3>
                 <p className={`text-xs md:text-sm ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
-                  Clear PNG output
+                  PNG, JPEG or WebP up to 600 DPI
                 </p>
               </div>
 
@@ -539,7 +932,7 @@ const PdfToImages: React.FC<{ darkMode: boolean }> = ({ darkMode }) => {
                 </div>
                 <h3 className="font-semibold mb-1 text-sm md:text-base">Secure</h3>
                 <p className={`text-xs md:text-sm ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
-                  Files stay local
+                  Server renders are never stored
                 </p>
               </div>
             </div>
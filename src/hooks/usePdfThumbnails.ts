@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { loadPdfDocument, pdfLoadErrorMessage, renderPageToCanvas } from '../utils/pdfRender';
+
+// Renders small previews of every page of a PDF, one page at a time,
+// so thumbnails appear progressively instead of after the whole document.
+export const usePdfThumbnails = (file: File | null, width = 160) => {
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const [pageCount, setPageCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setThumbnails([]);
+    setPageCount(0);
+    setError(null);
+    setLoading(false);
+    if (!file) return;
+
+    let cancelled = false;
+
+    const render = async () => {
+      setLoading(true);
+      let pdf: PDFDocumentProxy | null = null;
+      try {
+        pdf = await loadPdfDocument(await file.arrayBuffer());
+        if (cancelled) return;
+        setPageCount(pdf.numPages);
+
+        for (let i = 1; i <= pdf.numPages; i++) {
+          const canvas = await renderPageToCanvas(pdf, i, { width });
+          if (cancelled) return;
+          const data = canvas.toDataURL('image/jpeg', 0.7);
+          setThumbnails(prev => [...prev, data]);
+        }
+      } catch (err) {
+        console.error('Error rendering thumbnails:', err);
+        if (!cancelled) setError(pdfLoadErrorMessage(err, 'Could not render page previews for this PDF.'));
+      } finally {
+        // Cancelled runs too, or each quick file switch leaves a document in the shared worker
+        pdf?.destroy();
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    render();
+    return () => {
+      cancelled = true;
+    };
+  }, [file, width]);
+
+  return { thumbnails, pageCount, loading, error };
+};
@@ -0,0 +1,4 @@
+// Base URL of the Express backend (see backend/server.js).
+// Override with VITE_API_URL in a .env.local file for local development.
+export const API_BASE_URL: string =
+  import.meta.env.VITE_API_URL || "https://sharp-tools-react.onrender.com";
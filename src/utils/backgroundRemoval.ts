@@ -0,0 +1,164 @@
+import { gaussianBlur } from "./gaussianBlur";
+
+// Client-side mirror of backend/utils/backgroundRemoval.js, used for the
+// live preview on a downscaled copy of the image. Colors are [r, g, b].
+
+export type BackgroundMode = "flood" | "color";
+
+export interface BackgroundOptions {
+  mode: BackgroundMode;
+  /** Key color as #rrggbb; detected from the image edges when null */
+  color: string | null;
+  tolerance: number;
+  softness: number;
+  /** Pixels of the original image */
+  shrink: number;
+  feather: number;
+}
+
+export const DEFAULT_BACKGROUND_OPTIONS: BackgroundOptions = {
+  mode: "flood",
+  color: null,
+  tolerance: 15,
+  softness: 10,
+  shrink: 0,
+  feather: 1,
+};
+
+export const hexToRgb = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const rgbToHex = (rgb: number[]) => `#${rgb.map((c) => c.toString(16).padStart(2, "0")).join("")}`;
+
+/** Most common color along the image edges, averaged within its 5-bit bin */
+export const detectKeyColor = ({ data, width, height }: ImageData) => {
+  const counts = new Uint32Array(32768);
+  const sums = new Float64Array(32768 * 3);
+  const add = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    const bin = ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+    counts[bin]++;
+    sums[bin * 3] += data[i];
+    sums[bin * 3 + 1] += data[i + 1];
+    sums[bin * 3 + 2] += data[i + 2];
+  };
+  for (let x = 0; x < width; x++) {
+    add(x, 0);
+    add(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    add(0, y);
+    add(width - 1, y);
+  }
+
+  let best = 0;
+  for (let bin = 1; bin < counts.length; bin++) if (counts[bin] > counts[best]) best = bin;
+  return [0, 1, 2].map((c) => Math.round(sums[best * 3 + c] / counts[best]));
+};
+
+// 0 where a pixel matches the key color, 255 where it is clearly different
+const colorMatte = ({ data, width, height }: ImageData, key: number[], { tolerance, softness }: BackgroundOptions) => {
+  const matte = new Uint8ClampedArray(width * height);
+  // Distances are percent of the largest possible RGB distance
+  const scale = 100 / (255 * Math.sqrt(3));
+  for (let p = 0; p < matte.length; p++) {
+    const i = p * 4;
+    const distance =
+      Math.sqrt((data[i] - key[0]) ** 2 + (data[i + 1] - key[1]) ** 2 + (data[i + 2] - key[2]) ** 2) * scale;
+    if (distance <= tolerance) matte[p] = 0;
+    else if (distance >= tolerance + softness) matte[p] = 255;
+    else matte[p] = Math.round(((distance - tolerance) / softness) * 255);
+  }
+  return matte;
+};
+
+// Keep only the see-through pixels connected to the image edges
+const floodFromEdges = (matte: Uint8ClampedArray, width: number, height: number) => {
+  const reached = new Uint8Array(matte.length);
+  const queue = new Int32Array(matte.length);
+  let head = 0;
+  let tail = 0;
+  const visit = (p: number) => {
+    if (!reached[p] && matte[p] < 255) {
+      reached[p] = 1;
+      queue[tail++] = p;
+    }
+  };
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+  while (head < tail) {
+    const p = queue[head++];
+    const x = p % width;
+    if (x > 0) visit(p - 1);
+    if (x < width - 1) visit(p + 1);
+    if (p >= width) visit(p - width);
+    if (p < matte.length - width) visit(p + width);
+  }
+  for (let p = 0; p < matte.length; p++) if (!reached[p]) matte[p] = 255;
+};
+
+// Minimum over a (2r+1)² square, one direction at a time
+const shrinkMatte = (matte: Uint8ClampedArray, width: number, height: number, radius: number) => {
+  const pass = (source: Uint8ClampedArray, horizontal: boolean) => {
+    const target = new Uint8ClampedArray(source.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let min = 255;
+        for (let k = -radius; k <= radius && min > 0; k++) {
+          const sx = horizontal ? Math.min(width - 1, Math.max(0, x + k)) : x;
+          const sy = horizontal ? y : Math.min(height - 1, Math.max(0, y + k));
+          min = Math.min(min, source[sy * width + sx]);
+        }
+        target[y * width + x] = min;
+      }
+    }
+    return target;
+  };
+  return pass(pass(matte, true), false);
+};
+
+const featherMatte = (matte: Uint8ClampedArray, width: number, height: number, sigma: number) =>
+  Uint8ClampedArray.from(gaussianBlur(matte, width, height, sigma), Math.round);
+
+/**
+ * Automatic matte of `image` (0 = background, 255 = kept). `scale` is the
+ * size of the preview relative to the original, so the refinement in
+ * pixels looks the same at full size.
+ */
+export const backgroundMatte = (image: ImageData, options: BackgroundOptions, key: number[], scale = 1) => {
+  const { width, height } = image;
+  let matte = colorMatte(image, key, options);
+  if (options.mode === "flood") floodFromEdges(matte, width, height);
+  const shrink = Math.round(options.shrink * scale);
+  if (shrink > 0) matte = shrinkMatte(matte, width, height, shrink);
+  if (options.feather > 0) matte = featherMatte(matte, width, height, options.feather * scale);
+  return matte;
+};
+
+/**
+ * The cut-out image: `matte` overridden by the `brush` strokes (opaque white
+ * keeps, opaque black erases) and edge pixels cleaned of the key color.
+ */
+export const applyMatte = (image: ImageData, matte: Uint8ClampedArray, key: number[], brush?: ImageData): ImageData => {
+  const data = Uint8ClampedArray.from(image.data);
+  for (let p = 0; p < matte.length; p++) {
+    const i = p * 4;
+    let alpha = matte[p];
+    if (brush) alpha = Math.round(alpha + (brush.data[i] - alpha) * (brush.data[i + 3] / 255));
+    // Semi-transparent edge pixels still carry some of the key color; take it out
+    if (alpha > 0 && alpha < 255) {
+      const a = alpha / 255;
+      for (let c = 0; c < 3; c++) data[i + c] = Math.round((data[i + c] - (1 - a) * key[c]) / a);
+    }
+    data[i + 3] = Math.min(data[i + 3], alpha);
+  }
+  return new ImageData(data, image.width, image.height);
+};
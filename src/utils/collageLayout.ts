@@ -0,0 +1,123 @@
+// Client-side mirror of the layout in backend/utils/collage.js, used to draw
+// the collage preview. Rectangles are in pixels of the output image.
+
+export type CollageTemplate = "2x2" | "3x3" | "1+2" | "masonry";
+
+interface GridCell {
+  column: number;
+  row: number;
+  columnSpan: number;
+  rowSpan: number;
+}
+
+interface GridTemplate {
+  columns: number;
+  rows: number;
+  cells: GridCell[];
+}
+
+export interface CellRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface CollageLayout {
+  width: number;
+  height: number;
+  spacing: number;
+  border: number;
+  columns: number;
+}
+
+const evenGrid = (columns: number, rows: number): GridTemplate => ({
+  columns,
+  rows,
+  cells: Array.from({ length: columns * rows }, (_, i) => ({
+    column: i % columns,
+    row: Math.floor(i / columns),
+    columnSpan: 1,
+    rowSpan: 1,
+  })),
+});
+
+const GRID_TEMPLATES: Record<Exclude<CollageTemplate, "masonry">, GridTemplate> = {
+  "2x2": evenGrid(2, 2),
+  "3x3": evenGrid(3, 3),
+  "1+2": {
+    columns: 2,
+    rows: 2,
+    cells: [
+      { column: 0, row: 0, columnSpan: 1, rowSpan: 2 },
+      { column: 1, row: 0, columnSpan: 1, rowSpan: 1 },
+      { column: 1, row: 1, columnSpan: 1, rowSpan: 1 },
+    ],
+  },
+};
+
+export const COLLAGE_TEMPLATES: { value: CollageTemplate; label: string; description: string }[] = [
+  { value: "2x2", label: "2 × 2", description: "Four equal cells" },
+  { value: "3x3", label: "3 × 3", description: "Nine equal cells" },
+  { value: "1+2", label: "1 + 2", description: "One large, two stacked" },
+  { value: "masonry", label: "Masonry", description: "Every image, in columns" },
+];
+
+/** Number of cells; a masonry collage has one per image */
+export const templateCellCount = (template: CollageTemplate, imageCount: number) =>
+  template === "masonry" ? imageCount : GRID_TEMPLATES[template].cells.length;
+
+// Split `length` into `count` tracks separated by `gap`, rounding the edges
+const tracks = (start: number, length: number, count: number, gap: number, weights: number[] = Array(count).fill(1)) => {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const available = length - gap * (count - 1);
+  const edges: [number, number][] = [];
+  let position = start;
+  for (const weight of weights) {
+    const size = (available * weight) / total;
+    edges.push([Math.round(position), Math.round(position + size)]);
+    position += size + gap;
+  }
+  return edges;
+};
+
+/** Pixel rectangles of the cells; masonry needs the width/height ratio of every image, in order */
+export const collageCells = (template: CollageTemplate, layout: CollageLayout, aspects: number[] = []): CellRect[] => {
+  const { width, height, spacing, border, columns } = layout;
+  const inner = { left: border, top: border, width: width - 2 * border, height: height - 2 * border };
+
+  if (template === "masonry") {
+    const count = Math.max(1, Math.min(columns, aspects.length));
+    const columnEdges = tracks(inner.left, inner.width, count, spacing);
+    // Each image goes into the column that is currently the shortest
+    const stacks = Array.from({ length: count }, () => ({ images: [] as number[], height: 0 }));
+    aspects.forEach((aspect, index) => {
+      const shortest = stacks.reduce((best, stack) => (stack.height < best.height ? stack : best));
+      shortest.images.push(index);
+      shortest.height += 1 / aspect;
+    });
+
+    // Columns are then stretched to the full height; cells crop to fit
+    const cells: CellRect[] = [];
+    stacks.forEach((stack, column) => {
+      const rowEdges = tracks(inner.top, inner.height, stack.images.length, spacing, stack.images.map((i) => 1 / aspects[i]));
+      stack.images.forEach((index, row) => {
+        const [left, right] = columnEdges[column];
+        const [top, bottom] = rowEdges[row];
+        cells[index] = { left, top, width: right - left, height: bottom - top };
+      });
+    });
+    return cells;
+  }
+
+  const grid = GRID_TEMPLATES[template];
+  const columnEdges = tracks(inner.left, inner.width, grid.columns, spacing);
+  const rowEdges = tracks(inner.top, inner.height, grid.rows, spacing);
+  return grid.cells.map(({ column, row, columnSpan, rowSpan }) => {
+    const left = columnEdges[column][0];
+    const right = columnEdges[column + columnSpan - 1][1];
+    const top = rowEdges[row][0];
+    const bottom = rowEdges[row + rowSpan - 1][1];
+    return { left, top, width: right - left, height: bottom - top };
+  });
+};
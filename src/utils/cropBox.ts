@@ -0,0 +1,118 @@
+// Geometry of the interactive crop box. Everything is in pixels of the
+// full-resolution image, so the numbers can be sent to the backend as is.
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface CropRect extends Size {
+  x: number;
+  y: number;
+}
+
+/** Edge or corner being dragged, or "move" for the whole box */
+export type CropHandle = "n" | "s" | "e" | "w" | "ne" | "nw" | "se" | "sw" | "move";
+
+export const CROP_HANDLES: Exclude<CropHandle, "move">[] = ["nw", "n", "ne", "e", "se", "s", "sw", "w"];
+
+const MIN_CROP_SIZE = 8;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Round the edges rather than the size so the box never grows past the image
+const roundCrop = ({ x, y, width, height }: CropRect): CropRect => {
+  const left = Math.round(x);
+  const top = Math.round(y);
+  return { x: left, y: top, width: Math.round(x + width) - left, height: Math.round(y + height) - top };
+};
+
+/** Largest centered crop with the given aspect ratio, or the whole image */
+export const centeredCrop = (bounds: Size, aspect: number | null): CropRect => {
+  if (!aspect) return { x: 0, y: 0, ...bounds };
+  const width = Math.min(bounds.width, bounds.height * aspect);
+  const height = width / aspect;
+  return roundCrop({ x: (bounds.width - width) / 2, y: (bounds.height - height) / 2, width, height });
+};
+
+/**
+ * Bring a rectangle typed into the numeric inputs back inside the image.
+ * With an aspect ratio the size shrinks proportionally.
+ */
+export const clampCrop = (rect: CropRect, bounds: Size, aspect: number | null): CropRect => {
+  let width = clamp(rect.width, 1, bounds.width);
+  let height = clamp(rect.height, 1, bounds.height);
+  if (aspect) {
+    const scale = Math.min(1, bounds.width / width, bounds.height / (width / aspect));
+    width *= scale;
+    height = width / aspect;
+  }
+  return roundCrop({
+    x: clamp(rect.x, 0, bounds.width - width),
+    y: clamp(rect.y, 0, bounds.height - height),
+    width,
+    height,
+  });
+};
+
+/**
+ * New crop box after dragging `handle` of `start` by `dx`/`dy`. With an aspect
+ * ratio the corner or edge opposite the handle stays put (edges keep the box
+ * centered along the other axis) and the box never leaves the image.
+ */
+export const dragCrop = (
+  start: CropRect,
+  handle: CropHandle,
+  dx: number,
+  dy: number,
+  bounds: Size,
+  aspect: number | null
+): CropRect => {
+  if (handle === "move") {
+    return roundCrop({
+      ...start,
+      x: clamp(start.x + dx, 0, bounds.width - start.width),
+      y: clamp(start.y + dy, 0, bounds.height - start.height),
+    });
+  }
+
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.width;
+  let bottom = start.y + start.height;
+  if (handle.includes("w")) left = clamp(left + dx, 0, right - MIN_CROP_SIZE);
+  if (handle.includes("e")) right = clamp(right + dx, left + MIN_CROP_SIZE, bounds.width);
+  if (handle.includes("n")) top = clamp(top + dy, 0, bottom - MIN_CROP_SIZE);
+  if (handle.includes("s")) bottom = clamp(bottom + dy, top + MIN_CROP_SIZE, bounds.height);
+  if (!aspect) return roundCrop({ x: left, y: top, width: right - left, height: bottom - top });
+
+  // Where the box is anchored on each axis and which way it grows from there
+  const horizontal = handle.includes("e") ? "start" : handle.includes("w") ? "end" : "center";
+  const vertical = handle.includes("s") ? "start" : handle.includes("n") ? "end" : "center";
+  const anchorX = horizontal === "start" ? start.x : horizontal === "end" ? start.x + start.width : start.x + start.width / 2;
+  const anchorY = vertical === "start" ? start.y : vertical === "end" ? start.y + start.height : start.y + start.height / 2;
+  const room = (mode: string, anchor: number, size: number) =>
+    mode === "start" ? size - anchor : mode === "end" ? anchor : 2 * Math.min(anchor, size - anchor);
+
+  // Side handles drive one dimension; corners take whichever grew more
+  let width =
+    handle === "n" || handle === "s"
+      ? (bottom - top) * aspect
+      : handle === "e" || handle === "w"
+        ? right - left
+        : Math.max(right - left, (bottom - top) * aspect);
+  width = Math.max(
+    MIN_CROP_SIZE,
+    Math.min(width, room(horizontal, anchorX, bounds.width), room(vertical, anchorY, bounds.height) * aspect)
+  );
+  const height = width / aspect;
+
+  const position = (mode: string, anchor: number, size: number) =>
+    mode === "start" ? anchor : mode === "end" ? anchor - size : anchor - size / 2;
+  return roundCrop({
+    x: position(horizontal, anchorX, width),
+    y: position(vertical, anchorY, height),
+    width,
+    height,
+  });
+};
@@ -0,0 +1,45 @@
+// Separable gaussian blur shared by the adjustment and background removal
+// previews, cut off where the kernel drops below 0.2, as libvips does, so
+// the previews match sharp's blur().
+
+const gaussianKernel = (sigma: number) => {
+  const radius = Math.max(1, Math.floor(sigma * Math.sqrt(-2 * Math.log(0.2))));
+  const weights = Array.from({ length: 2 * radius + 1 }, (_, i) => Math.exp(-((i - radius) ** 2) / (2 * sigma * sigma)));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return { radius, kernel: weights.map((w) => w / total) };
+};
+
+/**
+ * Blur the first `channels` values of every pixel in `data`, which holds
+ * `stride` values per pixel (1 for a matte, 4 for RGBA). Returns unrounded
+ * values; the other channels of the result are left at 0.
+ */
+export const gaussianBlur = (
+  data: ArrayLike<number>,
+  width: number,
+  height: number,
+  sigma: number,
+  { channels = 1, stride = 1 }: { channels?: number; stride?: number } = {}
+): Float32Array => {
+  const { radius, kernel } = gaussianKernel(sigma);
+
+  const pass = (source: Float32Array, horizontal: boolean) => {
+    const target = new Float32Array(source.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * stride;
+        for (let k = -radius; k <= radius; k++) {
+          // Pixels past the border repeat the edge
+          const sx = horizontal ? Math.min(width - 1, Math.max(0, x + k)) : x;
+          const sy = horizontal ? y : Math.min(height - 1, Math.max(0, y + k));
+          const j = (sy * width + sx) * stride;
+          const w = kernel[k + radius];
+          for (let c = 0; c < channels; c++) target[i + c] += source[j + c] * w;
+        }
+      }
+    }
+    return target;
+  };
+
+  return pass(pass(Float32Array.from(data), true), false);
+};
@@ -0,0 +1,234 @@
+import { gaussianBlur } from "./gaussianBlur";
+
+// Client-side mirror of backend/utils/imageAdjust.js, used for the live
+// preview. Every operation is its own pass over 8-bit pixels and truncates
+// like sharp does, so the downloaded image matches what was shown.
+
+export type AdjustmentType =
+  | "brightness"
+  | "contrast"
+  | "gamma"
+  | "hue"
+  | "saturation"
+  | "temperature"
+  | "tint"
+  | "sepia"
+  | "grayscale"
+  | "blur"
+  | "sharpen";
+
+export interface Adjustment {
+  type: AdjustmentType;
+  value: number;
+}
+
+export interface AdjustmentInfo {
+  type: AdjustmentType;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  /** Value that leaves the image unchanged */
+  neutral: number;
+  /** Value a newly added adjustment starts at */
+  initial: number;
+  unit?: string;
+}
+
+export const ADJUSTMENTS: AdjustmentInfo[] = [
+  { type: "brightness", label: "Brightness", min: -100, max: 100, step: 1, neutral: 0, initial: 20 },
+  { type: "contrast", label: "Contrast", min: -100, max: 100, step: 1, neutral: 0, initial: 20 },
+  { type: "gamma", label: "Gamma", min: 0.35, max: 3, step: 0.05, neutral: 1, initial: 1.2 },
+  { type: "hue", label: "Hue", min: -180, max: 180, step: 1, neutral: 0, initial: 30, unit: "°" },
+  { type: "saturation", label: "Saturation", min: -100, max: 100, step: 1, neutral: 0, initial: 30 },
+  { type: "temperature", label: "Temperature", min: -100, max: 100, step: 1, neutral: 0, initial: 25 },
+  { type: "tint", label: "Tint", min: -100, max: 100, step: 1, neutral: 0, initial: 15 },
+  { type: "sepia", label: "Sepia", min: 0, max: 100, step: 1, neutral: 0, initial: 80, unit: "%" },
+  { type: "grayscale", label: "Grayscale", min: 0, max: 100, step: 1, neutral: 0, initial: 100, unit: "%" },
+  { type: "blur", label: "Blur", min: 0, max: 20, step: 0.5, neutral: 0, initial: 2, unit: "px" },
+  { type: "sharpen", label: "Sharpen", min: 0, max: 100, step: 1, neutral: 0, initial: 40 },
+];
+
+export const adjustmentInfo = (type: AdjustmentType) => ADJUSTMENTS.find((a) => a.type === type)!;
+
+/** Ready-made stacks; applying one replaces the current stack */
+export const ADJUSTMENT_PRESETS: { name: string; adjustments: Adjustment[] }[] = [
+  { name: "Sepia", adjustments: [{ type: "sepia", value: 100 }] },
+  { name: "Grayscale", adjustments: [{ type: "grayscale", value: 100 }] },
+  {
+    name: "Vintage",
+    adjustments: [
+      { type: "sepia", value: 45 },
+      { type: "contrast", value: -15 },
+      { type: "brightness", value: 8 },
+      { type: "saturation", value: -20 },
+    ],
+  },
+  {
+    name: "Vivid",
+    adjustments: [
+      { type: "contrast", value: 15 },
+      { type: "saturation", value: 40 },
+    ],
+  },
+  { name: "Warm", adjustments: [{ type: "temperature", value: 30 }] },
+  { name: "Cool", adjustments: [{ type: "temperature", value: -30 }] },
+  {
+    name: "Soft",
+    adjustments: [
+      { type: "blur", value: 1 },
+      { type: "brightness", value: 5 },
+      { type: "contrast", value: -10 },
+    ],
+  },
+  { name: "Sharpen", adjustments: [{ type: "sharpen", value: 60 }] },
+];
+
+/** The stack without operations that would leave the image unchanged */
+export const activeAdjustments = (adjustments: Adjustment[]) =>
+  adjustments.filter((a) => a.value !== adjustmentInfo(a.type).neutral);
+
+// 3×3 color matrices of the Filter Effects spec, as used by CSS filters
+const saturateMatrix = (s: number) => [
+  [0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s],
+  [0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s],
+  [0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s],
+];
+
+const hueRotateMatrix = (degrees: number) => {
+  const cos = Math.cos((degrees * Math.PI) / 180);
+  const sin = Math.sin((degrees * Math.PI) / 180);
+  return [
+    [0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928],
+    [0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.14, 0.072 - cos * 0.072 - sin * 0.283],
+    [0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072],
+  ];
+};
+
+const grayscaleMatrix = (amount: number) => {
+  const a = 1 - amount;
+  return [
+    [0.2126 + 0.7874 * a, 0.7152 - 0.7152 * a, 0.0722 - 0.0722 * a],
+    [0.2126 - 0.2126 * a, 0.7152 + 0.2848 * a, 0.0722 - 0.0722 * a],
+    [0.2126 - 0.2126 * a, 0.7152 - 0.7152 * a, 0.0722 + 0.9278 * a],
+  ];
+};
+
+const sepiaMatrix = (amount: number) => {
+  const a = 1 - amount;
+  return [
+    [0.393 + 0.607 * a, 0.769 - 0.769 * a, 0.189 - 0.189 * a],
+    [0.349 - 0.349 * a, 0.686 + 0.314 * a, 0.168 - 0.168 * a],
+    [0.272 - 0.272 * a, 0.534 - 0.534 * a, 0.131 + 0.869 * a],
+  ];
+};
+
+const truncate = (value: number) => (value <= 0 ? 0 : value >= 255 ? 255 : Math.floor(value));
+
+// Per-channel lookup tables: out = a * in + b, like sharp's linear()
+const linear = (data: Uint8ClampedArray, a: number[], b: number[]) => {
+  const tables = [0, 1, 2].map((c) => Uint8Array.from({ length: 256 }, (_, x) => truncate(a[c] * x + b[c])));
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = tables[0][data[i]];
+    data[i + 1] = tables[1][data[i + 1]];
+    data[i + 2] = tables[2][data[i + 2]];
+  }
+};
+
+const recomb = (data: Uint8ClampedArray, [r, g, b]: number[][]) => {
+  for (let i = 0; i < data.length; i += 4) {
+    const red = data[i];
+    const green = data[i + 1];
+    const blue = data[i + 2];
+    data[i] = truncate(r[0] * red + r[1] * green + r[2] * blue);
+    data[i + 1] = truncate(g[0] * red + g[1] * green + g[2] * blue);
+    data[i + 2] = truncate(b[0] * red + b[1] * green + b[2] * blue);
+  }
+};
+
+const gamma = (data: Uint8ClampedArray, value: number) => {
+  const table = Uint8Array.from({ length: 256 }, (_, x) => truncate(255 * Math.pow(x / 255, 1 / value)));
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = table[data[i]];
+    data[i + 1] = table[data[i + 1]];
+    data[i + 2] = table[data[i + 2]];
+  }
+};
+
+const blur = (data: Uint8ClampedArray, width: number, height: number, sigma: number) => {
+  const result = gaussianBlur(data, width, height, sigma, { channels: 3, stride: 4 });
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = Math.round(result[i]);
+    data[i + 1] = Math.round(result[i + 1]);
+    data[i + 2] = Math.round(result[i + 2]);
+  }
+};
+
+// 3×3 unsharp kernel [0 -k 0; -k 1+4k -k; 0 -k 0]
+const sharpen = (data: Uint8ClampedArray, width: number, height: number, amount: number) => {
+  const k = amount / 100;
+  const source = Uint8ClampedArray.from(data);
+  const at = (x: number, y: number, c: number) =>
+    source[(Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))) * 4 + c];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const around = at(x - 1, y, c) + at(x + 1, y, c) + at(x, y - 1, c) + at(x, y + 1, c);
+        data[i + c] = truncate((1 + 4 * k) * source[i + c] - k * around);
+      }
+    }
+  }
+};
+
+/**
+ * Apply `adjustments` in order to a copy of `image`. `scale` is the size of
+ * the preview relative to the original, so blur looks the same at full size.
+ */
+export const applyAdjustments = (image: ImageData, adjustments: Adjustment[], scale = 1): ImageData => {
+  const { width, height } = image;
+  const data = Uint8ClampedArray.from(image.data);
+
+  for (const { type, value } of activeAdjustments(adjustments)) {
+    switch (type) {
+      case "brightness":
+        linear(data, [1, 1, 1], [value * 2.55, value * 2.55, value * 2.55]);
+        break;
+      case "contrast": {
+        const factor = 1 + value / 100;
+        const offset = 128 * (1 - factor);
+        linear(data, [factor, factor, factor], [offset, offset, offset]);
+        break;
+      }
+      case "gamma":
+        gamma(data, value);
+        break;
+      case "hue":
+        recomb(data, hueRotateMatrix(value));
+        break;
+      case "saturation":
+        recomb(data, saturateMatrix(1 + value / 100));
+        break;
+      case "temperature":
+        linear(data, [1 + value / 250, 1, 1 - value / 250], [0, 0, 0]);
+        break;
+      case "tint":
+        linear(data, [1, 1 - value / 250, 1], [0, 0, 0]);
+        break;
+      case "sepia":
+        recomb(data, sepiaMatrix(value / 100));
+        break;
+      case "grayscale":
+        recomb(data, grayscaleMatrix(value / 100));
+        break;
+      case "blur":
+        blur(data, width, height, value * scale);
+        break;
+      case "sharpen":
+        sharpen(data, width, height, value);
+        break;
+    }
+  }
+
+  return new ImageData(data, width, height);
+};
@@ -0,0 +1,41 @@
+// Output formats of the backend image routes (see backend/utils/imageProcessing.js)
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "avif" | "gif" | "tiff";
+
+export const IMAGE_FORMATS: { value: ImageFormat; label: string; extension: string; description: string; lossy: boolean }[] = [
+  { value: "jpeg", label: "JPG", extension: "jpg", description: "Photos, best compatibility", lossy: true },
+  { value: "png", label: "PNG", extension: "png", description: "Lossless, keeps transparency", lossy: false },
+  { value: "webp", label: "WebP", extension: "webp", description: "Smaller files for the web", lossy: true },
+  { value: "avif", label: "AVIF", extension: "avif", description: "Smallest files, newer browsers", lossy: true },
+  { value: "gif", label: "GIF", extension: "gif", description: "256 colors, keeps animation", lossy: false },
+  { value: "tiff", label: "TIFF", extension: "tif", description: "Lossless, for print and archiving", lossy: false },
+];
+
+export const imageFormatInfo = (format: ImageFormat) => IMAGE_FORMATS.find((f) => f.value === format)!;
+
+/** Output format matching a file's MIME type, if the backend can write it */
+export const formatFromMimeType = (mimeType: string): ImageFormat | null => {
+  const subtype = mimeType.replace(/^image\//, "");
+  if (subtype === "jpg") return "jpeg";
+  return IMAGE_FORMATS.some((f) => f.value === subtype) ? (subtype as ImageFormat) : null;
+};
+
+// "resized", "holiday.jpeg", "webp" -> "resized-holiday.webp"
+export const imageFileName = (prefix: string, fileName: string, extension: string) =>
+  `${prefix}-${fileName.replace(/\.[^.]+$/, "") || "image"}.${extension}`;
+
+/** Pixel size of an image file as the browser displays it */
+export const readImageSize = (file: Blob): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+      URL.revokeObjectURL(url);
+    };
+    img.onerror = () => {
+      reject(new Error("Could not read this image. The file may be corrupt or in an unsupported format."));
+      URL.revokeObjectURL(url);
+    };
+    img.src = url;
+  });
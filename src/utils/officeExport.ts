@@ -0,0 +1,334 @@
+import { type PageText, type TextBlock, bodyFontSize, headingLevel, detectTables } from "./pdfText";
+
+// Minimal Office Open XML writers (DOCX, XLSX, PPTX) for the PDF converter.
+// Each builds the package parts by hand and zips them with JSZip.
+
+const NS = {
+  w: "http://schemas.openxmlformats.org/wordprocessingml/2006/main",
+  s: "http://schemas.openxmlformats.org/spreadsheetml/2006/main",
+  a: "http://schemas.openxmlformats.org/drawingml/2006/main",
+  p: "http://schemas.openxmlformats.org/presentationml/2006/main",
+  r: "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+  types: "http://schemas.openxmlformats.org/package/2006/content-types",
+  rels: "http://schemas.openxmlformats.org/package/2006/relationships",
+};
+const REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Points to English Metric Units (PowerPoint) and twips (Word)
+const EMU_PER_POINT = 12700;
+const TWIPS_PER_POINT = 20;
+
+export const OFFICE_MIME_TYPES = {
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+};
+
+const escapeXml = (text: string) =>
+  text
+    // Control characters are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const relationships = (rels: { id: string; type: string; target: string }[]) =>
+  `${XML_HEADER}<Relationships xmlns="${NS.rels}">${rels
+    .map(({ id, type, target }) => `<Relationship Id="${id}" Type="${REL}/${type}" Target="${target}"/>`)
+    .join("")}</Relationships>`;
+
+const contentTypes = (overrides: [string, string][], defaults: [string, string][] = []) =>
+  `${XML_HEADER}<Types xmlns="${NS.types}">` +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  defaults.map(([ext, type]) => `<Default Extension="${ext}" ContentType="${type}"/>`).join("") +
+  overrides.map(([part, type]) => `<Override PartName="${part}" ContentType="${type}"/>`).join("") +
+  "</Types>";
+
+const createZip = async (mimeType: string, parts: Record<string, string | ArrayBuffer>) => {
+  const JSZip = (await import("jszip")).default;
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(parts)) zip.file(path, content, { createFolders: false });
+  return zip.generateAsync({ type: "blob", mimeType, compression: "DEFLATE" });
+};
+
+// Reflow the lines of a block into one paragraph, rejoining hyphenated words
+const paragraphText = (block: TextBlock) =>
+  block.lines.reduce((text, line, i) => {
+    if (i === 0) return line.text;
+    if (/[A-Za-z]-$/.test(text) && /^[a-z]/.test(line.text)) return text.slice(0, -1) + line.text;
+    return `${text} ${line.text}`;
+  }, "");
+
+/* ---------- Word ---------- */
+
+const DOCX_STYLES =
+  `${XML_HEADER}<w:styles xmlns:w="${NS.w}">` +
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>' +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="259" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>' +
+  '<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="32"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>' +
+  '<w:pPr><w:keepNext/><w:spacing w:before="200" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/></w:rPr></w:style>' +
+  "</w:styles>";
+
+/**
+ * Word document with one paragraph per text block. Larger short blocks become
+ * Heading 1/2 and every PDF page starts on a new page.
+ */
+export const buildDocx = async (pages: PageText[]): Promise<Blob> => {
+  const paragraph = (text: string, style?: string) =>
+    `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ""}` +
+    `<w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`;
+  const pageBreak = '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+
+  const body = pages
+    .map((page) => {
+      const bodySize = bodyFontSize(page);
+      return page.blocks
+        .map((block) => {
+          const level = headingLevel(block, bodySize);
+          return paragraph(paragraphText(block), level > 0 ? `Heading${level}` : undefined);
+        })
+        .join("");
+    })
+    .join(pageBreak);
+
+  const first = pages[0];
+  const width = Math.round((first?.width ?? 612) * TWIPS_PER_POINT);
+  const height = Math.round((first?.height ?? 792) * TWIPS_PER_POINT);
+  const document =
+    `${XML_HEADER}<w:document xmlns:w="${NS.w}" xmlns:r="${NS.r}"><w:body>${body || paragraph("")}` +
+    `<w:sectPr><w:pgSz w:w="${width}" w:h="${height}"${width > height ? ' w:orient="landscape"' : ""}/>` +
+    '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>' +
+    "</w:body></w:document>";
+
+  return createZip(OFFICE_MIME_TYPES.docx, {
+    "[Content_Types].xml": contentTypes([
+      ["/word/document.xml", "application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"],
+      ["/word/styles.xml", "application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"],
+    ]),
+    "_rels/.rels": relationships([{ id: "rId1", type: "officeDocument", target: "word/document.xml" }]),
+    "word/document.xml": document,
+    "word/styles.xml": DOCX_STYLES,
+    "word/_rels/document.xml.rels": relationships([{ id: "rId1", type: "styles", target: "styles.xml" }]),
+  });
+};
+
+/* ---------- Excel ---------- */
+
+// 0 -> "A", 26 -> "AA"
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : "") + String.fromCharCode(65 + (index % 26));
+
+// "1,234.50" -> 1234.5; anything that is not clearly a number stays text
+const parseNumber = (text: string): number | null => {
+  if (!/^-?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/.test(text)) return null;
+  return Number(text.replace(/,/g, ""));
+};
+
+const worksheet = (rows: string[][]) =>
+  `${XML_HEADER}<worksheet xmlns="${NS.s}"><sheetData>${rows
+    .map(
+      (row, r) =>
+        `<row r="${r + 1}">${row
+          .map((value, c) => {
+            if (!value) return "";
+            const ref = `${columnName(c)}${r + 1}`;
+            const number = parseNumber(value);
+            return number !== null
+              ? `<c r="${ref}"><v>${number}</v></c>`
+              : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+          })
+          .join("")}</row>`
+    )
+    .join("")}</sheetData></worksheet>`;
+
+/**
+ * Excel workbook with one sheet per detected table. When no table is found
+ * the text is written to a single sheet, one line per row.
+ */
+export const buildXlsx = async (pages: PageText[]): Promise<{ blob: Blob; tableCount: number }> => {
+  const sheets = pages.flatMap((page) =>
+    detectTables(page).map((table, i, tables) => ({
+      name: tables.length > 1 ? `Page ${page.pageNumber} Table ${i + 1}` : `Page ${page.pageNumber}`,
+      rows: table.rows,
+    }))
+  );
+  const tableCount = sheets.length;
+  if (sheets.length === 0) {
+    sheets.push({
+      name: "Text",
+      rows: pages.flatMap((page) => page.blocks.flatMap((block) => block.lines.map((line) => [line.text]))),
+    });
+  }
+
+  const workbook =
+    `${XML_HEADER}<workbook xmlns="${NS.s}" xmlns:r="${NS.r}"><sheets>${sheets
+      .map(({ name }, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+      .join("")}</sheets></workbook>`;
+
+  const parts: Record<string, string> = {
+    "[Content_Types].xml": contentTypes([
+      ["/xl/workbook.xml", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"],
+      ...sheets.map((_, i): [string, string] => [
+        `/xl/worksheets/sheet${i + 1}.xml`,
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml",
+      ]),
+    ]),
+    "_rels/.rels": relationships([{ id: "rId1", type: "officeDocument", target: "xl/workbook.xml" }]),
+    "xl/workbook.xml": workbook,
+    "xl/_rels/workbook.xml.rels": relationships(
+      sheets.map((_, i) => ({ id: `rId${i + 1}`, type: "worksheet", target: `worksheets/sheet${i + 1}.xml` }))
+    ),
+  };
+  sheets.forEach(({ rows }, i) => {
+    parts[`xl/worksheets/sheet${i + 1}.xml`] = worksheet(rows);
+  });
+
+  return { blob: await createZip(OFFICE_MIME_TYPES.xlsx, parts), tableCount };
+};
+
+/* ---------- PowerPoint ---------- */
+
+const EMPTY_SP_TREE =
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+const PML_NAMESPACES = `xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}"`;
+
+const PPTX_MASTER =
+  `${XML_HEADER}<p:sldMaster ${PML_NAMESPACES}><p:cSld><p:spTree>${EMPTY_SP_TREE}</p:spTree></p:cSld>` +
+  '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" ' +
+  'accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>' +
+  '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst></p:sldMaster>';
+
+const PPTX_LAYOUT =
+  `${XML_HEADER}<p:sldLayout ${PML_NAMESPACES} type="blank" preserve="1"><p:cSld name="Blank"><p:spTree>${EMPTY_SP_TREE}</p:spTree></p:cSld>` +
+  "<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>";
+
+const solidFill = (color: string) => `<a:solidFill><a:srgbClr val="${color}"/></a:solidFill>`;
+const PPTX_THEME =
+  `${XML_HEADER}<a:theme xmlns:a="${NS.a}" name="Office Theme"><a:themeElements>` +
+  '<a:clrScheme name="Office"><a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1><a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1>' +
+  '<a:dk2><a:srgbClr val="44546A"/></a:dk2><a:lt2><a:srgbClr val="E7E6E6"/></a:lt2><a:accent1><a:srgbClr val="4472C4"/></a:accent1>' +
+  '<a:accent2><a:srgbClr val="ED7D31"/></a:accent2><a:accent3><a:srgbClr val="A5A5A5"/></a:accent3><a:accent4><a:srgbClr val="FFC000"/></a:accent4>' +
+  '<a:accent5><a:srgbClr val="5B9BD5"/></a:accent5><a:accent6><a:srgbClr val="70AD47"/></a:accent6><a:hlink><a:srgbClr val="0563C1"/></a:hlink>' +
+  '<a:folHlink><a:srgbClr val="954F72"/></a:folHlink></a:clrScheme>' +
+  '<a:fontScheme name="Office"><a:majorFont><a:latin typeface="Calibri Light"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>' +
+  '<a:minorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont></a:fontScheme>' +
+  '<a:fmtScheme name="Office">' +
+  `<a:fillStyleLst>${solidFill("FFFFFF").repeat(3)}</a:fillStyleLst>` +
+  `<a:lnStyleLst>${`<a:ln w="6350">${solidFill("000000")}</a:ln>`.repeat(3)}</a:lnStyleLst>` +
+  `<a:effectStyleLst>${"<a:effectStyle><a:effectLst/></a:effectStyle>".repeat(3)}</a:effectStyleLst>` +
+  `<a:bgFillStyleLst>${solidFill("FFFFFF").repeat(3)}</a:bgFillStyleLst>` +
+  "</a:fmtScheme></a:themeElements></a:theme>";
+
+export interface SlidePage {
+  text: PageText;
+  /** Rendered page as PNG or JPEG */
+  image: Blob;
+}
+
+/**
+ * PowerPoint deck with one slide per page: the rendered page fills the slide
+ * and every text block becomes a text box at its original position. With
+ * `visibleText` off the text boxes are transparent, so the slide looks like
+ * the page while its text stays selectable and searchable.
+ */
+export const buildPptx = async (slides: SlidePage[], { visibleText }: { visibleText: boolean }): Promise<Blob> => {
+  const slideWidth = slides[0]?.text.width ?? 720;
+  const slideHeight = slides[0]?.text.height ?? 540;
+  const emu = (points: number) => Math.round(points * EMU_PER_POINT);
+  const xfrm = (x: number, y: number, width: number, height: number) =>
+    `<a:xfrm><a:off x="${emu(x)}" y="${emu(y)}"/><a:ext cx="${emu(width)}" cy="${emu(height)}"/></a:xfrm>`;
+
+  const parts: Record<string, string | ArrayBuffer> = {};
+  const imageExtensions = new Set<string>();
+
+  for (const [i, { text: page, image }] of slides.entries()) {
+    const n = i + 1;
+    const extension = image.type === "image/jpeg" ? "jpeg" : "png";
+    imageExtensions.add(extension);
+
+    // Pages of another size are scaled to fit and centered
+    const scale = Math.min(slideWidth / page.width, slideHeight / page.height);
+    const offsetX = (slideWidth - page.width * scale) / 2;
+    const offsetY = (slideHeight - page.height * scale) / 2;
+
+    const textColor = `<a:srgbClr val="000000">${visibleText ? "" : '<a:alpha val="0"/>'}</a:srgbClr>`;
+    const textBoxes = page.blocks
+      .map((block, j) => {
+        const paragraphs = block.lines
+          .map(
+            (line) =>
+              `<a:p><a:r><a:rPr lang="en-US" sz="${Math.max(100, Math.round(line.fontSize * scale * 100))}" dirty="0">` +
+              `<a:solidFill>${textColor}</a:solidFill></a:rPr><a:t>${escapeXml(line.text)}</a:t></a:r></a:p>`
+          )
+          .join("");
+        return (
+          `<p:sp><p:nvSpPr><p:cNvPr id="${j + 3}" name="Text ${j + 1}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>` +
+          `<p:spPr>${xfrm(offsetX + block.x * scale, offsetY + block.y * scale, block.width * scale, block.height * scale)}` +
+          '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr>' +
+          '<p:txBody><a:bodyPr wrap="none" lIns="0" tIns="0" rIns="0" bIns="0" rtlCol="0"><a:noAutofit/></a:bodyPr><a:lstStyle/>' +
+          `${paragraphs}</p:txBody></p:sp>`
+        );
+      })
+      .join("");
+
+    parts[`ppt/slides/slide${n}.xml`] =
+      `${XML_HEADER}<p:sld ${PML_NAMESPACES}><p:cSld><p:spTree>${EMPTY_SP_TREE}` +
+      `<p:pic><p:nvPicPr><p:cNvPr id="2" name="Page ${page.pageNumber}"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr>` +
+      '<p:blipFill><a:blip r:embed="rId2"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>' +
+      `<p:spPr>${xfrm(offsetX, offsetY, page.width * scale, page.height * scale)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>` +
+      `${textBoxes}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`;
+    parts[`ppt/slides/_rels/slide${n}.xml.rels`] = relationships([
+      { id: "rId1", type: "slideLayout", target: "../slideLayouts/slideLayout1.xml" },
+      { id: "rId2", type: "image", target: `../media/page${n}.${extension}` },
+    ]);
+    parts[`ppt/media/page${n}.${extension}`] = await image.arrayBuffer();
+  }
+
+  const presentation =
+    `${XML_HEADER}<p:presentation ${PML_NAMESPACES}>` +
+    '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>' +
+    `<p:sldIdLst>${slides.map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 3}"/>`).join("")}</p:sldIdLst>` +
+    `<p:sldSz cx="${emu(slideWidth)}" cy="${emu(slideHeight)}"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>`;
+
+  return createZip(OFFICE_MIME_TYPES.pptx, {
+    "[Content_Types].xml": contentTypes(
+      [
+        ["/ppt/presentation.xml", "application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml"],
+        ["/ppt/slideMasters/slideMaster1.xml", "application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml"],
+        ["/ppt/slideLayouts/slideLayout1.xml", "application/vnd.openxmlformats-officedocument.presentationml.slideLayout+xml"],
+        ["/ppt/theme/theme1.xml", "application/vnd.openxmlformats-officedocument.theme+xml"],
+        ...slides.map((_, i): [string, string] => [
+          `/ppt/slides/slide${i + 1}.xml`,
+          "application/vnd.openxmlformats-officedocument.presentationml.slide+xml",
+        ]),
+      ],
+      [...imageExtensions].map((ext): [string, string] => [ext, `image/${ext}`])
+    ),
+    "_rels/.rels": relationships([{ id: "rId1", type: "officeDocument", target: "ppt/presentation.xml" }]),
+    "ppt/presentation.xml": presentation,
+    "ppt/_rels/presentation.xml.rels": relationships([
+      { id: "rId1", type: "slideMaster", target: "slideMasters/slideMaster1.xml" },
+      { id: "rId2", type: "theme", target: "theme/theme1.xml" },
+      ...slides.map((_, i) => ({ id: `rId${i + 3}`, type: "slide", target: `slides/slide${i + 1}.xml` })),
+    ]),
+    "ppt/slideMasters/slideMaster1.xml": PPTX_MASTER,
+    "ppt/slideMasters/_rels/slideMaster1.xml.rels": relationships([
+      { id: "rId1", type: "slideLayout", target: "../slideLayouts/slideLayout1.xml" },
+      { id: "rId2", type: "theme", target: "../theme/theme1.xml" },
+    ]),
+    "ppt/slideLayouts/slideLayout1.xml": PPTX_LAYOUT,
+    "ppt/slideLayouts/_rels/slideLayout1.xml.rels": relationships([
+      { id: "rId1", type: "slideMaster", target: "../slideMasters/slideMaster1.xml" },
+    ]),
+    "ppt/theme/theme1.xml": PPTX_THEME,
+    ...parts,
+  });
+};
@@ -0,0 +1,96 @@
+// Client-side mirror of backend/utils/pageRanges.js.
+// Supports: 7, 3-5, 10-1, 5-, -4, last, last-2, odd, even and "!" exclusions.
+
+const ENDPOINT = "(\\d+|last(?:-\\d+)?)";
+const RANGE_REGEX = new RegExp(`^${ENDPOINT}?(?:(-)${ENDPOINT}?)?$`);
+
+export interface PageRangeResult {
+  pages: number[];
+  invalid: string[];
+  outOfBounds: string[];
+}
+
+const normalizeTokens = (input: string): string[] =>
+  input
+    .split(",")
+    .map((t) => t.replace(/\s+/g, "").toLowerCase())
+    .filter(Boolean);
+
+const isValidToken = (token: string): boolean => {
+  const body = token.startsWith("!") ? token.slice(1) : token;
+  if (body === "odd" || body === "even") return true;
+  const match = body.match(RANGE_REGEX);
+  return !!match && !!(match[1] || match[3]);
+};
+
+const resolveEndpoint = (value: string, pageCount: number): number =>
+  value.startsWith("last")
+    ? pageCount - (value.length > 4 ? parseInt(value.slice(5), 10) : 0)
+    : parseInt(value, 10);
+
+// Expand a token (without "!") into pages; null when out of bounds
+const expandToken = (token: string, pageCount: number): number[] | null => {
+  if (token === "odd" || token === "even") {
+    const pages: number[] = [];
+    for (let p = token === "odd" ? 1 : 2; p <= pageCount; p += 2) pages.push(p);
+    return pages;
+  }
+
+  const [, startRaw, dash, endRaw] = token.match(RANGE_REGEX)!;
+  const start = startRaw ? resolveEndpoint(startRaw, pageCount) : 1;
+  const end = dash ? (endRaw ? resolveEndpoint(endRaw, pageCount) : pageCount) : start;
+  if (start < 1 || end < 1 || start > pageCount || end > pageCount) return null;
+
+  const pages: number[] = [];
+  const step = start <= end ? 1 : -1;
+  for (let p = start; p !== end + step; p += step) pages.push(p);
+  return pages;
+};
+
+/** Returns the tokens of a page range string that do not follow the grammar. */
+export const findInvalidPageTokens = (input: string): string[] =>
+  normalizeTokens(input).filter((token) => !isValidToken(token));
+
+/** Resolves a page range string against a document with `pageCount` pages. */
+export const parsePageRanges = (input: string, pageCount: number): PageRangeResult => {
+  const result: PageRangeResult = { pages: [], invalid: [], outOfBounds: [] };
+  const excluded = new Set<number>();
+  let hasInclusions = false;
+
+  for (const token of normalizeTokens(input)) {
+    if (!isValidToken(token)) {
+      result.invalid.push(token);
+      continue;
+    }
+    const isExclusion = token.startsWith("!");
+    const pages = expandToken(isExclusion ? token.slice(1) : token, pageCount);
+    if (!pages) {
+      result.outOfBounds.push(token);
+    } else if (isExclusion) {
+      pages.forEach((p) => excluded.add(p));
+    } else {
+      hasInclusions = true;
+      result.pages.push(...pages);
+    }
+  }
+
+  const base = hasInclusions || excluded.size === 0
+    ? result.pages
+    : Array.from({ length: pageCount }, (_, i) => i + 1);
+  result.pages = base.filter((p) => !excluded.has(p));
+  return result;
+};
+
+/** Compacts page numbers into the shortest range string, e.g. [1,2,3,7] -> "1-3,7". */
+export const formatPageRanges = (pages: Iterable<number>): string => {
+  const sorted = Array.from(new Set(pages)).sort((a, b) => a - b);
+  const parts: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    parts.push(start === sorted[i] ? `${start}` : `${start}-${sorted[i]}`);
+  }
+
+  return parts.join(",");
+};
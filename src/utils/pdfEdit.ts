@@ -0,0 +1,215 @@
+import type { PDFFont, PDFImage, PDFPage } from "pdf-lib";
+
+// Overlay elements of the PDF editor and the pdf-lib code that burns them in.
+// Coordinates are PDF points in the page as displayed (rotation applied),
+// measured from the top-left corner, i.e. pdf.js viewport space at scale 1.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+interface ElementBase {
+  id: string;
+  page: number;
+  color: string;
+}
+
+export interface TextElement extends ElementBase {
+  type: "text";
+  x: number;
+  y: number;
+  width: number;
+  text: string;
+  fontSize: number;
+}
+
+export interface ImageElement extends ElementBase {
+  type: "image";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** PNG or JPEG data URL */
+  src: string;
+}
+
+export interface BoxElement extends ElementBase {
+  type: "rect" | "highlight";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  strokeWidth: number;
+}
+
+export interface ArrowElement extends ElementBase {
+  type: "arrow";
+  from: Point;
+  to: Point;
+  strokeWidth: number;
+}
+
+export interface InkElement extends ElementBase {
+  type: "ink";
+  points: Point[];
+  strokeWidth: number;
+}
+
+export type EditElement = TextElement | ImageElement | BoxElement | ArrowElement | InkElement;
+
+export const TEXT_LINE_HEIGHT = 1.2;
+// Distance from the top of a text line to its baseline, as a share of the font size
+const TEXT_BASELINE = 0.95;
+const HIGHLIGHT_OPACITY = 0.4;
+
+/** Move an element by `dx`/`dy` points */
+export const translateElement = (element: EditElement, dx: number, dy: number): EditElement => {
+  switch (element.type) {
+    case "arrow":
+      return {
+        ...element,
+        from: { x: element.from.x + dx, y: element.from.y + dy },
+        to: { x: element.to.x + dx, y: element.to.y + dy },
+      };
+    case "ink":
+      return { ...element, points: element.points.map((p) => ({ x: p.x + dx, y: p.y + dy })) };
+    default:
+      return { ...element, x: element.x + dx, y: element.y + dy };
+  }
+};
+
+// The two short strokes of an arrowhead at `to`
+export const arrowHead = (from: Point, to: Point, strokeWidth: number): [Point, Point] => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const length = Math.max(10, strokeWidth * 4);
+  const spread = Math.PI / 7;
+  return [
+    { x: to.x - length * Math.cos(angle - spread), y: to.y - length * Math.sin(angle - spread) },
+    { x: to.x - length * Math.cos(angle + spread), y: to.y - length * Math.sin(angle + spread) },
+  ];
+};
+
+/** Greedy word wrap of `text` to `maxWidth`, keeping explicit line breaks */
+export const wrapText = (text: string, maxWidth: number, measure: (s: string) => number): string[] =>
+  text.split("\n").flatMap((paragraph) => {
+    const lines: string[] = [];
+    let line = "";
+    for (const word of paragraph.split(" ")) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measure(candidate) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+    return lines;
+  });
+
+const hexToRgb = async (hex: string) => {
+  const { rgb } = await import("pdf-lib");
+  const value = parseInt(hex.replace("#", ""), 16);
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+};
+
+// Maps displayed (viewport) points to PDF user space for one page
+const pageTransform = (page: PDFPage) => {
+  const { x: x0, y: y0, width, height } = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+
+  const toPdf = ({ x, y }: Point): Point => {
+    switch (rotation) {
+      case 90:
+        return { x: x0 + y, y: y0 + x };
+      case 180:
+        return { x: x0 + width - x, y: y0 + y };
+      case 270:
+        return { x: x0 + width - y, y: y0 + height - x };
+      default:
+        return { x: x0 + x, y: y0 + height - y };
+    }
+  };
+
+  return { toPdf, rotation };
+};
+
+/**
+ * Draw `elements` onto the PDF and return the new file. Everything is written
+ * as regular page content: text stays selectable and shapes stay vector.
+ */
+export const applyEdits = async (pdfBytes: ArrayBuffer, elements: EditElement[]): Promise<Uint8Array> => {
+  const { PDFDocument, StandardFonts, BlendMode, LineCapStyle, degrees } = await import("pdf-lib");
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const pages = pdfDoc.getPages();
+
+  let font: PDFFont | null = null;
+  const images = new Map<string, PDFImage>();
+
+  for (const element of elements) {
+    const page = pages[element.page - 1];
+    if (!page) continue;
+
+    const { toPdf, rotation } = pageTransform(page);
+    const rotate = degrees(rotation);
+    const color = await hexToRgb(element.color);
+
+    switch (element.type) {
+      case "text": {
+        font ??= await pdfDoc.embedFont(StandardFonts.Helvetica);
+        const measure = (s: string) => font!.widthOfTextAtSize(s, element.fontSize);
+        wrapText(element.text, element.width, measure).forEach((line, i) => {
+          const baseline = element.y + element.fontSize * (TEXT_BASELINE + i * TEXT_LINE_HEIGHT);
+          const { x, y } = toPdf({ x: element.x, y: baseline });
+          page.drawText(line, { x, y, size: element.fontSize, font: font!, color, rotate });
+        });
+        break;
+      }
+      case "image": {
+        let image = images.get(element.src);
+        if (!image) {
+          image = element.src.startsWith("data:image/png")
+            ? await pdfDoc.embedPng(element.src)
+            : await pdfDoc.embedJpg(element.src);
+          images.set(element.src, image);
+        }
+        const { x, y } = toPdf({ x: element.x, y: element.y + element.height });
+        page.drawImage(image, { x, y, width: element.width, height: element.height, rotate });
+        break;
+      }
+      case "rect":
+      case "highlight": {
+        const { x, y } = toPdf({ x: element.x, y: element.y + element.height });
+        page.drawRectangle(
+          element.type === "rect"
+            ? { x, y, width: element.width, height: element.height, rotate, borderColor: color, borderWidth: element.strokeWidth }
+            : { x, y, width: element.width, height: element.height, rotate, color, opacity: HIGHLIGHT_OPACITY, blendMode: BlendMode.Multiply }
+        );
+        break;
+      }
+      case "arrow":
+      case "ink": {
+        const segments: [Point, Point][] =
+          element.type === "arrow"
+            ? [
+                [element.from, element.to],
+                ...arrowHead(element.from, element.to, element.strokeWidth).map((p): [Point, Point] => [element.to, p]),
+              ]
+            : element.points.slice(1).map((p, i): [Point, Point] => [element.points[i], p]);
+        for (const [start, end] of segments) {
+          page.drawLine({
+            start: toPdf(start),
+            end: toPdf(end),
+            thickness: element.strokeWidth,
+            color,
+            lineCap: LineCapStyle.Round,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return pdfDoc.save();
+};
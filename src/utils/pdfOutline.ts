@@ -0,0 +1,122 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+
+// Bookmark tree used by the outline editor, plus pure helpers to edit it
+
+/** Shape sent to the backend: `page` is 1-based */
+export interface OutlineEntry {
+  title: string;
+  page: number;
+  children: OutlineEntry[];
+}
+
+export interface BookmarkNode extends OutlineEntry {
+  id: string;
+  children: BookmarkNode[];
+}
+
+let nextId = 0;
+export const createBookmark = (title: string, page: number): BookmarkNode => ({
+  id: `bookmark-${nextId++}`,
+  title,
+  page,
+  children: [],
+});
+
+type OutlineItem = Awaited<ReturnType<PDFDocumentProxy["getOutline"]>>[number];
+
+/**
+ * Read the existing outline. Destinations are resolved to 1-based pages;
+ * items that only open a link are dropped unless they have children, in
+ * which case they point at their first child's page.
+ */
+export const loadOutline = async (pdf: PDFDocumentProxy): Promise<BookmarkNode[]> => {
+  const resolvePage = async (item: OutlineItem): Promise<number | null> => {
+    try {
+      const dest = typeof item.dest === "string" ? await pdf.getDestination(item.dest) : item.dest;
+      const target = dest?.[0];
+      if (typeof target === "number") return target + 1;
+      if (target && typeof target === "object") return (await pdf.getPageIndex(target)) + 1;
+    } catch {
+      // Broken destinations are treated like link-only items
+    }
+    return null;
+  };
+
+  const convert = async (items: OutlineItem[]): Promise<BookmarkNode[]> => {
+    const nodes: BookmarkNode[] = [];
+    for (const item of items) {
+      const children = await convert(item.items ?? []);
+      const page = await resolvePage(item);
+      if (page === null && children.length === 0) continue;
+      nodes.push({ ...createBookmark(item.title, page ?? children[0].page), children });
+    }
+    return nodes;
+  };
+
+  return convert((await pdf.getOutline()) ?? []);
+};
+
+export const serializeOutline = (nodes: BookmarkNode[]): OutlineEntry[] =>
+  nodes.map(({ title, page, children }) => ({ title, page, children: serializeOutline(children) }));
+
+export const countBookmarks = (nodes: BookmarkNode[]): number =>
+  nodes.reduce((total, node) => total + 1 + countBookmarks(node.children), 0);
+
+// Apply `edit` to the sibling list that contains `id`
+const editSiblings = (
+  nodes: BookmarkNode[],
+  id: string,
+  edit: (siblings: BookmarkNode[], index: number) => BookmarkNode[]
+): BookmarkNode[] => {
+  const index = nodes.findIndex((node) => node.id === id);
+  if (index !== -1) return edit(nodes, index);
+  return nodes.map((node) => ({ ...node, children: editSiblings(node.children, id, edit) }));
+};
+
+export const updateBookmark = (
+  nodes: BookmarkNode[],
+  id: string,
+  changes: Partial<Pick<BookmarkNode, "title" | "page">>
+): BookmarkNode[] =>
+  editSiblings(nodes, id, (siblings, i) =>
+    siblings.map((node, j) => (j === i ? { ...node, ...changes } : node))
+  );
+
+export const removeBookmark = (nodes: BookmarkNode[], id: string): BookmarkNode[] =>
+  editSiblings(nodes, id, (siblings, i) => siblings.filter((_, j) => j !== i));
+
+export const addChildBookmark = (nodes: BookmarkNode[], id: string, child: BookmarkNode): BookmarkNode[] =>
+  editSiblings(nodes, id, (siblings, i) =>
+    siblings.map((node, j) => (j === i ? { ...node, children: [...node.children, child] } : node))
+  );
+
+// Swap with the previous (-1) or next (1) sibling
+export const moveBookmark = (nodes: BookmarkNode[], id: string, direction: -1 | 1): BookmarkNode[] =>
+  editSiblings(nodes, id, (siblings, i) => {
+    const target = i + direction;
+    if (target < 0 || target >= siblings.length) return siblings;
+    const reordered = [...siblings];
+    [reordered[i], reordered[target]] = [reordered[target], reordered[i]];
+    return reordered;
+  });
+
+// Make the bookmark the last child of its previous sibling
+export const indentBookmark = (nodes: BookmarkNode[], id: string): BookmarkNode[] =>
+  editSiblings(nodes, id, (siblings, i) => {
+    if (i === 0) return siblings;
+    const previous = siblings[i - 1];
+    const indented = { ...previous, children: [...previous.children, siblings[i]] };
+    return [...siblings.slice(0, i - 1), indented, ...siblings.slice(i + 1)];
+  });
+
+// Move the bookmark out of its parent, directly after it
+export const outdentBookmark = (nodes: BookmarkNode[], id: string): BookmarkNode[] => {
+  for (const [i, node] of nodes.entries()) {
+    const childIndex = node.children.findIndex((child) => child.id === id);
+    if (childIndex !== -1) {
+      const parent = { ...node, children: node.children.filter((_, j) => j !== childIndex) };
+      return [...nodes.slice(0, i), parent, node.children[childIndex], ...nodes.slice(i + 1)];
+    }
+  }
+  return nodes.map((node) => ({ ...node, children: outdentBookmark(node.children, id) }));
+};
@@ -0,0 +1,87 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import type { DocumentInitParameters } from "pdfjs-dist/types/src/display/api";
+
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+// Shared pdf.js helpers for tools that preview or rasterize PDF pages.
+// The pdf.js worker is bundled by Vite next to the app, so it always matches
+// the installed pdfjs-dist and works without a CDN.
+
+/** The pdf.js worker could not be started; the message is safe to show as is */
+export class PdfWorkerError extends Error {}
+
+type PdfJs = typeof import("pdfjs-dist");
+
+let engine: Promise<{ pdfjs: PdfJs; worker: InstanceType<PdfJs["PDFWorker"]> }> | null = null;
+
+// One worker is started on first use and shared by every document
+const loadEngine = () => {
+  engine ??= (async () => {
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+    const worker = new pdfjs.PDFWorker();
+    try {
+      await worker.promise;
+    } catch (err) {
+      console.error('Could not start the pdf.js worker:', err);
+      worker.destroy();
+      throw new PdfWorkerError(
+        'The PDF engine could not start in this browser. Reload the page and try again, or try another browser.'
+      );
+    }
+    return { pdfjs, worker };
+  })().catch((err) => {
+    // Let the next attempt start over, e.g. after a flaky network load
+    engine = null;
+    throw err;
+  });
+  return engine;
+};
+
+/** `options` are extra getDocument parameters, e.g. canvas factories for rendering off the DOM */
+export const loadPdfDocument = async (
+  data: ArrayBuffer | Uint8Array,
+  options: Omit<DocumentInitParameters, 'data' | 'worker'> = {}
+): Promise<PDFDocumentProxy> => {
+  const { pdfjs, worker } = await loadEngine();
+
+  const typedArray = data instanceof Uint8Array ? data : new Uint8Array(data);
+  return pdfjs.getDocument({ ...options, data: typedArray, worker }).promise;
+};
+
+/** The message to show for a failed PDF load: worker problems win over the tool's own `fallback` */
+export const pdfLoadErrorMessage = (err: unknown, fallback: string) =>
+  err instanceof PdfWorkerError ? err.message : fallback;
+
+/**
+ * Render a 1-based page onto a fresh canvas.
+ * Pass `scale` for a fixed zoom, or `{ width }` to fit the page to a pixel width.
+ */
+export const renderPageToCanvas = async (
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  size: number | { width: number }
+): Promise<HTMLCanvasElement> => {
+  const page = await pdf.getPage(pageNumber);
+  const scale = typeof size === 'number'
+    ? size
+    : size.width / page.getViewport({ scale: 1 }).width;
+  const viewport = page.getViewport({ scale });
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context');
+
+  canvas.height = viewport.height;
+  canvas.width = viewport.width;
+
+  await page.render({
+    canvasContext: context,
+    canvas: canvas,
+    viewport: viewport
+  }).promise;
+
+  page.cleanup();
+  return canvas;
+};
@@ -0,0 +1,293 @@
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist";
+
+// Text extraction on top of pdf.js getTextContent, grouped into lines and blocks
+
+type TextContentItem = Awaited<ReturnType<PDFPageProxy["getTextContent"]>>["items"][number];
+type TextItem = Extract<TextContentItem, { str: string }>;
+
+/** Coordinates are in PDF points from the top-left corner of the page */
+export interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Horizontally separate run of text within a line */
+export interface TextSpan {
+  text: string;
+  x: number;
+  width: number;
+}
+
+export interface TextLine extends TextBox {
+  text: string;
+  fontSize: number;
+  spans: TextSpan[];
+}
+
+export interface TextBlock extends TextBox {
+  text: string;
+  lines: TextLine[];
+}
+
+export interface PageText {
+  pageNumber: number;
+  width: number;
+  height: number;
+  blocks: TextBlock[];
+  text: string;
+}
+
+const multiply = (m: number[], n: number[]): number[] => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+const union = (boxes: TextBox[]): TextBox => {
+  const left = Math.min(...boxes.map((b) => b.x));
+  const top = Math.min(...boxes.map((b) => b.y));
+  const right = Math.max(...boxes.map((b) => b.x + b.width));
+  const bottom = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Extract the text of a 1-based page. Items are kept in content-stream order,
+ * which is the producer's reading order, and split into lines wherever the
+ * baseline moves or pdf.js reports an end of line. Lines separated by more
+ * than one and a half line heights, or set in a different font size, start
+ * a new block.
+ */
+export const extractPageText = async (pdf: PDFDocumentProxy, pageNumber: number): Promise<PageText> => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+
+  const lines: TextLine[] = [];
+  let current: {
+    parts: string[];
+    boxes: TextBox[];
+    spans: TextSpan[];
+    baseline: number;
+    fontSize: number;
+    end: number;
+  } | null = null;
+
+  const closeLine = () => {
+    if (current) {
+      const text = current.parts.join("").replace(/\s+$/, "");
+      const spans = current.spans
+        .map((span) => ({ text: span.text.trim(), x: round(span.x), width: round(span.width) }))
+        .filter((span) => span.text);
+      if (text) lines.push({ text, fontSize: current.fontSize, spans, ...union(current.boxes) });
+    }
+    current = null;
+  };
+
+  for (const item of content.items) {
+    if (!("str" in item)) continue;
+    const { str, hasEOL } = item as TextItem;
+    const [, , c, d, x, baseline] = multiply(viewport.transform, item.transform);
+    const fontSize = Math.hypot(c, d) || item.height;
+    const box = { x, y: baseline - fontSize, width: item.width, height: fontSize };
+
+    if (!str.trim()) {
+      // pdf.js emits synthetic whitespace items that bridge gaps between runs
+      if (str && current && !/\s$/.test(current.parts[current.parts.length - 1])) current.parts.push(" ");
+    } else {
+      const sameLine = current && Math.abs(current.baseline - baseline) < current.fontSize * 0.5;
+      if (!sameLine) closeLine();
+
+      if (current) {
+        const gap = x - current.end;
+        const previous = current.parts[current.parts.length - 1];
+        // pdf.js drops most spaces between separately positioned runs
+        if (gap > fontSize * 0.15 && !/\s$/.test(previous) && !/^\s/.test(str)) {
+          current.parts.push(" ");
+        }
+        const span = current.spans[current.spans.length - 1];
+        if (gap > fontSize * 0.15) {
+          current.spans.push({ text: str, x, width: item.width });
+        } else {
+          span.text += str;
+          span.width = x + item.width - span.x;
+        }
+        current.parts.push(str);
+        current.boxes.push(box);
+        current.end = x + item.width;
+      } else {
+        current = {
+          parts: [str],
+          boxes: [box],
+          spans: [{ text: str, x, width: item.width }],
+          baseline,
+          fontSize,
+          end: x + item.width,
+        };
+      }
+    }
+    if (hasEOL) closeLine();
+  }
+  closeLine();
+
+  const blocks: TextBlock[] = [];
+  let blockLines: TextLine[] = [];
+  const closeBlock = () => {
+    if (blockLines.length === 0) return;
+    const box = union(blockLines);
+    blocks.push({
+      text: blockLines.map((l) => l.text).join("\n"),
+      lines: blockLines,
+      x: round(box.x),
+      y: round(box.y),
+      width: round(box.width),
+      height: round(box.height),
+    });
+    blockLines = [];
+  };
+
+  for (const line of lines) {
+    const previous = blockLines[blockLines.length - 1];
+    if (previous) {
+      const gap = line.y - (previous.y + previous.height);
+      const jumpedBack = line.y + line.height < previous.y;
+      const resized = Math.abs(line.fontSize - previous.fontSize) > previous.fontSize * 0.2;
+      if (gap > previous.height * 1.5 || jumpedBack || resized) closeBlock();
+    }
+    blockLines.push({
+      ...line,
+      x: round(line.x),
+      y: round(line.y),
+      width: round(line.width),
+      height: round(line.height),
+      fontSize: round(line.fontSize),
+    });
+  }
+  closeBlock();
+
+  page.cleanup();
+  return {
+    pageNumber,
+    width: round(viewport.width),
+    height: round(viewport.height),
+    blocks,
+    text: blocks.map((b) => b.text).join("\n\n"),
+  };
+};
+
+export const pagesToPlainText = (pages: PageText[]): string =>
+  pages.map((p) => `--- Page ${p.pageNumber} ---\n\n${p.text}`).join("\n\n") + "\n";
+
+export const pagesToJson = (pages: PageText[]): string =>
+  JSON.stringify(
+    { pages: pages.map(({ pageNumber, width, height, blocks }) => ({ page: pageNumber, width, height, blocks })) },
+    null,
+    2
+  );
+
+// Median font size of a page's lines, i.e. its body text size
+export const bodyFontSize = (page: PageText): number => {
+  const sizes = page.blocks.flatMap((b) => b.lines.map((l) => l.fontSize)).sort((a, b) => a - b);
+  return sizes[Math.floor(sizes.length / 2)] ?? 0;
+};
+
+/** 1 or 2 for short blocks set noticeably larger than the body text, otherwise 0 */
+export const headingLevel = (block: TextBlock, bodySize: number): 0 | 1 | 2 => {
+  if (block.lines.length > 2) return 0;
+  const size = Math.max(...block.lines.map((l) => l.fontSize));
+  if (size >= bodySize * 1.6) return 1;
+  if (size >= bodySize * 1.25) return 2;
+  return 0;
+};
+
+export const pagesToMarkdown = (pages: PageText[]): string =>
+  pages
+    .map((p) => {
+      const bodySize = bodyFontSize(p);
+      const body = p.blocks
+        .map((b) => {
+          const level = headingLevel(b, bodySize);
+          if (level > 0) return `${"#".repeat(level + 1)} ${b.text.replace(/\n/g, " ")}`;
+          // Two trailing spaces keep the original line breaks
+          return b.text.replace(/\n/g, "  \n");
+        })
+        .join("\n\n");
+      return `# Page ${p.pageNumber}\n\n${body}`;
+    })
+    .join("\n\n---\n\n") + "\n";
+
+export interface TextTable {
+  rows: string[][];
+}
+
+/**
+ * Find tables on a page: runs of two or more consecutive lines that split into
+ * at least two cells at wide gaps. Columns are the overlapping x ranges of the
+ * cells, so both left- and right-aligned columns are recognised.
+ */
+export const detectTables = (page: PageText): TextTable[] => {
+  const lines = page.blocks.flatMap((b) => b.lines);
+
+  // Spans closer than one em belong to the same cell
+  const cellsOf = (line: TextLine) =>
+    line.spans.reduce<TextSpan[]>((cells, span) => {
+      const last = cells[cells.length - 1];
+      if (last && span.x - (last.x + last.width) < line.fontSize) {
+        last.text += ` ${span.text}`;
+        last.width = span.x + span.width - last.x;
+      } else {
+        cells.push({ ...span });
+      }
+      return cells;
+    }, []);
+
+  const toTable = (rows: TextSpan[][]): TextTable | null => {
+    const columns = rows
+      .flat()
+      .map((cell) => ({ start: cell.x, end: cell.x + cell.width }))
+      .sort((a, b) => a.start - b.start)
+      .reduce<{ start: number; end: number }[]>((merged, range) => {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+        else merged.push({ ...range });
+        return merged;
+      }, []);
+    if (columns.length < 2) return null;
+
+    return {
+      rows: rows.map((cells) => {
+        const row = columns.map(() => "");
+        for (const cell of cells) {
+          const center = cell.x + cell.width / 2;
+          const column = columns.findIndex((c) => center >= c.start && center <= c.end);
+          row[column] = row[column] ? `${row[column]} ${cell.text}` : cell.text;
+        }
+        return row;
+      }),
+    };
+  };
+
+  const tables: TextTable[] = [];
+  let run: TextSpan[][] = [];
+  const closeRun = () => {
+    const table = run.length >= 2 ? toTable(run) : null;
+    if (table) tables.push(table);
+    run = [];
+  };
+
+  for (const line of lines) {
+    const cells = cellsOf(line);
+    if (cells.length >= 2) run.push(cells);
+    else closeRun();
+  }
+  closeRun();
+
+  return tables;
+};
@@ -0,0 +1,167 @@
+import { loadPdfDocument, PdfWorkerError } from "./pdfRender";
+
+// Renders PDF pages to image Blobs off the main thread for PDF to Images.
+// Pages are drawn one at a time on an OffscreenCanvas that is released
+// before the next page, so memory stays bounded by the largest page and a
+// conversion is cancelled by terminating the worker.
+
+export interface PdfToImagesRequest {
+  data: ArrayBuffer;
+  pages: number[];
+  dpi: number;
+  mimeType: string;
+  /** 0-1, used by JPEG and WebP */
+  quality: number;
+}
+
+export type PdfToImagesMessage =
+  | {
+      type: "page";
+      pageNumber: number;
+      blob: Blob;
+      thumbnail: Blob;
+      width: number;
+      height: number;
+      /** Lower than requested when the page was too large for a canvas */
+      dpi: number;
+    }
+  | { type: "done" }
+  | {
+      type: "error";
+      message: string;
+      /** The pdf.js worker didn't start; `message` explains it to the user */
+      engineFailed: boolean;
+      /** A page didn't fit in memory; the server can still render it */
+      outOfMemory: boolean;
+    };
+
+// PDF sizes are in points, 72 per inch
+const POINTS_PER_INCH = 72;
+const THUMBNAIL_WIDTH = 240;
+// Largest canvas browsers reliably allocate
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 8192;
+
+// pdf.js creates its scratch canvases through these; the defaults need a document
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext("2d", { willReadFrequently: true }) };
+  }
+
+  reset(canvasAndContext: { canvas: OffscreenCanvas }, width: number, height: number) {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+// Transfer-function filters need SVG in a document; render without them
+class NoFilterFactory {
+  addFilter() {
+    return "none";
+  }
+  addHCMFilter() {
+    return "none";
+  }
+  addAlphaFilter() {
+    return "none";
+  }
+  addLuminosityFilter() {
+    return "none";
+  }
+  addHighlightHCMFilter() {
+    return "none";
+  }
+  destroy() {}
+}
+
+// Browsers report failed allocations as RangeErrors or by message
+const isOutOfMemory = (error: unknown) =>
+  error instanceof RangeError || (error instanceof Error && /out of memory|allocation failed/i.test(error.message));
+
+const worker = self as unknown as Worker;
+const post = (message: PdfToImagesMessage) => worker.postMessage(message);
+
+const renderPages = async ({ data, pages, dpi, mimeType, quality }: PdfToImagesRequest) => {
+  const pdf = await loadPdfDocument(data, {
+    CanvasFactory: OffscreenCanvasFactory,
+    FilterFactory: NoFilterFactory,
+    // Fonts load through the document's FontFaceSet; draw glyphs as paths where workers have none
+    disableFontFace: !("fonts" in self),
+    ownerDocument: ("fonts" in self ? { fonts: (self as unknown as { fonts: FontFaceSet }).fonts } : undefined) as Document | undefined,
+  });
+
+  for (const pageNumber of pages) {
+    const page = await pdf.getPage(pageNumber);
+    const size = page.getViewport({ scale: 1 });
+    const scale = Math.min(
+      dpi / POINTS_PER_INCH,
+      MAX_CANVAS_SIDE / size.width,
+      MAX_CANVAS_SIDE / size.height,
+      Math.sqrt(MAX_CANVAS_AREA / (size.width * size.height))
+    );
+    const viewport = page.getViewport({ scale });
+
+    const canvas = new OffscreenCanvas(Math.floor(viewport.width), Math.floor(viewport.height));
+    const context = canvas.getContext("2d");
+    // A canvas that can't be allocated comes back without a context
+    if (!context) throw new RangeError(`Out of memory for a ${canvas.width} × ${canvas.height} px page`);
+    await page.render({
+      canvasContext: context as unknown as CanvasRenderingContext2D,
+      canvas: canvas as unknown as HTMLCanvasElement,
+      viewport,
+    }).promise;
+    page.cleanup();
+
+    const blob = await canvas.convertToBlob({ type: mimeType, quality });
+
+    const thumbnailCanvas = new OffscreenCanvas(
+      THUMBNAIL_WIDTH,
+      Math.max(1, Math.round((canvas.height * THUMBNAIL_WIDTH) / canvas.width))
+    );
+    thumbnailCanvas.getContext("2d")!.drawImage(canvas, 0, 0, thumbnailCanvas.width, thumbnailCanvas.height);
+    const thumbnail = await thumbnailCanvas.convertToBlob({ type: "image/jpeg", quality: 0.7 });
+
+    post({
+      type: "page",
+      pageNumber,
+      blob,
+      thumbnail,
+      width: canvas.width,
+      height: canvas.height,
+      dpi: Math.round(scale * POINTS_PER_INCH),
+    });
+
+    // Release the bitmaps now rather than whenever the garbage collector runs
+    canvas.width = 0;
+    canvas.height = 0;
+    thumbnailCanvas.width = 0;
+    thumbnailCanvas.height = 0;
+  }
+
+  await pdf.destroy();
+};
+
+worker.onmessage = async (event: MessageEvent<PdfToImagesRequest>) => {
+  try {
+    await renderPages(event.data);
+    post({ type: "done" });
+  } catch (error) {
+    console.error("Error rendering PDF pages:", error);
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+      engineFailed: error instanceof PdfWorkerError,
+      outOfMemory: isOutOfMemory(error),
+    });
+  }
+};
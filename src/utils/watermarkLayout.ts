@@ -0,0 +1,77 @@
+// Client-side mirror of the layout in backend/utils/watermark.js, used to
+// draw the watermark preview. Angles are counter-clockwise degrees and
+// positions are measured from the top-left corner.
+
+export type WatermarkPosition =
+  | "top-left"
+  | "top-center"
+  | "top-right"
+  | "middle-left"
+  | "center"
+  | "middle-right"
+  | "bottom-left"
+  | "bottom-center"
+  | "bottom-right"
+  | "tiled"
+  | "diagonal";
+
+/** The nine anchors in reading order, for a 3×3 picker */
+export const WATERMARK_ANCHORS: WatermarkPosition[] = [
+  "top-left",
+  "top-center",
+  "top-right",
+  "middle-left",
+  "center",
+  "middle-right",
+  "bottom-left",
+  "bottom-center",
+  "bottom-right",
+];
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+/** Angle the watermark is drawn at; the diagonal overrides the chosen rotation */
+export const watermarkAngle = (position: WatermarkPosition, rotation: number, area: Size) =>
+  position === "diagonal" ? (Math.atan2(area.height, area.width) * 180) / Math.PI : rotation;
+
+/** Size of the box that holds a width × height rectangle rotated by `angle` */
+export const rotatedSize = (width: number, height: number, angle: number): Size => {
+  const cos = Math.abs(Math.cos((angle * Math.PI) / 180));
+  const sin = Math.abs(Math.sin((angle * Math.PI) / 180));
+  return { width: width * cos + height * sin, height: width * sin + height * cos };
+};
+
+/** Top-left corners of every copy of a `box`-sized watermark; tiles may stick out past the edges */
+export const watermarkPlacements = (
+  position: WatermarkPosition,
+  box: Size,
+  area: Size,
+  margin: number
+): { left: number; top: number }[] => {
+  if (position === "tiled") {
+    const stepX = box.width + Math.max(margin, 1);
+    const stepY = box.height + Math.max(margin, 1);
+    const corners = [];
+    for (let row = 0, top = margin / 2; top < area.height; row++, top += stepY) {
+      // Every other row is shifted by half a tile, like bricks
+      for (let left = row % 2 ? margin / 2 - stepX / 2 : margin / 2; left < area.width; left += stepX) {
+        corners.push({ left, top });
+      }
+    }
+    return corners;
+  }
+  if (position === "diagonal" || position === "center") {
+    return [{ left: (area.width - box.width) / 2, top: (area.height - box.height) / 2 }];
+  }
+
+  const [vertical, horizontal] = position.split("-");
+  return [
+    {
+      left: horizontal === "left" ? margin : horizontal === "right" ? area.width - box.width - margin : (area.width - box.width) / 2,
+      top: vertical === "top" ? margin : vertical === "bottom" ? area.height - box.height - margin : (area.height - box.height) / 2,
+    },
+  ];
+};
@@ -4,6 +4,10 @@ import react from '@vitejs/plugin-react';
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // PDF to Images renders in a module worker that lazy-loads pdf.js
+  worker: {
+    format: 'es',
+  },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },